@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Architecture Engine Tests
+ * Verifies layer order, shared layers, forbidden edges and config errors
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "node:path";
+import { ArchitectureEngine } from "../../../engines/architecture-engine.ts";
+
+describe("ArchitectureEngine", () => {
+  let directory;
+  let write;
+
+  const writeConfig = (architecture) =>
+    write("sidequest.config.json", JSON.stringify({ architecture }));
+
+  const check = async () => {
+    const result = await new ArchitectureEngine().execute(directory);
+    return result.violations.map((violation) => ({
+      file: path.relative(directory, violation.file),
+      rule: violation.rule,
+      message: violation.message,
+    }));
+  };
+
+  beforeEach(() => {
+    ({ directory, write } = createTempProject("sidequest-architecture-"));
+    write("tsconfig.json", JSON.stringify({ include: ["src"] }));
+    write("src/utils/format.ts", "export const format = String;\n");
+    write("src/database/db.ts", 'import "../utils/format";\nexport {};\n');
+    write("src/services/users.ts", 'import "../database/db";\nexport {};\n');
+    write("src/ui/page.ts", 'import "../services/users";\nexport {};\n');
+  });
+
+  it("should allow imports that follow the layer order", async () => {
+    writeConfig({
+      layers: {
+        ui: ["src/ui"],
+        services: ["src/services/**"],
+        database: ["src/database/*.ts"],
+        shared: ["src/utils"],
+      },
+      order: "ui -> services -> database",
+      shared: ["shared"],
+    });
+
+    expect(await check()).toEqual([]);
+  });
+
+  it("should report imports against the layer order", async () => {
+    writeConfig({
+      layers: { ui: ["src/ui"], services: ["src/services"] },
+      order: ["ui", "services"],
+    });
+    write("src/services/render.ts", 'import "../ui/page";\nexport {};\n');
+
+    expect(await check()).toEqual([
+      {
+        file: "src/services/render.ts",
+        rule: "layer-boundary",
+        message: expect.stringMatching(
+          /^Layer 'services' must not import layer 'ui': /,
+        ),
+      },
+    ]);
+  });
+
+  it("should report forbidden edges by layer name or glob", async () => {
+    writeConfig({
+      layers: { ui: ["src/ui"], database: ["src/database"] },
+      forbidden: [
+        { from: "ui", to: "src/services/**", reason: "go through the API" },
+      ],
+    });
+
+    const [violation] = await check();
+
+    expect(violation.file).toBe("src/ui/page.ts");
+    expect(violation.rule).toBe("forbidden-import");
+    expect(violation.message).toMatch(/\(go through the API\)$/);
+  });
+
+  it("should report missing and invalid rules as setup issues", async () => {
+    expect((await check()).map((violation) => violation.rule)).toEqual([
+      "ARCHITECTURE-SETUP-001",
+    ]);
+
+    writeConfig({ layers: { ui: ["src/ui"] }, order: ["ui", "api"] });
+    const [violation] = await check();
+
+    expect(violation.rule).toBe("ARCHITECTURE-SETUP-002");
+    expect(violation.message).toContain("Unknown layer 'api'");
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Circular Dependency Engine Tests
+ * Verifies tsconfig path resolution, cycle chains and the engine's options
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "node:path";
+import { CircularDependencyEngine } from "../../../engines/circular-dependency-engine.ts";
+
+describe("CircularDependencyEngine", () => {
+  let directory;
+  let write;
+
+  const findCycles = async (options = {}) => {
+    const engine = new CircularDependencyEngine({ options });
+    const result = await engine.execute(directory);
+    expect(result.success).toBe(true);
+    return result.violations.map((violation) =>
+      violation.cycle.map((file) => path.basename(file)),
+    );
+  };
+
+  beforeEach(() => {
+    ({ directory, write } = createTempProject("sidequest-cycles-"));
+    write("tsconfig.json", {
+      compilerOptions: {
+        module: "ESNext",
+        moduleResolution: "bundler",
+        baseUrl: ".",
+        paths: { "@/*": ["src/*"] },
+      },
+      include: ["src"],
+    });
+    // a → b (alias) → c (.js specifier) ⇢ a (type-only)
+    write("src/a.ts", 'import { b } from "@/b";\nexport const a = b;\n');
+    write("src/b.ts", 'import { c } from "./c.js";\nexport const b = c;\n');
+    write(
+      "src/c.ts",
+      'import type { a } from "./a";\nexport const c = 1;\nexport type A = typeof a;\n',
+    );
+    // d ↔ e at runtime
+    write("src/d.ts", 'import "./e";\nexport const d = 1;\n');
+    write("src/e.ts", 'export { d } from "./d";\n');
+  });
+
+  it("should report runtime cycles with their full chain", async () => {
+    const engine = new CircularDependencyEngine();
+    const { violations } = await engine.execute(directory);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      line: 1,
+      category: "circular-dependency",
+      source: "circular-dependency",
+      rule: "import-cycle",
+    });
+    expect(violations[0].message).toMatch(
+      /^Import cycle: .*src\/d\.ts → .*src\/e\.ts → .*src\/d\.ts$/,
+    );
+  });
+
+  it("should follow paths aliases and type-only imports when asked", async () => {
+    expect(await findCycles({ ignoreTypeOnly: false })).toEqual([
+      ["a.ts", "b.ts", "c.ts"],
+      ["d.ts", "e.ts"],
+    ]);
+  });
+
+  it("should skip cycles longer than the maximum length", async () => {
+    expect(
+      await findCycles({ ignoreTypeOnly: false, maxCycleLength: 2 }),
+    ).toEqual([["d.ts", "e.ts"]]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Clone Detector Tests
+ * Verifies exact and renamed clone classes, nesting, thresholds and the
+ * archaeology violations built from them
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import ts from "typescript";
+import { detectSourceClones } from "../../../engines/clone-detector.ts";
+import { CodeArchaeologyEngine } from "../../../engines/code-archaeology-engine.ts";
+
+const summarize = (items, names) =>
+  [
+    "export function summarize(items: Item[]): Summary {",
+    `  const ${names[0]} = items.filter((item) => item.active);`,
+    `  let ${names[1]} = 0;`,
+    `  for (const item of ${names[0]}) {`,
+    `    ${names[1]} += item.price * item.quantity;`,
+    "  }",
+    `  return { count: ${names[0]}.length, total: ${names[1]}, label: "${items}" };`,
+    "}",
+    "",
+  ].join("\n");
+
+describe("detectSourceClones", () => {
+  it("should report exact clones across files once, not their nested blocks", () => {
+    const source = summarize("items", ["active", "total"]);
+    const clones = detectSourceClones(
+      ts,
+      [
+        { fileName: "src/a.ts", text: source },
+        { fileName: "src/b.ts", text: `// copy\n${source}` },
+        { fileName: "src/c.ts", text: "export const unrelated = 1;\n" },
+      ],
+      { minTokens: 20 },
+    );
+
+    expect(clones).toEqual([
+      {
+        id: expect.any(String),
+        kind: "exact",
+        members: [
+          { file: "src/a.ts", startLine: 1, endLine: 8 },
+          { file: "src/b.ts", startLine: 2, endLine: 9 },
+        ],
+        tokenCount: expect.any(Number),
+        similarity: 100,
+      },
+    ]);
+    expect(clones[0].tokenCount).toBeGreaterThanOrEqual(20);
+  });
+
+  it("should find renamed clones with a similarity score", () => {
+    const sources = [
+      { fileName: "a.ts", text: summarize("items", ["active", "total"]) },
+      { fileName: "b.ts", text: summarize("orders", ["open", "sum"]) },
+    ];
+
+    const [clone, ...rest] = detectSourceClones(ts, sources, {
+      minTokens: 20,
+    });
+    expect(rest).toEqual([]);
+    expect(clone).toMatchObject({ kind: "structural" });
+    expect(clone.similarity).toBeGreaterThan(70);
+    expect(clone.similarity).toBeLessThan(100);
+
+    expect(
+      detectSourceClones(ts, sources, { minTokens: 20, minSimilarity: 0.99 }),
+    ).toEqual([]);
+  });
+
+  it("should ignore fragments below the size limits or with other structure", () => {
+    const clones = detectSourceClones(ts, [
+      { fileName: "a.ts", text: summarize("items", ["active", "total"]) },
+      {
+        fileName: "b.ts",
+        text: "export function other(items: Item[]) {\n  return items.map((item) => item.id);\n}\n",
+      },
+    ]);
+
+    expect(clones).toEqual([]);
+  });
+});
+
+describe("CodeArchaeologyEngine duplication analysis", () => {
+  let directory;
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should report every clone member with its clone class", async () => {
+    directory = mkdtempSync(path.join(tmpdir(), "sidequest-clones-"));
+    mkdirSync(path.join(directory, "src"));
+    writeFileSync(
+      path.join(directory, "src/a.ts"),
+      summarize("items", ["active", "total"]),
+    );
+    writeFileSync(
+      path.join(directory, "src/b.ts"),
+      summarize("orders", ["open", "sum"]),
+    );
+
+    const engine = new CodeArchaeologyEngine({
+      enabled: true,
+      options: {
+        targetPath: directory,
+        deadCode: { enabled: false },
+        duplication: { enabled: true, minTokens: 20 },
+      },
+    });
+    const { violations } = await engine.execute(directory);
+
+    expect(violations).toHaveLength(2);
+    const members = violations[0].metadata.cloneClass.members;
+    expect(members.map((member) => path.basename(member.file))).toEqual([
+      "a.ts",
+      "b.ts",
+    ]);
+    expect(violations[0]).toMatchObject({
+      category: "code-duplication",
+      code: "Duplicated code block (8 lines)",
+      duplicateFiles: [members[1].file],
+      metadata: { duplicationType: "structural" },
+    });
+    expect(violations[1].metadata.cloneClass).toEqual(
+      violations[0].metadata.cloneClass,
+    );
+  });
+});
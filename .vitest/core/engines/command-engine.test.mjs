@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Command Engine Tests
+ * Verifies each output parser, category mapping and command failures
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import path from "node:path";
+import { CommandEngine } from "../../../engines/command-engine.ts";
+import { CommandToolSchema } from "../../../utils/validation-schemas.ts";
+import {
+  initializeDatabase,
+  closeDatabase,
+} from "../../../database/connection.ts";
+import { StorageService } from "../../../services/storage-service.ts";
+
+describe("CommandEngine", () => {
+  let directory;
+  let write;
+
+  const run = async (...commands) => {
+    const engine = new CommandEngine({
+      options: {
+        commands: commands.map((command) => ({ cwd: directory, ...command })),
+      },
+    });
+    const result = await engine.execute(directory);
+    return result.violations.map((violation) => ({
+      ...violation,
+      file: path.relative(directory, path.resolve(violation.file)),
+    }));
+  };
+
+  beforeEach(() => {
+    ({ directory, write } = createTempProject("sidequest-commands-"));
+  });
+
+  it("should map ESLint JSON findings with categories and source", async () => {
+    write(
+      "report.json",
+      JSON.stringify([
+        {
+          filePath: path.join(directory, "src/app.css"),
+          messages: [
+            {
+              ruleId: "color-no-invalid-hex",
+              severity: 2,
+              message: "Unexpected invalid hex color",
+              line: 3,
+              column: 9,
+            },
+            {
+              ruleId: "max-nesting",
+              severity: 1,
+              message: "Too deep",
+              line: 7,
+            },
+          ],
+        },
+      ]),
+    );
+
+    const violations = await run({
+      name: "stylelint",
+      command: "cat report.json; exit 2",
+      parser: "eslint-json",
+      source: "custom",
+      category: "best-practices",
+      categories: { "color-*": "style" },
+    });
+
+    expect(violations).toMatchObject([
+      {
+        file: "src/app.css",
+        line: 3,
+        column: 9,
+        severity: "error",
+        category: "style",
+        source: "custom",
+        rule: "color-no-invalid-hex",
+      },
+      { line: 7, severity: "warn", category: "best-practices" },
+    ]);
+  });
+
+  it("should read SARIF reports from an output file", async () => {
+    write(
+      "results.sarif",
+      JSON.stringify({
+        version: "2.1.0",
+        runs: [
+          {
+            tool: {
+              driver: {
+                rules: [
+                  { id: "no-eval", defaultConfiguration: { level: "error" } },
+                ],
+              },
+            },
+            results: [
+              {
+                ruleIndex: 0,
+                message: { text: "eval is evil" },
+                locations: [
+                  {
+                    physicalLocation: {
+                      artifactLocation: { uri: "lib/run.js" },
+                      region: { startLine: 12, startColumn: 3 },
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      }),
+    );
+
+    const [violation] = await run({
+      name: "scanner",
+      command: "true",
+      parser: "sarif",
+      outputFile: "results.sarif",
+      source: "architecture",
+      category: "security",
+    });
+
+    expect(violation).toMatchObject({
+      file: "lib/run.js",
+      line: 12,
+      rule: "no-eval",
+      severity: "error",
+      source: "architecture",
+      message: "eval is evil",
+    });
+  });
+
+  it("should parse checkstyle XML and regex output", async () => {
+    write(
+      "checkstyle.xml",
+      `<?xml version="1.0"?>
+<checkstyle version="4.3">
+  <file name="src/a.scss">
+    <error line="4" column="1" severity="warning" message="Expected &quot;a&quot; &amp; b" source="order/order"/>
+  </file>
+  <file name="src/clean.scss"/>
+</checkstyle>`,
+    );
+    write("script.txt", "src/util.ts:10: error [no-todo] Remove TODO\nok\n");
+
+    const violations = await run(
+      {
+        name: "stylelint",
+        command: "cat checkstyle.xml",
+        parser: "checkstyle",
+      },
+      {
+        name: "todo-check",
+        command: "cat script.txt",
+        parser: {
+          type: "regex",
+          pattern: String.raw`^(?<file>[^:]+):(?<line>\d+): (?<severity>\w+) \[(?<rule>[\w-]+)\] (?<message>.+)$`,
+        },
+      },
+    );
+
+    expect(violations).toMatchObject([
+      {
+        file: "src/a.scss",
+        line: 4,
+        severity: "warn",
+        rule: "order/order",
+        message: 'Expected "a" & b',
+      },
+      {
+        file: "src/util.ts",
+        line: 10,
+        severity: "error",
+        rule: "no-todo",
+        message: "Remove TODO",
+      },
+    ]);
+  });
+
+  it("should only accept known violation categories", () => {
+    const tool = { name: "scanner", command: "true", parser: "sarif" };
+
+    expect(
+      CommandToolSchema.safeParse({ ...tool, category: "security" }).success,
+    ).toBe(true);
+    expect(
+      CommandToolSchema.safeParse({ ...tool, category: "stylistic" }).success,
+    ).toBe(false);
+    expect(
+      CommandToolSchema.safeParse({
+        ...tool,
+        categories: { "color-*": "colours" },
+      }).success,
+    ).toBe(false);
+  });
+
+  it("should store findings under a source the database accepts", async () => {
+    expect(
+      CommandToolSchema.safeParse({
+        name: "scanner",
+        command: "true",
+        parser: "sarif",
+        source: "security",
+      }).success,
+    ).toBe(false);
+
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await initializeDatabase({
+      path: path.join(directory, "history.db"),
+      pragmas: { journal_mode: "DELETE" },
+    });
+    try {
+      write("script.txt", "src/util.ts:10: error [no-todo] Remove TODO\n");
+      const violations = await run({
+        name: "todo-check",
+        command: "cat script.txt",
+        parser: {
+          type: "regex",
+          pattern: String.raw`^(?<file>[^:]+):(?<line>\d+): (?<severity>\w+) \[(?<rule>[\w-]+)\] (?<message>.+)$`,
+        },
+      });
+      const storage = new StorageService();
+
+      expect((await storage.storeViolations(violations)).errors).toEqual([]);
+      expect(
+        (await storage.getViolations()).map((row) => [row.source, row.rule_id]),
+      ).toEqual([["custom", "no-todo"]]);
+    } finally {
+      await closeDatabase();
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("should report failed commands and unparseable output", async () => {
+    const violations = await run(
+      { name: "missing", command: "exit 127", parser: "eslint-json" },
+      { name: "noisy", command: "echo not json", parser: "sarif" },
+      { name: "off", command: "exit 1", parser: "sarif", enabled: false },
+    );
+
+    expect(violations.map((violation) => violation.rule)).toEqual([
+      "COMMAND-SETUP-003",
+      "COMMAND-SETUP-004",
+    ]);
+    expect(violations.every((v) => v.category === "setup-issue")).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Complexity Engine Tests
+ * Verifies per-function metrics, threshold violations and maintainability
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import ts from "typescript";
+import { analyzeSourceComplexity } from "../../../engines/complexity-analyzer.ts";
+import { ComplexityEngine } from "../../../engines/complexity-engine.ts";
+
+const NESTED_SOURCE = `
+export function classify(value: number, label: string) {
+  if (value > 1 && label || value < 0) {
+    for (const item of [value]) {
+      if (item) {
+        return 1;
+      } else if (label) {
+        return 2;
+      } else {
+        return 3;
+      }
+    }
+  }
+  return value ? 4 : 5;
+}
+
+class Store {
+  read = (key?: string) => key ?? "default";
+}
+`;
+
+describe("Complexity Analyzer", () => {
+  it("should measure cyclomatic and cognitive complexity per function", () => {
+    const { functions } = analyzeSourceComplexity(ts, "a.ts", NESTED_SOURCE);
+
+    expect(functions).toEqual([
+      {
+        name: "classify",
+        line: 2,
+        column: 1,
+        cyclomatic: 8,
+        // if 1, && || 2, for 2, nested if 3, else if 1, else 1, ternary 1
+        cognitive: 11,
+        nestingDepth: 3,
+        parameters: 2,
+        length: 14,
+      },
+      expect.objectContaining({
+        name: "Store.read",
+        cyclomatic: 2,
+        cognitive: 1,
+        parameters: 1,
+      }),
+    ]);
+  });
+
+  it("should score larger, more complex files as less maintainable", () => {
+    const simple = analyzeSourceComplexity(
+      ts,
+      "simple.ts",
+      "export const a = 1;\n",
+    );
+    const complex = analyzeSourceComplexity(
+      ts,
+      "complex.ts",
+      NESTED_SOURCE.repeat(20),
+    );
+
+    expect(simple.maintainabilityIndex).toBeGreaterThan(
+      complex.maintainabilityIndex,
+    );
+    expect(complex.maintainabilityIndex).toBeGreaterThanOrEqual(0);
+    expect(simple.maintainabilityIndex).toBeLessThanOrEqual(100);
+  });
+});
+
+describe("ComplexityEngine", () => {
+  let directory;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "sidequest-complexity-"));
+    writeFileSync(path.join(directory, "nested.ts"), NESTED_SOURCE);
+    writeFileSync(
+      path.join(directory, "params.tsx"),
+      "export function Row(a: string, b: string, c: string) {\n  return <div>{a}{b}{c}</div>;\n}\n",
+    );
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should report functions over the configured thresholds", async () => {
+    const engine = new ComplexityEngine({
+      options: { thresholds: { cognitive: 10, parameters: 2 } },
+    });
+
+    const result = await engine.execute(directory);
+    const rules = result.violations.map(
+      (violation) => `${path.basename(violation.file)}:${violation.rule}`,
+    );
+
+    expect(result.success).toBe(true);
+    expect(rules.sort()).toEqual([
+      "nested.ts:cognitive-complexity",
+      "params.tsx:max-parameters",
+    ]);
+    expect(result.violations[0]).toMatchObject({
+      source: "complexity",
+      category: "complexity",
+      severity: "warn",
+    });
+  });
+
+  it("should report files below the maintainability minimum", async () => {
+    const engine = new ComplexityEngine({
+      options: { minMaintainabilityIndex: 100 },
+    });
+
+    const result = await engine.execute(directory);
+    const maintainability = result.violations.filter(
+      (violation) => violation.category === "maintainability",
+    );
+
+    expect(maintainability).toHaveLength(2);
+    expect(engine.getFileMetrics()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Dead Code Analyzer Tests
+ * Verifies entry point discovery, re-export handling, unused files,
+ * unreachable code and the archaeology violations built from them
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { analyzeDeadCode } from "../../../engines/dead-code-analyzer.ts";
+import { CodeArchaeologyEngine } from "../../../engines/code-archaeology-engine.ts";
+
+describe("analyzeDeadCode", () => {
+  let directory;
+  let write;
+
+  const analyze = async (options) =>
+    (await analyzeDeadCode(directory, directory, options)).map(
+      ({ kind, file, exportName, isReExport, confidence }) => ({
+        kind,
+        file,
+        ...(exportName && { exportName }),
+        isReExport,
+        confidence,
+      }),
+    );
+
+  beforeEach(() => {
+    ({ directory, write } = createTempProject("sidequest-dead-code-"));
+    write("tsconfig.json", {
+      compilerOptions: {
+        outDir: "dist",
+        rootDir: ".",
+        module: "esnext",
+        moduleResolution: "bundler",
+        strict: true,
+      },
+      include: ["src"],
+    });
+  });
+
+  it("should follow package entry points, barrels and dynamic imports", async () => {
+    write("package.json", {
+      name: "fixture",
+      type: "module",
+      bin: { fixture: "dist/src/cli.js" },
+      exports: { ".": "./dist/src/index.js" },
+    });
+    write("src/index.ts", 'export { api } from "./lib/api";\n');
+    write(
+      "src/lib/api.ts",
+      'import { used, forwarded } from "./barrel";\nexport function api() {\n  return used() + forwarded;\n}\n',
+    );
+    write(
+      "src/lib/barrel.ts",
+      'export * from "./star";\nexport { forwarded, neverForwarded } from "./named";\n',
+    );
+    write(
+      "src/lib/star.ts",
+      "export const used = () => 1;\nexport const unusedStar = 2;\n",
+    );
+    write(
+      "src/lib/named.ts",
+      "export const forwarded = 1;\nexport const neverForwarded = 2;\nexport type Shape = { a: number };\n",
+    );
+    write(
+      "src/cli.ts",
+      [
+        "async function main() {",
+        '  const { run } = await import("./commands/run");',
+        "  return run();",
+        '  console.log("never");',
+        "}",
+        "void main();",
+        "",
+      ].join("\n"),
+    );
+    write(
+      "src/commands/run.ts",
+      "export function run() {\n  return 1;\n}\nexport function notRun() {}\n",
+    );
+    write("src/lib/helper.ts", "export const helper = 1;\n");
+    write(
+      "src/lib/helper.test.ts",
+      'import { helper } from "./helper";\nconsole.log(helper);\n',
+    );
+    write("src/orphan.ts", "export const lonely = 1;\n");
+
+    expect(await analyze()).toEqual([
+      {
+        kind: "unreachable-code",
+        file: "src/cli.ts",
+        isReExport: false,
+        confidence: 1,
+      },
+      {
+        kind: "unused-export",
+        file: "src/commands/run.ts",
+        exportName: "notRun",
+        isReExport: false,
+        confidence: 0.95,
+      },
+      {
+        kind: "unused-export",
+        file: "src/lib/barrel.ts",
+        exportName: "neverForwarded",
+        isReExport: true,
+        confidence: 0.95,
+      },
+      {
+        kind: "unused-export",
+        file: "src/lib/named.ts",
+        exportName: "neverForwarded",
+        isReExport: false,
+        confidence: 0.95,
+      },
+      {
+        kind: "unused-export",
+        file: "src/lib/named.ts",
+        exportName: "Shape",
+        isReExport: false,
+        confidence: 0.85,
+      },
+      {
+        kind: "unused-export",
+        file: "src/lib/star.ts",
+        exportName: "unusedStar",
+        isReExport: false,
+        confidence: 0.95,
+      },
+      {
+        kind: "unused-file",
+        file: "src/orphan.ts",
+        isReExport: false,
+        confidence: 0.9,
+      },
+    ]);
+  });
+
+  it("should lower confidence when modules escape or load dynamically", async () => {
+    write("package.json", { name: "fixture", main: "dist/src/main.js" });
+    write(
+      "src/main.ts",
+      [
+        'import * as tools from "./tools";',
+        'import { direct } from "./direct";',
+        "console.log(tools, direct);",
+        "export async function load(name: string) {",
+        "  return import(`./plugins/${name}`);",
+        "}",
+        "",
+      ].join("\n"),
+    );
+    write("src/tools.ts", "export const hammer = 1;\n");
+    write(
+      "src/direct.ts",
+      "export const direct = 1;\nexport const spare = 2;\n",
+    );
+    write("src/plugins/a.ts", "export default 1;\n");
+
+    expect(await analyze()).toEqual([
+      {
+        kind: "unused-export",
+        file: "src/direct.ts",
+        exportName: "spare",
+        isReExport: false,
+        confidence: 0.5,
+      },
+      {
+        kind: "unused-file",
+        file: "src/plugins/a.ts",
+        isReExport: false,
+        confidence: 0.5,
+      },
+      {
+        kind: "unused-export",
+        file: "src/tools.ts",
+        exportName: "hammer",
+        isReExport: false,
+        confidence: 0.5,
+      },
+    ]);
+    expect(
+      await analyze({ ignorePatterns: ["src/direct.ts"] }),
+    ).not.toContainEqual(expect.objectContaining({ file: "src/direct.ts" }));
+  });
+
+  it("should build archaeology violations above the confidence threshold", async () => {
+    write("package.json", { name: "fixture", main: "dist/src/main.js" });
+    write(
+      "src/main.ts",
+      'import { used } from "./lib";\nexport const value = used;\n',
+    );
+    write(
+      "src/lib.ts",
+      "export const used = 1;\nexport const unused = 2;\nexport type Unused = string;\n",
+    );
+
+    const engine = new CodeArchaeologyEngine({
+      enabled: true,
+      options: {
+        targetPath: directory,
+        deadCode: { enabled: true, threshold: 0.9 },
+        duplication: { enabled: false },
+      },
+    });
+    const result = await engine.execute(directory);
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        line: 2,
+        category: "dead-code",
+        source: "archaeology",
+        deadCodeType: "unused-export",
+        confidence: 0.95,
+        code: "Unused export: unused",
+        metadata: expect.objectContaining({
+          exportName: "unused",
+          isReExport: false,
+        }),
+      }),
+    ]);
+  });
+});
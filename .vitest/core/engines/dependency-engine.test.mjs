@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Dependency Engine Tests
+ * Verifies unused, undeclared and misplaced dependencies for single
+ * packages and workspaces, and the violations built from them
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "node:path";
+import {
+  analyzeDependencies,
+  getPackageName,
+} from "../../../engines/dependency-analyzer.ts";
+import { DependencyEngine } from "../../../engines/dependency-engine.ts";
+
+describe("getPackageName", () => {
+  it("should strip subpaths and skip relative, absolute and built-in specifiers", () => {
+    expect(getPackageName("lodash/fp")).toBe("lodash");
+    expect(getPackageName("@scope/pkg/sub")).toBe("@scope/pkg");
+    expect(getPackageName("./local")).toBeUndefined();
+    expect(getPackageName("/absolute")).toBeUndefined();
+    expect(getPackageName("node:fs")).toBeUndefined();
+  });
+});
+
+describe("analyzeDependencies", () => {
+  let directory;
+  let write;
+
+  const analyze = async (target = directory, options) =>
+    (await analyzeDependencies(target, directory, options)).map(
+      ({ kind, packageName, manifest, file }) => ({
+        kind,
+        packageName,
+        manifest,
+        file,
+      }),
+    );
+
+  beforeEach(() => {
+    ({ directory, write } = createTempProject("sidequest-dependencies-"));
+  });
+
+  it("should report unused, undeclared and dev-only dependencies", async () => {
+    write("package.json", {
+      name: "fixture",
+      scripts: { lint: "lint-tool src" },
+      dependencies: { used: "1.0.0", required: "1.0.0", unused: "1.0.0" },
+      devDependencies: {
+        "test-lib": "1.0.0",
+        "dev-only": "1.0.0",
+        "lint-tool-package": "1.0.0",
+      },
+    });
+    write("node_modules/lint-tool-package/package.json", {
+      name: "lint-tool-package",
+      bin: { "lint-tool": "cli.js" },
+    });
+    write(
+      "src/index.ts",
+      [
+        'import { a } from "used/sub";',
+        'import { b } from "dev-only";',
+        'import fs from "node:fs";',
+        'const c = require("required");',
+        'export const load = () => import("lazy-missing");',
+        "",
+      ].join("\n"),
+    );
+    write(
+      "src/index.test.ts",
+      'import { expect } from "test-lib";\nimport "test-missing";\n',
+    );
+
+    expect(await analyze()).toEqual([
+      {
+        kind: "unused-dependency",
+        packageName: "unused",
+        manifest: "package.json",
+        file: "package.json",
+      },
+      {
+        kind: "missing-dependency",
+        packageName: "test-missing",
+        manifest: "package.json",
+        file: "src/index.test.ts",
+      },
+      {
+        kind: "dev-dependency-at-runtime",
+        packageName: "dev-only",
+        manifest: "package.json",
+        file: "src/index.ts",
+      },
+      {
+        kind: "missing-dependency",
+        packageName: "lazy-missing",
+        manifest: "package.json",
+        file: "src/index.ts",
+      },
+    ]);
+
+    expect(
+      await analyze(directory, { ignore: ["unused", "*-missing"] }),
+    ).toEqual([expect.objectContaining({ packageName: "dev-only" })]);
+  });
+
+  it("should count packages named by JS/TS configs and tool flags as used", async () => {
+    write("package.json", {
+      name: "fixture",
+      scripts: {
+        test: "vitest run --config vitest.config.ts",
+        "test:coverage": "vitest run --coverage",
+        "test:ui": "vitest --ui",
+      },
+      devDependencies: {
+        "@typescript-eslint/parser": "1.0.0",
+        "@typescript-eslint/eslint-plugin": "1.0.0",
+        "eslint-plugin-unicorn": "1.0.0",
+        "eslint-config-prettier": "1.0.0",
+        "@vitest/coverage-v8": "1.0.0",
+        "@vitest/ui": "1.0.0",
+        vitest: "1.0.0",
+        "commented-out": "1.0.0",
+      },
+    });
+    write(
+      ".eslintrc.cjs",
+      [
+        "module.exports = {",
+        '  parser: "@typescript-eslint/parser",',
+        '  plugins: ["@typescript-eslint", "unicorn"],',
+        '  extends: ["plugin:unicorn/recommended", "prettier"],',
+        '  // parser: "commented-out",',
+        "};",
+        "",
+      ].join("\n"),
+    );
+    write(
+      "vitest.config.ts",
+      'import { defineConfig } from "vitest/config";\nexport default defineConfig({});\n',
+    );
+
+    expect(await analyze()).toEqual([
+      {
+        kind: "unused-dependency",
+        packageName: "commented-out",
+        manifest: "package.json",
+        file: "package.json",
+      },
+    ]);
+  });
+
+  it("should check each workspace package against its own manifest", async () => {
+    write("package.json", {
+      name: "monorepo",
+      private: true,
+      workspaces: ["packages/*"],
+      devDependencies: { shared: "1.0.0" },
+    });
+    write("packages/app/package.json", {
+      name: "app",
+      dependencies: { lib: "1.0.0" },
+    });
+    write(
+      "packages/app/src/main.ts",
+      'import { lib } from "lib";\nimport { shared } from "shared";\nimport { util } from "util-lib";\n',
+    );
+    write("packages/lib/package.json", {
+      name: "lib",
+      dependencies: { "util-lib": "1.0.0" },
+    });
+    write("packages/lib/index.js", 'module.exports = require("util-lib");\n');
+
+    expect(await analyze(path.join(directory, "packages/app"))).toEqual([
+      {
+        kind: "missing-dependency",
+        packageName: "shared",
+        manifest: "packages/app/package.json",
+        file: "packages/app/src/main.ts",
+      },
+      {
+        kind: "missing-dependency",
+        packageName: "util-lib",
+        manifest: "packages/app/package.json",
+        file: "packages/app/src/main.ts",
+      },
+    ]);
+    // The root's devDependency is used by a workspace, so it is not unused
+    expect(await analyze()).toEqual([
+      expect.objectContaining({ packageName: "shared" }),
+      expect.objectContaining({ packageName: "util-lib" }),
+    ]);
+  });
+});
+
+describe("DependencyEngine", () => {
+  it("should build dependency violations with severities by kind", async () => {
+    const { directory, write } = createTempProject("sidequest-dependencies-");
+    write("package.json", {
+      name: "fixture",
+      dependencies: { unused: "1.0.0" },
+      devDependencies: { "@types/unused": "1.0.0" },
+    });
+    write("tsconfig.json", { compilerOptions: { types: [] } });
+    write("index.ts", 'import "missing";\n');
+
+    const engine = new DependencyEngine({ enabled: true });
+    const { violations } = await engine.execute(directory);
+
+    expect(
+      violations.map(({ rule, code, severity, category, source }) => ({
+        rule,
+        code,
+        severity,
+        category,
+        source,
+      })),
+    ).toEqual([
+      {
+        rule: "missing-dependency",
+        code: "missing",
+        severity: "error",
+        category: "dependency-hygiene",
+        source: "dependencies",
+      },
+      {
+        rule: "unused-dependency",
+        code: "unused",
+        severity: "warn",
+        category: "dependency-hygiene",
+        source: "dependencies",
+      },
+      {
+        rule: "unused-dependency",
+        code: "@types/unused",
+        severity: "info",
+        category: "dependency-hygiene",
+        source: "dependencies",
+      },
+    ]);
+  });
+});
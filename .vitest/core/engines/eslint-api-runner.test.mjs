@@ -0,0 +1,84 @@
+/**
+ * @fileoverview In-process ESLint Runner Tests
+ * Verifies loading the project's ESLint, structured messages and config reloads
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { ESLintApiRunner } from "../../../engines/eslint-api-runner.ts";
+
+describe("ESLintApiRunner", () => {
+  let directory;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "sidequest-eslint-"));
+    // Resolve this repository's eslint as the project's own installation
+    symlinkSync(
+      path.resolve("node_modules"),
+      path.join(directory, "node_modules"),
+    );
+    writeFileSync(path.join(directory, "package.json"), "{}");
+    writeFileSync(
+      path.join(directory, ".eslintrc.json"),
+      JSON.stringify({
+        root: true,
+        parserOptions: { ecmaVersion: 2022, sourceType: "module" },
+        rules: { "no-var": "error", "prefer-const": "warn" },
+      }),
+    );
+    mkdirSync(path.join(directory, "src"));
+    writeFileSync(
+      path.join(directory, "src", "a.ts"),
+      "var a = 1;\nlet b = 2;\nexport { a, b };\n",
+    );
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should lint in-process with structured messages", async () => {
+    const runner = await ESLintApiRunner.create(directory);
+    const [result] = await runner.lint(["src"]);
+
+    expect(result.filePath).toBe(path.join(directory, "src", "a.ts"));
+    expect(result.messages).toEqual([
+      expect.objectContaining({
+        ruleId: "no-var",
+        line: 1,
+        column: 1,
+        endLine: 1,
+        endColumn: 11,
+        fix: { range: [0, 3], text: "let" },
+      }),
+      expect.objectContaining({ ruleId: "prefer-const", line: 2 }),
+    ]);
+  });
+
+  it("should pick up config edits between runs", async () => {
+    const runner = await ESLintApiRunner.create(directory);
+    await runner.lint(["src"]);
+
+    writeFileSync(
+      path.join(directory, ".eslintrc.json"),
+      JSON.stringify({
+        root: true,
+        parserOptions: { ecmaVersion: 2022, sourceType: "module" },
+        rules: { "no-var": "off", "prefer-const": "warn" },
+      }),
+    );
+    const [result] = await runner.lint(["src"]);
+
+    expect(result.messages.map((message) => message.ruleId)).toEqual([
+      "prefer-const",
+    ]);
+  });
+});
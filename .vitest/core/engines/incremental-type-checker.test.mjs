@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Incremental Type Checker Tests
+ * Verifies structured diagnostics and re-checking only affected files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import path from "node:path";
+import { IncrementalTypeChecker } from "../../../engines/incremental-type-checker.ts";
+
+describe("IncrementalTypeChecker", () => {
+  let directory;
+  let write;
+  let checker;
+
+  // TypeScript's watchers pick changes up asynchronously
+  const checkUntil = async (predicate) => {
+    const deadline = Date.now() + 5000;
+    let result = checker.check();
+    while (!predicate(result) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      result = checker.check();
+    }
+    return result;
+  };
+
+  beforeEach(async () => {
+    ({ directory, write } = createTempProject("sidequest-tsc-"));
+    write(
+      "tsconfig.json",
+      JSON.stringify({
+        compilerOptions: { strict: true, skipLibCheck: true, types: [] },
+        include: ["*.ts"],
+      }),
+    );
+    write("a.ts", "export const a: number = 1;\n");
+    write("b.ts", 'import { a } from "./a";\nexport const b: string = a;\n');
+    write("c.ts", "export const c = 1;\n");
+
+    checker = await IncrementalTypeChecker.create(
+      path.join(directory, "tsconfig.json"),
+      directory,
+    );
+  });
+
+  afterEach(() => {
+    checker.close();
+  });
+
+  it("should return structured diagnostics", () => {
+    const result = checker.check();
+
+    expect(result.diagnostics).toEqual([
+      {
+        file: "b.ts",
+        line: 2,
+        column: 14,
+        severity: "error",
+        summary: "Type 'number' is not assignable to type 'string'.",
+        details: {
+          code: 2322,
+          messageText: "Type 'number' is not assignable to type 'string'.",
+          start: 38,
+          length: 1,
+        },
+      },
+    ]);
+    expect(result.checkedFileCount).toBe(result.totalFileCount);
+  });
+
+  it("should include related information", () => {
+    write("c.ts", "export function c(value: string) {}\nc();\n");
+
+    const [diagnostic] = checker
+      .check()
+      .diagnostics.filter((entry) => entry.file === "c.ts");
+
+    expect(diagnostic.details.code).toBe(2554);
+    expect(diagnostic.details.relatedInformation).toEqual([
+      expect.objectContaining({ file: "c.ts", line: 1, column: 19 }),
+    ]);
+  });
+
+  it("should report config file errors once", () => {
+    write(
+      "tsconfig.json",
+      JSON.stringify({
+        compilerOptions: { strict: true, notAnOption: true, types: [] },
+        include: ["*.ts"],
+      }),
+    );
+
+    const configErrors = checker
+      .check()
+      .diagnostics.filter((entry) => entry.details.code === 5023);
+
+    expect(configErrors).toHaveLength(1);
+  });
+
+  it("should only re-check files affected by a change", async () => {
+    checker.check();
+    expect(checker.check().checkedFileCount).toBe(0);
+
+    write("a.ts", 'export const a: string = "fixed";\n');
+    const result = await checkUntil((next) => next.checkedFileCount > 0);
+
+    // a.ts and its importer b.ts; c.ts is untouched
+    expect(result.checkedFileCount).toBe(2);
+    expect(result.diagnostics).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Project Reference Builder Tests
+ * Verifies dependency-ordered builds of referenced projects, diagnostics
+ * attributed to the owning project, skipping up-to-date projects and
+ * keeping build outputs out of the project
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { readdirSync } from "node:fs";
+import path from "node:path";
+import { ProjectReferenceBuilder } from "../../../engines/project-reference-builder.ts";
+
+describe("ProjectReferenceBuilder", () => {
+  let directory;
+  let write;
+
+  const compilerOptions = {
+    composite: true,
+    strict: true,
+    skipLibCheck: true,
+    types: [],
+    outDir: "dist",
+  };
+
+  const relative = (fileName) => path.relative(directory, fileName);
+
+  beforeEach(() => {
+    ({ directory, write } = createTempProject("sidequest-references-"));
+    write("tsconfig.json", {
+      files: [],
+      references: [{ path: "./app" }, { path: "./core" }],
+    });
+    write("core/tsconfig.json", { compilerOptions, include: ["*.ts"] });
+    write("core/index.ts", "export const size: number = 1;\n");
+    write("app/tsconfig.json", {
+      compilerOptions,
+      include: ["*.ts"],
+      references: [{ path: "../core" }],
+    });
+    write(
+      "app/main.ts",
+      'import { size } from "../core/index";\nexport const label: string = size;\n',
+    );
+  });
+
+  it("should order referenced projects before the projects using them", async () => {
+    const builder = await ProjectReferenceBuilder.create(
+      path.join(directory, "tsconfig.json"),
+      directory,
+    );
+
+    expect(builder.hasReferences).toBe(true);
+    expect(builder.projects.map(relative)).toEqual([
+      "core/tsconfig.json",
+      "app/tsconfig.json",
+      "tsconfig.json",
+    ]);
+  });
+
+  it("should attribute diagnostics to the project that reported them", async () => {
+    write("core/extra.ts", "export const flag: boolean = 0;\n");
+    const builder = await ProjectReferenceBuilder.create(
+      path.join(directory, "tsconfig.json"),
+      directory,
+    );
+
+    const result = builder.build();
+
+    expect(
+      result.diagnostics.map(({ file, line, details }) => ({
+        file,
+        line,
+        code: details.code,
+        project: details.project,
+      })),
+    ).toEqual([
+      {
+        file: "core/extra.ts",
+        line: 1,
+        code: 2322,
+        project: "core/tsconfig.json",
+      },
+      {
+        file: "app/main.ts",
+        line: 2,
+        code: 2322,
+        project: "app/tsconfig.json",
+      },
+    ]);
+    expect(result.diagnostics[1].configPath).toBe(
+      path.join(directory, "app/tsconfig.json"),
+    );
+    expect(result.builtProjects.map(relative)).toEqual([
+      "core/tsconfig.json",
+      "app/tsconfig.json",
+    ]);
+  });
+
+  it("should skip projects that are up to date", async () => {
+    write("app/main.ts", 'export { size } from "../core/index";\n');
+    const builder = await ProjectReferenceBuilder.create(
+      path.join(directory, "tsconfig.json"),
+      directory,
+    );
+
+    expect(builder.build().builtProjects).toHaveLength(2);
+    expect(builder.build()).toEqual({ diagnostics: [], builtProjects: [] });
+
+    write("app/main.ts", "export const size: string = 1;\n");
+    const result = builder.build();
+    expect(result.builtProjects.map(relative)).toEqual(["app/tsconfig.json"]);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        file: "app/main.ts",
+        details: expect.objectContaining({ project: "app/tsconfig.json" }),
+      }),
+    ]);
+  });
+
+  it("should write build outputs to the tool cache, not the project", async () => {
+    write("app/main.ts", 'export { size } from "../core/index";\n');
+    const builder = await ProjectReferenceBuilder.create(
+      path.join(directory, "tsconfig.json"),
+      directory,
+    );
+
+    expect(builder.build().diagnostics).toEqual([]);
+
+    const files = readdirSync(directory, { recursive: true }).filter(
+      (file) => !file.startsWith("node_modules"),
+    );
+    expect(files.filter((file) => /dist|tsbuildinfo/.test(file))).toEqual([]);
+    const cache = path.join(directory, "node_modules/.cache/sidequest/tsbuild");
+    expect(
+      readdirSync(cache, { recursive: true }).some((file) =>
+        file.endsWith(path.join("core", "dist", "index.d.ts")),
+      ),
+    ).toBe(true);
+  });
+
+  it("should report a tsconfig without references", async () => {
+    const builder = await ProjectReferenceBuilder.create(
+      path.join(directory, "core/tsconfig.json"),
+      directory,
+    );
+
+    expect(builder.hasReferences).toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Report Import Engine Tests
+ * Verifies ESLint JSON and SARIF ingestion, format detection and setup issues
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { ReportImportEngine } from "../../../engines/report-import-engine.ts";
+import {
+  initializeDatabase,
+  closeDatabase,
+} from "../../../database/connection.ts";
+import { StorageService } from "../../../services/storage-service.ts";
+
+describe("ReportImportEngine", () => {
+  let directory;
+  let write;
+
+  const importReports = async (...reports) => {
+    const engine = new ReportImportEngine({
+      options: {
+        reports: reports.map((report) =>
+          typeof report === "string"
+            ? path.join(directory, report)
+            : { ...report, path: path.join(directory, report.path) },
+        ),
+      },
+    });
+    const result = await engine.execute(directory);
+    return result.violations.map((violation) => ({
+      ...violation,
+      file: path.relative(directory, path.resolve(violation.file)),
+    }));
+  };
+
+  beforeEach(() => {
+    ({ directory, write } = createTempProject("sidequest-reports-"));
+  });
+
+  it("should import ESLint JSON with the live engine's categories", async () => {
+    write("reports/lint-a.json", [
+      {
+        filePath: path.join(directory, "src/a.ts"),
+        messages: [
+          {
+            ruleId: "no-unused-vars",
+            severity: 2,
+            message: "'x' is assigned a value but never used.",
+            line: 4,
+            column: 7,
+            endLine: 4,
+            endColumn: 8,
+          },
+        ],
+      },
+    ]);
+    write("reports/lint-b.json", [
+      { filePath: path.join(directory, "src/b.ts"), messages: [] },
+    ]);
+
+    expect(await importReports("reports/*.json")).toEqual([
+      expect.objectContaining({
+        file: "src/a.ts",
+        line: 4,
+        column: 7,
+        category: "unused-vars",
+        severity: "error",
+        source: "eslint",
+        rule: "no-unused-vars",
+        lint: { endLine: 4, endColumn: 8 },
+      }),
+    ]);
+  });
+
+  it("should detect SARIF and keep the category and source it carries", async () => {
+    write("out/scan.sarif", {
+      version: "2.1.0",
+      runs: [
+        {
+          tool: { driver: { name: "scanner", rules: [] } },
+          originalUriBaseIds: {
+            "%SRCROOT%": { uri: pathToFileURL(`${directory}/`).href },
+          },
+          results: [
+            {
+              ruleId: "cyclomatic-complexity",
+              level: "warning",
+              message: { text: "Too complex" },
+              properties: { category: "complexity", source: "complexity" },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: {
+                      uri: "src/c.ts",
+                      uriBaseId: "%SRCROOT%",
+                    },
+                    region: { startLine: 9 },
+                  },
+                },
+              ],
+            },
+            {
+              ruleId: "js/sql-injection",
+              level: "error",
+              message: { text: "Query built from user input" },
+              // Not a violation category, so the rule's category is used
+              properties: { category: "injection" },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: "src/db.ts" },
+                    region: { startLine: 2 },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    const violations = await importReports("out");
+
+    expect(violations).toMatchObject([
+      {
+        file: "src/c.ts",
+        line: 9,
+        category: "complexity",
+        source: "complexity",
+        severity: "warn",
+      },
+      {
+        rule: "js/sql-injection",
+        category: "other-eslint",
+        severity: "error",
+        source: "custom",
+      },
+    ]);
+
+    const [overridden] = await importReports({
+      path: "out/scan.sarif",
+      format: "sarif",
+      source: "custom",
+      category: "security",
+    });
+    expect(overridden).toMatchObject({
+      source: "custom",
+      category: "security",
+    });
+  });
+
+  it("should store imported findings and track them across imports", async () => {
+    write("scan.sarif", {
+      version: "2.1.0",
+      runs: [
+        {
+          tool: { driver: { name: "SideQuest CodeArchaeology", rules: [] } },
+          results: [
+            {
+              ruleId: "dead-code",
+              level: "note",
+              message: { text: "Unused function" },
+              properties: { category: "dead-code", source: "archaeology" },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: "src/old.ts" },
+                    region: { startLine: 3 },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await initializeDatabase({
+      path: path.join(directory, "history.db"),
+      pragmas: { journal_mode: "DELETE" },
+    });
+    try {
+      const storage = new StorageService();
+      const first = await storage.storeViolations(
+        await importReports("scan.sarif"),
+      );
+      const second = await storage.storeViolations(
+        await importReports("scan.sarif"),
+      );
+
+      expect(first.errors).toEqual([]);
+      expect(second.errors).toEqual([]);
+      // The second import updates the row the first one stored
+      expect(await storage.getViolations()).toEqual([
+        expect.objectContaining({
+          rule_id: "dead-code",
+          source: "custom",
+          status: "active",
+        }),
+      ]);
+    } finally {
+      await closeDatabase();
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("should report missing and unreadable reports as setup issues", async () => {
+    write("broken.json", "{ not json");
+    write("other.json", { hello: "world" });
+
+    const violations = await importReports(
+      "missing/*.sarif",
+      "broken.json",
+      "other.json",
+    );
+
+    expect(violations.map((violation) => violation.rule)).toEqual([
+      "REPORT-SETUP-003",
+      "REPORT-SETUP-004",
+      "REPORT-SETUP-004",
+    ]);
+    expect(violations[2].message).toContain(
+      "Not a SARIF log or ESLint JSON report",
+    );
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Analysis Snapshot Tests
+ * Verifies git state capture, snapshot-linked history and the per-commit
+ * queries against a real SQLite database
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { readGitSnapshot } from "../../../utils/git-snapshot.ts";
+import {
+  initializeDatabase,
+  closeDatabase,
+} from "../../../database/connection.ts";
+import { violationsToDatabaseFormat } from "../../../database/utils.ts";
+import { StorageService } from "../../../services/storage-service.ts";
+import { AnalysisService } from "../../../services/analysis-service.ts";
+
+describe("Analysis snapshots", () => {
+  let directory;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "sidequest-snapshots-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await closeDatabase();
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe("readGitSnapshot", () => {
+    const git = (...arguments_) =>
+      execFileSync("git", arguments_, { cwd: directory, encoding: "utf8" });
+
+    it("should read the commit, branch and dirty state", () => {
+      git("init", "--quiet", "--initial-branch=main");
+      git("config", "user.email", "test@example.com");
+      git("config", "user.name", "Test");
+
+      expect(readGitSnapshot(directory)).toEqual({
+        commitSha: undefined,
+        branch: "main",
+        dirty: false,
+      });
+
+      writeFileSync(path.join(directory, "a.ts"), "export const a = 1;\n");
+      git("add", "a.ts");
+      git("commit", "--quiet", "-m", "initial");
+      const sha = git("rev-parse", "HEAD").trim();
+
+      // Untracked files do not make the tree dirty
+      writeFileSync(path.join(directory, "b.ts"), "");
+      expect(readGitSnapshot(directory)).toEqual({
+        commitSha: sha,
+        branch: "main",
+        dirty: false,
+      });
+
+      writeFileSync(path.join(directory, "a.ts"), "export const a = 2;\n");
+      git("checkout", "--quiet", "--detach");
+      expect(readGitSnapshot(directory)).toEqual({
+        commitSha: sha,
+        branch: undefined,
+        dirty: true,
+      });
+    });
+
+    it("should be undefined outside a git work tree", () => {
+      expect(readGitSnapshot(directory)).toBeUndefined();
+    });
+  });
+
+  describe("StorageService", () => {
+    let storage;
+
+    const violation = (file) => ({
+      file,
+      line: 1,
+      message: `Problem in ${file}`,
+      category: "type-alias",
+      severity: "error",
+      source: "typescript",
+      rule: "TS2322",
+    });
+
+    const hashOf = (file) =>
+      violationsToDatabaseFormat([violation(file)])[0].hash;
+
+    // What the orchestrator records for each analysis run
+    const analyze = async (commitSha, files) => {
+      const snapshotId = await storage.recordAnalysisSnapshot({
+        commitSha,
+        branch: "main",
+        dirty: false,
+      });
+      const checkId = await storage.startRuleCheck(
+        "analysis",
+        "orchestrator",
+        snapshotId,
+      );
+      await storage.recordViolationDeltas(
+        checkId,
+        files.map((file) => hashOf(file)),
+        snapshotId,
+      );
+      await storage.storeViolations(files.map((file) => violation(file)));
+    };
+
+    beforeEach(async () => {
+      await initializeDatabase({
+        path: path.join(directory, "history.db"),
+        pragmas: { journal_mode: "DELETE" },
+      });
+      storage = new StorageService();
+
+      await analyze("aaa1111", ["a.ts"]);
+      await analyze("bbb2222", ["a.ts", "b.ts"]);
+      await analyze("ccc3333", ["b.ts", "c.ts"]);
+    });
+
+    it("should list violations introduced between two commits", async () => {
+      const files = async (from, to) =>
+        (await storage.getViolationsIntroducedBetween(from, to)).map(
+          (row) => row.file_path,
+        );
+
+      expect(await files("aaa", "ccc")).toEqual(["b.ts", "c.ts"]);
+      expect(await files("bbb2222", "ccc3333")).toEqual(["c.ts"]);
+      expect(await files("ccc", "aaa")).toEqual(["a.ts"]);
+      await expect(files("aaa", "zzz")).rejects.toThrow(
+        "No analysis snapshot for commit zzz",
+      );
+    });
+
+    it("should find the first commit a violation appeared in", async () => {
+      expect(
+        (await storage.findFirstSnapshotWithViolation(hashOf("b.ts")))
+          ?.commit_sha,
+      ).toBe("bbb2222");
+      expect(
+        (
+          await storage.findFirstSnapshotWithViolation(
+            hashOf("c.ts").slice(0, 12),
+          )
+        )?.commit_sha,
+      ).toBe("ccc3333");
+      expect(
+        await storage.findFirstSnapshotWithViolation("0".repeat(64)),
+      ).toBeUndefined();
+    });
+
+    it("should count deltas per commit and resolve removed violations", async () => {
+      const trends = await new AnalysisService(storage).getCommitTrends();
+
+      expect(
+        trends.map(({ commitSha, total, added, removed }) => ({
+          commitSha,
+          total,
+          added,
+          removed,
+        })),
+      ).toEqual([
+        { commitSha: "aaa1111", total: 1, added: 1, removed: 0 },
+        { commitSha: "bbb2222", total: 2, added: 1, removed: 0 },
+        { commitSha: "ccc3333", total: 2, added: 1, removed: 1 },
+      ]);
+      expect(
+        (await storage.getViolations({ status: "active" }))
+          .map((row) => row.file_path)
+          .sort(),
+      ).toEqual(["b.ts", "c.ts"]);
+    });
+  });
+
+  describe("schema upgrade", () => {
+    it("should add snapshots to a database created before them", async () => {
+      const databasePath = path.join(directory, "old.db");
+      const database = new Database(databasePath);
+      database.exec(`
+        CREATE TABLE violations (id INTEGER PRIMARY KEY, hash TEXT);
+        CREATE TABLE rule_checks (id INTEGER PRIMARY KEY, rule_id TEXT);
+        CREATE TABLE violation_history (
+          id INTEGER PRIMARY KEY,
+          check_id INTEGER,
+          violation_hash TEXT
+        );
+      `);
+      database.close();
+
+      await initializeDatabase({
+        path: databasePath,
+        pragmas: { journal_mode: "DELETE" },
+      });
+      await closeDatabase();
+
+      const upgraded = new Database(databasePath, { readonly: true });
+      const columns = (table) =>
+        upgraded.pragma(`table_info(${table})`).map((column) => column.name);
+      expect(columns("violations")).toEqual(
+        expect.arrayContaining(["blame_author", "blame_commit", "owners"]),
+      );
+      expect(columns("rule_checks")).toContain("snapshot_id");
+      expect(columns("violation_history")).toContain("snapshot_id");
+      expect(columns("analysis_snapshots")).toEqual([
+        "id",
+        "commit_sha",
+        "branch",
+        "dirty",
+        "created_at",
+      ]);
+      upgraded.close();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview FileWatcher Tests
+ * Verifies tsconfig include/exclude matching, .gitignore handling and
+ * debounced change batches
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+import {
+  FileWatcher,
+  loadTsConfigFiles,
+} from "../../../services/file-watcher.ts";
+
+describe("loadTsConfigFiles", () => {
+  let directory;
+  let write;
+
+  const load = (tsconfig = "tsconfig.json") =>
+    [...loadTsConfigFiles(ts, path.join(directory, tsconfig))]
+      .map((file) => path.relative(directory, file).split(path.sep).join("/"))
+      .sort();
+
+  beforeEach(() => {
+    ({ directory, write } = createTempProject("sidequest-tsconfig-"));
+    write("src/index.ts", "export const a = 1;");
+    write("src/view.tsx", "export const b = 1;");
+    write("src/legacy.js", "exports.c = 1;");
+    write("src/a.test.ts", "export {};");
+    write("scripts/build.ts", "export {};");
+    write("dist/index.ts", "export {};");
+    write("node_modules/pkg/index.ts", "export {};");
+  });
+
+  it("should apply TypeScript defaults without a tsconfig", () => {
+    expect(load()).toEqual([
+      "dist/index.ts",
+      "scripts/build.ts",
+      "src/a.test.ts",
+      "src/index.ts",
+      "src/view.tsx",
+    ]);
+  });
+
+  it("should read tsconfigs with comments, trailing commas and extends", () => {
+    write(
+      "tsconfig.base.json",
+      [
+        "{",
+        "  // Shared by every project",
+        '  "compilerOptions": { "allowJs": true, "outDir": "dist", },',
+        '  "exclude": ["**/*.test.ts", "dist"],',
+        "}",
+      ].join("\n"),
+    );
+    write(
+      "tsconfig.json",
+      '{ "extends": "./tsconfig.base.json", "include": ["src"], }',
+    );
+
+    expect(load()).toEqual(["src/index.ts", "src/legacy.js", "src/view.tsx"]);
+  });
+});
+
+describe("FileWatcher", () => {
+  let directory;
+  let write;
+  let watcher;
+
+  const waitForChange = () =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error("No change event")),
+        3000,
+      );
+      watcher.once("change", (files) => {
+        clearTimeout(timer);
+        resolve(files);
+      });
+    });
+
+  beforeEach(() => {
+    ({ directory, write } = createTempProject("sidequest-watch-"));
+    execFileSync("git", ["init", "-q"], { cwd: directory });
+    mkdirSync(path.join(directory, "src"));
+    mkdirSync(path.join(directory, "build"));
+    mkdirSync(path.join(directory, "node_modules"));
+    write(".gitignore", "build/\n*.log\n");
+    write("tsconfig.json", { include: ["src"] });
+  });
+
+  afterEach(() => {
+    watcher?.stop();
+    watcher = undefined;
+  });
+
+  it("should not watch ignored directories", async () => {
+    watcher = new FileWatcher({ rootDirectory: directory, debounceMs: 20 });
+    await watcher.start();
+
+    // Root and src only: build/ is gitignored, node_modules is always skipped
+    expect(watcher.watchedDirectoryCount).toBe(2);
+  });
+
+  it("should emit one debounced batch of relevant files", async () => {
+    watcher = new FileWatcher({ rootDirectory: directory, debounceMs: 50 });
+    await watcher.start();
+
+    const change = waitForChange();
+    write("src/a.ts", "export const a = 1;");
+    write("src/b.ts", "export const b = 1;");
+    write("notes.md", "# not a source file");
+    write("debug.log", "ignored");
+
+    await expect(change).resolves.toEqual(["src/a.ts", "src/b.ts"]);
+  });
+
+  it("should pick up files in newly created directories", async () => {
+    watcher = new FileWatcher({ rootDirectory: directory, debounceMs: 50 });
+    await watcher.start();
+
+    const directoryCreated = new Promise((resolve) => setTimeout(resolve, 200));
+    mkdirSync(path.join(directory, "src", "feature"));
+    await directoryCreated;
+
+    const change = waitForChange();
+    write("src/feature/c.ts", "export const c = 1;");
+
+    await expect(change).resolves.toEqual(["src/feature/c.ts"]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Plugin Loader Tests
+ * Verifies engine classes, factories, options and load failures
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  loadPlugins,
+  createPluginFailureViolation,
+} from "../../../services/plugin-loader.ts";
+
+const baseEngineUrl = pathToFileURL(
+  path.resolve("engines/base-engine.ts"),
+).href;
+
+describe("loadPlugins", () => {
+  let directory;
+
+  const environment = () => ({
+    targetPath: directory,
+    projectRoot: directory,
+    preferences: {},
+  });
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "sidequest-plugins-"));
+    writeFileSync(
+      path.join(directory, "todo-engine.mjs"),
+      `import { BaseAuditEngine } from ${JSON.stringify(baseEngineUrl)};
+export default class TodoEngine extends BaseAuditEngine {
+  constructor(context) {
+    super("TODO", "custom", { enabled: true, priority: 9, timeout: 1000, allowFailure: true, options: context.options });
+  }
+  async analyze() {
+    return [this.createViolation("a.ts", 1, "// TODO", "other", "info", "todo", String(this.config.options.label))];
+  }
+}
+`,
+    );
+    writeFileSync(
+      path.join(directory, "factory.mjs"),
+      `import TodoEngine from "./todo-engine.mjs";
+export async function createEngine(context) {
+  return new TodoEngine({ ...context, options: { label: context.projectRoot } });
+}
+`,
+    );
+    writeFileSync(
+      path.join(directory, "broken.mjs"),
+      "export default () => ({});\n",
+    );
+    writeFileSync(
+      path.join(directory, "without-dispose.mjs"),
+      `export default () => ({
+  execute: async () => ({ violations: [] }),
+  getConfig: () => ({ enabled: true }),
+  getMetadata: () => ({}),
+});
+`,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should construct engine classes with the entry options", async () => {
+    const { plugins, failures } = await loadPlugins(
+      [{ module: "./todo-engine.mjs", options: { label: "from config" } }],
+      environment(),
+    );
+
+    expect(failures).toEqual([]);
+    expect(plugins.map((plugin) => plugin.name)).toEqual([
+      "plugin:./todo-engine.mjs",
+    ]);
+
+    const result = await plugins[0].engine.execute(directory);
+    expect(result.violations).toMatchObject([
+      { source: "custom", rule: "todo", message: "from config" },
+    ]);
+  });
+
+  it("should call factories with the plugin context", async () => {
+    const { plugins } = await loadPlugins(["./factory.mjs"], environment());
+
+    const result = await plugins[0].engine.execute(directory);
+    expect(result.violations[0].message).toBe(directory);
+  });
+
+  it("should skip disabled entries and report invalid plugins", async () => {
+    const { plugins, failures } = await loadPlugins(
+      [
+        { module: "./todo-engine.mjs", enabled: false },
+        "./broken.mjs",
+        "./without-dispose.mjs",
+        "./missing.mjs",
+      ],
+      environment(),
+    );
+
+    expect(plugins).toEqual([]);
+    expect(failures.map((failure) => failure.module)).toEqual([
+      "./broken.mjs",
+      "./without-dispose.mjs",
+      "./missing.mjs",
+    ]);
+    expect(failures[0].error).toContain("did not return a BaseAuditEngine");
+    expect(failures[1].error).toContain("did not return a BaseAuditEngine");
+
+    expect(createPluginFailureViolation(failures[0])).toMatchObject({
+      category: "setup-issue",
+      source: "custom",
+      rule: "PLUGIN-SETUP-001",
+    });
+  });
+});
@@ -98,6 +98,19 @@ describe("UnifiedOrchestrator - Basic Functionality", () => {
     });
   });
 
+  describe("Engine Lifecycle", () => {
+    test("should dispose engines replaced by a configuration update", async () => {
+      const dispose = vi.spyOn(orchestrator.getEngine("typescript"), "dispose");
+
+      await orchestrator.updateUnifiedConfig({
+        engines: { ...orchestrator.getUnifiedConfig().engines },
+      });
+
+      expect(dispose).toHaveBeenCalledTimes(1);
+      expect(orchestrator.getEngine("typescript")).toBeDefined();
+    });
+  });
+
   describe("Analysis Operations", () => {
     test("should have analyze method that returns proper structure", async () => {
       // Initialize first to avoid initialization errors
@@ -191,5 +204,18 @@ describe("UnifiedOrchestrator - Basic Functionality", () => {
         await orchestrator.stopWatchMode();
       }).not.toThrow();
     });
+
+    test("should run the watch cycle on demand with an external trigger", async () => {
+      await orchestrator.initialize();
+      await orchestrator.startWatchMode({ analysisTrigger: "external" });
+      const cycles = [];
+      orchestrator.on("watchCycle", (cycle) => cycles.push(cycle));
+
+      await orchestrator.runWatchCycle();
+      await orchestrator.stopWatchMode();
+      await orchestrator.runWatchCycle();
+
+      expect(cycles).toHaveLength(1);
+    });
   });
 });
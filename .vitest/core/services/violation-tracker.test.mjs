@@ -17,6 +17,7 @@ import { ViolationTracker } from "../../../services/violation-tracker.ts";
 const createMockStorageService = () => ({
   storeViolations: vi.fn(),
   resolveViolations: vi.fn(),
+  ignoreViolations: vi.fn(),
   recordPerformanceMetric: vi.fn(),
 });
 
@@ -54,6 +55,7 @@ describe("ViolationTracker", () => {
       errors: [],
     });
     mockStorageService.resolveViolations.mockResolvedValue(3);
+    mockStorageService.ignoreViolations.mockResolvedValue(2);
     mockStorageService.recordPerformanceMetric.mockResolvedValue();
   });
 
@@ -375,7 +377,7 @@ describe("ViolationTracker", () => {
       const result = await violationTracker.markAsIgnored(hashes);
 
       expect(result).toBe(2);
-      // Note: This tests the placeholder implementation
+      expect(mockStorageService.ignoreViolations).toHaveBeenCalledWith(hashes);
     });
 
     test("should reactivate violations", async () => {
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Baseline (ratchet mode) Tests
+ * Verifies baseline creation, comparison and file round-tripping
+ */
+
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  createBaseline,
+  compareWithBaseline,
+  loadBaseline,
+  saveBaseline,
+} from "../../../utils/baseline.ts";
+
+const consoleViolation = (line) =>
+  createMockViolation({
+    file: "src/app.ts",
+    line,
+    rule: "no-console",
+    source: "eslint",
+    message: "Unexpected console statement",
+  });
+
+describe("Baseline", () => {
+  it("should group repeated violations into counted entries", () => {
+    const baseline = createBaseline([
+      consoleViolation(3),
+      consoleViolation(8),
+      createMockViolation({ file: "src/a.ts", rule: "TS2322" }),
+    ]);
+
+    expect(baseline.version).toBe(1);
+    expect(baseline.entries).toHaveLength(2);
+    expect(baseline.entries[0].file).toBe("src/a.ts");
+    expect(baseline.entries[1]).toMatchObject({
+      file: "src/app.ts",
+      rule: "no-console",
+      count: 2,
+    });
+  });
+
+  it("should exclude setup issues from the baseline", () => {
+    const baseline = createBaseline([
+      createMockViolation({
+        file: "typescript-setup",
+        category: "setup-issue",
+        rule: "TS-SETUP-001",
+      }),
+    ]);
+
+    expect(baseline.entries).toHaveLength(0);
+  });
+
+  it("should tolerate line shifts for baselined violations", () => {
+    const baseline = createBaseline([consoleViolation(3)]);
+    const comparison = compareWithBaseline([consoleViolation(40)], baseline);
+
+    expect(comparison.newViolations).toHaveLength(0);
+    expect(comparison.baselinedCount).toBe(1);
+    expect(comparison.fixedEntries).toHaveLength(0);
+  });
+
+  it("should report occurrences beyond the baselined count as new", () => {
+    const baseline = createBaseline([consoleViolation(3)]);
+    const comparison = compareWithBaseline(
+      [consoleViolation(3), consoleViolation(9)],
+      baseline,
+    );
+
+    expect(comparison.newViolations).toHaveLength(1);
+    expect(comparison.newViolations[0].line).toBe(9);
+  });
+
+  it("should report fixed baseline entries", () => {
+    const baseline = createBaseline([
+      consoleViolation(3),
+      consoleViolation(8),
+      createMockViolation({ file: "src/a.ts", rule: "TS2322" }),
+    ]);
+    const comparison = compareWithBaseline([consoleViolation(3)], baseline);
+
+    expect(comparison.newViolations).toHaveLength(0);
+    expect(comparison.fixedEntries).toHaveLength(2);
+    expect(
+      comparison.fixedEntries.find((entry) => entry.file === "src/app.ts"),
+    ).toMatchObject({ count: 2, fixedCount: 1 });
+  });
+
+  it("should round-trip through the baseline file", async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), "sidequest-baseline-"));
+    const baselineFile = path.join(directory, "ci", "baseline.json");
+
+    try {
+      const baseline = createBaseline([consoleViolation(3)]);
+      await saveBaseline(baselineFile, baseline);
+
+      await expect(loadBaseline(baselineFile)).resolves.toEqual(baseline);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should reject malformed baseline files", async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), "sidequest-baseline-"));
+    const baselineFile = path.join(directory, "baseline.json");
+
+    try {
+      writeFileSync(baselineFile, JSON.stringify({ version: 2, entries: [] }));
+      await expect(loadBaseline(baselineFile)).rejects.toThrow(
+        "Invalid baseline file format",
+      );
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
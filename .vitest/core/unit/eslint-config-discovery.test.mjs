@@ -0,0 +1,109 @@
+/**
+ * @fileoverview ESLint Config Discovery Tests
+ * Verifies flat/.eslintrc detection and flat config rule enumeration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  findESLintConfig,
+  getEnabledFlatConfigRules,
+  loadFlatConfig,
+} from "../../../utils/eslint-config-discovery.ts";
+
+describe("ESLint Config Discovery", () => {
+  describe("findESLintConfig", () => {
+    let directory;
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(tmpdir(), "sidequest-eslint-config-"));
+      mkdirSync(path.join(directory, "packages", "app"), { recursive: true });
+    });
+
+    afterEach(() => {
+      delete process.env.ESLINT_USE_FLAT_CONFIG;
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should prefer a flat config found upwards over .eslintrc", () => {
+      writeFileSync(path.join(directory, "eslint.config.mjs"), "");
+      writeFileSync(path.join(directory, "packages", "app", ".eslintrc"), "");
+
+      expect(findESLintConfig(path.join(directory, "packages", "app"))).toEqual(
+        { type: "flat", path: path.join(directory, "eslint.config.mjs") },
+      );
+    });
+
+    it("should fall back to .eslintrc and package.json eslintConfig", () => {
+      writeFileSync(
+        path.join(directory, "package.json"),
+        JSON.stringify({ eslintConfig: { rules: {} } }),
+      );
+
+      expect(findESLintConfig(directory)).toEqual({
+        type: "eslintrc",
+        path: path.join(directory, "package.json"),
+      });
+    });
+
+    it("should honour ESLINT_USE_FLAT_CONFIG=false", () => {
+      writeFileSync(path.join(directory, "eslint.config.js"), "");
+      writeFileSync(path.join(directory, ".eslintrc.json"), "{}");
+      process.env.ESLINT_USE_FLAT_CONFIG = "false";
+
+      expect(findESLintConfig(directory)?.type).toBe("eslintrc");
+    });
+  });
+
+  describe("getEnabledFlatConfigRules", () => {
+    it("should include rules enabled only for some file globs", () => {
+      const rules = getEnabledFlatConfigRules([
+        { ignores: ["dist/**"] },
+        { rules: { "no-console": "error", "no-debugger": ["warn"] } },
+        [
+          { files: ["**/*.test.ts"], rules: { "max-lines": [2, 500] } },
+          { files: ["scripts/**"], rules: { "no-console": "off" } },
+        ],
+        { rules: { "no-debugger": 0 } },
+      ]);
+
+      expect(rules).toEqual(["max-lines", "no-console"]);
+    });
+
+    it("should let a later global setting override earlier scoped ones", () => {
+      const rules = getEnabledFlatConfigRules([
+        { files: ["src/**"], rules: { eqeqeq: "error" } },
+        { rules: { eqeqeq: "off" } },
+      ]);
+
+      expect(rules).toEqual([]);
+    });
+  });
+
+  describe("loadFlatConfig", () => {
+    it("should load and flatten nested config arrays", async () => {
+      const directory = mkdtempSync(path.join(tmpdir(), "sidequest-flat-"));
+      const configPath = path.join(directory, "eslint.config.mjs");
+
+      try {
+        writeFileSync(
+          configPath,
+          'const shared = [{ rules: { "prefer-const": "warn" } }];\n' +
+            'export default [...shared, [{ files: ["**/*.ts"], rules: { "no-var": "error" } }]];\n',
+        );
+
+        const configs = await loadFlatConfig(configPath);
+
+        expect(configs).toHaveLength(2);
+        expect(getEnabledFlatConfigRules(configs)).toEqual([
+          "no-var",
+          "prefer-const",
+        ]);
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @fileoverview Violation Fingerprint Tests
+ * Verifies context-based fingerprints, re-association after edits and git
+ * renames, and that stored history survives both
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execFileSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  assignFingerprints,
+  detectRenames,
+  matchFingerprints,
+} from "../../../utils/fingerprint.ts";
+import {
+  initializeDatabase,
+  closeDatabase,
+} from "../../../database/connection.ts";
+import { StorageService } from "../../../services/storage-service.ts";
+
+const anyViolation = (file, line, message = "Unexpected any") => ({
+  file,
+  line,
+  code: "any",
+  message,
+  category: "type-alias",
+  severity: "warn",
+  source: "typescript",
+  rule: "no-explicit-any",
+});
+
+const fingerprintsOf = (source, violations) =>
+  assignFingerprints(violations, () => source).map(
+    (violation) => violation.fingerprint,
+  );
+
+// Enough unchanged lines for git to recognize an edited file as renamed
+const BODY = [
+  "export function first() {}",
+  "export function second() {}",
+  "export function third() {}",
+  "export function fourth() {}",
+  "export function fifth() {}",
+  "",
+].join("\n");
+
+describe("Violation fingerprints", () => {
+  describe("assignFingerprints", () => {
+    const source = [
+      "function parse(input: any) {",
+      "  return input;",
+      "}",
+      "function parse(input: any) {",
+      "  return input;",
+      "}",
+    ].join("\n");
+
+    it("should keep identical violations in one file apart", () => {
+      const repeated = ["// log", "use(a as any);", "// log", "use(a as any);"];
+      const [first, second] = fingerprintsOf(`${repeated.join("\n")}\n// log`, [
+        anyViolation("src/a.ts", 4),
+        anyViolation("src/a.ts", 2),
+      ]);
+
+      expect(first.contextHash).toBe(second.contextHash);
+      expect([first.occurrence, second.occurrence]).toEqual([1, 0]);
+      expect(first.hash).not.toBe(second.hash);
+    });
+
+    it("should survive moved lines, whitespace and reworded messages", () => {
+      const [before] = fingerprintsOf(source, [anyViolation("src/a.ts", 1)]);
+      const [after] = fingerprintsOf(
+        `\n\n\n${source.replace("(input", "(  input")}`,
+        [anyViolation("src/a.ts", 4, "Avoid the any type")],
+      );
+
+      expect(after).toEqual(before);
+    });
+
+    it("should fall back to the message when the code cannot be read", () => {
+      const [missing] = assignFingerprints([anyViolation("gone.ts", 3)], () => {
+        throw new Error("ENOENT");
+      });
+      const [setup] = assignFingerprints(
+        [{ ...anyViolation("tsconfig.json", 0), category: "setup-issue" }],
+        () => source,
+      );
+
+      expect(missing.fingerprint.hash).toMatch(/^[\da-f]{64}$/);
+      expect(setup.fingerprint.occurrence).toBe(0);
+    });
+  });
+
+  describe("matchFingerprints", () => {
+    const candidate = (hash, overrides = {}) => ({
+      hash,
+      file: "src/a.ts",
+      rule: "no-explicit-any",
+      contextHash: `context-${hash}`,
+      line: 1,
+      message: "Unexpected any",
+      ...overrides,
+    });
+
+    it("should follow renames and pair identical context in line order", () => {
+      const matches = matchFingerprints(
+        [
+          candidate("kept"),
+          candidate("old-1", { file: "src/old.ts", contextHash: "c", line: 3 }),
+          candidate("old-2", { file: "src/old.ts", contextHash: "c", line: 9 }),
+        ],
+        [
+          candidate("kept"),
+          candidate("new-2", {
+            file: "src/new.ts",
+            contextHash: "c",
+            line: 20,
+          }),
+          candidate("new-1", {
+            file: "src/new.ts",
+            contextHash: "c",
+            line: 12,
+          }),
+        ],
+        new Map([["src/old.ts", "src/new.ts"]]),
+      );
+
+      expect([...matches]).toEqual([
+        ["old-1", "new-1"],
+        ["old-2", "new-2"],
+      ]);
+    });
+
+    it("should pair edited code by rule and message, including legacy rows", () => {
+      const matches = matchFingerprints(
+        [
+          candidate("legacy", { contextHash: null, message: "Line 4 is bad" }),
+          candidate("other", { rule: "no-console" }),
+        ],
+        [
+          candidate("edited", { line: 7, message: "Line 9 is bad" }),
+          candidate("unrelated", { rule: "eqeqeq" }),
+        ],
+      );
+
+      expect([...matches]).toEqual([["legacy", "edited"]]);
+    });
+  });
+
+  describe("with a git repository", () => {
+    let directory;
+    let write;
+
+    const git = (...arguments_) =>
+      execFileSync("git", arguments_, { cwd: directory, encoding: "utf8" });
+
+    beforeEach(() => {
+      ({ directory, write } = createTempProject("sidequest-fingerprint-"));
+      git("init", "--quiet", "--initial-branch=main");
+      git("config", "user.name", "Test");
+      git("config", "user.email", "test@example.com");
+      write("src/old.ts", `${BODY}export const value: any = 1;\n`);
+      git("add", ".");
+      git("commit", "--quiet", "-m", "initial");
+      vi.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+      await closeDatabase();
+      vi.restoreAllMocks();
+    });
+
+    it("should detect committed and uncommitted renames since a commit", () => {
+      const initial = git("rev-parse", "HEAD").trim();
+      git("mv", "src/old.ts", "src/moved.ts");
+      expect(detectRenames(undefined, directory)).toEqual(
+        new Map([["src/old.ts", "src/moved.ts"]]),
+      );
+
+      git("commit", "--quiet", "-m", "move");
+      git("mv", "src/moved.ts", "src/final.ts");
+      expect(detectRenames(initial, directory)).toEqual(
+        new Map([["src/old.ts", "src/final.ts"]]),
+      );
+      expect(detectRenames(initial, path.join(directory, "src"))).toEqual(
+        new Map([["old.ts", "final.ts"]]),
+      );
+      expect(detectRenames("no-such-commit", directory)).toEqual(new Map());
+    });
+
+    it("should keep first_seen_at when a file is renamed and edited", async () => {
+      await initializeDatabase({
+        path: path.join(directory, "history.db"),
+        pragmas: { journal_mode: "DELETE" },
+      });
+      const storage = new StorageService();
+      const analyze = async () => {
+        const [file, line] = git("grep", "-n", "any", "--", "src").split(":");
+        const violations = assignFingerprints(
+          [anyViolation(file, Number(line))],
+          (relative) => readFileSync(path.join(directory, relative), "utf8"),
+        );
+        await storage.reassociateViolations(
+          violations,
+          detectRenames(undefined, directory),
+        );
+        await storage.storeViolations(violations);
+        return violations[0].fingerprint.hash;
+      };
+
+      const before = await analyze();
+      const [original] = await storage.getViolations();
+
+      git("mv", "src/old.ts", "src/moved.ts");
+      write(
+        "src/moved.ts",
+        `// moved\n${BODY}\nexport const value: any = 2;\n`,
+      );
+      const after = await analyze();
+
+      expect(after).not.toBe(before);
+      const rows = await storage.getViolations();
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        hash: after,
+        file_path: "src/moved.ts",
+        line_number: 8,
+        first_seen_at: original.first_seen_at,
+      });
+    });
+
+    it("should not revive resolved violations for look-alike new ones", async () => {
+      await initializeDatabase({
+        path: path.join(directory, "history.db"),
+        pragmas: { journal_mode: "DELETE" },
+      });
+      const storage = new StorageService();
+      const store = async (line) => {
+        const violations = assignFingerprints(
+          [anyViolation("src/old.ts", line)],
+          (relative) => readFileSync(path.join(directory, relative), "utf8"),
+        );
+        await storage.reassociateViolations(violations);
+        await storage.storeViolations(violations);
+        return violations[0].fingerprint.hash;
+      };
+
+      const resolved = await store(6);
+      await storage.resolveViolations([resolved]);
+      write(
+        "src/old.ts",
+        `${BODY}export const other: any = 2;
+`,
+      );
+
+      expect(await store(6)).not.toBe(resolved);
+      const rows = await storage.getViolations();
+      expect(rows).toHaveLength(2);
+      expect(rows.find((row) => row.hash === resolved)).toMatchObject({
+        status: "resolved",
+      });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Git Change Scope Tests
+ * Verifies changed-file resolution, hunk parsing and scope filtering
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  filterViolationsToScope,
+  parseChangedLines,
+  resolveGitScope,
+} from "../../../utils/git-scope.ts";
+
+describe("Git Scope", () => {
+  describe("parseChangedLines", () => {
+    it("should collect added line ranges and skip pure deletions", () => {
+      const diff = [
+        "diff --git src/a.ts src/a.ts",
+        "--- src/a.ts",
+        "+++ src/a.ts",
+        "@@ -3 +3 @@ export const a = 1;",
+        "@@ -10,2 +11,4 @@",
+        "@@ -20,3 +24,0 @@",
+        "diff --git src/gone.ts src/gone.ts",
+        "--- src/gone.ts",
+        "+++ /dev/null",
+        "@@ -1,5 +0,0 @@",
+      ].join("\n");
+
+      expect(parseChangedLines(diff)).toEqual({
+        "src/a.ts": [
+          [3, 3],
+          [11, 14],
+        ],
+      });
+    });
+  });
+
+  describe("filterViolationsToScope", () => {
+    const scope = { description: "staged changes", files: ["src/a.ts"] };
+
+    it("should keep only violations in scoped files", () => {
+      const kept = filterViolationsToScope(
+        [
+          createMockViolation({ file: "src/a.ts" }),
+          createMockViolation({ file: "./src/a.ts", line: 7 }),
+          createMockViolation({ file: "src/b.ts" }),
+        ],
+        scope,
+      );
+
+      expect(kept).toHaveLength(2);
+    });
+
+    it("should always keep setup issues", () => {
+      const kept = filterViolationsToScope(
+        [
+          createMockViolation({
+            file: "typescript-setup",
+            category: "setup-issue",
+          }),
+        ],
+        scope,
+      );
+
+      expect(kept).toHaveLength(1);
+    });
+
+    it("should filter by changed lines when present", () => {
+      const kept = filterViolationsToScope(
+        [
+          createMockViolation({ file: "src/a.ts", line: 4 }),
+          createMockViolation({ file: "src/a.ts", line: 12 }),
+        ],
+        { ...scope, changedLines: { "src/a.ts": [[10, 14]] } },
+      );
+
+      expect(kept.map((violation) => violation.line)).toEqual([12]);
+    });
+  });
+
+  describe("resolveGitScope", () => {
+    let directory;
+
+    const git = (...arguments_) =>
+      execFileSync(
+        "git",
+        [
+          "-c",
+          "user.name=Test",
+          "-c",
+          "user.email=test@example.com",
+          ...arguments_,
+        ],
+        { cwd: directory, stdio: "pipe" },
+      );
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(tmpdir(), "sidequest-git-scope-"));
+      git("init", "-q", "-b", "main");
+      writeFileSync(path.join(directory, "a.ts"), "export const a = 1;\n");
+      writeFileSync(path.join(directory, "b.ts"), "export const b = 1;\n");
+      git("add", ".");
+      git("commit", "-q", "-m", "initial");
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should include modified and untracked files since a ref", () => {
+      writeFileSync(
+        path.join(directory, "a.ts"),
+        "export const a = 1;\nexport const c = 2;\n",
+      );
+      writeFileSync(path.join(directory, "new.ts"), "export const n = 1;\n");
+
+      const scope = resolveGitScope({
+        changedSince: "main",
+        changedLines: true,
+        cwd: directory,
+      });
+
+      expect(scope.description).toBe("changes since main");
+      expect(scope.files).toEqual(["a.ts", "new.ts"]);
+      expect(scope.changedLines["a.ts"]).toEqual([[2, 2]]);
+      expect(scope.changedLines["new.ts"][0][0]).toBe(1);
+    });
+
+    it("should use only the index in staged mode", () => {
+      writeFileSync(path.join(directory, "a.ts"), "export const a = 2;\n");
+      writeFileSync(path.join(directory, "b.ts"), "export const b = 2;\n");
+      git("add", "b.ts");
+
+      const scope = resolveGitScope({ staged: true, cwd: directory });
+
+      expect(scope.files).toEqual(["b.ts"]);
+      expect(scope.changedLines).toBeUndefined();
+    });
+
+    it("should report unknown refs", () => {
+      expect(() =>
+        resolveGitScope({ changedSince: "no-such-ref", cwd: directory }),
+      ).toThrow("git merge-base");
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Code Ownership Tests
+ * Verifies CODEOWNERS matching, git blame attribution and storing owners
+ * alongside violations in SQLite
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execFileSync } from "node:child_process";
+import path from "node:path";
+import {
+  OwnershipResolver,
+  parseCodeowners,
+  resolveOwners,
+} from "../../../utils/ownership.ts";
+import {
+  initializeDatabase,
+  closeDatabase,
+} from "../../../database/connection.ts";
+import { StorageService } from "../../../services/storage-service.ts";
+import { AnalysisService } from "../../../services/analysis-service.ts";
+
+const CODEOWNERS = `
+# Default owners
+*                 @acme/core
+*.md              docs@example.com
+/src/api/         @acme/backend @dana   # inline comment
+apps/             @acme/apps
+/src/api/generated/
+\\#notes           @archivist
+`;
+
+describe("Code ownership", () => {
+  describe("resolveOwners", () => {
+    const rules = parseCodeowners(CODEOWNERS);
+
+    it("should parse rules in file order, skipping comments", () => {
+      expect(rules).toEqual([
+        { pattern: "*", owners: ["@acme/core"] },
+        { pattern: "*.md", owners: ["docs@example.com"] },
+        { pattern: "/src/api/", owners: ["@acme/backend", "@dana"] },
+        { pattern: "apps/", owners: ["@acme/apps"] },
+        { pattern: "/src/api/generated/", owners: [] },
+        { pattern: "#notes", owners: ["@archivist"] },
+      ]);
+    });
+
+    it("should let the last matching rule win", () => {
+      expect(resolveOwners(rules, "src/index.ts")).toEqual(["@acme/core"]);
+      expect(resolveOwners(rules, "src/api/README.md")).toEqual([
+        "@acme/backend",
+        "@dana",
+      ]);
+      expect(resolveOwners(rules, "guide/setup.md")).toEqual([
+        "docs@example.com",
+      ]);
+      // Explicitly unowned
+      expect(resolveOwners(rules, "src/api/generated/client.ts")).toEqual([]);
+    });
+
+    it("should anchor patterns with a slash and match the rest at any depth", () => {
+      expect(resolveOwners(rules, "apps/web/main.ts")).toEqual(["@acme/apps"]);
+      expect(resolveOwners(rules, "lib/src/api/handler.ts")).toEqual([
+        "@acme/core",
+      ]);
+      expect(
+        resolveOwners(parseCodeowners("docs/ @writers"), "x/docs/a.md"),
+      ).toEqual(["@writers"]);
+      expect(
+        resolveOwners(parseCodeowners("docs/api @writers"), "x/docs/api/a.md"),
+      ).toEqual([]);
+    });
+
+    it("should only match below a directory for directory patterns", () => {
+      const docs = parseCodeowners("docs/* @writers\n/build/logs/ @ops");
+
+      expect(resolveOwners(docs, "docs/getting-started.md")).toEqual([
+        "@writers",
+      ]);
+      expect(resolveOwners(docs, "docs/build-app/troubleshooting.md")).toEqual(
+        [],
+      );
+      expect(resolveOwners(docs, "build/logs/2024/run.log")).toEqual(["@ops"]);
+      expect(resolveOwners(rules, "src/api/v1/routes/users.ts")).toEqual([
+        "@acme/backend",
+        "@dana",
+      ]);
+      expect(resolveOwners(rules, "packages/ui/docs/intro.md")).toEqual([
+        "docs@example.com",
+      ]);
+    });
+  });
+
+  describe("with a git repository", () => {
+    let directory;
+    let write;
+
+    const git = (...arguments_) =>
+      execFileSync("git", arguments_, { cwd: directory, encoding: "utf8" });
+    const violation = (file, line, category = "type-alias") => ({
+      file,
+      line,
+      code: "x",
+      message: `Problem ${line} in ${file}`,
+      category,
+      severity: "warn",
+      source: "typescript",
+      rule: "TS2322",
+    });
+
+    beforeEach(() => {
+      ({ directory, write } = createTempProject("sidequest-ownership-"));
+      git("init", "--quiet", "--initial-branch=main");
+      git("config", "user.name", "Ada");
+      git("config", "user.email", "ada@example.com");
+      write(".github/CODEOWNERS", "* @acme/core\n/src/api/ @acme/backend\n");
+      write("src/api/users.ts", "export const a = 1;\nexport const b = 2;\n");
+      write("src/index.ts", "export {};\n");
+      git("add", ".");
+      git(
+        "commit",
+        "--quiet",
+        "-m",
+        "initial",
+        "--date",
+        "2026-03-01T12:00:00Z",
+      );
+    });
+
+    afterEach(async () => {
+      await closeDatabase();
+      vi.restoreAllMocks();
+    });
+
+    it("should attach the line's last commit and the file's owners", () => {
+      const sha = git("rev-parse", "HEAD").trim();
+      // An uncommitted line has no blame yet
+      write(
+        "src/api/users.ts",
+        "export const a = 1;\nexport const b = 2;\nexport const c = 3;\n",
+      );
+
+      const resolver = new OwnershipResolver(
+        { blame: true, codeowners: true },
+        directory,
+      );
+      const [committed, uncommitted, setup] = resolver.annotate([
+        violation("src/api/users.ts", 2),
+        violation(path.join(directory, "src/api/users.ts"), 3),
+        violation("tsconfig.json", 0, "setup-issue"),
+      ]);
+
+      expect(committed.blame).toEqual({
+        author: "Ada",
+        email: "ada@example.com",
+        commit: sha,
+        date: "2026-03-01T12:00:00.000Z",
+      });
+      expect(committed.owners).toEqual(["@acme/backend"]);
+      expect(uncommitted.blame).toBeUndefined();
+      expect(uncommitted.owners).toEqual(["@acme/backend"]);
+      expect(setup).toEqual(violation("tsconfig.json", 0, "setup-issue"));
+    });
+
+    it("should resolve owners relative to the repository root from a subdirectory", () => {
+      const resolver = new OwnershipResolver(
+        { blame: false, codeowners: true },
+        path.join(directory, "src"),
+      );
+
+      const [api, index] = resolver.annotate([
+        violation("api/users.ts", 1),
+        violation("index.ts", 1),
+      ]);
+
+      expect(api.owners).toEqual(["@acme/backend"]);
+      expect(api.blame).toBeUndefined();
+      expect(index.owners).toEqual(["@acme/core"]);
+    });
+
+    it("should store owners in SQLite and group problem files by them", async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      await initializeDatabase({
+        path: path.join(directory, "history.db"),
+        pragmas: { journal_mode: "DELETE" },
+      });
+      const storage = new StorageService();
+      const resolver = new OwnershipResolver(
+        { blame: true, codeowners: true },
+        directory,
+      );
+      const violations = [
+        violation("src/api/users.ts", 1),
+        violation("src/api/users.ts", 2),
+        violation("src/index.ts", 1),
+      ];
+
+      await storage.storeViolations(
+        resolver.annotate(violations.map((v) => ({ ...v }))),
+      );
+      // A later run without ownership keeps what was recorded
+      await storage.storeViolations(violations);
+
+      expect(await storage.getOwnerSummary()).toEqual([
+        { owner: "@acme/backend", count: 2, affected_files: 1 },
+        { owner: "@acme/core", count: 1, affected_files: 1 },
+      ]);
+      const [stored] = await storage.getViolations({
+        file_paths: ["src/index.ts"],
+      });
+      expect(stored).toMatchObject({
+        blame_author: "Ada",
+        blame_email: "ada@example.com",
+        owners: '["@acme/core"]',
+      });
+
+      const problemFiles = await new AnalysisService(
+        storage,
+      ).identifyProblemFiles(2);
+      expect(problemFiles).toEqual([
+        expect.objectContaining({
+          filePath: "src/api/users.ts",
+          owners: ["@acme/backend"],
+          authors: ["Ada"],
+        }),
+      ]);
+    });
+  });
+});
@@ -177,6 +177,60 @@ describe("PRD Generation", () => {
     expect(content).toContain("**style-issue**: 1 violations (25.0% of total)");
   });
 
+  test("should group violations by owner when CODEOWNERS owners are known", async () => {
+    const mockViolations = [
+      createMockViolation({
+        file: "src/api.ts",
+        severity: "error",
+        owners: ["@acme/backend"],
+      }),
+      createMockViolation({ file: "src/db.ts", owners: ["@acme/backend"] }),
+      createMockViolation({
+        file: "src/ui.ts",
+        owners: ["@acme/frontend", "@dana"],
+      }),
+      createMockViolation({ file: "README.md" }),
+    ];
+
+    const { generatePRD } = await import("../../../lib/cli.ts");
+
+    await generatePRD(mockViolations, "./owners-test");
+
+    const [, content] = writeFile.mock.calls[0];
+
+    expect(content).toContain("### Priority 4: Ownership");
+    expect(content).toContain(
+      "- **@acme/backend**: 2 violations in 2 files (1 errors)",
+    );
+    expect(content).toContain(
+      "- **@acme/frontend**: 1 violations in 1 files (0 errors)",
+    );
+    expect(content).toContain("- **@dana**: 1 violations in 1 files");
+  });
+
+  test("should group by last author with blame only and omit ownership otherwise", async () => {
+    const blame = (author) => ({
+      author,
+      commit: "a".repeat(40),
+      date: "2026-01-01T00:00:00.000Z",
+    });
+    const { generatePRD } = await import("../../../lib/cli.ts");
+
+    await generatePRD(
+      [
+        createMockViolation({ file: "src/a.ts", blame: blame("Ada") }),
+        createMockViolation({ file: "src/b.ts", blame: blame("Ada") }),
+      ],
+      "./blame-test",
+    );
+    expect(writeFile.mock.calls[0][1]).toContain(
+      "Violations by last author of the line:\n- **Ada**: 2 violations in 2 files",
+    );
+
+    await generatePRD([createMockViolation()], "./plain-test");
+    expect(writeFile.mock.calls[1][1]).not.toContain("Ownership");
+  });
+
   test("should set realistic targets in success metrics", async () => {
     const mockViolations = Array(100)
       .fill(null)
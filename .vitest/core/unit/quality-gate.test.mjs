@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Quality Gate Tests
+ * Verifies threshold evaluation, baseline gates and exit code mapping
+ */
+
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  EXIT_CODES,
+  evaluateQualityGate,
+  getGateExitCode,
+  loadQualityGateConfig,
+} from "../../../utils/quality-gate.ts";
+
+function createResult(violations) {
+  return { violations };
+}
+
+const error = (overrides = {}) =>
+  createMockViolation({
+    severity: "error",
+    source: "typescript",
+    ...overrides,
+  });
+const warning = (overrides = {}) =>
+  createMockViolation({ severity: "warn", source: "eslint", ...overrides });
+
+describe("Quality Gate", () => {
+  it("should pass with no thresholds configured", () => {
+    const gate = evaluateQualityGate(createResult([error(), warning()]), {});
+
+    expect(gate.passed).toBe(true);
+    expect(gate.breaches).toEqual([]);
+    expect(getGateExitCode(gate)).toBe(EXIT_CODES.SUCCESS);
+  });
+
+  it("should list exactly the breached thresholds", () => {
+    const gate = evaluateQualityGate(
+      createResult([
+        error({ category: "type-alias" }),
+        error({ category: "type-alias" }),
+        warning({ category: "code-quality" }),
+      ]),
+      {
+        maxTotal: 5,
+        maxBySeverity: { error: 1, warn: 1 },
+        maxByCategory: { "type-alias": 1 },
+        maxBySource: { eslint: 0 },
+      },
+    );
+
+    expect(gate.passed).toBe(false);
+    expect(gate.breaches.map((breach) => breach.threshold)).toEqual([
+      "maxBySeverity.error",
+      "maxByCategory.type-alias",
+      "maxBySource.eslint",
+    ]);
+    expect(gate.breaches[0]).toMatchObject({ limit: 1, actual: 2 });
+    expect(getGateExitCode(gate)).toBe(EXIT_CODES.GATE_FAILED);
+  });
+
+  it("should exclude setup issues from thresholds but report them", () => {
+    const gate = evaluateQualityGate(
+      createResult([error({ category: "setup-issue" })]),
+      { maxTotal: 0 },
+    );
+
+    expect(gate.passed).toBe(true);
+    expect(gate.setupIssueCount).toBe(1);
+    expect(getGateExitCode(gate)).toBe(EXIT_CODES.SETUP_ISSUE);
+  });
+
+  it("should fail on any new violation by default when a baseline is used", () => {
+    const comparison = {
+      newViolations: [warning()],
+      fixedEntries: [],
+      baselinedCount: 0,
+    };
+    const gate = evaluateQualityGate(createResult([warning()]), {}, comparison);
+
+    expect(gate.config.noNewViolations).toBe(true);
+    expect(gate.breaches.map((breach) => breach.threshold)).toEqual([
+      "noNewViolations",
+    ]);
+  });
+
+  it("should only fail on new errors with noNewErrors", () => {
+    const comparison = {
+      newViolations: [warning()],
+      fixedEntries: [],
+      baselinedCount: 0,
+    };
+
+    expect(
+      evaluateQualityGate(
+        createResult([warning()]),
+        { noNewErrors: true },
+        comparison,
+      ).passed,
+    ).toBe(true);
+
+    const gate = evaluateQualityGate(
+      createResult([warning(), error()]),
+      { noNewErrors: true },
+      { ...comparison, newViolations: [warning(), error()] },
+    );
+    expect(gate.breaches).toEqual([
+      expect.objectContaining({ threshold: "noNewErrors", actual: 1 }),
+    ]);
+  });
+
+  it("should load and validate gate files", async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), "sidequest-gate-"));
+    const gateFile = path.join(directory, "gate.json");
+
+    try {
+      writeFileSync(
+        gateFile,
+        JSON.stringify({ maxTotal: 10, maxByCategory: { "code-quality": 2 } }),
+      );
+      await expect(loadQualityGateConfig(gateFile)).resolves.toEqual({
+        maxTotal: 10,
+        maxByCategory: { "code-quality": 2 },
+      });
+
+      writeFileSync(gateFile, JSON.stringify({ maxTotal: -1 }));
+      await expect(loadQualityGateConfig(gateFile)).rejects.toThrow(
+        "Invalid gate file format",
+      );
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
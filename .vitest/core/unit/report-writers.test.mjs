@@ -0,0 +1,160 @@
+/**
+ * @fileoverview JSON and HTML Report Writer Tests
+ * Verifies the stable JSON report shape and the self-contained HTML report
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  createJsonReport,
+  writeJsonReport,
+  JSON_REPORT_SCHEMA_VERSION,
+} from "../../../utils/json-report-writer.ts";
+import {
+  createHtmlReport,
+  writeHtmlReport,
+  escapeHtml,
+} from "../../../utils/html-report-writer.ts";
+
+function createResult(violations) {
+  return {
+    violations,
+    engineResults: [
+      {
+        engineName: "TypeScript Compiler",
+        violations,
+        executionTime: 42.7,
+        success: true,
+      },
+    ],
+    totalExecutionTime: 43,
+    summary: {
+      total: violations.length,
+      bySeverity: { error: 1, warn: 1, info: 0 },
+      bySource: { typescript: 2, eslint: 0 },
+      byCategory: { "type-alias": 1, "code-quality": 1 },
+      topFiles: [
+        { file: "src/b.ts", count: 1 },
+        { file: "src/a.ts", count: 1 },
+      ],
+    },
+    timestamp: "2025-01-01T00:00:00.000Z",
+  };
+}
+
+const violations = [
+  createMockViolation({
+    file: "src/b.ts",
+    line: 4,
+    rule: "TS2322",
+    category: "type-alias",
+    severity: "error",
+    message: "Type <string> is not assignable",
+  }),
+  createMockViolation({
+    file: "src/a.ts",
+    line: 9,
+    rule: "no-console",
+    category: "code-quality",
+    severity: "warn",
+    message: "Unexpected console statement",
+  }),
+];
+
+describe("JSON Report Writer", () => {
+  let directory;
+
+  afterEach(() => {
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it("should produce a versioned report with deterministic ordering", () => {
+    const report = createJsonReport(createResult(violations), {
+      targetPath: "src",
+      toolVersion: "1.0.0",
+    });
+
+    expect(report.schemaVersion).toBe(JSON_REPORT_SCHEMA_VERSION);
+    expect(report.generatedAt).toBe("2025-01-01T00:00:00.000Z");
+    expect(report.violations.map((violation) => violation.file)).toEqual([
+      "src/a.ts",
+      "src/b.ts",
+    ]);
+    expect(Object.keys(report.summary.byCategory)).toEqual([
+      "code-quality",
+      "type-alias",
+    ]);
+    expect(report.summary.bySource).toEqual({ typescript: 2 });
+    expect(report.summary.topFiles[0].file).toBe("src/a.ts");
+    expect(report.violations[0].fingerprint).toMatch(/^[\da-f]{64}$/);
+  });
+
+  it("should be identical regardless of violation input order", () => {
+    const forward = createJsonReport(createResult(violations));
+    const reversed = createJsonReport(createResult([...violations].reverse()));
+
+    expect(JSON.stringify(reversed)).toBe(JSON.stringify(forward));
+  });
+
+  it("should write the report into nested directories", async () => {
+    directory = mkdtempSync(path.join(tmpdir(), "sidequest-report-"));
+    const outputFile = path.join(directory, "reports", "quality.json");
+
+    await writeJsonReport(createResult(violations), outputFile);
+
+    const written = JSON.parse(readFileSync(outputFile, "utf8"));
+    expect(written.summary.total).toBe(2);
+    expect(written.engines[0]).toEqual({
+      name: "TypeScript Compiler",
+      success: true,
+      executionTimeMs: 43,
+      violationCount: 2,
+    });
+  });
+});
+
+describe("HTML Report Writer", () => {
+  it("should escape HTML special characters", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;",
+    );
+  });
+
+  it("should render a self-contained document", () => {
+    const html = createHtmlReport(createResult(violations));
+
+    expect(html).toContain("<!DOCTYPE html>");
+    expect(html).toContain("<style>");
+    expect(html).toContain("<script>");
+    expect(html).not.toMatch(/<link|<script src=|https?:\/\//);
+  });
+
+  it("should include summary, breakdowns, top files and violation rows", () => {
+    const html = createHtmlReport(createResult(violations));
+
+    expect(html).toContain("Type Issues (type-alias)");
+    expect(html).toContain("Top Files");
+    expect(html).toContain('id="filter-severity"');
+    expect(html).toContain("Type &lt;string&gt; is not assignable");
+    expect(html.match(/<tr data-severity=/g)).toHaveLength(2);
+  });
+
+  it("should write the report to disk", async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), "sidequest-report-"));
+    const outputFile = path.join(directory, "quality.html");
+
+    try {
+      await writeHtmlReport(createResult(violations), outputFile);
+      expect(readFileSync(outputFile, "utf8")).toContain(
+        "SideQuest Code Quality Report",
+      );
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
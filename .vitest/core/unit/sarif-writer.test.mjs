@@ -0,0 +1,219 @@
+/**
+ * @fileoverview SARIF Writer Tests
+ * Verifies OrchestratorResult → SARIF 2.1.0 conversion
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  createSarifLog,
+  toSarifLevel,
+  SARIF_VERSION,
+} from "../../../utils/sarif-writer.ts";
+import { BaseAuditEngine } from "../../../engines/base-engine.ts";
+import { UnifiedOrchestrator } from "../../../services/unified-orchestrator.ts";
+
+class FixedEngine extends BaseAuditEngine {
+  constructor(violations) {
+    super("Fixed Engine", "eslint", {
+      enabled: true,
+      priority: 1,
+      timeout: 5000,
+      allowFailure: true,
+      options: {},
+    });
+    this.violations = violations;
+  }
+
+  async analyze() {
+    return this.violations.map((violation) => ({ ...violation }));
+  }
+}
+
+function createResult() {
+  const tsError = createMockViolation({
+    file: "src/types.ts",
+    line: 12,
+    column: 5,
+    rule: "TS2322",
+    category: "type-alias",
+    severity: "error",
+    source: "typescript",
+    message: "Type 'string' is not assignable to type 'number'",
+    fixSuggestion: "Align the declared type with the assigned value",
+  });
+  const eslintWarning = createMockViolation({
+    file: path.join(process.cwd(), "src/utils.ts"),
+    line: 3,
+    column: 0,
+    rule: "no-console",
+    category: "code-quality",
+    severity: "warn",
+    source: "eslint",
+    message: "Unexpected console statement",
+  });
+  const duplicate = { ...eslintWarning };
+
+  return {
+    violations: [tsError, eslintWarning],
+    engineResults: [
+      {
+        engineName: "TypeScript Compiler",
+        violations: [tsError],
+        executionTime: 120.4,
+        success: true,
+      },
+      {
+        engineName: "ESLint Audit",
+        violations: [eslintWarning, duplicate],
+        executionTime: 80,
+        success: true,
+      },
+      {
+        engineName: "CodeArchaeology",
+        violations: [],
+        executionTime: 5,
+        success: false,
+        error: "jscpd not installed",
+      },
+    ],
+    totalExecutionTime: 205,
+    summary: {},
+    timestamp: new Date().toISOString(),
+  };
+}
+
+describe("SARIF Writer", () => {
+  it("should create one run per engine", () => {
+    const log = createSarifLog(createResult(), { toolVersion: "1.2.3" });
+
+    expect(log.version).toBe(SARIF_VERSION);
+    expect(log.runs).toHaveLength(3);
+    expect(log.runs.map((run) => run.tool.driver.name)).toEqual([
+      "SideQuest TypeScript Compiler",
+      "SideQuest ESLint Audit",
+      "SideQuest CodeArchaeology",
+    ]);
+    expect(log.runs[0].tool.driver.version).toBe("1.2.3");
+  });
+
+  it("should only report deduplicated violations", () => {
+    const log = createSarifLog(createResult());
+
+    expect(log.runs[1].results).toHaveLength(1);
+  });
+
+  it("should map violation fields onto results", () => {
+    const log = createSarifLog(createResult());
+    const [result] = log.runs[0].results;
+
+    expect(result.ruleId).toBe("TS2322");
+    expect(result.level).toBe("error");
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toBe(
+      "src/types.ts",
+    );
+    expect(result.locations[0].physicalLocation.region).toEqual({
+      startLine: 12,
+      startColumn: 5,
+    });
+    expect(result.properties.fixSuggestion).toBe(
+      "Align the declared type with the assigned value",
+    );
+    expect(result.partialFingerprints["sidequestViolationHash/v1"]).toMatch(
+      /^[\da-f]{64}$/,
+    );
+  });
+
+  it("should relativize absolute paths and omit invalid columns", () => {
+    const log = createSarifLog(createResult());
+    const [result] = log.runs[1].results;
+
+    expect(result.level).toBe("warning");
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toBe(
+      "src/utils.ts",
+    );
+    expect(result.locations[0].physicalLocation.region).toEqual({
+      startLine: 3,
+    });
+  });
+
+  it("should build rule descriptors from category labels", () => {
+    const log = createSarifLog(createResult());
+    const [rule] = log.runs[0].tool.driver.rules;
+
+    expect(rule.id).toBe("TS2322");
+    expect(rule.shortDescription.text).toBe("Type Issues");
+    expect(rule.properties.tags).toEqual(["type-alias", "typescript"]);
+    expect(log.runs[0].results[0].ruleIndex).toBe(0);
+  });
+
+  it("should record failed engines as unsuccessful invocations", () => {
+    const log = createSarifLog(createResult());
+    const [invocation] = log.runs[2].invocations;
+
+    expect(invocation.executionSuccessful).toBe(false);
+    expect(invocation.toolExecutionNotifications[0].message.text).toBe(
+      "jscpd not installed",
+    );
+  });
+
+  it("should report the violations of an orchestrator analysis", async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), "sidequest-sarif-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    try {
+      const file = path.join(directory, "src.ts");
+      writeFileSync(file, "const a: any = 1;\nconsole.log(a);\n");
+      const orchestrator = new UnifiedOrchestrator({
+        targetPath: directory,
+        engines: {
+          typescript: { enabled: false },
+          eslint: { enabled: false },
+          unusedExports: { enabled: false },
+          zodDetection: { enabled: false },
+          archaeology: { enabled: false },
+          complexity: { enabled: false },
+          circularDependencies: { enabled: false },
+          architecture: { enabled: false },
+          commands: { enabled: false },
+          reportImport: { enabled: false },
+          dependencies: { enabled: false },
+        },
+        deduplication: { enabled: true, strategy: "exact" },
+        crossover: { enabled: false },
+        output: { console: false },
+        database: { path: "./data/test.db", enableWAL: false },
+        polling: {},
+        watch: {},
+        performance: {},
+      });
+      const violation = createMockViolation({
+        file,
+        line: 2,
+        rule: "no-console",
+        source: "eslint",
+      });
+      orchestrator.addEngine("fixed", new FixedEngine([violation, violation]));
+
+      const result = await orchestrator.analyze(directory);
+      const log = createSarifLog(result, { baseDirectory: directory });
+      const [run] = log.runs;
+
+      expect(run.results).toHaveLength(1);
+      expect(run.results[0].ruleId).toBe("no-console");
+      expect(
+        run.results[0].partialFingerprints["sidequestFingerprint/v2"],
+      ).toBe(result.violations[0].fingerprint.hash);
+    } finally {
+      vi.restoreAllMocks();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should map severities to SARIF levels", () => {
+    expect(toSarifLevel("error")).toBe("error");
+    expect(toSarifLevel("warn")).toBe("warning");
+    expect(toSarifLevel("info")).toBe("note");
+  });
+});
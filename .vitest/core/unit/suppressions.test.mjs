@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Violation Suppression Tests
+ * Verifies waiver matching and expiry, the suppressions file round trip and
+ * that waived violations are stored as ignored
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  addSuppression,
+  applySuppressions,
+  compareVersions,
+  isSuppressionExpired,
+  loadSuppressions,
+} from "../../../utils/suppressions.ts";
+import {
+  initializeDatabase,
+  closeDatabase,
+} from "../../../database/connection.ts";
+import { StorageService } from "../../../services/storage-service.ts";
+import { violationToDatabaseFormat } from "../../../database/utils.ts";
+
+const FINGERPRINT = "a".repeat(64);
+
+const violation = (file, rule, overrides = {}) => ({
+  file,
+  line: 1,
+  code: rule,
+  message: `${rule} in ${file}`,
+  category: "type-alias",
+  severity: "warn",
+  source: "eslint",
+  rule,
+  ...overrides,
+});
+
+const waiver = (overrides) => ({
+  reason: "Accepted",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("Violation suppressions", () => {
+  describe("applySuppressions", () => {
+    const context = {
+      baseDirectory: "/repo",
+      cwd: "/repo/app",
+      now: new Date("2026-06-15T12:00:00Z"),
+      projectVersion: "1.4.0",
+    };
+
+    it("should waive violations matching every given field", () => {
+      const legacy = waiver({ rule: "no-explicit-any", path: "app/legacy/**" });
+      const single = waiver({ fingerprint: FINGERPRINT });
+      const violations = [
+        violation("legacy/api.ts", "no-explicit-any"),
+        violation("legacy/api.ts", "no-console"),
+        violation("src/index.ts", "no-explicit-any"),
+        violation("src/index.ts", "eqeqeq", {
+          fingerprint: { hash: FINGERPRINT, contextHash: "c", occurrence: 0 },
+        }),
+        violation("legacy/tsconfig.json", "no-explicit-any", {
+          category: "setup-issue",
+        }),
+      ];
+
+      const outcome = applySuppressions(violations, [legacy, single], context);
+
+      expect(outcome.suppressed).toEqual([
+        { violation: violations[0], suppression: legacy },
+        { violation: violations[3], suppression: single },
+      ]);
+      expect(outcome.violations).toEqual([
+        violations[1],
+        violations[2],
+        violations[4],
+      ]);
+      expect(outcome.unused).toEqual([]);
+    });
+
+    it("should report expired and unused waivers", () => {
+      const pastDate = waiver({ rule: "no-console", until: "2026-06-14" });
+      const today = waiver({ rule: "no-console", until: "2026-06-15" });
+      const released = waiver({ rule: "eqeqeq", until: "v1.4" });
+      const unused = waiver({ rule: "no-debugger", until: "2.0.0" });
+      const violations = [
+        violation("src/a.ts", "no-console"),
+        violation("src/a.ts", "eqeqeq"),
+      ];
+      const suppressions = [pastDate, today, released, unused];
+
+      const outcome = applySuppressions(violations, suppressions, context);
+
+      expect(outcome.expired).toEqual([pastDate, released]);
+      expect(outcome.unused).toEqual([unused]);
+      expect(outcome.suppressed.map((entry) => entry.suppression)).toEqual([
+        today,
+      ]);
+      expect(outcome.violations).toEqual([violations[1]]);
+      expect(
+        applySuppressions([], suppressions, { ...context, reportUnused: false })
+          .unused,
+      ).toEqual([]);
+    });
+
+    it("should compare versions numerically and never expire without one", () => {
+      expect(compareVersions("1.10.0", "1.9.2")).toBe(1);
+      expect(compareVersions("v2", "2.0.0")).toBe(0);
+      expect(compareVersions("2.0.0-beta.1", "2.0.1")).toBe(-1);
+      expect(isSuppressionExpired(waiver({ until: "1.0.0" }))).toBe(false);
+    });
+  });
+
+  describe("suppressions file", () => {
+    let directory;
+    let file;
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(tmpdir(), "sidequest-suppressions-"));
+      file = path.join(directory, ".sidequest-suppressions.json");
+      vi.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+      await closeDatabase();
+      vi.restoreAllMocks();
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should add, renew and load waivers", async () => {
+      await addSuppression(file, {
+        rule: "no-explicit-any",
+        path: "src/legacy/**",
+        reason: "Old API",
+      });
+      await addSuppression(file, { fingerprint: FINGERPRINT, reason: "Known" });
+      const renewed = await addSuppression(file, {
+        rule: "no-explicit-any",
+        path: "src/legacy/**",
+        reason: "  Old API, removal planned  ",
+        owner: "@dana",
+        until: "2026-12-31",
+      });
+
+      const { suppressions } = await loadSuppressions(file);
+      expect(suppressions).toEqual([
+        {
+          fingerprint: FINGERPRINT,
+          reason: "Known",
+          createdAt: expect.any(String),
+        },
+        renewed,
+      ]);
+      expect(renewed).toMatchObject({ reason: "Old API, removal planned" });
+      expect(readFileSync(file, "utf8")).toMatch(/^{\n {2}"version": 1,/);
+    });
+
+    it("should load hand-written waivers without a creation date", async () => {
+      writeFileSync(
+        file,
+        JSON.stringify({
+          version: 1,
+          suppressions: [{ rule: "no-console", reason: "CLI output" }],
+        }),
+      );
+
+      await expect(loadSuppressions(file)).resolves.toEqual({
+        version: 1,
+        suppressions: [{ rule: "no-console", reason: "CLI output" }],
+      });
+    });
+
+    it("should reject waivers without a reason or a target", async () => {
+      await expect(
+        addSuppression(file, { rule: "no-console", reason: " " }),
+      ).rejects.toThrow("A reason is required");
+      await expect(addSuppression(file, { reason: "Why" })).rejects.toThrow(
+        "A suppression needs a fingerprint, rule or path",
+      );
+      await expect(
+        addSuppression(file, { rule: "x", reason: "y", until: "next week" }),
+      ).rejects.toThrow("Expected a YYYY-MM-DD date or a version");
+
+      writeFileSync(
+        file,
+        JSON.stringify({
+          version: 1,
+          suppressions: [{ rule: "x", createdAt: "2026-01-01" }],
+        }),
+      );
+      await expect(loadSuppressions(file)).rejects.toThrow(
+        "Invalid suppressions file format",
+      );
+    });
+
+    it("should store waived violations as ignored until they are reported again", async () => {
+      await initializeDatabase({
+        path: path.join(directory, "history.db"),
+        pragmas: { journal_mode: "DELETE" },
+      });
+      const storage = new StorageService();
+      const waived = violation("src/a.ts", "no-console");
+      await storage.storeViolations([waived, violation("src/b.ts", "eqeqeq")]);
+
+      const { hash } = violationToDatabaseFormat(waived);
+      expect(await storage.ignoreViolations([hash])).toBe(1);
+      expect(await storage.ignoreViolations([hash])).toBe(0);
+      expect(
+        (await storage.getViolations({ status: "active" })).map(
+          (row) => row.file_path,
+        ),
+      ).toEqual(["src/b.ts"]);
+
+      // An expired waiver reports the violation again
+      await storage.storeViolations([waived]);
+      expect(await storage.getViolations({ status: "ignored" })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Violation Query Tests
+ * Verifies --query term parsing, filtering and sorting stored violations in
+ * SQLite, grouping and table/JSON/CSV output
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  formatQueryResults,
+  groupQueryRows,
+  parseQueryTerms,
+  toQueryRow,
+} from "../../../utils/violation-query.ts";
+import {
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../../../database/connection.ts";
+import { StorageService } from "../../../services/storage-service.ts";
+
+const violation = (file, line, rule, overrides = {}) => ({
+  file,
+  line,
+  code: rule,
+  message: `${rule} at ${file}:${line}`,
+  category: "type-alias",
+  severity: "warn",
+  source: "eslint",
+  rule,
+  ...overrides,
+});
+
+describe("Violation query", () => {
+  describe("parseQueryTerms", () => {
+    it("should map terms onto a storage query", () => {
+      expect(
+        parseQueryTerms([
+          "rule=no-explicit-any,TS2322",
+          "severity=error",
+          "path=src/**",
+          "owner=@acme/core",
+          "since=2026-01-01",
+          "until=2026-03-31",
+          "sort=-first_seen",
+          "limit=5",
+        ]),
+      ).toEqual({
+        query: {
+          rule_ids: ["no-explicit-any", "TS2322"],
+          severities: ["error"],
+          statuses: ["active"],
+          path: "src/**",
+          owners: ["@acme/core"],
+          first_seen_from: "2026-01-01",
+          first_seen_to: "2026-03-31",
+          sort: "first_seen",
+          descending: true,
+          limit: 5,
+        },
+        format: "table",
+      });
+    });
+
+    it("should apply sort and limit to groups and accept every status", () => {
+      expect(
+        parseQueryTerms(
+          ["status=all", "group=owner", "sort=key", "limit=3"],
+          "json",
+        ),
+      ).toEqual({
+        query: {},
+        groupBy: "owner",
+        groupSort: { field: "key", descending: false },
+        groupLimit: 3,
+        format: "json",
+      });
+    });
+
+    it("should reject malformed terms, unknown keys and sort fields", () => {
+      expect(() => parseQueryTerms(["severity"])).toThrow(
+        'Invalid query term "severity"',
+      );
+      expect(() => parseQueryTerms(["colour=red"])).toThrow("Unrecognized key");
+      expect(() => parseQueryTerms(["severity=fatal"])).toThrow("severity");
+      expect(() => parseQueryTerms(["since=yesterday"])).toThrow(
+        "Expected a YYYY-MM-DD date",
+      );
+      expect(() => parseQueryTerms(["group=rule", "sort=file"])).toThrow(
+        'cannot sort groups by "file"',
+      );
+    });
+  });
+
+  describe("with stored violations", () => {
+    let directory;
+    let storage;
+
+    const query = async (terms) => {
+      const parsed = parseQueryTerms(terms);
+      const rows = (await storage.queryViolations(parsed.query)).map((row) =>
+        toQueryRow(row),
+      );
+      return parsed.groupBy
+        ? groupQueryRows(
+            rows,
+            parsed.groupBy,
+            parsed.groupSort,
+            parsed.groupLimit,
+          )
+        : rows;
+    };
+
+    beforeEach(async () => {
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      directory = mkdtempSync(path.join(tmpdir(), "sidequest-query-"));
+      await initializeDatabase({
+        path: path.join(directory, "history.db"),
+        pragmas: { journal_mode: "DELETE" },
+      });
+      storage = new StorageService();
+      await storage.storeViolations([
+        violation("src/api/users.ts", 4, "no-explicit-any", {
+          severity: "error",
+          owners: ["@acme/backend", "@dana"],
+        }),
+        violation("src/api/users.ts", 9, "no-console", {
+          owners: ["@acme/backend"],
+        }),
+        violation("src/ui/app.ts", 2, "no-explicit-any", {
+          severity: "error",
+        }),
+        violation("scripts/build.ts", 1, "no-console", { severity: "info" }),
+      ]);
+      // Older rows hold CURRENT_TIMESTAMP-style timestamps
+      await getDatabase()
+        .updateTable("violations")
+        .set({ first_seen_at: "2025-12-31 23:00:00" })
+        .where("file_path", "=", "src/ui/app.ts")
+        .execute();
+      await getDatabase()
+        .updateTable("violations")
+        .set({ status: "resolved" })
+        .where("file_path", "=", "scripts/build.ts")
+        .execute();
+    });
+
+    afterEach(async () => {
+      await closeDatabase();
+      vi.restoreAllMocks();
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should filter by columns, owner, path glob and first-seen range", async () => {
+      const locations = async (terms) =>
+        (await query(terms)).map((row) => `${row.file}:${row.line}`);
+
+      expect(await locations([])).toEqual([
+        "src/api/users.ts:4",
+        "src/api/users.ts:9",
+        "src/ui/app.ts:2",
+      ]);
+      expect(await locations(["rule=no-console", "status=all"])).toEqual([
+        "scripts/build.ts:1",
+        "src/api/users.ts:9",
+      ]);
+      expect(await locations(["owner=@dana,@nobody"])).toEqual([
+        "src/api/users.ts:4",
+      ]);
+      expect(await locations(["path=src/ui"])).toEqual(["src/ui/app.ts:2"]);
+      expect(await locations(["until=2025-12-31"])).toEqual([
+        "src/ui/app.ts:2",
+      ]);
+      expect(await locations(["since=2026-01-01T00:00:00Z"])).toEqual([
+        "src/api/users.ts:4",
+        "src/api/users.ts:9",
+      ]);
+      expect(
+        await locations(["status=all", "sort=severity", "limit=3"]),
+      ).toEqual([
+        "src/api/users.ts:4",
+        "src/ui/app.ts:2",
+        "src/api/users.ts:9",
+      ]);
+
+      const [oldest] = await query(["sort=first_seen"]);
+      expect(oldest.first_seen_at).toBe("2025-12-31T23:00:00.000Z");
+    });
+
+    it("should group rows, counting each owner of a file", async () => {
+      expect(await query(["group=owner"])).toEqual([
+        expect.objectContaining({
+          key: "@acme/backend",
+          count: 2,
+          affected_files: 1,
+        }),
+        expect.objectContaining({ key: "(unowned)", count: 1 }),
+        expect.objectContaining({ key: "@dana", count: 1 }),
+      ]);
+      expect(
+        (await query(["group=rule", "sort=-key", "limit=1"])).map(
+          (group) => group.key,
+        ),
+      ).toEqual(["no-explicit-any"]);
+    });
+
+    it("should render tables, JSON and CSV", async () => {
+      const rows = await query(["rule=no-console"]);
+      rows[0].message = 'Say "hi", then\nleave';
+
+      const table = formatQueryResults(rows, "table");
+      expect(table).toMatch(/^severity +rule +location +status/);
+      expect(table).toContain("src/api/users.ts:9");
+      expect(table).toContain("1 violation(s)");
+
+      expect(JSON.parse(formatQueryResults(rows, "json"))).toEqual(rows);
+
+      const csv = formatQueryResults(rows, "csv");
+      const header = csv.slice(0, csv.indexOf("\n"));
+      expect(header).toBe(
+        "file,line,column,rule,category,source,severity,status,message,owners,author,first_seen_at,last_seen_at,fingerprint",
+      );
+      expect(csv.slice(header.length + 1)).toContain(
+        `src/api/users.ts,9,,no-console,type-alias,eslint,warn,active,"Say ""hi"", then\nleave",@acme/backend,,`,
+      );
+
+      const groups = await query(["group=severity"]);
+      expect(formatQueryResults(groups, "table", "severity")).toMatch(
+        /^severity +count +files +first seen +last seen\n/,
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Workspace Discovery Tests
+ * Verifies npm/pnpm workspace package discovery, file ownership and the
+ * orchestrator's per-package runs and rollups
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "node:path";
+import {
+  discoverWorkspacePackages,
+  findOwningPackage,
+} from "../../../utils/workspaces.ts";
+import { BaseAuditEngine } from "../../../engines/base-engine.ts";
+import { UnifiedOrchestrator } from "../../../services/unified-orchestrator.ts";
+import { createJsonReport } from "../../../utils/json-report-writer.ts";
+
+class FileEngine extends BaseAuditEngine {
+  constructor() {
+    super("File Engine", "custom", {
+      enabled: true,
+      priority: 1,
+      timeout: 5000,
+      allowFailure: true,
+      options: {},
+    });
+    this.targets = [];
+  }
+
+  async analyze(targetPath) {
+    this.targets.push(targetPath);
+    return [
+      this.createViolation(
+        path.join(targetPath, "src/index.ts"),
+        1,
+        "code",
+        "other",
+        "warn",
+        "file-rule",
+      ),
+      this.createViolation("engine-setup", 1, "setup", "setup-issue", "warn"),
+    ];
+  }
+}
+
+describe("Workspaces", () => {
+  let directory;
+  let write;
+
+  const names = (packages) =>
+    packages.map((workspacePackage) => workspacePackage.name);
+
+  beforeEach(() => {
+    ({ directory, write } = createTempProject("sidequest-workspaces-"));
+  });
+
+  describe("discoverWorkspacePackages", () => {
+    it("should read package.json workspaces with negated globs", () => {
+      write("package.json", {
+        name: "root",
+        workspaces: { packages: ["packages/*", "!packages/skipped"] },
+      });
+      write("packages/app/package.json", { name: "@acme/app" });
+      write("packages/unnamed/package.json", {});
+      write("packages/skipped/package.json", { name: "skipped" });
+      write("packages/app/src/nested/package.json", { name: "nested" });
+      write("packages/no-manifest/index.ts", "");
+
+      const packages = discoverWorkspacePackages(directory);
+      expect(names(packages)).toEqual(["@acme/app", "packages/unnamed"]);
+      expect(packages[0].directory).toBe(path.join(directory, "packages/app"));
+    });
+
+    it("should read pnpm-workspace.yaml and narrow to the target", () => {
+      write("package.json", { name: "root" });
+      write(
+        "pnpm-workspace.yaml",
+        "packages:\n  - 'apps/*'\n  - \"libs/**\" # shared code\nonlyBuiltDependencies:\n  - esbuild\n",
+      );
+      write("apps/web/package.json", { name: "web" });
+      write("libs/ui/package.json", { name: "ui" });
+      write("libs/ui/icons/package.json", { name: "icons" });
+
+      expect(names(discoverWorkspacePackages(directory))).toEqual([
+        "web",
+        "ui",
+        "icons",
+      ]);
+      expect(
+        names(discoverWorkspacePackages(path.join(directory, "libs"))),
+      ).toEqual(["ui", "icons"]);
+      expect(
+        names(discoverWorkspacePackages(path.join(directory, "apps/web/src"))),
+      ).toEqual(["web"]);
+    });
+
+    it("should find nothing outside a workspace", () => {
+      write("package.json", { name: "single" });
+
+      expect(discoverWorkspacePackages(directory)).toEqual([]);
+    });
+  });
+
+  describe("findOwningPackage", () => {
+    it("should pick the innermost package containing the file", () => {
+      const packages = [
+        { name: "ui", directory: path.join(directory, "libs/ui") },
+        { name: "icons", directory: path.join(directory, "libs/ui/icons") },
+      ];
+
+      expect(
+        findOwningPackage(packages, path.join(directory, "libs/ui/icons/a.ts"))
+          ?.name,
+      ).toBe("icons");
+      expect(
+        findOwningPackage(packages, path.join(directory, "libs/ui/b.ts"))?.name,
+      ).toBe("ui");
+      expect(
+        findOwningPackage(packages, path.join(directory, "c.ts")),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("UnifiedOrchestrator workspaces mode", () => {
+    it("should run engines per package and roll violations up by package", async () => {
+      write("package.json", { name: "root", workspaces: ["packages/*"] });
+      write("packages/a/package.json", { name: "a" });
+      write("packages/b/package.json", { name: "b" });
+
+      const targetPath = path.relative(process.cwd(), directory);
+      const orchestrator = new UnifiedOrchestrator({
+        targetPath,
+        engines: {
+          typescript: { enabled: false },
+          eslint: { enabled: false },
+          unusedExports: { enabled: false },
+          zodDetection: { enabled: false },
+          archaeology: { enabled: false },
+          complexity: { enabled: false },
+          circularDependencies: { enabled: false },
+          architecture: { enabled: false },
+          commands: { enabled: false },
+          reportImport: { enabled: false },
+          dependencies: { enabled: false },
+        },
+        workspaces: true,
+        deduplication: { enabled: true, strategy: "exact" },
+        crossover: { enabled: false },
+        output: { console: false },
+        database: { path: "./data/test.db", enableWAL: false },
+        polling: {},
+        watch: {},
+        performance: {},
+      });
+      const engine = new FileEngine();
+      orchestrator.addEngine("file", engine);
+
+      const result = await orchestrator.analyze();
+
+      expect(engine.targets).toEqual([
+        path.join(targetPath, "packages/a"),
+        path.join(targetPath, "packages/b"),
+      ]);
+      expect(
+        result.violations.map(({ file, package: owner }) => ({
+          file,
+          package: owner,
+        })),
+      ).toEqual([
+        {
+          file: path.join(targetPath, "packages/a/src/index.ts"),
+          package: "a",
+        },
+        {
+          file: path.join(targetPath, "packages/b/src/index.ts"),
+          package: "b",
+        },
+        // Found again in package b, but deduplicated
+        { file: "engine-setup", package: "a" },
+      ]);
+      expect(result.summary.byPackage).toEqual({ a: 2, b: 1 });
+      expect(
+        result.engineResults.map((engineResult) => engineResult.package),
+      ).toEqual(["a", "b"]);
+
+      const report = createJsonReport(result);
+      expect(report.summary.byPackage).toEqual({ a: 2, b: 1 });
+      expect(report.violations.map((violation) => violation.package)).toEqual([
+        "a",
+        "b",
+        "a",
+      ]);
+    });
+  });
+});
@@ -4,6 +4,9 @@
  */
 
 import { vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
 
 // Global test configuration
 globalThis.__TEST__ = true;
@@ -24,6 +27,9 @@ vi.mock("sqlite3", () => ({
 // Console capture for CLI testing
 let originalConsole;
 
+// Directories created by createTempProject during the current test
+const temporaryDirectories = [];
+
 beforeEach(() => {
   // Reset environment for each test
   process.env.TERM_COLOR_MODE = "dark";
@@ -48,6 +54,11 @@ afterEach(() => {
     console.warn = originalConsole.warn;
   }
 
+  // Remove temporary projects
+  for (const directory of temporaryDirectories.splice(0)) {
+    rmSync(directory, { recursive: true, force: true });
+  }
+
   // Reset environment
   process.env.NODE_ENV = "test";
   process.env.CI = "true";
@@ -89,6 +100,7 @@ globalThis.createMockStorageService = () => ({
     .fn()
     .mockResolvedValue({ inserted: 1, updated: 0, errors: [] }),
   getViolationSummary: vi.fn().mockResolvedValue([]),
+  getOwnerSummary: vi.fn().mockResolvedValue([]),
   getDashboardData: vi.fn().mockResolvedValue({
     total_files_affected: 0,
     recent_history: [],
@@ -115,6 +127,26 @@ globalThis.createMockOrchestrator = () => ({
   shutdown: vi.fn(),
 });
 
+// Temporary project directories, removed after each test; `write` creates
+// parent directories and writes non-string content as JSON
+globalThis.createTempProject = (prefix = "sidequest-") => {
+  const directory = mkdtempSync(path.join(tmpdir(), prefix));
+  temporaryDirectories.push(directory);
+  return {
+    directory,
+    write: (file, content) => {
+      const target = path.join(directory, file);
+      mkdirSync(path.dirname(target), { recursive: true });
+      writeFileSync(
+        target,
+        typeof content === "string"
+          ? content
+          : JSON.stringify(content, null, 2),
+      );
+    },
+  };
+};
+
 // Memory testing utilities
 globalThis.getMemoryUsage = () => {
   const usage = process.memoryUsage();
@@ -20,6 +20,38 @@ import type { DatabaseSchema, DatabaseConfig } from "./types.js";
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// ============================================================================
+// Schema Fragments
+// ============================================================================
+
+// Shared by new databases and the upgrade of existing ones
+const ANALYSIS_SNAPSHOTS_SQL = `
+        -- Git state of each analysis run, so history can be read per commit
+        CREATE TABLE analysis_snapshots (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            commit_sha TEXT,
+            branch TEXT,
+            dirty BOOLEAN DEFAULT FALSE,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );`;
+
+const SNAPSHOT_INDEXES_SQL = `
+        CREATE INDEX idx_rule_checks_snapshot ON rule_checks(snapshot_id);
+        CREATE INDEX idx_violation_history_snapshot ON violation_history(snapshot_id, violation_hash);
+        CREATE INDEX idx_analysis_snapshots_commit ON analysis_snapshots(commit_sha);`;
+
+// Violation columns added after the first schema version
+const ADDED_VIOLATION_COLUMNS_SQL = [
+  // Blame and CODEOWNERS attribution
+  "blame_author TEXT",
+  "blame_email TEXT",
+  "blame_commit TEXT",
+  "blame_date DATETIME",
+  "owners TEXT",
+  // Code context of the fingerprint, for re-association after edits
+  "context_hash TEXT",
+];
+
 // ============================================================================
 // Database Connection Management
 // ============================================================================
@@ -174,6 +206,7 @@ export class DatabaseConnection {
         console.log(
           "[Database] Schema already exists, skipping initialization",
         );
+        this.upgradeSchema(this.sqliteDatabase);
         return;
       }
 
@@ -196,12 +229,15 @@ export class DatabaseConnection {
             line_number INTEGER,
             column_number INTEGER,
             code_snippet TEXT,       -- Optional code context
-            hash TEXT NOT NULL UNIQUE, -- SHA-256 hash for deduplication: hash(file_path + line + rule_id + message)
+            hash TEXT NOT NULL UNIQUE, -- Fingerprint: SHA-256 of rule_id + file_path + code context + occurrence
             first_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
             last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-            status TEXT DEFAULT 'active' CHECK (status IN ('active', 'resolved', 'ignored'))
+            status TEXT DEFAULT 'active' CHECK (status IN ('active', 'resolved', 'ignored')),
+            ${ADDED_VIOLATION_COLUMNS_SQL.join(",\n            ")}
         );
 
+        ${ANALYSIS_SNAPSHOTS_SQL}
+
         -- Rule execution tracking - stores each time a rule is checked
         CREATE TABLE rule_checks (
             id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -214,7 +250,8 @@ export class DatabaseConnection {
             execution_time_ms INTEGER,
             error_message TEXT,      -- If status is 'failed'
             files_checked INTEGER DEFAULT 0,
-            files_with_violations INTEGER DEFAULT 0
+            files_with_violations INTEGER DEFAULT 0,
+            snapshot_id INTEGER REFERENCES analysis_snapshots(id) ON DELETE SET NULL
         );
 
         -- Historical tracking for violation deltas over time
@@ -225,7 +262,8 @@ export class DatabaseConnection {
             action TEXT NOT NULL CHECK (action IN ('added', 'removed', 'modified', 'unchanged')),
             previous_line INTEGER,   -- For 'modified' actions
             previous_message TEXT,   -- For 'modified' actions
-            recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            snapshot_id INTEGER REFERENCES analysis_snapshots(id) ON DELETE SET NULL
         );
 
         -- Client TypeScript configuration cache
@@ -308,6 +346,7 @@ export class DatabaseConnection {
         CREATE INDEX idx_violation_history_hash ON violation_history(violation_hash);
         CREATE INDEX idx_violation_history_action ON violation_history(action);
         CREATE INDEX idx_violation_history_recorded_at ON violation_history(recorded_at);
+        ${SNAPSHOT_INDEXES_SQL}
 
         -- Scheduling indexes
         CREATE INDEX idx_rule_schedules_next_run ON rule_schedules(next_run_at) WHERE enabled = true;
@@ -357,6 +396,44 @@ export class DatabaseConnection {
     }
   }
 
+  /**
+   * Add what later versions introduced to a database created before them
+   */
+  private static upgradeSchema(database: Database.Database): void {
+    database.exec(
+      ANALYSIS_SNAPSHOTS_SQL.replace(
+        "CREATE TABLE",
+        "CREATE TABLE IF NOT EXISTS",
+      ),
+    );
+    for (const table of ["rule_checks", "violation_history"]) {
+      const columns = database.pragma(`table_info(${table})`) as Array<{
+        name: string;
+      }>;
+      if (!columns.some((column) => column.name === "snapshot_id")) {
+        database.exec(
+          `ALTER TABLE ${table} ADD COLUMN snapshot_id INTEGER REFERENCES analysis_snapshots(id) ON DELETE SET NULL`,
+        );
+      }
+    }
+    const violationColumns = new Set(
+      (
+        database.pragma("table_info(violations)") as Array<{ name: string }>
+      ).map((column) => column.name),
+    );
+    for (const definition of ADDED_VIOLATION_COLUMNS_SQL) {
+      if (!violationColumns.has(definition.split(" ")[0]!)) {
+        database.exec(`ALTER TABLE violations ADD COLUMN ${definition}`);
+      }
+    }
+    database.exec(
+      SNAPSHOT_INDEXES_SQL.replaceAll(
+        "CREATE INDEX",
+        "CREATE INDEX IF NOT EXISTS",
+      ),
+    );
+  }
+
   /**
    * Health check - verify database is accessible and properly initialized
    */
@@ -13,10 +13,25 @@ CREATE TABLE violations (
     line_number INTEGER,
     column_number INTEGER,
     code_snippet TEXT,       -- Optional code context
-    hash TEXT NOT NULL UNIQUE, -- SHA-256 hash for deduplication: hash(file_path + line + rule_id + message)
+    hash TEXT NOT NULL UNIQUE, -- Fingerprint: SHA-256 of rule_id + file_path + code context + occurrence
     first_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    status TEXT DEFAULT 'active' CHECK (status IN ('active', 'resolved', 'ignored'))
+    status TEXT DEFAULT 'active' CHECK (status IN ('active', 'resolved', 'ignored')),
+    blame_author TEXT,       -- Last author of the line, with --blame
+    blame_email TEXT,
+    blame_commit TEXT,
+    blame_date DATETIME,
+    owners TEXT,             -- JSON array of CODEOWNERS owners, with --owners
+    context_hash TEXT        -- Normalized code context of the fingerprint
+);
+
+-- Git state of each analysis run, so history can be read per commit
+CREATE TABLE analysis_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    commit_sha TEXT,         -- HEAD commit; NULL outside git or before the first commit
+    branch TEXT,             -- NULL on a detached HEAD
+    dirty BOOLEAN DEFAULT FALSE, -- Tracked files had uncommitted changes
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Rule execution tracking - stores each time a rule is checked
@@ -31,7 +46,8 @@ CREATE TABLE rule_checks (
     execution_time_ms INTEGER,
     error_message TEXT,      -- If status is 'failed'
     files_checked INTEGER DEFAULT 0,
-    files_with_violations INTEGER DEFAULT 0
+    files_with_violations INTEGER DEFAULT 0,
+    snapshot_id INTEGER REFERENCES analysis_snapshots(id) ON DELETE SET NULL
 );
 
 -- Historical tracking for violation deltas over time
@@ -42,7 +58,8 @@ CREATE TABLE violation_history (
     action TEXT NOT NULL CHECK (action IN ('added', 'removed', 'modified', 'unchanged')),
     previous_line INTEGER,   -- For 'modified' actions
     previous_message TEXT,   -- For 'modified' actions
-    recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    snapshot_id INTEGER REFERENCES analysis_snapshots(id) ON DELETE SET NULL
 );
 
 -- Client TypeScript configuration cache
@@ -130,12 +147,17 @@ CREATE INDEX idx_rule_checks_rule_id ON rule_checks(rule_id);
 CREATE INDEX idx_rule_checks_started_at ON rule_checks(started_at);
 CREATE INDEX idx_rule_checks_status ON rule_checks(status);
 CREATE INDEX idx_rule_checks_engine ON rule_checks(engine);
+CREATE INDEX idx_rule_checks_snapshot ON rule_checks(snapshot_id);
 
 -- History tracking indexes
 CREATE INDEX idx_violation_history_check_id ON violation_history(check_id);
 CREATE INDEX idx_violation_history_hash ON violation_history(violation_hash);
 CREATE INDEX idx_violation_history_action ON violation_history(action);
 CREATE INDEX idx_violation_history_recorded_at ON violation_history(recorded_at);
+CREATE INDEX idx_violation_history_snapshot ON violation_history(snapshot_id, violation_hash);
+
+-- Snapshot indexes
+CREATE INDEX idx_analysis_snapshots_commit ON analysis_snapshots(commit_sha);
 
 -- Scheduling indexes
 CREATE INDEX idx_rule_schedules_next_run ON rule_schedules(next_run_at) WHERE enabled = true;
@@ -15,7 +15,16 @@ interface ViolationTable {
   rule_id: string;
   category: string;
   severity: "error" | "warn" | "info";
-  source: "typescript" | "eslint" | "unused-exports" | "zod-detection";
+  source:
+    | "typescript"
+    | "eslint"
+    | "unused-exports"
+    | "zod-detection"
+    | "complexity"
+    | "circular-dependency"
+    | "architecture"
+    | "dependencies"
+    | "custom";
   message: string;
   line_number: number | null;
   column_number: number | null;
@@ -24,12 +33,26 @@ interface ViolationTable {
   first_seen_at: Generated<string>; // ISO datetime string
   last_seen_at: Generated<string>; // ISO datetime string
   status: Generated<"active" | "resolved" | "ignored">;
+  blame_author: string | null;
+  blame_email: string | null;
+  blame_commit: string | null;
+  blame_date: string | null; // ISO datetime string
+  owners: string | null; // JSON array of CODEOWNERS owners
+  context_hash: string | null; // Normalized code context of the fingerprint
+}
+
+interface AnalysisSnapshotTable {
+  id: Generated<number>;
+  commit_sha: string | null;
+  branch: string | null;
+  dirty: Generated<number>; // SQLite stores boolean as integer (0/1)
+  created_at: Generated<string>;
 }
 
 interface RuleCheckTable {
   id: Generated<number>;
   rule_id: string;
-  engine: "typescript" | "eslint";
+  engine: "typescript" | "eslint" | "orchestrator";
   started_at: Generated<string>;
   completed_at: string | null;
   status: "running" | "completed" | "failed" | "timeout";
@@ -38,6 +61,7 @@ interface RuleCheckTable {
   error_message: string | null;
   files_checked: Generated<number>;
   files_with_violations: Generated<number>;
+  snapshot_id: number | null;
 }
 
 interface ViolationHistoryTable {
@@ -48,6 +72,7 @@ interface ViolationHistoryTable {
   previous_line: number | null;
   previous_message: string | null;
   recorded_at: Generated<string>;
+  snapshot_id: number | null;
 }
 
 interface RuleScheduleTable {
@@ -91,6 +116,7 @@ interface PerformanceMetricTable {
 // ============================================================================
 
 export interface DatabaseSchema {
+  analysis_snapshots: AnalysisSnapshotTable;
   violations: ViolationTable;
   rule_checks: RuleCheckTable;
   violation_history: ViolationHistoryTable;
@@ -106,6 +132,7 @@ export interface DatabaseSchema {
 export type Violation = Selectable<ViolationTable>;
 export type NewViolation = Insertable<ViolationTable>;
 export type ViolationHistory = Selectable<ViolationHistoryTable>;
+export type AnalysisSnapshot = Selectable<AnalysisSnapshotTable>;
 export type RuleSchedule = Selectable<RuleScheduleTable>;
 export type NewRuleSchedule = Insertable<RuleScheduleTable>;
 
@@ -115,7 +142,16 @@ export type NewRuleSchedule = Insertable<RuleScheduleTable>;
 
 export interface ViolationSummaryItem {
   category: string;
-  source: "typescript" | "eslint" | "unused-exports" | "zod-detection";
+  source:
+    | "typescript"
+    | "eslint"
+    | "unused-exports"
+    | "zod-detection"
+    | "complexity"
+    | "circular-dependency"
+    | "architecture"
+    | "dependencies"
+    | "custom";
   severity: "error" | "warn" | "info";
   count: number;
   affected_files: number;
@@ -137,6 +173,21 @@ export interface RulePerformanceItem {
   failed_runs: number;
 }
 
+/**
+ * Violation changes recorded by one analysis snapshot
+ */
+export interface SnapshotDeltaItem {
+  snapshot_id: number;
+  commit_sha: string | null;
+  branch: string | null;
+  dirty: number;
+  created_at: string;
+  added: number;
+  removed: number;
+  /** Violations present in the run (added or unchanged) */
+  total: number;
+}
+
 export interface ViolationDelta {
   violation_hash: string;
   action: "added" | "removed" | "modified" | "unchanged";
@@ -173,7 +224,17 @@ export interface StorageServiceConfig {
 export interface ViolationQueryParameters {
   status?: "active" | "resolved" | "ignored";
   categories?: string[];
-  sources?: ("typescript" | "eslint" | "unused-exports" | "zod-detection")[];
+  sources?: (
+    | "typescript"
+    | "eslint"
+    | "unused-exports"
+    | "zod-detection"
+    | "complexity"
+    | "circular-dependency"
+    | "architecture"
+    | "dependencies"
+    | "custom"
+  )[];
   severities?: ("error" | "warn" | "info")[];
   file_paths?: string[];
   limit?: number;
@@ -190,8 +251,53 @@ export interface HistoryQueryParameters {
   offset?: number;
 }
 
+/**
+ * Columns `queryViolations` can sort by
+ */
+export type ViolationSortField =
+  | "file"
+  | "rule"
+  | "category"
+  | "source"
+  | "severity"
+  | "status"
+  | "first_seen"
+  | "last_seen";
+
+/**
+ * Ad-hoc violation query; list filters match any of their values
+ */
+export interface ViolationQuery {
+  rule_ids?: string[];
+  categories?: string[];
+  sources?: string[];
+  severities?: ("error" | "warn" | "info")[];
+  /** All statuses when empty */
+  statuses?: ("active" | "resolved" | "ignored")[];
+  /** Glob over stored file paths, e.g. "src/api/**" */
+  path?: string;
+  /** CODEOWNERS owners or teams */
+  owners?: string[];
+  /** First seen on or after this date or datetime */
+  first_seen_from?: string;
+  /** First seen on or before this date (the whole day) or datetime */
+  first_seen_to?: string;
+  /** File and line order when absent */
+  sort?: ViolationSortField;
+  descending?: boolean;
+  limit?: number;
+}
+
+export interface OwnerSummaryItem {
+  /** CODEOWNERS owner or team */
+  owner: string;
+  count: number;
+  affected_files: number;
+}
+
 export interface DashboardData {
   summary: ViolationSummaryItem[];
+  by_owner: OwnerSummaryItem[];
   rule_performance: RulePerformanceItem[];
   recent_history: ViolationHistory[];
   active_violations: number;
@@ -43,17 +43,26 @@ export function generateViolationHash(violation: {
 }
 
 /**
- * Convert orchestrator violation to database violation format
+ * File, rule and message hash of an orchestrator violation
+ * Baselines and violations without a fingerprint are keyed by it.
  */
-export function violationToDatabaseFormat(
-  violation: ViolationType,
-): NewViolation {
-  const hash = generateViolationHash({
+export function violationContentHash(violation: ViolationType): string {
+  return generateViolationHash({
     file_path: violation.file,
     line_number: violation.line,
     rule_id: violation.rule || violation.code || "unknown",
     message: violation.message || "No message provided",
   });
+}
+
+/**
+ * Convert orchestrator violation to database violation format
+ * The fingerprint is the stored hash when the orchestrator assigned one.
+ */
+export function violationToDatabaseFormat(
+  violation: ViolationType,
+): NewViolation {
+  const hash = violation.fingerprint?.hash ?? violationContentHash(violation);
 
   return {
     file_path: violation.file,
@@ -64,12 +73,27 @@ export function violationToDatabaseFormat(
       | "typescript"
       | "eslint"
       | "unused-exports"
-      | "zod-detection",
+      | "zod-detection"
+      | "complexity"
+      | "circular-dependency"
+      | "architecture"
+      | "dependencies"
+      | "custom",
     message: violation.message || "No message provided",
     line_number: violation.line || null, // eslint-disable-line unicorn/no-null
     column_number: violation.column || null, // eslint-disable-line unicorn/no-null
     code_snippet: violation.code || null, // eslint-disable-line unicorn/no-null
     hash,
+    ...(violation.blame && {
+      blame_author: violation.blame.author,
+      blame_email: violation.blame.email ?? null, // eslint-disable-line unicorn/no-null
+      blame_commit: violation.blame.commit,
+      blame_date: violation.blame.date,
+    }),
+    ...(violation.owners && { owners: JSON.stringify(violation.owners) }),
+    ...(violation.fingerprint && {
+      context_hash: violation.fingerprint.contextHash,
+    }),
     // first_seen_at and last_seen_at will use DEFAULT CURRENT_TIMESTAMP
     // status will use DEFAULT 'active'
   };
@@ -138,12 +162,14 @@ export function computeViolationDeltas(
 export function prepareDeltasForInsertion(
   checkId: number,
   deltas: ViolationDelta[],
+  snapshotId?: number,
 ): Array<{
   check_id: number;
   violation_hash: string;
   action: "added" | "removed" | "modified" | "unchanged";
   previous_line: number | null;
   previous_message: string | null;
+  snapshot_id: number | null;
 }> {
   return deltas.map((delta) => ({
     check_id: checkId,
@@ -151,6 +177,7 @@ export function prepareDeltasForInsertion(
     action: delta.action,
     previous_line: delta.previous_line || null, // eslint-disable-line unicorn/no-null
     previous_message: delta.previous_message || null, // eslint-disable-line unicorn/no-null
+    snapshot_id: snapshotId ?? null, // eslint-disable-line unicorn/no-null
   }));
 }
 
@@ -176,6 +203,23 @@ export function chunk<T>(array: T[], size: number): T[][] {
   return chunks;
 }
 
+/**
+ * Owners stored in a violation's JSON `owners` column
+ */
+export function parseOwners(owners: string | null): string[] {
+  if (!owners) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(owners);
+    return Array.isArray(parsed)
+      ? parsed.filter((owner): owner is string => typeof owner === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
 // ============================================================================
 // Query Helpers
 // ============================================================================
@@ -229,12 +273,20 @@ export function validateViolation(violation: Partial<NewViolation>): string[] {
   }
 
   if (
-    !["typescript", "eslint", "unused-exports", "zod-detection"].includes(
-      violation.source as string,
-    )
+    ![
+      "typescript",
+      "eslint",
+      "unused-exports",
+      "zod-detection",
+      "complexity",
+      "circular-dependency",
+      "architecture",
+      "dependencies",
+      "custom",
+    ].includes(violation.source as string)
   ) {
     errors.push(
-      "source must be typescript, eslint, unused-exports, or zod-detection",
+      "source must be typescript, eslint, unused-exports, zod-detection, complexity, circular-dependency, architecture, dependencies, or custom",
     );
   }
 
@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Architecture Engine
+ *
+ * Enforces layer boundaries declared in the project config. Every import
+ * is checked against the layer order, the shared layers and the forbidden
+ * edges, using the same import graph as the circular dependency engine.
+ */
+
+import path from "node:path";
+import { BaseAuditEngine } from "./base-engine.js";
+import { buildModuleGraph, type ImportEdge } from "./module-graph.js";
+import type {
+  Violation,
+  EngineConfig,
+  ViolationCategory,
+} from "../utils/violation-types.js";
+import {
+  ArchitectureConfigSchema,
+  type ValidatedArchitectureConfig,
+} from "../utils/validation-schemas.js";
+import {
+  loadProjectConfig,
+  PROJECT_CONFIG_FILENAME,
+} from "../utils/project-config.js";
+import { matchesGlob } from "../utils/glob.js";
+import { debugLog } from "../utils/debug-logger.js";
+
+export type ArchitectureConfig = ValidatedArchitectureConfig;
+
+/**
+ * Configuration interface for ArchitectureEngine
+ */
+export interface ArchitectureEngineConfig extends EngineConfig {
+  options: {
+    /** Rules to use instead of the project config's `architecture` section */
+    rules?: ArchitectureConfig;
+  };
+}
+
+/**
+ * Architecture rules with the directory their globs are relative to
+ */
+interface ResolvedRules {
+  rules: ArchitectureConfig;
+  rootDirectory: string;
+}
+
+/**
+ * Architecture Engine for layer boundary and forbidden import rules
+ *
+ * A file belongs to the first layer whose globs match it; files outside
+ * every layer are not constrained by the layer order. Within the order a
+ * layer may import itself and any layer after it, and every layer may
+ * import the shared layers.
+ */
+export class ArchitectureEngine extends BaseAuditEngine {
+  private readonly baseDir: string;
+
+  constructor(config: Partial<ArchitectureEngineConfig> = {}) {
+    super("Architecture Rules", "architecture", {
+      enabled: true,
+      priority: 8,
+      timeout: 60_000,
+      allowFailure: true,
+      options: {},
+      ...config,
+    });
+    this.baseDir = process.cwd();
+  }
+
+  /**
+   * Check every import under the target path against the architecture rules
+   */
+  protected async analyze(
+    targetPath: string,
+    options: Record<string, unknown> = {},
+  ): Promise<Violation[]> {
+    const searchPath = path.resolve(this.baseDir, targetPath);
+
+    let resolved: ResolvedRules | undefined;
+    try {
+      resolved = this.resolveRules(searchPath, options);
+    } catch (error) {
+      return [
+        this.createSetupViolation(
+          "ARCHITECTURE-SETUP-002",
+          `Invalid architecture rules: ${error}`,
+          `Fix the "architecture" section of ${PROJECT_CONFIG_FILENAME}. Error: ${error}`,
+        ),
+      ];
+    }
+    if (!resolved) {
+      return [
+        this.createSetupViolation(
+          "ARCHITECTURE-SETUP-001",
+          "No architecture rules configured",
+          `Add an "architecture" section with "layers" to ${PROJECT_CONFIG_FILENAME} to enable layer checks`,
+        ),
+      ];
+    }
+
+    try {
+      const graph = await buildModuleGraph(searchPath, this.baseDir);
+      const violations = graph.edges
+        .filter((edge) => !(resolved.rules.ignoreTypeOnly && edge.typeOnly))
+        .flatMap((edge) => this.checkImport(edge, resolved));
+
+      debugLog("ArchitectureEngine", "Imports checked", {
+        imports: graph.edges.length,
+        violations: violations.length,
+      });
+
+      return violations;
+    } catch (error) {
+      console.warn(
+        "[Architecture Engine] Import graph analysis failed:",
+        error,
+      );
+      return [
+        this.createSetupViolation(
+          "ARCHITECTURE-SETUP-003",
+          `Import graph analysis failed: ${error}`,
+          `Could not resolve the project's imports with the TypeScript compiler API. This may indicate TypeScript is not installed in the project. Error: ${error}`,
+        ),
+      ];
+    }
+  }
+
+  /**
+   * Rules from the engine options, else from the nearest project config
+   */
+  private resolveRules(
+    searchPath: string,
+    options: Record<string, unknown>,
+  ): ResolvedRules | undefined {
+    const inlineRules = options["rules"] ?? this.config.options["rules"];
+    if (inlineRules !== undefined) {
+      return {
+        rules: ArchitectureConfigSchema.parse(inlineRules),
+        rootDirectory: this.baseDir,
+      };
+    }
+
+    const projectConfig = loadProjectConfig(searchPath);
+    if (!projectConfig?.config.architecture) {
+      return undefined;
+    }
+    return {
+      rules: projectConfig.config.architecture,
+      rootDirectory: path.dirname(projectConfig.path),
+    };
+  }
+
+  private checkImport(edge: ImportEdge, resolved: ResolvedRules): Violation[] {
+    const { rules, rootDirectory } = resolved;
+    const toRoot = (file: string): string =>
+      path.relative(rootDirectory, path.resolve(this.baseDir, file));
+    const from = toRoot(edge.from);
+    const to = toRoot(edge.to);
+    const fromLayer = this.findLayer(from, rules);
+    const toLayer = this.findLayer(to, rules);
+
+    const matches = (selector: string, file: string, layer?: string) =>
+      selector === layer ||
+      (rules.layers[selector] === undefined && matchesGlob(file, [selector]));
+
+    const forbidden = rules.forbidden?.find(
+      (rule) =>
+        matches(rule.from, from, fromLayer) && matches(rule.to, to, toLayer),
+    );
+    if (forbidden) {
+      const reason = forbidden.reason ? ` (${forbidden.reason})` : "";
+      return [
+        this.createImportViolation(
+          edge,
+          "forbidden-import",
+          `Forbidden import: ${edge.from} → ${edge.to}${reason}`,
+        ),
+      ];
+    }
+
+    if (
+      fromLayer === undefined ||
+      toLayer === undefined ||
+      fromLayer === toLayer ||
+      this.isAllowedLayerImport(fromLayer, toLayer, rules)
+    ) {
+      return [];
+    }
+
+    return [
+      this.createImportViolation(
+        edge,
+        "layer-boundary",
+        `Layer '${fromLayer}' must not import layer '${toLayer}': ${edge.from} → ${edge.to}`,
+      ),
+    ];
+  }
+
+  private findLayer(
+    file: string,
+    rules: ArchitectureConfig,
+  ): string | undefined {
+    return Object.entries(rules.layers).find(([, globs]) =>
+      matchesGlob(file, globs),
+    )?.[0];
+  }
+
+  private isAllowedLayerImport(
+    fromLayer: string,
+    toLayer: string,
+    rules: ArchitectureConfig,
+  ): boolean {
+    if (rules.shared?.includes(toLayer)) {
+      return true;
+    }
+    const order = rules.order ?? [];
+    const fromIndex = order.indexOf(fromLayer);
+    const toIndex = order.indexOf(toLayer);
+    return fromIndex !== -1 && toIndex > fromIndex;
+  }
+
+  private createImportViolation(
+    edge: ImportEdge,
+    rule: string,
+    message: string,
+  ): Violation {
+    return this.createViolation(
+      edge.from,
+      edge.line,
+      `import "${edge.specifier}"`,
+      "architecture-violation",
+      "error",
+      rule,
+      message,
+    );
+  }
+
+  private createSetupViolation(
+    rule: string,
+    code: string,
+    message: string,
+  ): Violation {
+    return this.createViolation(
+      "architecture-setup",
+      1,
+      code,
+      "setup-issue",
+      "warn",
+      rule,
+      message,
+    );
+  }
+
+  /**
+   * Generate fix suggestions for architecture violations
+   */
+  protected override generateFixSuggestion(
+    category: ViolationCategory,
+    rule?: string,
+  ): string | undefined {
+    if (category !== "architecture-violation") {
+      return undefined;
+    }
+    return rule === "forbidden-import"
+      ? "Remove the import or route it through a module the rules allow"
+      : "Move the shared code to a lower or shared layer, or invert the dependency with an interface";
+  }
+}
@@ -6,6 +6,7 @@
  */
 
 import type {
+  AnalysisScope,
   Violation,
   EngineResult,
   EngineConfig,
@@ -13,6 +14,7 @@ import type {
   ViolationCategory,
   ViolationSeverity,
 } from "../utils/violation-types.js";
+import { filterViolationsToScope } from "../utils/git-scope.js";
 
 /**
  * Abstract base class for all audit engines
@@ -43,7 +45,7 @@ export abstract class BaseAuditEngine {
    * Execute the audit engine analysis
    *
    * @param targetPath - Directory or file to analyze
-   * @param options - Engine-specific options
+   * @param options - Engine-specific options; `scope` limits reported violations
    * @returns Promise resolving to engine results
    */
   async execute(
@@ -62,8 +64,12 @@ export abstract class BaseAuditEngine {
         }, this.config.timeout);
       }
 
-      // Execute the actual analysis
-      const violations = await this.analyze(targetPath, options);
+      // Execute the actual analysis, then drop anything outside the file scope
+      const scope = options["scope"] as AnalysisScope | undefined;
+      const foundViolations = await this.analyze(targetPath, options);
+      const violations = scope
+        ? filterViolationsToScope(foundViolations, scope)
+        : foundViolations;
 
       // Clear timeout if analysis completed
       if (timeoutId) {
@@ -80,6 +86,9 @@ export abstract class BaseAuditEngine {
         metadata: {
           targetPath,
           violationsFound: violations.length,
+          ...(scope && {
+            outOfScope: foundViolations.length - violations.length,
+          }),
           config: this.config,
         },
       };
@@ -125,6 +134,14 @@ export abstract class BaseAuditEngine {
     this.abortController?.abort();
   }
 
+  /**
+   * Release resources kept between analyses
+   * Engines holding long-lived state (processes, watchers) override this.
+   */
+  dispose(): void {
+    // Nothing to release by default
+  }
+
   /**
    * Abstract method that each engine must implement
    * Contains the actual analysis logic
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Circular Dependency Engine
+ *
+ * Builds the project's import graph and reports every import cycle with
+ * its full chain. Cycles between ES modules make initialization order
+ * depend on which module is loaded first, which shows up as
+ * "cannot access before initialization" errors at runtime.
+ */
+
+import path from "node:path";
+import { BaseAuditEngine } from "./base-engine.js";
+import {
+  buildModuleGraph,
+  findImportCycles,
+  type ImportEdge,
+} from "./module-graph.js";
+import type {
+  Violation,
+  EngineConfig,
+  ViolationCategory,
+  CircularDependencyViolation,
+} from "../utils/violation-types.js";
+import { debugLog } from "../utils/debug-logger.js";
+
+/**
+ * Configuration interface for CircularDependencyEngine
+ */
+export interface CircularDependencyEngineConfig extends EngineConfig {
+  options: {
+    /** Skip `import type` and type-only specifiers, which are erased (default true) */
+    ignoreTypeOnly?: boolean;
+    /** Only report cycles of at most this many modules */
+    maxCycleLength?: number;
+  };
+}
+
+/**
+ * Circular Dependency Engine for import cycles
+ *
+ * Specifiers are resolved with the project's tsconfig, so `paths` aliases
+ * and `baseUrl` imports take part in cycles like relative imports do.
+ */
+export class CircularDependencyEngine extends BaseAuditEngine {
+  private readonly baseDir: string;
+
+  constructor(config: Partial<CircularDependencyEngineConfig> = {}) {
+    super("Circular Dependencies", "circular-dependency", {
+      enabled: true,
+      priority: 7,
+      timeout: 60_000,
+      allowFailure: true,
+      options: {},
+      ...config,
+    });
+    this.baseDir = process.cwd();
+  }
+
+  /**
+   * Find import cycles among the TS/TSX files under the target path
+   */
+  protected async analyze(
+    targetPath: string,
+    options: Record<string, unknown> = {},
+  ): Promise<Violation[]> {
+    const ignoreTypeOnly =
+      (options["ignoreTypeOnly"] as boolean | undefined) ??
+      (this.config.options["ignoreTypeOnly"] as boolean | undefined) ??
+      true;
+    const maxCycleLength =
+      (options["maxCycleLength"] as number | undefined) ??
+      (this.config.options["maxCycleLength"] as number | undefined);
+
+    try {
+      const graph = await buildModuleGraph(
+        path.resolve(this.baseDir, targetPath),
+        this.baseDir,
+      );
+      const cycles = findImportCycles(graph, {
+        ignoreTypeOnly,
+        maxLength: maxCycleLength,
+      });
+
+      debugLog("CircularDependencyEngine", "Import graph analyzed", {
+        files: graph.files.length,
+        imports: graph.edges.length,
+        cycles: cycles.length,
+      });
+
+      return cycles.map((cycle) => this.createCycleViolation(cycle));
+    } catch (error) {
+      console.warn(
+        "[Circular Dependency Engine] Import graph analysis failed:",
+        error,
+      );
+      return [
+        this.createViolation(
+          "circular-dependency-setup",
+          1,
+          `Import graph analysis failed: ${error}`,
+          "setup-issue",
+          "warn",
+          "CIRCULAR-SETUP-001",
+          `Could not resolve the project's imports with the TypeScript compiler API. This may indicate TypeScript is not installed in the project. Error: ${error}`,
+        ),
+      ];
+    }
+  }
+
+  private createCycleViolation(
+    cycle: ImportEdge[],
+  ): CircularDependencyViolation {
+    const [first] = cycle as [ImportEdge, ...ImportEdge[]];
+    const files = cycle.map((edge) => edge.from);
+    const chain = [...files, first.from].join(" → ");
+
+    return {
+      ...this.createViolation(
+        first.from,
+        first.line,
+        chain,
+        "circular-dependency",
+        "warn",
+        "import-cycle",
+        `Import cycle: ${chain}`,
+      ),
+      category: "circular-dependency",
+      source: "circular-dependency",
+      cycle: files,
+    };
+  }
+
+  /**
+   * Generate fix suggestions for import cycles
+   */
+  protected override generateFixSuggestion(
+    category: ViolationCategory,
+  ): string | undefined {
+    return category === "circular-dependency"
+      ? "Move the shared code into a module both sides import, or use `import type` where only types are needed"
+      : undefined;
+  }
+}
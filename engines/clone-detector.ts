@@ -0,0 +1,367 @@
+/**
+ * @fileoverview Clone Detector
+ *
+ * Finds duplicated code by hashing normalized TypeScript ASTs. Every
+ * function, class, block, control statement, variable statement and object
+ * literal gets two fingerprints: an exact one over its tokens and a
+ * structural one in which identifiers and literals are abstracted. Fragments
+ * sharing a structural fingerprint form a clone class; it is exact when the
+ * tokens match too, and structural (renamed) otherwise. Files are only
+ * parsed, never type-checked.
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import path from "node:path";
+import type * as TypeScript from "typescript";
+import {
+  loadTypeScriptProject,
+  type TypeScriptModule,
+} from "./typescript-project.js";
+
+export interface CloneDetectionOptions {
+  /** Smallest fragment, in tokens, worth reporting */
+  minTokens: number;
+  /** Smallest fragment, in lines, worth reporting */
+  minLines: number;
+  /** Smallest share of identical tokens (0-1) for a structural clone */
+  minSimilarity: number;
+}
+
+export const DEFAULT_CLONE_OPTIONS: CloneDetectionOptions = {
+  minTokens: 50,
+  minLines: 5,
+  minSimilarity: 0,
+};
+
+export interface CloneLocation {
+  /** Relative to the base directory */
+  file: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Fragments with the same normalized structure
+ */
+export interface CloneClass {
+  /** Stable across runs while the cloned structure is unchanged */
+  id: string;
+  kind: "exact" | "structural";
+  /** In file and line order */
+  members: CloneLocation[];
+  /** Tokens in each member */
+  tokenCount: number;
+  /** Percentage of token positions where every member has the same text */
+  similarity: number;
+}
+
+interface Fingerprint {
+  structural: string;
+  exact: string;
+  tokens: number;
+}
+
+interface Fragment {
+  node: TypeScript.Node;
+  sourceFile: TypeScript.SourceFile;
+  location: CloneLocation;
+  fingerprint: Fingerprint;
+}
+
+// ============================================================================
+// Fingerprints
+// ============================================================================
+
+function isCloneCandidate(
+  ts: TypeScriptModule,
+  node: TypeScript.Node,
+): boolean {
+  return (
+    ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node) ||
+    ts.isClassDeclaration(node) ||
+    ts.isClassExpression(node) ||
+    ts.isBlock(node) ||
+    ts.isIfStatement(node) ||
+    ts.isSwitchStatement(node) ||
+    ts.isTryStatement(node) ||
+    ts.isIterationStatement(node, false) ||
+    ts.isVariableStatement(node) ||
+    ts.isObjectLiteralExpression(node)
+  );
+}
+
+function isDocumentationNode(
+  ts: TypeScriptModule,
+  node: TypeScript.Node,
+): boolean {
+  return (
+    node.kind >= ts.SyntaxKind.FirstJSDocNode &&
+    node.kind <= ts.SyntaxKind.LastJSDocNode
+  );
+}
+
+function isAbstractedToken(
+  ts: TypeScriptModule,
+  token: TypeScript.Node,
+): boolean {
+  return (
+    ts.isIdentifier(token) ||
+    ts.isPrivateIdentifier(token) ||
+    ts.isLiteralExpression(token) ||
+    ts.isTemplateLiteralToken(token)
+  );
+}
+
+function digest(text: string): string {
+  return createHash("sha1").update(text).digest("base64").slice(0, 16);
+}
+
+/**
+ * Fingerprint a node bottom-up, collecting candidate fragments on the way
+ */
+function fingerprintNode(
+  ts: TypeScriptModule,
+  node: TypeScript.Node,
+  sourceFile: TypeScript.SourceFile,
+  visitFragment: (_node: TypeScript.Node, _fingerprint: Fingerprint) => void,
+): Fingerprint {
+  const children = node
+    .getChildren(sourceFile)
+    .filter((child) => !isDocumentationNode(ts, child));
+
+  if (children.length === 0) {
+    if (node.kind === ts.SyntaxKind.EndOfFileToken) {
+      return { structural: "", exact: "", tokens: 0 };
+    }
+    const kind = String(node.kind);
+    return isAbstractedToken(ts, node)
+      ? {
+          structural: kind,
+          exact: `${kind}:${node.getText(sourceFile)}`,
+          tokens: 1,
+        }
+      : { structural: kind, exact: kind, tokens: 1 };
+  }
+
+  const parts = children.map((child) =>
+    fingerprintNode(ts, child, sourceFile, visitFragment),
+  );
+  const fingerprint: Fingerprint = {
+    structural: digest(
+      `${node.kind}(${parts.map((part) => part.structural).join(",")})`,
+    ),
+    exact: digest(`${node.kind}(${parts.map((part) => part.exact).join(",")})`),
+    tokens: parts.reduce((total, part) => total + part.tokens, 0),
+  };
+  if (isCloneCandidate(ts, node)) {
+    visitFragment(node, fingerprint);
+  }
+  return fingerprint;
+}
+
+/**
+ * Token texts of a node in source order
+ */
+function collectTokenTexts(
+  ts: TypeScriptModule,
+  node: TypeScript.Node,
+  sourceFile: TypeScript.SourceFile,
+  texts: string[] = [],
+): string[] {
+  const children = node
+    .getChildren(sourceFile)
+    .filter((child) => !isDocumentationNode(ts, child));
+  if (children.length === 0) {
+    texts.push(node.getText(sourceFile));
+  }
+  for (const child of children) {
+    collectTokenTexts(ts, child, sourceFile, texts);
+  }
+  return texts;
+}
+
+function measureSimilarity(
+  ts: TypeScriptModule,
+  fragments: Fragment[],
+): number {
+  const [first, ...others] = fragments.map((fragment) =>
+    collectTokenTexts(ts, fragment.node, fragment.sourceFile),
+  );
+  if (!first || first.length === 0) {
+    return 100;
+  }
+  const matching = first.filter((text, index) =>
+    others.every((texts) => texts[index] === text),
+  ).length;
+  return Math.round((matching / first.length) * 100);
+}
+
+// ============================================================================
+// Clone Classes
+// ============================================================================
+
+function compareLocations(a: CloneLocation, b: CloneLocation): number {
+  return a.file.localeCompare(b.file) || a.startLine - b.startLine;
+}
+
+/**
+ * Group fragments into clone classes, keeping only the largest clone when
+ * one is nested inside another (a cloned function's body is not reported
+ * again on its own)
+ */
+function buildCloneClasses(
+  ts: TypeScriptModule,
+  fragments: Fragment[],
+  options: CloneDetectionOptions,
+): CloneClass[] {
+  const groups = new Map<string, Fragment[]>();
+  for (const fragment of fragments) {
+    const group = groups.get(fragment.fingerprint.structural);
+    if (group) {
+      group.push(fragment);
+    } else {
+      groups.set(fragment.fingerprint.structural, [fragment]);
+    }
+  }
+
+  const candidates = [...groups.values()]
+    .filter((group) => group.length > 1)
+    .sort(
+      (a, b) =>
+        (b[0]?.fingerprint.tokens ?? 0) - (a[0]?.fingerprint.tokens ?? 0),
+    );
+
+  const reported = new Map<string, Array<{ pos: number; end: number }>>();
+  const isInsideReported = (fragment: Fragment): boolean =>
+    (reported.get(fragment.location.file) ?? []).some(
+      (range) =>
+        range.pos <= fragment.node.pos && fragment.node.end <= range.end,
+    );
+
+  const cloneClasses: CloneClass[] = [];
+  for (const group of candidates) {
+    if (group.every((fragment) => isInsideReported(fragment))) {
+      continue;
+    }
+
+    const isExact = group.every(
+      (fragment) => fragment.fingerprint.exact === group[0]?.fingerprint.exact,
+    );
+    const similarity = isExact ? 100 : measureSimilarity(ts, group);
+    if (!isExact && similarity < options.minSimilarity * 100) {
+      continue;
+    }
+
+    for (const fragment of group) {
+      const ranges = reported.get(fragment.location.file) ?? [];
+      ranges.push({ pos: fragment.node.pos, end: fragment.node.end });
+      reported.set(fragment.location.file, ranges);
+    }
+    cloneClasses.push({
+      id: group[0]?.fingerprint.structural ?? "",
+      kind: isExact ? "exact" : "structural",
+      members: group
+        .map((fragment) => fragment.location)
+        .sort(compareLocations),
+      tokenCount: group[0]?.fingerprint.tokens ?? 0,
+      similarity,
+    });
+  }
+
+  return cloneClasses.sort((a, b) =>
+    a.members[0] && b.members[0]
+      ? compareLocations(a.members[0], b.members[0])
+      : 0,
+  );
+}
+
+/**
+ * Candidate fragments of one file's source text
+ */
+function collectFragments(
+  ts: TypeScriptModule,
+  fileName: string,
+  text: string,
+  relativeFile: string,
+  options: CloneDetectionOptions,
+): Fragment[] {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    fileName.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS,
+  );
+
+  const fragments: Fragment[] = [];
+  fingerprintNode(ts, sourceFile, sourceFile, (node, fingerprint) => {
+    const startLine =
+      sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line +
+      1;
+    const endLine =
+      sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+    if (
+      fingerprint.tokens >= options.minTokens &&
+      endLine - startLine + 1 >= options.minLines
+    ) {
+      fragments.push({
+        node,
+        sourceFile,
+        location: { file: relativeFile, startLine, endLine },
+        fingerprint,
+      });
+    }
+  });
+  return fragments;
+}
+
+/**
+ * Detect clone classes across sources given as text
+ */
+export function detectSourceClones(
+  ts: TypeScriptModule,
+  sources: Array<{ fileName: string; text: string; relativeFile?: string }>,
+  options: Partial<CloneDetectionOptions> = {},
+): CloneClass[] {
+  const resolvedOptions = { ...DEFAULT_CLONE_OPTIONS, ...options };
+  const fragments = sources.flatMap((source) =>
+    collectFragments(
+      ts,
+      source.fileName,
+      source.text,
+      source.relativeFile ?? source.fileName,
+      resolvedOptions,
+    ),
+  );
+  return buildCloneClasses(ts, fragments, resolvedOptions);
+}
+
+/**
+ * Detect clone classes across every TS/TSX file under a directory
+ * Uses the tsconfig's file list when one applies to the directory.
+ */
+export async function detectProjectClones(
+  targetDirectory: string,
+  baseDirectory: string,
+  options: Partial<CloneDetectionOptions> = {},
+): Promise<CloneClass[]> {
+  const { default: ts } = await import("typescript");
+  const { fileNames } = loadTypeScriptProject(ts, targetDirectory);
+
+  return detectSourceClones(
+    ts,
+    fileNames.map((fileName) => ({
+      fileName,
+      text: fs.readFileSync(fileName, "utf8"),
+      relativeFile: path.relative(baseDirectory, fileName),
+    })),
+    options,
+  );
+}
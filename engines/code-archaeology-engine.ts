@@ -1,12 +1,23 @@
 /**
  * @fileoverview Code Archaeology Engine
  *
- * Comprehensive code archaeology system that bundles ts-prune and jscpd
- * to detect unused exports, dead code, and code duplication patterns.
+ * Comprehensive code archaeology system that analyzes the TypeScript program
+ * for unused exports, unused files and unreachable code, and its syntax trees
+ * for code duplication patterns.
  * Positions SideQuest as a technical debt relief system.
  */
 
 import { BaseAuditEngine } from "./base-engine.js";
+import {
+  analyzeProjectComplexity,
+  type FileComplexity,
+} from "./complexity-analyzer.js";
+import { analyzeDeadCode } from "./dead-code-analyzer.js";
+import {
+  detectProjectClones,
+  type CloneClass,
+  type CloneLocation,
+} from "./clone-detector.js";
 import type {
   Violation,
   EngineConfig,
@@ -17,10 +28,8 @@ import type {
   ArchaeologyRecommendation,
   ArchaeologyAnnotation,
 } from "../utils/violation-types.js";
-import { spawn } from "node:child_process";
 import path from "node:path";
-import { readFile, unlink } from "node:fs/promises";
-import { tmpdir } from "node:os";
+import { readFile } from "node:fs/promises";
 
 /**
  * Configuration interface for CodeArchaeologyEngine
@@ -30,13 +39,20 @@ export interface ArchaeologyEngineConfig extends EngineConfig {
     targetPath: string;
     deadCode?: {
       enabled: boolean;
+      /** File globs, relative to the working directory, never reported */
       ignorePatterns?: string[];
+      /** Report unused exports of test files */
       includeTests?: boolean;
+      /** Entry point globs beyond package.json `main`/`bin`/`exports` */
+      entryPoints?: string[];
+      /** Minimum confidence (0-1) for a finding to be reported */
+      threshold?: number;
     };
     duplication?: {
       enabled: boolean;
       minLines?: number;
       minTokens?: number;
+      /** Minimum token similarity (0-1) for structural (renamed) clones */
       threshold?: number;
     };
   };
@@ -48,7 +64,7 @@ export interface ArchaeologyEngineConfig extends EngineConfig {
 /**
  * Code Archaeology Engine for detecting technical debt
  *
- * Integrates ts-prune for dead code detection and jscpd for duplication analysis.
+ * Finds dead code and duplicated code with the TypeScript compiler API.
  * Provides comprehensive code health insights and actionable remediation suggestions.
  */
 export class CodeArchaeologyEngine extends BaseAuditEngine {
@@ -63,15 +79,12 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
     file: string,
     line: number,
     code: string,
-    deadCodeType: "unused-export" | "unreachable-code" | "unused-import",
+    deadCodeType: DeadCodeViolation["deadCodeType"],
+    confidence: number,
     exportName?: string,
     importSource?: string,
-    confidence?: number,
+    isReExport = false,
   ): DeadCodeViolation {
-    // Calculate confidence based on export patterns and usage context
-    const calculatedConfidence =
-      confidence ??
-      this.calculateDeadCodeConfidence(deadCodeType, exportName, file);
     const baseViolation = this.createViolation(
       file,
       line,
@@ -87,58 +100,52 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
       category: "dead-code",
       source: "archaeology",
       deadCodeType,
-      confidence: calculatedConfidence,
+      confidence,
       metadata: {
         ...(exportName && { exportName }),
         ...(importSource && { importSource }),
-        isReExport: false, // Could be enhanced to detect re-exports
+        isReExport,
         removalImpact: this.assessRemovalImpact(deadCodeType, exportName),
       },
     };
   }
 
   /**
-   * Create a code duplication violation with specific metadata
+   * Create a code duplication violation for one member of a clone class
    */
   private createDuplicationViolation(
-    file: string,
-    line: number,
-    code: string,
-    similarity: number,
-    tokenCount: number,
-    duplicateFiles: string[],
-    duplicateLines: { start: number; end: number },
+    member: CloneLocation,
+    clone: CloneClass,
   ): CodeDuplicationViolation {
+    const others = clone.members.filter((other) => other !== member);
+    const duplicateFiles = [...new Set(others.map((other) => other.file))];
+    const lines = member.endLine - member.startLine + 1;
     const baseViolation = this.createViolation(
-      file,
-      line,
-      code,
+      member.file,
+      member.startLine,
+      `Duplicated code block (${lines} lines)`,
       "code-duplication",
       "info",
       "code-duplication",
-      `This code is duplicated in ${duplicateFiles.join(", ")}. Consider extracting to a shared function.`,
+      `This code is ${clone.kind === "exact" ? "duplicated" : "structurally duplicated"} in ${others.map((other) => `${other.file}:${other.startLine}`).join(", ")}. Consider extracting to a shared function.`,
     );
 
     return {
       ...baseViolation,
       category: "code-duplication",
       source: "archaeology",
-      similarity,
-      tokenCount,
+      similarity: clone.similarity,
+      tokenCount: clone.tokenCount,
       duplicateFiles,
       metadata: {
-        duplicationType:
-          similarity >= 95
-            ? "exact"
-            : similarity >= 80
-              ? "structural"
-              : "semantic",
-        duplicateLines,
+        duplicationType: clone.kind,
+        duplicateLines: { start: member.startLine, end: member.endLine },
         refactoringApproach: this.suggestRefactoringApproach(
-          tokenCount,
-          similarity,
+          clone.tokenCount,
+          clone.similarity,
         ),
-        fixEffort: this.assessFixEffort(tokenCount, duplicateFiles.length),
+        fixEffort: this.assessFixEffort(clone.tokenCount, others.length + 1),
+        cloneClass: { id: clone.id, members: clone.members },
       },
     };
   }
@@ -147,7 +154,7 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
    * Generate appropriate message for dead code violations
    */
   private getDeadCodeMessage(
-    type: "unused-export" | "unreachable-code" | "unused-import",
+    type: DeadCodeViolation["deadCodeType"],
     exportName?: string,
     importSource?: string,
   ): string {
@@ -155,6 +162,9 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
       case "unused-export": {
         return `Unused export: ${exportName || "unknown"}`;
       }
+      case "unused-file": {
+        return "Unused file: nothing reachable from an entry point imports it";
+      }
       case "unreachable-code": {
         return "Unreachable code detected";
       }
@@ -171,7 +181,7 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
    * Assess the impact of removing dead code
    */
   private assessRemovalImpact(
-    type: "unused-export" | "unreachable-code" | "unused-import",
+    type: DeadCodeViolation["deadCodeType"],
     exportName?: string,
   ): "low" | "medium" | "high" {
     if (type === "unused-import") {
@@ -180,6 +190,9 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
     if (type === "unreachable-code") {
       return "medium";
     }
+    if (type === "unused-file") {
+      return "high";
+    }
 
     // Test-related exports are low impact
     if (exportName?.includes("test") || exportName?.includes("Test")) {
@@ -445,85 +458,6 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
     return 0;
   }
 
-  /**
-   * Calculate confidence score for dead code detection
-   */
-  private calculateDeadCodeConfidence(
-    type: "unused-export" | "unreachable-code" | "unused-import",
-    exportName?: string,
-    filePath?: string,
-  ): number {
-    let confidence = 0.9; // Base confidence
-
-    // Different base confidence for different types
-    if (type === "unused-import") {
-      confidence = 0.95; // Higher confidence for unused imports
-    } else if (type === "unreachable-code") {
-      confidence = 0.85; // Medium confidence for unreachable code
-    }
-
-    // Lower confidence for potential CLI functions
-    const cliPatterns = [
-      "generate",
-      "handle",
-      "show",
-      "display",
-      "create",
-      "run",
-    ];
-    if (
-      exportName &&
-      cliPatterns.some((pattern) => exportName.toLowerCase().includes(pattern))
-    ) {
-      confidence = 0.6; // Lower confidence - might be used dynamically
-    }
-
-    // Lower confidence for public API patterns
-    const publicApiPatterns = [
-      "Config",
-      "Interface",
-      "Type",
-      "Schema",
-      "Options",
-      "Error",
-    ];
-    if (
-      exportName &&
-      publicApiPatterns.some((pattern) => exportName.includes(pattern))
-    ) {
-      confidence = 0.7; // Might be part of public API
-    }
-
-    // Lower confidence for service factory patterns
-    if (
-      exportName &&
-      (exportName.startsWith("get") || exportName.startsWith("create"))
-    ) {
-      confidence = 0.6; // Factory functions often used dynamically
-    }
-
-    // Higher confidence for obvious utility functions
-    if (exportName && exportName.startsWith("is") && exportName.length > 2) {
-      confidence = 0.95; // Boolean utility functions are usually straightforward
-    }
-
-    // Lower confidence for config files
-    if (filePath?.includes("config") || filePath?.includes(".config.")) {
-      confidence = Math.min(confidence, 0.8); // Config files often have dynamic usage
-    }
-
-    // Higher confidence for test files
-    if (
-      filePath?.includes("test") ||
-      filePath?.includes(".spec.") ||
-      filePath?.includes(".test.")
-    ) {
-      confidence = 0.95; // Test files are usually self-contained
-    }
-
-    return Math.round(confidence * 100) / 100; // Round to 2 decimal places
-  }
-
   /**
    * Main analysis method that orchestrates dead code and duplication detection
    */
@@ -550,30 +484,59 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
   }
 
   /**
-   * Detect unused exports and dead code using ts-prune
+   * Detect unused exports, unused files and unreachable code
    */
   async analyzeDeadCode(targetPath: string): Promise<Violation[]> {
     try {
-      const config = this.config as ArchaeologyEngineConfig;
-      const tsPruneArguments = [
-        "--project",
-        path.join(targetPath, "tsconfig.json"),
-      ];
-
-      // Add ignore patterns if configured
-      if (config.options.deadCode?.ignorePatterns?.length) {
-        tsPruneArguments.push(
-          "--ignore",
-          config.options.deadCode.ignorePatterns.join("|"),
-        );
-      }
+      const deadCode = (this.config as ArchaeologyEngineConfig).options
+        .deadCode;
+      const findings = await analyzeDeadCode(targetPath, process.cwd(), {
+        entryPoints: deadCode?.entryPoints,
+        ignorePatterns: deadCode?.ignorePatterns,
+        includeTests: deadCode?.includeTests,
+      });
+      const threshold = deadCode?.threshold ?? 0;
+
+      const results = await Promise.all(
+        findings
+          .filter((finding) => finding.confidence >= threshold)
+          .map(async (finding) => {
+            // Check for archaeology exclusion annotations
+            const annotationCheck = await this.checkArchaeologyAnnotations(
+              finding.file,
+              finding.line,
+              finding.exportName,
+            );
+            let code = finding.exportName
+              ? `Unused export: ${finding.exportName}`
+              : finding.kind === "unused-file"
+                ? `Unused file: ${finding.file}`
+                : "Unreachable code";
+            let { confidence } = finding;
+
+            if (annotationCheck.excluded) {
+              // Skip permanent exclusions and temporary ones not yet due
+              if (!annotationCheck.shouldRecheck) {
+                return;
+              }
+              // Lower confidence due to temporary exclusion expiry
+              code = `${code} (recheck needed)`;
+              confidence = Math.min(confidence, 0.4);
+            }
 
-      const output = await this.runCommand(
-        "npx",
-        ["ts-prune", ...tsPruneArguments],
-        targetPath,
+            return this.createDeadCodeViolation(
+              finding.file,
+              finding.line,
+              code,
+              finding.kind,
+              confidence,
+              finding.exportName,
+              undefined, // importSource
+              finding.isReExport,
+            );
+          }),
       );
-      return await this.parseTsPruneOutput(output, targetPath);
+      return results.filter((v): v is DeadCodeViolation => v !== undefined);
     } catch (error) {
       console.warn(`[CodeArchaeology] Dead code analysis failed: ${error}`);
       return [];
@@ -581,240 +544,35 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
   }
 
   /**
-   * Detect code duplication using jscpd
+   * Detect exact and structural code clones
    */
   async analyzeDuplication(targetPath: string): Promise<Violation[]> {
     try {
-      const config = this.config as ArchaeologyEngineConfig;
-      const jscpdArguments = [
-        "--format",
-        "typescript,javascript",
-        "--reporters",
-        "json",
-        "--silent",
-      ];
-
-      // Configure thresholds
-      if (config.options.duplication?.minLines) {
-        jscpdArguments.push(
-          "--min-lines",
-          config.options.duplication.minLines.toString(),
-        );
-      }
-      if (config.options.duplication?.minTokens) {
-        jscpdArguments.push(
-          "--min-tokens",
-          config.options.duplication.minTokens.toString(),
-        );
-      }
-
-      // Create temporary output file
-      const outputFile = path.join(tmpdir(), `jscpd-${Date.now()}.json`);
-      jscpdArguments.push("--output", outputFile, targetPath);
-
-      await this.runCommand("npx", ["jscpd", ...jscpdArguments], targetPath);
-
-      try {
-        const outputContent = await import("node:fs").then((fs) =>
-          fs.promises.readFile(outputFile, "utf8"),
-        );
-        const violations = this.parseJscpdOutput(outputContent, targetPath);
-
-        // Clean up temp file
-        await unlink(outputFile).catch(() => {}); // Ignore cleanup errors
+      const duplication = (this.config as ArchaeologyEngineConfig).options
+        .duplication;
+      const clones = await detectProjectClones(targetPath, process.cwd(), {
+        ...(duplication?.minLines !== undefined && {
+          minLines: duplication.minLines,
+        }),
+        ...(duplication?.minTokens !== undefined && {
+          minTokens: duplication.minTokens,
+        }),
+        ...(duplication?.threshold !== undefined && {
+          minSimilarity: duplication.threshold,
+        }),
+      });
 
-        return violations;
-      } catch (parseError) {
-        console.warn(
-          `[CodeArchaeology] Failed to parse jscpd output: ${parseError}`,
-        );
-        return [];
-      }
+      return clones.flatMap((clone) =>
+        clone.members.map((member) =>
+          this.createDuplicationViolation(member, clone),
+        ),
+      );
     } catch (error) {
       console.warn(`[CodeArchaeology] Duplication analysis failed: ${error}`);
       return [];
     }
   }
 
-  /**
-   * Parse ts-prune output into violations
-   */
-  private async parseTsPruneOutput(
-    output: string,
-    targetPath: string,
-  ): Promise<Violation[]> {
-    const violations: Violation[] = [];
-    const lines = output
-      .trim()
-      .split("\n")
-      .filter((line) => line.trim());
-
-    // Process all lines in parallel to avoid blocking
-    const linePromises = lines.map(async (line) => {
-      // ts-prune output format: "file:line - exportName (type)"
-      const match = line.match(/^(.+):(\d+) - (.+?)( \(.*\))?$/);
-      if (!match) {
-        return;
-      }
-
-      const [, filePath, lineNumber, exportName] = match;
-
-      if (!filePath || !lineNumber || !exportName) {
-        return;
-      }
-
-      // Make path relative to target
-      const relativePath = filePath.startsWith(targetPath)
-        ? filePath.slice(targetPath.length + 1)
-        : filePath;
-
-      // Check for archaeology exclusion annotations
-      const annotationCheck = await this.checkArchaeologyAnnotations(
-        relativePath,
-        Number.parseInt(lineNumber, 10),
-        exportName,
-      );
-
-      if (annotationCheck.excluded) {
-        // Skip this violation if it's permanently excluded
-        if (annotationCheck.annotation?.type === "permanent") {
-          return;
-        }
-
-        // For temporary exclusions, check if we should recheck
-        if (!annotationCheck.shouldRecheck) {
-          return;
-        }
-
-        // If we should recheck, create a special violation with lower severity
-        return this.createDeadCodeViolation(
-          relativePath,
-          Number.parseInt(lineNumber, 10),
-          `Unused export (recheck needed): ${exportName}`,
-          "unused-export",
-          exportName,
-          undefined, // importSource
-          0.4, // Lower confidence due to temporary exclusion expiry
-        );
-      } else {
-        // Normal processing for non-excluded items
-        return this.createDeadCodeViolation(
-          relativePath,
-          Number.parseInt(lineNumber, 10),
-          `Unused export: ${exportName}`,
-          "unused-export",
-          exportName, // confidence - will be calculated
-        );
-      }
-    });
-
-    const results = await Promise.all(linePromises);
-    violations.push(
-      ...results.filter((v): v is DeadCodeViolation => v !== undefined),
-    );
-
-    return violations;
-  }
-
-  /**
-   * Parse jscpd output into violations
-   */
-  private parseJscpdOutput(output: string, targetPath: string): Violation[] {
-    const violations: Violation[] = [];
-
-    try {
-      const result = JSON.parse(output);
-
-      if (result.duplicates && Array.isArray(result.duplicates)) {
-        for (const duplicate of result.duplicates) {
-          const firstFile = duplicate.firstFile?.name;
-          const secondFile = duplicate.secondFile?.name;
-
-          if (firstFile && secondFile) {
-            // Make paths relative
-            const relativeFirst = firstFile.startsWith(targetPath)
-              ? firstFile.slice(targetPath.length + 1)
-              : firstFile;
-            const relativeSecond = secondFile.startsWith(targetPath)
-              ? secondFile.slice(targetPath.length + 1)
-              : secondFile;
-
-            // Create violation for first occurrence
-            violations.push(
-              this.createDuplicationViolation(
-                relativeFirst,
-                duplicate.firstFile?.start || 1,
-                `Duplicated code block (${duplicate.lines} lines)`,
-                duplicate.percentage || 100,
-                duplicate.tokens || 50,
-                [relativeSecond],
-                {
-                  start: duplicate.firstFile?.start || 1,
-                  end:
-                    duplicate.firstFile?.end ||
-                    (duplicate.firstFile?.start || 1) + (duplicate.lines || 0),
-                },
-              ),
-            );
-          }
-        }
-      }
-    } catch (error) {
-      console.warn(`[CodeArchaeology] Failed to parse jscpd JSON: ${error}`);
-    }
-
-    return violations;
-  }
-
-  /**
-   * Run a command and return its output
-   */
-  // eslint-disable-next-line require-await
-  private async runCommand(
-    command: string,
-    arguments_: string[],
-    cwd: string,
-  ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const child = spawn(command, arguments_, {
-        cwd,
-        stdio: "pipe",
-      });
-
-      let stdout = "";
-      let stderr = "";
-
-      child.stdout?.on("data", (data) => {
-        stdout += data.toString();
-      });
-
-      child.stderr?.on("data", (data) => {
-        stderr += data.toString();
-      });
-
-      child.on("close", (code) => {
-        if (code === 0) {
-          resolve(stdout);
-        } else {
-          reject(new Error(`Command failed with code ${code}: ${stderr}`));
-        }
-      });
-
-      child.on("error", reject);
-
-      // Handle abort signal
-      if (this.abortController?.signal.aborted) {
-        child.kill();
-        reject(new Error("Analysis was aborted"));
-      }
-
-      this.abortController?.signal.addEventListener("abort", () => {
-        child.kill();
-        reject(new Error("Analysis was aborted"));
-      });
-    });
-  }
-
   /**
    * Generate fix suggestions for archaeology violations
    */
@@ -895,6 +653,9 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
         unusedExports: deadCodeViolationsTyped.filter(
           (v) => v.deadCodeType === "unused-export",
         ),
+        unusedFiles: deadCodeViolationsTyped.filter(
+          (v) => v.deadCodeType === "unused-file",
+        ),
         unreachableCode: deadCodeViolationsTyped.filter(
           (v) => v.deadCodeType === "unreachable-code",
         ),
@@ -917,14 +678,87 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
             : 0,
       },
       recommendations,
-      technicalDebt: {
-        estimatedFixTimeHours: this.estimateFixTime(
-          deadCodeViolationsTyped,
-          duplicationViolationsTyped,
-        ),
+      technicalDebt: await this.calculateTechnicalDebt(
+        targetPath,
+        deadCodeViolationsTyped,
+        duplicationViolationsTyped,
+        technicalDebtScore,
+      ),
+    };
+  }
+
+  /**
+   * Technical debt metrics from per-file complexity analysis
+   * Falls back to the violation-based debt score when no source files
+   * could be measured.
+   */
+  private async calculateTechnicalDebt(
+    targetPath: string,
+    deadCodeViolations: DeadCodeViolation[],
+    duplicationViolations: CodeDuplicationViolation[],
+    technicalDebtScore: number,
+  ): Promise<ArchaeologyReport["technicalDebt"]> {
+    const estimatedFixTimeHours = this.estimateFixTime(
+      deadCodeViolations,
+      duplicationViolations,
+    );
+
+    let files: FileComplexity[] = [];
+    try {
+      files = await analyzeProjectComplexity(
+        path.resolve(targetPath),
+        process.cwd(),
+      );
+    } catch (error) {
+      console.warn(
+        `[Archaeology Engine] Complexity analysis failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const totalSourceLines = files.reduce(
+      (total, file) => total + file.sourceLines,
+      0,
+    );
+    if (totalSourceLines === 0) {
+      return {
+        estimatedFixTimeHours,
         complexityScore: Math.min(10, Math.floor(technicalDebtScore / 10)),
         maintainabilityIndex: Math.max(0, 100 - technicalDebtScore),
-      },
+      };
+    }
+
+    // Larger files weigh more in the project-wide index
+    const maintainabilityIndex =
+      files.reduce(
+        (total, file) => total + file.maintainabilityIndex * file.sourceLines,
+        0,
+      ) / totalSourceLines;
+
+    const functions = files.flatMap((file) => file.functions);
+    const averageCyclomatic =
+      functions.length > 0
+        ? functions.reduce((total, metrics) => total + metrics.cyclomatic, 0) /
+          functions.length
+        : 1;
+
+    // Hard-to-maintain files: 2 hours below 10, 1 hour below 20
+    let refactoringHours = 0;
+    for (const file of files) {
+      if (file.maintainabilityIndex < 10) {
+        refactoringHours += 2;
+      } else if (file.maintainabilityIndex < 20) {
+        refactoringHours += 1;
+      }
+    }
+
+    return {
+      estimatedFixTimeHours:
+        Math.round((estimatedFixTimeHours + refactoringHours) * 10) / 10,
+      complexityScore: Math.min(10, Math.max(1, Math.round(averageCyclomatic))),
+      maintainabilityIndex: Math.round(maintainabilityIndex * 10) / 10,
+      fileMaintainability: Object.fromEntries(
+        files.map((file) => [file.file, file.maintainabilityIndex]),
+      ),
     };
   }
 
@@ -1056,13 +890,15 @@ export class CodeArchaeologyEngine extends BaseAuditEngine {
   ): number {
     let totalHours = 0;
 
-    // Dead code: 5 minutes per unused export, 15 minutes per unreachable code
+    // Dead code: 6 minutes per unused export, 15 minutes per unreachable code
+    // or unused file
     for (const violation of deadCodeViolations) {
       switch (violation.deadCodeType) {
         case "unused-export": {
           totalHours += 0.1; // 6 minutes
           break;
         }
+        case "unused-file":
         case "unreachable-code": {
           totalHours += 0.25; // 15 minutes
           break;
@@ -0,0 +1,302 @@
+/**
+ * @fileoverview Command Engine
+ *
+ * Runs external tools declared under "commands" in the project config
+ * (stylelint, depcheck, in-house scripts) and turns their reports into
+ * violations with a configurable source, category and severity.
+ */
+
+import * as fs from "node:fs";
+import path from "node:path";
+import { BaseAuditEngine } from "./base-engine.js";
+import { parseToolOutput, type ExternalFinding } from "./output-parsers.js";
+import { execPromise } from "../utils/exec-utils.js";
+import type {
+  Violation,
+  EngineConfig,
+  ViolationCategory,
+} from "../utils/violation-types.js";
+import {
+  CommandToolSchema,
+  type ValidatedCommandTool,
+} from "../utils/validation-schemas.js";
+import {
+  loadProjectConfig,
+  PROJECT_CONFIG_FILENAME,
+} from "../utils/project-config.js";
+import { globToRegExp } from "../utils/glob.js";
+import { debugLog } from "../utils/debug-logger.js";
+
+export type CommandTool = ValidatedCommandTool;
+
+/**
+ * Configuration interface for CommandEngine
+ */
+export interface CommandEngineConfig extends EngineConfig {
+  options: {
+    /** Commands to run instead of the project config's `commands` section */
+    commands?: CommandTool[];
+  };
+}
+
+/**
+ * Commands with the directory their paths are relative to
+ */
+interface ResolvedCommands {
+  commands: CommandTool[];
+  rootDirectory: string;
+}
+
+interface CommandOutput {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+// Reports of large projects easily exceed exec's 1 MB default
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Command Engine for arbitrary linters and scripts
+ *
+ * A non-zero exit code is expected from linters that found something; a
+ * command only counts as failed when it cannot start, times out, or exits
+ * non-zero without producing a report.
+ */
+export class CommandEngine extends BaseAuditEngine {
+  private readonly baseDir: string;
+
+  constructor(config: Partial<CommandEngineConfig> = {}) {
+    super("External Commands", "custom", {
+      enabled: true,
+      priority: 9,
+      timeout: 120_000,
+      allowFailure: true,
+      options: {},
+      ...config,
+    });
+    this.baseDir = process.cwd();
+  }
+
+  /**
+   * Run every enabled command and collect its findings
+   */
+  protected async analyze(
+    targetPath: string,
+    options: Record<string, unknown> = {},
+  ): Promise<Violation[]> {
+    let resolved: ResolvedCommands | undefined;
+    try {
+      resolved = this.resolveCommands(
+        path.resolve(this.baseDir, targetPath),
+        options,
+      );
+    } catch (error) {
+      return [
+        this.createSetupViolation(
+          "COMMAND-SETUP-002",
+          `Invalid command configuration: ${error}`,
+          `Fix the "commands" section of ${PROJECT_CONFIG_FILENAME}. Error: ${error}`,
+        ),
+      ];
+    }
+    if (!resolved || resolved.commands.length === 0) {
+      return [
+        this.createSetupViolation(
+          "COMMAND-SETUP-001",
+          "No external commands configured",
+          `Add a "commands" section to ${PROJECT_CONFIG_FILENAME} to run external tools`,
+        ),
+      ];
+    }
+
+    const violations: Violation[] = [];
+    for (const tool of resolved.commands) {
+      if (tool.enabled === false) {
+        continue;
+      }
+      violations.push(...(await this.runTool(tool, resolved.rootDirectory)));
+    }
+    return violations;
+  }
+
+  /**
+   * Commands from the engine options, else from the nearest project config
+   */
+  private resolveCommands(
+    searchPath: string,
+    options: Record<string, unknown>,
+  ): ResolvedCommands | undefined {
+    const inlineCommands =
+      options["commands"] ?? this.config.options["commands"];
+    if (inlineCommands !== undefined) {
+      return {
+        commands: CommandToolSchema.array().parse(inlineCommands),
+        rootDirectory: this.baseDir,
+      };
+    }
+
+    const projectConfig = loadProjectConfig(searchPath);
+    if (!projectConfig?.config.commands) {
+      return undefined;
+    }
+    return {
+      commands: projectConfig.config.commands,
+      rootDirectory: path.dirname(projectConfig.path),
+    };
+  }
+
+  private async runTool(
+    tool: CommandTool,
+    rootDirectory: string,
+  ): Promise<Violation[]> {
+    const cwd = path.resolve(rootDirectory, tool.cwd ?? ".");
+    const outputFile =
+      tool.outputFile === undefined
+        ? undefined
+        : path.resolve(cwd, tool.outputFile);
+
+    let output: CommandOutput;
+    try {
+      output = await this.runCommand(tool, cwd);
+    } catch (error) {
+      console.warn(`[Command Engine] ${tool.name} failed to run:`, error);
+      return [
+        this.createSetupViolation(
+          "COMMAND-SETUP-003",
+          `${tool.name}: ${tool.command}`,
+          `Command '${tool.name}' could not be run: ${error}`,
+        ),
+      ];
+    }
+
+    const report = outputFile
+      ? fs.existsSync(outputFile)
+        ? fs.readFileSync(outputFile, "utf8")
+        : ""
+      : output.stdout;
+
+    debugLog("CommandEngine", "Command completed", {
+      name: tool.name,
+      exitCode: output.exitCode,
+      reportLength: report.length,
+      stderrLength: output.stderr.length,
+    });
+
+    if (output.exitCode !== 0 && report.trim() === "") {
+      const stderr = output.stderr.trim().split("\n").slice(0, 5).join("\n");
+      return [
+        this.createSetupViolation(
+          "COMMAND-SETUP-003",
+          `${tool.name}: ${tool.command}`,
+          `Command '${tool.name}' exited with code ${output.exitCode} without a report${stderr ? `:\n${stderr}` : ""}`,
+        ),
+      ];
+    }
+
+    try {
+      return parseToolOutput(report, tool.parser).map((found) =>
+        this.toViolation(found, tool, cwd),
+      );
+    } catch (error) {
+      return [
+        this.createSetupViolation(
+          "COMMAND-SETUP-004",
+          `${tool.name}: ${tool.command}`,
+          `Could not parse the output of '${tool.name}' as ${typeof tool.parser === "string" ? tool.parser : "regex matches"}: ${error}`,
+        ),
+      ];
+    }
+  }
+
+  /**
+   * Run a command through the shell, keeping the output of non-zero exits
+   */
+  private async runCommand(
+    tool: CommandTool,
+    cwd: string,
+  ): Promise<CommandOutput> {
+    try {
+      const { stdout, stderr } = await execPromise(tool.command, {
+        cwd,
+        timeout: tool.timeout ?? this.config.timeout,
+        maxBuffer: MAX_OUTPUT_BYTES,
+      });
+      return { stdout, stderr, exitCode: 0 };
+    } catch (error) {
+      const failure = error as {
+        code?: number | string;
+        stdout?: string;
+        stderr?: string;
+        killed?: boolean;
+      };
+      // Killed on timeout, or the shell itself could not start
+      if (failure.killed || typeof failure.code !== "number") {
+        throw error;
+      }
+      return {
+        stdout: failure.stdout ?? "",
+        stderr: failure.stderr ?? "",
+        exitCode: failure.code,
+      };
+    }
+  }
+
+  private toViolation(
+    found: ExternalFinding,
+    tool: CommandTool,
+    cwd: string,
+  ): Violation {
+    const file = found.file
+      ? path.relative(this.baseDir, path.resolve(cwd, found.file))
+      : tool.name;
+    const rule = found.rule ?? tool.name;
+
+    const violation: Violation = {
+      file,
+      line: found.line ?? 1,
+      code: rule,
+      category: this.categorize(rule, tool),
+      severity: found.severity ?? tool.severity ?? "warn",
+      source: tool.source ?? "custom",
+      rule,
+      message: found.message,
+    };
+    if (found.column !== undefined) {
+      violation.column = found.column;
+    }
+    if (found.endLine !== undefined || found.endColumn !== undefined) {
+      violation.lint = {
+        ...(found.endLine !== undefined && { endLine: found.endLine }),
+        ...(found.endColumn !== undefined && { endColumn: found.endColumn }),
+      };
+    }
+    return violation;
+  }
+
+  /**
+   * First matching rule glob in `categories`, else the tool's category
+   */
+  private categorize(rule: string, tool: CommandTool): ViolationCategory {
+    const mapped = Object.entries(tool.categories ?? {}).find(([pattern]) =>
+      globToRegExp(pattern).test(rule),
+    )?.[1];
+    return mapped ?? tool.category ?? "other";
+  }
+
+  private createSetupViolation(
+    rule: string,
+    code: string,
+    message: string,
+  ): Violation {
+    return this.createViolation(
+      "command-setup",
+      1,
+      code,
+      "setup-issue",
+      "warn",
+      rule,
+      message,
+    );
+  }
+}
@@ -0,0 +1,504 @@
+/**
+ * @fileoverview Complexity Analyzer
+ *
+ * Measures per-function cyclomatic complexity, cognitive complexity, nesting
+ * depth, parameter count and length, plus a per-file maintainability index,
+ * from the TypeScript AST. Files are only parsed, never type-checked.
+ */
+
+import * as fs from "node:fs";
+import path from "node:path";
+import type * as TypeScript from "typescript";
+import {
+  loadTypeScriptProject,
+  type TypeScriptModule,
+} from "./typescript-project.js";
+
+/**
+ * Per-function limits; a function above any of them is reported
+ */
+export interface ComplexityThresholds {
+  cyclomatic: number;
+  cognitive: number;
+  nestingDepth: number;
+  parameters: number;
+  functionLength: number;
+}
+
+export const DEFAULT_COMPLEXITY_THRESHOLDS: ComplexityThresholds = {
+  cyclomatic: 10,
+  cognitive: 15,
+  nestingDepth: 4,
+  parameters: 4,
+  functionLength: 60,
+};
+
+/**
+ * Metrics for one function, method, accessor or arrow function
+ */
+export interface FunctionComplexity {
+  name: string;
+  line: number;
+  column: number;
+  cyclomatic: number;
+  cognitive: number;
+  /** Deepest nesting of control structures inside the body */
+  nestingDepth: number;
+  parameters: number;
+  /** Lines from the function's first line to its last */
+  length: number;
+}
+
+/**
+ * Metrics for one source file
+ */
+export interface FileComplexity {
+  /** Path relative to the base directory */
+  file: string;
+  functions: FunctionComplexity[];
+  /** Lines containing code; blank and comment-only lines are excluded */
+  sourceLines: number;
+  /** 1 + every decision point in the file */
+  cyclomatic: number;
+  halsteadVolume: number;
+  /** Normalized maintainability index, 0 (worst) to 100 (best) */
+  maintainabilityIndex: number;
+}
+
+type FunctionWithBody = TypeScript.FunctionLikeDeclaration & {
+  body: TypeScript.Node;
+};
+
+// ============================================================================
+// AST Helpers
+// ============================================================================
+
+function isFunctionWithBody(
+  ts: TypeScriptModule,
+  node: TypeScript.Node,
+): node is FunctionWithBody {
+  return (
+    (ts.isFunctionDeclaration(node) ||
+      ts.isFunctionExpression(node) ||
+      ts.isArrowFunction(node) ||
+      ts.isMethodDeclaration(node) ||
+      ts.isConstructorDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node)) &&
+    node.body !== undefined
+  );
+}
+
+function getLogicalOperator(
+  ts: TypeScriptModule,
+  node: TypeScript.Node,
+): TypeScript.SyntaxKind | undefined {
+  if (!ts.isBinaryExpression(node)) {
+    return undefined;
+  }
+  const operator = node.operatorToken.kind;
+  switch (operator) {
+    case ts.SyntaxKind.AmpersandAmpersandToken:
+    case ts.SyntaxKind.BarBarToken:
+    case ts.SyntaxKind.QuestionQuestionToken:
+    case ts.SyntaxKind.AmpersandAmpersandEqualsToken:
+    case ts.SyntaxKind.BarBarEqualsToken:
+    case ts.SyntaxKind.QuestionQuestionEqualsToken: {
+      return operator;
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
+
+function skipParentheses(
+  ts: TypeScriptModule,
+  node: TypeScript.Node,
+): TypeScript.Node {
+  let current = node;
+  while (ts.isParenthesizedExpression(current)) {
+    current = current.expression;
+  }
+  return current;
+}
+
+function isDecisionPoint(ts: TypeScriptModule, node: TypeScript.Node): boolean {
+  return (
+    ts.isIfStatement(node) ||
+    ts.isConditionalExpression(node) ||
+    ts.isIterationStatement(node, false) ||
+    ts.isCaseClause(node) ||
+    ts.isCatchClause(node) ||
+    getLogicalOperator(ts, node) !== undefined
+  );
+}
+
+/**
+ * Count decision points below a node
+ * Nested functions are skipped unless `includeNestedFunctions` is set, since
+ * each function's complexity is reported on its own.
+ */
+function countDecisionPoints(
+  ts: TypeScriptModule,
+  root: TypeScript.Node,
+  includeNestedFunctions: boolean,
+): number {
+  let count = 0;
+
+  const visit = (node: TypeScript.Node): void => {
+    if (!includeNestedFunctions && isFunctionWithBody(ts, node)) {
+      return;
+    }
+    if (isDecisionPoint(ts, node)) {
+      count++;
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  // Arrow functions may have an expression body that is itself a decision
+  if (isDecisionPoint(ts, root)) {
+    count++;
+  }
+  ts.forEachChild(root, visit);
+  return count;
+}
+
+// ============================================================================
+// Cognitive Complexity
+// ============================================================================
+
+/**
+ * Cognitive complexity and nesting depth of a function body
+ *
+ * Follows SonarSource's definition: structures that break linear flow cost
+ * 1 plus their nesting level, `else`/`else if` cost 1, each change of
+ * operator in a `&&`/`||`/`??` chain costs 1 and labeled jumps cost 1.
+ */
+function measureCognitiveComplexity(
+  ts: TypeScriptModule,
+  body: TypeScript.Node,
+): { cognitive: number; nestingDepth: number } {
+  let cognitive = 0;
+  let nestingDepth = 0;
+
+  const visitNested = (
+    node: TypeScript.Node,
+    nesting: number,
+    nestedChildren: Array<TypeScript.Node | undefined>,
+  ): void => {
+    cognitive += 1 + nesting;
+    ts.forEachChild(node, (child) =>
+      visit(child, nestedChildren.includes(child) ? nesting + 1 : nesting),
+    );
+  };
+
+  const visitLogicalChain = (node: TypeScript.Node): void => {
+    // Operands of an enclosing chain were counted with that chain
+    let parent = node.parent;
+    while (parent && ts.isParenthesizedExpression(parent)) {
+      parent = parent.parent;
+    }
+    if (parent && getLogicalOperator(ts, parent) !== undefined) {
+      return;
+    }
+
+    const operators: TypeScript.SyntaxKind[] = [];
+    const collect = (expression: TypeScript.Node): void => {
+      const inner = skipParentheses(ts, expression);
+      const operator = getLogicalOperator(ts, inner);
+      if (operator === undefined || !ts.isBinaryExpression(inner)) {
+        return;
+      }
+      collect(inner.left);
+      operators.push(operator);
+      collect(inner.right);
+    };
+    collect(node);
+
+    cognitive += operators.filter(
+      (operator, index) => index === 0 || operator !== operators[index - 1],
+    ).length;
+  };
+
+  const visit = (node: TypeScript.Node, nesting: number): void => {
+    if (isFunctionWithBody(ts, node)) {
+      return;
+    }
+    nestingDepth = Math.max(nestingDepth, nesting);
+
+    if (ts.isIfStatement(node)) {
+      const isElseIf =
+        ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+      cognitive += isElseIf ? 1 : 1 + nesting;
+      visit(node.expression, nesting);
+      visit(node.thenStatement, nesting + 1);
+      if (node.elseStatement) {
+        if (ts.isIfStatement(node.elseStatement)) {
+          visit(node.elseStatement, nesting);
+        } else {
+          cognitive += 1;
+          visit(node.elseStatement, nesting + 1);
+        }
+      }
+      return;
+    }
+
+    if (ts.isIterationStatement(node, false)) {
+      visitNested(node, nesting, [node.statement]);
+      return;
+    }
+    if (ts.isSwitchStatement(node)) {
+      visitNested(node, nesting, [node.caseBlock]);
+      return;
+    }
+    if (ts.isCatchClause(node)) {
+      visitNested(node, nesting, [node.block]);
+      return;
+    }
+    if (ts.isConditionalExpression(node)) {
+      visitNested(node, nesting, [node.whenTrue, node.whenFalse]);
+      return;
+    }
+
+    if (
+      (ts.isBreakStatement(node) || ts.isContinueStatement(node)) &&
+      node.label
+    ) {
+      cognitive += 1;
+    } else if (getLogicalOperator(ts, node) !== undefined) {
+      visitLogicalChain(node);
+    }
+
+    ts.forEachChild(node, (child) => visit(child, nesting));
+  };
+
+  visit(body, 0);
+  return { cognitive, nestingDepth };
+}
+
+// ============================================================================
+// Function Metrics
+// ============================================================================
+
+function getFunctionName(
+  ts: TypeScriptModule,
+  node: FunctionWithBody,
+  sourceFile: TypeScript.SourceFile,
+): string {
+  let name: string | undefined;
+  let owner: TypeScript.Node = node;
+
+  if (ts.isConstructorDeclaration(node)) {
+    name = "constructor";
+  } else if (node.name) {
+    name = node.name.getText(sourceFile);
+  } else if (
+    (ts.isVariableDeclaration(node.parent) ||
+      ts.isPropertyDeclaration(node.parent) ||
+      ts.isPropertyAssignment(node.parent)) &&
+    node.parent.initializer === node
+  ) {
+    name = node.parent.name.getText(sourceFile);
+    owner = node.parent;
+  }
+
+  if (name === undefined) {
+    return "<anonymous>";
+  }
+  if (ts.isClassLike(owner.parent) && owner.parent.name) {
+    return `${owner.parent.name.text}.${name}`;
+  }
+  return name;
+}
+
+function measureFunction(
+  ts: TypeScriptModule,
+  node: FunctionWithBody,
+  sourceFile: TypeScript.SourceFile,
+): FunctionComplexity {
+  const start = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile),
+  );
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  const { cognitive, nestingDepth } = measureCognitiveComplexity(ts, node.body);
+
+  return {
+    name: getFunctionName(ts, node, sourceFile),
+    line: start.line + 1,
+    column: start.character + 1,
+    cyclomatic: 1 + countDecisionPoints(ts, node.body, false),
+    cognitive,
+    nestingDepth,
+    parameters: node.parameters.filter(
+      (parameter) =>
+        !(ts.isIdentifier(parameter.name) && parameter.name.text === "this"),
+    ).length,
+    length: end.line - start.line + 1,
+  };
+}
+
+// ============================================================================
+// Halstead Volume & Maintainability Index
+// ============================================================================
+
+function isOperand(ts: TypeScriptModule, token: TypeScript.Node): boolean {
+  return (
+    ts.isIdentifier(token) ||
+    ts.isPrivateIdentifier(token) ||
+    ts.isLiteralExpression(token) ||
+    ts.isTemplateLiteralToken(token) ||
+    token.kind === ts.SyntaxKind.TrueKeyword ||
+    token.kind === ts.SyntaxKind.FalseKeyword ||
+    token.kind === ts.SyntaxKind.NullKeyword
+  );
+}
+
+/**
+ * Halstead volume and source line count from the file's tokens
+ */
+function measureTokens(
+  ts: TypeScriptModule,
+  sourceFile: TypeScript.SourceFile,
+): { halsteadVolume: number; sourceLines: number } {
+  const distinctOperators = new Set<string>();
+  const distinctOperands = new Set<string>();
+  const lines = new Set<number>();
+  let totalTokens = 0;
+
+  const visit = (node: TypeScript.Node): void => {
+    if (
+      node.kind >= ts.SyntaxKind.FirstJSDocNode &&
+      node.kind <= ts.SyntaxKind.LastJSDocNode
+    ) {
+      return;
+    }
+
+    const children = node.getChildren(sourceFile);
+    if (children.length > 0) {
+      for (const child of children) {
+        visit(child);
+      }
+      return;
+    }
+    if (node.kind === ts.SyntaxKind.EndOfFileToken) {
+      return;
+    }
+
+    const start = node.getStart(sourceFile);
+    lines.add(sourceFile.getLineAndCharacterOfPosition(start).line);
+    totalTokens++;
+    const text = node.getText(sourceFile);
+    if (isOperand(ts, node)) {
+      distinctOperands.add(text);
+    } else {
+      distinctOperators.add(text);
+    }
+  };
+
+  visit(sourceFile);
+
+  const vocabulary = distinctOperators.size + distinctOperands.size;
+  return {
+    halsteadVolume: vocabulary > 1 ? totalTokens * Math.log2(vocabulary) : 0,
+    sourceLines: lines.size,
+  };
+}
+
+/**
+ * Maintainability index normalized to 0-100 (the Visual Studio variant)
+ */
+export function calculateMaintainabilityIndex(
+  halsteadVolume: number,
+  cyclomatic: number,
+  sourceLines: number,
+): number {
+  const raw =
+    171 -
+    5.2 * Math.log(Math.max(halsteadVolume, 1)) -
+    0.23 * cyclomatic -
+    16.2 * Math.log(Math.max(sourceLines, 1));
+  const normalized = Math.min(100, Math.max(0, (raw * 100) / 171));
+  return Math.round(normalized * 10) / 10;
+}
+
+// ============================================================================
+// Entry Points
+// ============================================================================
+
+function getScriptKind(
+  ts: TypeScriptModule,
+  fileName: string,
+): TypeScript.ScriptKind {
+  if (fileName.endsWith(".tsx")) {
+    return ts.ScriptKind.TSX;
+  }
+  if (fileName.endsWith(".jsx")) {
+    return ts.ScriptKind.JSX;
+  }
+  return /\.[cm]?js$/.test(fileName) ? ts.ScriptKind.JS : ts.ScriptKind.TS;
+}
+
+/**
+ * Analyze one file's source text
+ */
+export function analyzeSourceComplexity(
+  ts: TypeScriptModule,
+  fileName: string,
+  text: string,
+  relativeFile: string = fileName,
+): FileComplexity {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(ts, fileName),
+  );
+
+  const functions: FunctionComplexity[] = [];
+  const collect = (node: TypeScript.Node): void => {
+    if (isFunctionWithBody(ts, node)) {
+      functions.push(measureFunction(ts, node, sourceFile));
+    }
+    ts.forEachChild(node, collect);
+  };
+  collect(sourceFile);
+
+  const cyclomatic = 1 + countDecisionPoints(ts, sourceFile, true);
+  const { halsteadVolume, sourceLines } = measureTokens(ts, sourceFile);
+
+  return {
+    file: relativeFile,
+    functions,
+    sourceLines,
+    cyclomatic,
+    halsteadVolume: Math.round(halsteadVolume),
+    maintainabilityIndex: calculateMaintainabilityIndex(
+      halsteadVolume,
+      cyclomatic,
+      sourceLines,
+    ),
+  };
+}
+
+/**
+ * Analyze every TS/TSX file under a directory
+ * Uses the tsconfig's file list when one applies to the directory.
+ */
+export async function analyzeProjectComplexity(
+  targetDirectory: string,
+  baseDirectory: string,
+): Promise<FileComplexity[]> {
+  const { default: ts } = await import("typescript");
+  const { fileNames } = loadTypeScriptProject(ts, targetDirectory);
+
+  return fileNames.map((fileName) =>
+    analyzeSourceComplexity(
+      ts,
+      fileName,
+      fs.readFileSync(fileName, "utf8"),
+      path.relative(baseDirectory, fileName),
+    ),
+  );
+}
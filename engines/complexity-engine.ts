@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Complexity Engine
+ *
+ * Reports functions whose cyclomatic complexity, cognitive complexity,
+ * nesting depth, parameter count or length exceed configurable thresholds,
+ * and files whose maintainability index falls below a minimum.
+ */
+
+import path from "node:path";
+import { BaseAuditEngine } from "./base-engine.js";
+import {
+  analyzeProjectComplexity,
+  DEFAULT_COMPLEXITY_THRESHOLDS,
+  type ComplexityThresholds,
+  type FileComplexity,
+  type FunctionComplexity,
+} from "./complexity-analyzer.js";
+import type {
+  Violation,
+  EngineConfig,
+  ViolationCategory,
+} from "../utils/violation-types.js";
+import { debugLog } from "../utils/debug-logger.js";
+
+/**
+ * Configuration interface for ComplexityEngine
+ */
+export interface ComplexityEngineConfig extends EngineConfig {
+  options: {
+    thresholds?: Partial<ComplexityThresholds>;
+    /** Files with a maintainability index below this (0-100) are reported */
+    minMaintainabilityIndex?: number;
+  };
+}
+
+// Visual Studio treats an index below 10 as hard to maintain
+const DEFAULT_MIN_MAINTAINABILITY_INDEX = 10;
+
+/**
+ * One threshold check: which metric, its rule id and how to describe it
+ */
+const FUNCTION_CHECKS: Array<{
+  threshold: keyof ComplexityThresholds;
+  rule: string;
+  value: (_metrics: FunctionComplexity) => number;
+  describe: (_name: string, _value: number, _limit: number) => string;
+}> = [
+  {
+    threshold: "cyclomatic",
+    rule: "cyclomatic-complexity",
+    value: (metrics) => metrics.cyclomatic,
+    describe: (name, value, limit) =>
+      `Function '${name}' has a cyclomatic complexity of ${value} (max ${limit})`,
+  },
+  {
+    threshold: "cognitive",
+    rule: "cognitive-complexity",
+    value: (metrics) => metrics.cognitive,
+    describe: (name, value, limit) =>
+      `Function '${name}' has a cognitive complexity of ${value} (max ${limit})`,
+  },
+  {
+    threshold: "nestingDepth",
+    rule: "max-nesting-depth",
+    value: (metrics) => metrics.nestingDepth,
+    describe: (name, value, limit) =>
+      `Function '${name}' nests control flow ${value} levels deep (max ${limit})`,
+  },
+  {
+    threshold: "parameters",
+    rule: "max-parameters",
+    value: (metrics) => metrics.parameters,
+    describe: (name, value, limit) =>
+      `Function '${name}' has ${value} parameters (max ${limit})`,
+  },
+  {
+    threshold: "functionLength",
+    rule: "max-function-length",
+    value: (metrics) => metrics.length,
+    describe: (name, value, limit) =>
+      `Function '${name}' is ${value} lines long (max ${limit})`,
+  },
+];
+
+/**
+ * Complexity Engine for per-function and per-file complexity metrics
+ *
+ * Parses TS/TSX files with the TypeScript compiler API; no type checking is
+ * involved, so it runs on projects that do not currently compile.
+ */
+export class ComplexityEngine extends BaseAuditEngine {
+  private readonly baseDir: string;
+  private fileMetrics: FileComplexity[] = [];
+
+  constructor(config: Partial<ComplexityEngineConfig> = {}) {
+    super("Complexity Analysis", "complexity", {
+      enabled: true,
+      priority: 6,
+      timeout: 60_000,
+      allowFailure: true,
+      options: {},
+      ...config,
+    });
+    this.baseDir = process.cwd();
+  }
+
+  /**
+   * Analyze complexity for every TS/TSX file under the target path
+   */
+  protected async analyze(
+    targetPath: string,
+    options: Record<string, unknown> = {},
+  ): Promise<Violation[]> {
+    const thresholds: ComplexityThresholds = {
+      ...DEFAULT_COMPLEXITY_THRESHOLDS,
+      ...(this.config.options["thresholds"] as
+        | Partial<ComplexityThresholds>
+        | undefined),
+      ...(options["thresholds"] as Partial<ComplexityThresholds> | undefined),
+    };
+    const minMaintainabilityIndex =
+      (options["minMaintainabilityIndex"] as number | undefined) ??
+      (this.config.options["minMaintainabilityIndex"] as number | undefined) ??
+      DEFAULT_MIN_MAINTAINABILITY_INDEX;
+
+    try {
+      this.fileMetrics = await analyzeProjectComplexity(
+        path.resolve(this.baseDir, targetPath),
+        this.baseDir,
+      );
+    } catch (error) {
+      console.warn("[Complexity Engine] Complexity analysis failed:", error);
+      return [
+        this.createViolation(
+          "complexity-setup",
+          1,
+          `Complexity analysis failed: ${error}`,
+          "setup-issue",
+          "warn",
+          "COMPLEXITY-SETUP-001",
+          `Could not parse the project's sources with the TypeScript compiler API. This may indicate TypeScript is not installed in the project. Error: ${error}`,
+        ),
+      ];
+    }
+
+    debugLog("ComplexityEngine", "Analyzed files", {
+      files: this.fileMetrics.length,
+      functions: this.fileMetrics.reduce(
+        (total, file) => total + file.functions.length,
+        0,
+      ),
+    });
+
+    return this.fileMetrics.flatMap((fileMetrics) => [
+      ...this.checkFunctions(fileMetrics, thresholds),
+      ...this.checkMaintainability(fileMetrics, minMaintainabilityIndex),
+    ]);
+  }
+
+  /**
+   * Metrics from the most recent run
+   */
+  getFileMetrics(): FileComplexity[] {
+    return [...this.fileMetrics];
+  }
+
+  private checkFunctions(
+    fileMetrics: FileComplexity,
+    thresholds: ComplexityThresholds,
+  ): Violation[] {
+    const violations: Violation[] = [];
+
+    for (const metrics of fileMetrics.functions) {
+      for (const check of FUNCTION_CHECKS) {
+        const value = check.value(metrics);
+        const limit = thresholds[check.threshold];
+        if (value <= limit) {
+          continue;
+        }
+        const message = check.describe(metrics.name, value, limit);
+        violations.push(
+          this.createViolation(
+            fileMetrics.file,
+            metrics.line,
+            message,
+            "complexity",
+            "warn",
+            check.rule,
+            message,
+            metrics.column,
+          ),
+        );
+      }
+    }
+
+    return violations;
+  }
+
+  private checkMaintainability(
+    fileMetrics: FileComplexity,
+    minMaintainabilityIndex: number,
+  ): Violation[] {
+    if (fileMetrics.maintainabilityIndex >= minMaintainabilityIndex) {
+      return [];
+    }
+
+    const message = `Maintainability index is ${fileMetrics.maintainabilityIndex} (min ${minMaintainabilityIndex})`;
+    return [
+      this.createViolation(
+        fileMetrics.file,
+        1,
+        message,
+        "maintainability",
+        "warn",
+        "maintainability-index",
+        message,
+        1,
+      ),
+    ];
+  }
+
+  /**
+   * Generate fix suggestions for complexity violations
+   */
+  protected override generateFixSuggestion(
+    category: ViolationCategory,
+    rule?: string,
+  ): string | undefined {
+    if (category === "maintainability") {
+      return "Split the file into smaller modules and simplify its largest functions";
+    }
+
+    switch (rule) {
+      case "cyclomatic-complexity":
+      case "cognitive-complexity": {
+        return "Extract branches into well-named helper functions or replace conditionals with lookup tables";
+      }
+      case "max-nesting-depth": {
+        return "Use early returns or guard clauses to flatten nested control flow";
+      }
+      case "max-parameters": {
+        return "Group related parameters into an options object";
+      }
+      case "max-function-length": {
+        return "Split the function into smaller functions with a single responsibility";
+      }
+      default: {
+        return undefined;
+      }
+    }
+  }
+}
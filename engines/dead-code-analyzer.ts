@@ -0,0 +1,665 @@
+/**
+ * @fileoverview Dead Code Analyzer
+ *
+ * Finds unused exports, unused files and unreachable statements with the
+ * TypeScript compiler API. Export usage is resolved through the type
+ * checker, so re-exports, barrel files, `export *`, namespace imports and
+ * `import()` all count the way the compiler sees them. Package entry points
+ * (`main`, `bin`, `exports`, ...) and test files are the roots; exports
+ * reachable from an entry point are public API and never reported.
+ */
+
+import * as fs from "node:fs";
+import path from "node:path";
+import type * as TypeScript from "typescript";
+import {
+  loadTypeScriptProject,
+  type TypeScriptModule,
+} from "./typescript-project.js";
+import { expandGlob, matchesGlob } from "../utils/glob.js";
+import { findPackageDirectory } from "../utils/workspaces.js";
+
+export type DeadCodeKind = "unused-export" | "unused-file" | "unreachable-code";
+
+export interface DeadCodeFinding {
+  kind: DeadCodeKind;
+  /** Relative to the base directory */
+  file: string;
+  line: number;
+  column: number;
+  /** Export name, for unused exports ("default" for default exports) */
+  exportName?: string;
+  /** The export forwards another module's binding */
+  isReExport: boolean;
+  /** How sure the analysis is that the code can be removed (0-1) */
+  confidence: number;
+}
+
+export interface DeadCodeOptions {
+  /** Extra entry point globs, relative to the package directory */
+  entryPoints?: string[] | undefined;
+  /** File globs, relative to the base directory, that are never reported */
+  ignorePatterns?: string[] | undefined;
+  /** Report unused exports of test files too (they are still entry points) */
+  includeTests?: boolean | undefined;
+}
+
+// Confidence of each finding, before anything lowers it
+const CONFIDENCE = {
+  /** No other module references the symbol, resolved by the checker */
+  unusedExport: 0.95,
+  /** Types are often exported for declaration consumers */
+  unusedTypeExport: 0.85,
+  /** Frameworks and config loaders pick up default exports by convention */
+  unusedDefaultExport: 0.8,
+  /** The module object escapes (namespace passed around, opaque import()) */
+  escapedModule: 0.5,
+  /** Nothing imports the file at all */
+  unreferencedFile: 0.9,
+  /** Only other unused files import it */
+  deadClusterFile: 0.75,
+  /** The project loads modules by computed specifiers */
+  opaqueDynamicImports: 0.5,
+  /** Statement follows return/throw/break/continue in the same block */
+  unreachable: 1,
+};
+
+const TEST_FILE_PATTERN =
+  /(?:^|[/\\])(?:__tests__|__mocks__)[/\\]|\.(?:test|spec)\.[cm]?[jt]sx?$/;
+
+// ============================================================================
+// Entry Points
+// ============================================================================
+
+/**
+ * Paths named by package.json entry fields, subpath patterns expanded
+ */
+function collectPackageEntries(packageDirectory: string): string[] {
+  const packagePath = path.join(packageDirectory, "package.json");
+  if (!fs.existsSync(packagePath)) {
+    return [];
+  }
+
+  let manifest: Record<string, unknown>;
+  try {
+    manifest = JSON.parse(fs.readFileSync(packagePath, "utf8")) as Record<
+      string,
+      unknown
+    >;
+  } catch {
+    return [];
+  }
+
+  const entries: string[] = [];
+  const collect = (value: unknown): void => {
+    if (typeof value === "string") {
+      entries.push(value);
+    } else if (Array.isArray(value)) {
+      for (const item of value) {
+        collect(item);
+      }
+    } else if (value && typeof value === "object") {
+      for (const item of Object.values(value)) {
+        collect(item);
+      }
+    }
+  };
+  for (const field of [
+    "main",
+    "module",
+    "types",
+    "typings",
+    "bin",
+    "exports",
+  ]) {
+    collect(manifest[field]);
+  }
+
+  return entries.flatMap((entry) =>
+    entry.includes("*")
+      ? // Subpath patterns: "*" may span directories
+        expandGlob(entry.replaceAll("*", "**"), packageDirectory)
+      : [path.resolve(packageDirectory, entry)],
+  );
+}
+
+/**
+ * Map a built or declared entry file back to its project source
+ */
+function resolveEntrySource(
+  entry: string,
+  compilerOptions: TypeScript.CompilerOptions,
+  sourceRoot: string,
+  projectFiles: Set<string>,
+): string | undefined {
+  const candidates = [entry];
+  const { outDir, declarationDir } = compilerOptions;
+  for (const buildDirectory of [outDir, declarationDir]) {
+    if (!buildDirectory) {
+      continue;
+    }
+    const relative = path.relative(buildDirectory, entry);
+    if (!relative.startsWith("..") && !path.isAbsolute(relative)) {
+      candidates.push(
+        path.join(compilerOptions.rootDir ?? sourceRoot, relative),
+      );
+    }
+  }
+
+  for (const candidate of candidates) {
+    const stem = candidate.replace(/(?:\.d)?\.[cm]?[jt]sx?$/, "");
+    for (const fileName of [
+      candidate,
+      ...[".ts", ".tsx", ".mts", ".cts"].map((extension) => stem + extension),
+      path.join(candidate, "index.ts"),
+      path.join(candidate, "index.tsx"),
+    ]) {
+      if (projectFiles.has(fileName)) {
+        return fileName;
+      }
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Unreachable Code
+// ============================================================================
+
+function exitsUnconditionally(
+  ts: TypeScriptModule,
+  statement: TypeScript.Statement,
+): boolean {
+  if (
+    ts.isReturnStatement(statement) ||
+    ts.isThrowStatement(statement) ||
+    ts.isBreakStatement(statement) ||
+    ts.isContinueStatement(statement)
+  ) {
+    return true;
+  }
+  if (ts.isBlock(statement)) {
+    return statement.statements.some((inner) =>
+      exitsUnconditionally(ts, inner),
+    );
+  }
+  if (ts.isIfStatement(statement) && statement.elseStatement) {
+    return (
+      exitsUnconditionally(ts, statement.thenStatement) &&
+      exitsUnconditionally(ts, statement.elseStatement)
+    );
+  }
+  return false;
+}
+
+/**
+ * Whether a statement does anything at runtime where it stands
+ * Function declarations and `var` without initializer are hoisted; type
+ * declarations are erased.
+ */
+function isExecutable(
+  ts: TypeScriptModule,
+  statement: TypeScript.Statement,
+): boolean {
+  if (
+    ts.isFunctionDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isModuleDeclaration(statement) ||
+    ts.isEmptyStatement(statement)
+  ) {
+    return false;
+  }
+  if (ts.isVariableStatement(statement)) {
+    const { declarationList } = statement;
+    const isVariable =
+      (declarationList.flags & (ts.NodeFlags.Let | ts.NodeFlags.Const)) === 0;
+    return !(
+      isVariable &&
+      declarationList.declarations.every(
+        (declaration) => declaration.initializer === undefined,
+      )
+    );
+  }
+  return true;
+}
+
+/**
+ * First unreachable statement of every statement list in a file
+ */
+function findUnreachableStatements(
+  ts: TypeScriptModule,
+  sourceFile: TypeScript.SourceFile,
+): TypeScript.Statement[] {
+  const unreachable: TypeScript.Statement[] = [];
+
+  const checkStatements = (
+    statements: TypeScript.NodeArray<TypeScript.Statement>,
+  ): void => {
+    let exited = false;
+    for (const statement of statements) {
+      if (exited && isExecutable(ts, statement)) {
+        unreachable.push(statement);
+        return;
+      }
+      exited ||= exitsUnconditionally(ts, statement);
+    }
+  };
+
+  const visit = (node: TypeScript.Node): void => {
+    if (
+      ts.isBlock(node) ||
+      ts.isModuleBlock(node) ||
+      ts.isCaseClause(node) ||
+      ts.isDefaultClause(node)
+    ) {
+      checkStatements(node.statements);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return unreachable;
+}
+
+// ============================================================================
+// Usage Collection
+// ============================================================================
+
+interface ProjectUsage {
+  /** Resolved symbol to the files that reference it */
+  users: Map<TypeScript.Symbol, Set<string>>;
+  /** Files each file references: imports, re-exports, import(), import types */
+  references: Map<string, Set<string>>;
+  /** Modules whose namespace object is used as a whole */
+  escaped: Set<string>;
+  /** Some import() has a computed specifier */
+  hasOpaqueDynamicImports: boolean;
+}
+
+function isModuleSpecifier(
+  ts: TypeScriptModule,
+  node: TypeScript.StringLiteralLike,
+): boolean {
+  const { parent } = node;
+  return (
+    ((ts.isImportDeclaration(parent) || ts.isExportDeclaration(parent)) &&
+      parent.moduleSpecifier === node) ||
+    ts.isExternalModuleReference(parent) ||
+    (ts.isCallExpression(parent) &&
+      parent.expression.kind === ts.SyntaxKind.ImportKeyword) ||
+    (ts.isLiteralTypeNode(parent) && ts.isImportTypeNode(parent.parent))
+  );
+}
+
+/**
+ * Whether the value of an `import()` call is only destructured or accessed
+ * by property, which the checker can follow
+ */
+function isTraceableImportCall(
+  ts: TypeScriptModule,
+  call: TypeScript.CallExpression,
+): boolean {
+  let current: TypeScript.Node = call;
+  while (
+    ts.isParenthesizedExpression(current.parent) ||
+    ts.isAwaitExpression(current.parent)
+  ) {
+    current = current.parent;
+  }
+  const { parent } = current;
+  return (
+    (ts.isVariableDeclaration(parent) && parent.initializer === current) ||
+    ((ts.isPropertyAccessExpression(parent) ||
+      ts.isElementAccessExpression(parent)) &&
+      parent.expression === current)
+  );
+}
+
+function resolveAlias(
+  ts: TypeScriptModule,
+  checker: TypeScript.TypeChecker,
+  symbol: TypeScript.Symbol,
+): TypeScript.Symbol {
+  return symbol.flags & ts.SymbolFlags.Alias
+    ? checker.getAliasedSymbol(symbol)
+    : symbol;
+}
+
+/**
+ * File of a module symbol, undefined for any other symbol
+ */
+function moduleFileOf(
+  ts: TypeScriptModule,
+  symbol: TypeScript.Symbol | undefined,
+): string | undefined {
+  const declaration = symbol?.valueDeclaration ?? symbol?.declarations?.[0];
+  return declaration && ts.isSourceFile(declaration)
+    ? declaration.fileName
+    : undefined;
+}
+
+function collectFileUsage(
+  ts: TypeScriptModule,
+  checker: TypeScript.TypeChecker,
+  sourceFile: TypeScript.SourceFile,
+  usage: ProjectUsage,
+): void {
+  const { fileName } = sourceFile;
+  const references = new Set<string>();
+  usage.references.set(fileName, references);
+  const resolve = (symbol: TypeScript.Symbol): TypeScript.Symbol =>
+    resolveAlias(ts, checker, symbol);
+  const moduleFile = (symbol: TypeScript.Symbol | undefined) =>
+    moduleFileOf(ts, symbol);
+
+  const markUsed = (symbol: TypeScript.Symbol): void => {
+    for (const target of new Set([symbol, resolve(symbol)])) {
+      let files = usage.users.get(target);
+      if (!files) {
+        files = new Set();
+        usage.users.set(target, files);
+      }
+      files.add(fileName);
+    }
+  };
+
+  const visitIdentifier = (node: TypeScript.Identifier): void => {
+    const { parent } = node;
+    // Re-exporting a binding does not use it
+    if (ts.isExportSpecifier(parent) || ts.isNamespaceExport(parent)) {
+      return;
+    }
+    const symbol = checker.getSymbolAtLocation(node);
+    if (!symbol) {
+      return;
+    }
+    markUsed(symbol);
+
+    const namespaceFile = moduleFile(resolve(symbol));
+    const isDeclarationName =
+      ts.isNamespaceImport(parent) ||
+      ts.isImportClause(parent) ||
+      ts.isImportSpecifier(parent) ||
+      ts.isImportEqualsDeclaration(parent);
+    const isMemberAccess =
+      (ts.isPropertyAccessExpression(parent) && parent.expression === node) ||
+      (ts.isQualifiedName(parent) && parent.left === node);
+    if (namespaceFile && !isDeclarationName && !isMemberAccess) {
+      usage.escaped.add(namespaceFile);
+    }
+  };
+
+  const visit = (node: TypeScript.Node): void => {
+    if (ts.isIdentifier(node)) {
+      visitIdentifier(node);
+    } else if (ts.isStringLiteralLike(node) && isModuleSpecifier(ts, node)) {
+      const target = moduleFile(checker.getSymbolAtLocation(node));
+      if (target) {
+        references.add(target);
+        if (
+          ts.isCallExpression(node.parent) &&
+          !isTraceableImportCall(ts, node.parent)
+        ) {
+          usage.escaped.add(target);
+        }
+      }
+    } else if (
+      ts.isCallExpression(node) &&
+      node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+      !(node.arguments[0] && ts.isStringLiteralLike(node.arguments[0]))
+    ) {
+      usage.hasOpaqueDynamicImports = true;
+    } else if (ts.isObjectBindingPattern(node)) {
+      // `const { a } = await import("./m")` uses m's export a
+      const type = checker.getTypeAtLocation(node);
+      for (const element of node.elements) {
+        const property = element.propertyName ?? element.name;
+        if (
+          !element.dotDotDotToken &&
+          (ts.isIdentifier(property) || ts.isStringLiteralLike(property))
+        ) {
+          const symbol = type.getProperty(property.text);
+          if (symbol) {
+            markUsed(symbol);
+          }
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+}
+
+function collectUsage(
+  ts: TypeScriptModule,
+  checker: TypeScript.TypeChecker,
+  sourceFiles: TypeScript.SourceFile[],
+): ProjectUsage {
+  const usage: ProjectUsage = {
+    users: new Map(),
+    references: new Map(),
+    escaped: new Set(),
+    hasOpaqueDynamicImports: false,
+  };
+  for (const sourceFile of sourceFiles) {
+    collectFileUsage(ts, checker, sourceFile, usage);
+  }
+  return usage;
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+function isTypeOnlySymbol(
+  ts: TypeScriptModule,
+  symbol: TypeScript.Symbol,
+): boolean {
+  return (
+    (symbol.flags & ts.SymbolFlags.Type) !== 0 &&
+    (symbol.flags & ts.SymbolFlags.Value) === 0
+  );
+}
+
+function roundConfidence(confidence: number): number {
+  return Math.round(confidence * 100) / 100;
+}
+
+/**
+ * Analyze the TypeScript project under a directory for dead code
+ * Without any entry point (package.json fields, tests or configured globs)
+ * unused files cannot be told apart from roots and are not reported.
+ */
+export async function analyzeDeadCode(
+  targetDirectory: string,
+  baseDirectory: string,
+  options: DeadCodeOptions = {},
+): Promise<DeadCodeFinding[]> {
+  const { default: ts } = await import("typescript");
+  const { configPath, fileNames, compilerOptions } = loadTypeScriptProject(
+    ts,
+    targetDirectory,
+  );
+  if (fileNames.length === 0) {
+    return [];
+  }
+
+  const program = ts.createProgram(fileNames, {
+    ...compilerOptions,
+    noEmit: true,
+  });
+  const checker = program.getTypeChecker();
+  const projectFiles = new Set(fileNames);
+  const sourceFiles = program
+    .getSourceFiles()
+    .filter((sourceFile) =>
+      projectFiles.has(path.resolve(sourceFile.fileName)),
+    );
+  const toRelative = (fileName: string): string =>
+    path.relative(baseDirectory, fileName);
+  const isIgnored = (fileName: string): boolean =>
+    matchesGlob(toRelative(fileName), options.ignorePatterns ?? []);
+
+  // Roots: package entry points, configured globs and test files
+  const packageDirectory = findPackageDirectory(path.resolve(targetDirectory));
+  const sourceRoot = configPath ? path.dirname(configPath) : packageDirectory;
+  const programFiles = new Set(sourceFiles.map((file) => file.fileName));
+  const entryFiles = new Set<string>();
+  for (const entry of [
+    ...collectPackageEntries(packageDirectory),
+    ...(options.entryPoints ?? []).flatMap((pattern) =>
+      expandGlob(pattern, packageDirectory),
+    ),
+  ]) {
+    const source = resolveEntrySource(
+      path.resolve(entry),
+      compilerOptions,
+      sourceRoot,
+      programFiles,
+    );
+    if (source) {
+      entryFiles.add(source);
+    }
+  }
+  const testFiles = new Set(
+    [...programFiles].filter((fileName) => TEST_FILE_PATTERN.test(fileName)),
+  );
+  const roots = new Set([...entryFiles, ...testFiles]);
+
+  const usage = collectUsage(ts, checker, sourceFiles);
+  const resolve = (symbol: TypeScript.Symbol): TypeScript.Symbol =>
+    resolveAlias(ts, checker, symbol);
+
+  // Everything an entry point exports, directly or through `export *`
+  const publicSymbols = new Set<TypeScript.Symbol>();
+  for (const sourceFile of sourceFiles) {
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    if (moduleSymbol && entryFiles.has(sourceFile.fileName)) {
+      for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+        publicSymbols.add(resolve(exported));
+      }
+    }
+  }
+
+  // Files reachable from the roots
+  const reachable = new Set<string>();
+  const pending = [...roots];
+  while (pending.length > 0) {
+    const fileName = pending.pop()!;
+    if (!reachable.has(fileName)) {
+      reachable.add(fileName);
+      pending.push(...(usage.references.get(fileName) ?? []));
+    }
+  }
+  const referenced = new Set(
+    [...usage.references.values()].flatMap((targets) => [...targets]),
+  );
+
+  const findings: DeadCodeFinding[] = [];
+  const position = (
+    sourceFile: TypeScript.SourceFile,
+    node: TypeScript.Node,
+  ) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(sourceFile),
+    );
+    return { line: line + 1, column: character + 1 };
+  };
+
+  for (const sourceFile of sourceFiles) {
+    const { fileName } = sourceFile;
+    if (isIgnored(fileName)) {
+      continue;
+    }
+
+    for (const statement of findUnreachableStatements(ts, sourceFile)) {
+      findings.push({
+        kind: "unreachable-code",
+        file: toRelative(fileName),
+        ...position(sourceFile, statement),
+        isReExport: false,
+        confidence: CONFIDENCE.unreachable,
+      });
+    }
+
+    if (roots.size > 0 && !reachable.has(fileName)) {
+      const confidence = usage.hasOpaqueDynamicImports
+        ? CONFIDENCE.opaqueDynamicImports
+        : referenced.has(fileName)
+          ? CONFIDENCE.deadClusterFile
+          : CONFIDENCE.unreferencedFile;
+      findings.push({
+        kind: "unused-file",
+        file: toRelative(fileName),
+        line: 1,
+        column: 1,
+        isReExport: false,
+        confidence,
+      });
+      // Its exports die with it
+      continue;
+    }
+
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    if (
+      !moduleSymbol ||
+      entryFiles.has(fileName) ||
+      (testFiles.has(fileName) && !options.includeTests)
+    ) {
+      continue;
+    }
+
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      // Names that `export *` forwards are reported where they are declared
+      const declaration = exported.declarations?.find(
+        (candidate) => candidate.getSourceFile() === sourceFile,
+      );
+      if (!declaration) {
+        continue;
+      }
+
+      const target = resolve(exported);
+      const targetFile =
+        target.declarations?.[0]?.getSourceFile().fileName ?? fileName;
+      const isUsed = [exported, target].some((symbol) =>
+        [...(usage.users.get(symbol) ?? [])].some(
+          (user) => user !== targetFile && user !== fileName,
+        ),
+      );
+      if (isUsed || publicSymbols.has(target)) {
+        continue;
+      }
+
+      let confidence = CONFIDENCE.unusedExport;
+      if (isTypeOnlySymbol(ts, target)) {
+        confidence = Math.min(confidence, CONFIDENCE.unusedTypeExport);
+      }
+      if (exported.name === "default") {
+        confidence = Math.min(confidence, CONFIDENCE.unusedDefaultExport);
+      }
+      if (usage.escaped.has(fileName)) {
+        confidence = Math.min(confidence, CONFIDENCE.escapedModule);
+      }
+      if (usage.hasOpaqueDynamicImports) {
+        confidence = Math.min(confidence, CONFIDENCE.opaqueDynamicImports);
+      }
+
+      const nameNode = ts.getNameOfDeclaration(declaration) ?? declaration;
+      findings.push({
+        kind: "unused-export",
+        file: toRelative(fileName),
+        ...position(sourceFile, nameNode),
+        exportName: exported.name,
+        isReExport:
+          ts.isExportSpecifier(declaration) &&
+          declaration.parent.parent.moduleSpecifier !== undefined,
+        confidence: roundConfidence(confidence),
+      });
+    }
+  }
+
+  return findings.sort(
+    (a, b) => a.file.localeCompare(b.file) || a.line - b.line,
+  );
+}
@@ -0,0 +1,687 @@
+/**
+ * @fileoverview Dependency Analyzer
+ *
+ * Cross-references the packages a project imports with what its
+ * package.json declares. Imports are read from every JS/TS source and
+ * config file: static imports and re-exports, `require`, `require.resolve`,
+ * `import()` and `import("pkg").Type`. Packages of a workspace (npm/yarn
+ * `workspaces`, pnpm-workspace.yaml) are checked against their own manifest.
+ */
+
+import * as fs from "node:fs";
+import { isBuiltin } from "node:module";
+import path from "node:path";
+import type * as TypeScript from "typescript";
+import { collectModuleImports } from "./module-graph.js";
+import {
+  loadTypeScriptProject,
+  type TypeScriptModule,
+} from "./typescript-project.js";
+import { matchesGlob } from "../utils/glob.js";
+import type { ValidatedPackageJson } from "../utils/validation-schemas.js";
+import {
+  findPackageDirectory,
+  findWorkspaceDirectories,
+  findWorkspaceRoot,
+  isInsideDirectory,
+  readPackageManifest,
+  readWorkspacePatterns,
+} from "../utils/workspaces.js";
+
+export type DependencyType =
+  | "dependencies"
+  | "devDependencies"
+  | "peerDependencies"
+  | "optionalDependencies";
+
+export type DependencyIssueKind =
+  | "unused-dependency"
+  | "missing-dependency"
+  | "dev-dependency-at-runtime";
+
+export interface DependencyIssue {
+  kind: DependencyIssueKind;
+  packageName: string;
+  /** package.json the issue belongs to, relative to the base directory */
+  manifest: string;
+  /** First importing file, or the manifest for unused dependencies */
+  file: string;
+  line: number;
+  /** Section of the manifest that declares the package, if any */
+  dependencyType?: DependencyType | undefined;
+  /** Files importing the package, relative to the base directory */
+  importers: string[];
+}
+
+export interface DependencyAnalysisOptions {
+  /** Package name globs that are never reported */
+  ignore?: string[] | undefined;
+  /**
+   * Globs, relative to each package, of more files that only run in
+   * development, in addition to DEFAULT_DEV_FILES
+   */
+  devFiles?: string[] | undefined;
+}
+
+/**
+ * Tests, stories, tool configs and scripts may import devDependencies
+ */
+export const DEFAULT_DEV_FILES = [
+  "**/*.test.*",
+  "**/*.spec.*",
+  "**/*.stories.*",
+  "**/*.config.*",
+  "**/.*rc.*",
+  "**/__tests__",
+  "**/__mocks__",
+  "**/test",
+  "**/tests",
+  "**/e2e",
+  "**/fixtures",
+  "scripts",
+  ".vitest",
+];
+
+const SOURCE_FILE_PATTERN = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+const SKIPPED_DIRECTORIES = new Set([
+  "node_modules",
+  ".git",
+  "dist",
+  "build",
+  "coverage",
+]);
+const RUNTIME_DEPENDENCY_TYPES: DependencyType[] = [
+  "dependencies",
+  "peerDependencies",
+  "optionalDependencies",
+];
+// Config files beside package.json that name packages in strings
+const CONFIG_FILE_PATTERN =
+  /^(?:\.[\w-]+rc(?:\.json|\.ya?ml|\.[cm]?[jt]s)?|tsconfig[\w.-]*\.json|[\w-]+\.config\.(?:json|[cm]?[jt]s))$/;
+const SCRIPT_CONFIG_PATTERN = /\.[cm]?[jt]s$/;
+// Packages a tool loads for a command-line flag instead of importing them
+const FLAG_PACKAGES: Array<{ binary: string; flag: string; packages: RegExp }> =
+  [
+    { binary: "vitest", flag: "--coverage", packages: /^@vitest\/coverage-/ },
+    { binary: "vitest", flag: "--ui", packages: /^@vitest\/ui$/ },
+  ];
+
+interface PackageImport {
+  packageName: string;
+  fileName: string;
+  line: number;
+  /** Erased at compile time */
+  typeOnly: boolean;
+  /** Imported by a test, tool config or script */
+  development: boolean;
+}
+
+interface WorkspacePackage {
+  directory: string;
+  manifestPath: string;
+  manifest: ValidatedPackageJson;
+  manifestText: string;
+  compilerOptions: TypeScript.CompilerOptions;
+  imports: PackageImport[];
+  /** Some file imports a Node built-in, which @types/node describes */
+  importsBuiltins: boolean;
+}
+
+// ============================================================================
+// Import Collection
+// ============================================================================
+
+/**
+ * Package a bare specifier refers to; undefined for relative paths,
+ * subpath imports, URLs and Node built-ins
+ */
+export function getPackageName(specifier: string): string | undefined {
+  if (
+    /^[#./]/.test(specifier) ||
+    /^[a-z][\d+.a-z-]*:/i.test(specifier) ||
+    isBuiltin(specifier)
+  ) {
+    return undefined;
+  }
+  const [first, second] = specifier.split("/");
+  if (first?.startsWith("@")) {
+    return second ? `${first}/${second}` : undefined;
+  }
+  return first || undefined;
+}
+
+/**
+ * The DefinitelyTyped package for a package name
+ */
+function getTypesPackage(packageName: string): string {
+  return packageName.startsWith("@")
+    ? `@types/${packageName.slice(1).replace("/", "__")}`
+    : `@types/${packageName}`;
+}
+
+function isRequireCallee(
+  ts: TypeScriptModule,
+  expression: TypeScript.Expression,
+): boolean {
+  if (ts.isIdentifier(expression)) {
+    return expression.text === "require";
+  }
+  return (
+    ts.isPropertyAccessExpression(expression) &&
+    ts.isIdentifier(expression.expression) &&
+    expression.expression.text === "require" &&
+    expression.name.text === "resolve"
+  );
+}
+
+/**
+ * Every module specifier of a file: static, `require`, `import()` and
+ * import types
+ */
+function collectSpecifiers(
+  ts: TypeScriptModule,
+  sourceFile: TypeScript.SourceFile,
+): Array<{ specifier: string; line: number; typeOnly: boolean }> {
+  const specifiers = collectModuleImports(ts, sourceFile);
+  const add = (literal: TypeScript.StringLiteralLike, typeOnly: boolean) => {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(
+      literal.getStart(sourceFile),
+    );
+    specifiers.push({ specifier: literal.text, line: line + 1, typeOnly });
+  };
+
+  const visit = (node: TypeScript.Node): void => {
+    if (ts.isCallExpression(node)) {
+      const [argument] = node.arguments;
+      if (
+        argument &&
+        ts.isStringLiteralLike(argument) &&
+        (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+          isRequireCallee(ts, node.expression))
+      ) {
+        add(argument, false);
+      }
+    } else if (
+      ts.isImportTypeNode(node) &&
+      ts.isLiteralTypeNode(node.argument) &&
+      ts.isStringLiteral(node.argument.literal)
+    ) {
+      add(node.argument.literal, true);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // Declaration files never run
+  return sourceFile.isDeclarationFile
+    ? specifiers.map((found) => ({ ...found, typeOnly: true }))
+    : specifiers;
+}
+
+function getScriptKind(
+  ts: TypeScriptModule,
+  fileName: string,
+): TypeScript.ScriptKind {
+  if (fileName.endsWith(".tsx")) {
+    return ts.ScriptKind.TSX;
+  }
+  if (fileName.endsWith(".jsx")) {
+    return ts.ScriptKind.JSX;
+  }
+  return /\.[cm]?js$/.test(fileName) ? ts.ScriptKind.JS : ts.ScriptKind.TS;
+}
+
+function collectSourceFiles(directory: string, files: string[] = []): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(directory, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+        collectSourceFiles(entryPath, files);
+      }
+    } else if (entry.isFile() && SOURCE_FILE_PATTERN.test(entry.name)) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+// ============================================================================
+// Usage Outside Imports
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`);
+}
+
+/**
+ * Executables an installed package provides
+ */
+function getBinaryNames(packageName: string, directories: string[]): string[] {
+  const names = new Set([packageName.replace(/^@[^/]+\//, "")]);
+  for (const directory of directories) {
+    const manifestPath = path.join(
+      directory,
+      "node_modules",
+      packageName,
+      "package.json",
+    );
+    if (!fs.existsSync(manifestPath)) {
+      continue;
+    }
+    try {
+      const { bin } = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as {
+        bin?: string | Record<string, string>;
+      };
+      if (bin && typeof bin === "object") {
+        for (const name of Object.keys(bin)) {
+          names.add(name);
+        }
+      }
+    } catch {
+      // Unreadable manifests just contribute no binaries
+    }
+    break;
+  }
+  return [...names];
+}
+
+function isUsedInScripts(binaryNames: string[], scripts: string[]): boolean {
+  return binaryNames.some((name) => {
+    const pattern = new RegExp(
+      String.raw`(?:^|[\s"&'(/;=|])${escapeRegExp(name)}(?:$|[\s"&');|])`,
+    );
+    return scripts.some((script) => pattern.test(script));
+  });
+}
+
+function isLoadedByFlag(packageName: string, scripts: string[]): boolean {
+  return FLAG_PACKAGES.some(({ binary, flag, packages }) => {
+    if (!packages.test(packageName)) {
+      return false;
+    }
+    const pattern = new RegExp(
+      String.raw`(?:^|[\s"&'(/;=|])${escapeRegExp(binary)}\s[^&;|]*?${escapeRegExp(flag)}(?:$|[\s"'.=])`,
+    );
+    return scripts.some((script) => pattern.test(script));
+  });
+}
+
+/**
+ * String literals of a JS/TS config file, where it names packages
+ */
+function collectStringLiterals(
+  ts: TypeScriptModule,
+  fileName: string,
+  text: string,
+): string[] {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    false,
+    getScriptKind(ts, fileName),
+  );
+  const literals: string[] = [];
+  const visit = (node: TypeScript.Node): void => {
+    if (ts.isStringLiteralLike(node)) {
+      literals.push(node.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return literals;
+}
+
+/**
+ * Texts of the config files beside a manifest, and the manifest's own
+ * settings without its dependency sections
+ */
+function readConfigTexts(
+  ts: TypeScriptModule,
+  workspacePackage: WorkspacePackage,
+): Array<{ name: string; text: string }> {
+  const settings = Object.fromEntries(
+    Object.entries(workspacePackage.manifest).filter(
+      ([key]) => key !== "name" && !key.endsWith("ependencies"),
+    ),
+  );
+  const texts = [{ name: "package.json", text: JSON.stringify(settings) }];
+
+  for (const entry of fs.readdirSync(workspacePackage.directory, {
+    withFileTypes: true,
+  })) {
+    if (!entry.isFile() || !CONFIG_FILE_PATTERN.test(entry.name)) {
+      continue;
+    }
+    const text = fs.readFileSync(
+      path.join(workspacePackage.directory, entry.name),
+      "utf8",
+    );
+    texts.push({
+      name: entry.name,
+      // Code configs only name packages in strings, not in comments
+      text: SCRIPT_CONFIG_PATTERN.test(entry.name)
+        ? JSON.stringify(collectStringLiterals(ts, entry.name, text))
+        : text,
+    });
+  }
+  return texts;
+}
+
+function isReferencedInConfig(
+  packageName: string,
+  texts: Array<{ name: string; text: string }>,
+): boolean {
+  const direct = new RegExp(String.raw`["']${escapeRegExp(packageName)}["'/]`);
+  // ESLint configs name plugins and shared configs without their prefix
+  const eslintShorthand =
+    /^(?:(@[^/]+)\/)?eslint-(?:plugin|config)(?:-(.+))?$/.exec(packageName);
+  const shorthandName = eslintShorthand
+    ? [eslintShorthand[1], eslintShorthand[2]].filter(Boolean).join("/")
+    : undefined;
+  const shorthand = shorthandName
+    ? new RegExp(
+        String.raw`["'](?:plugin:)?${escapeRegExp(shorthandName)}["'/]`,
+      )
+    : undefined;
+
+  return texts.some(
+    ({ name, text }) =>
+      direct.test(text) ||
+      (shorthand !== undefined &&
+        /eslint|package\.json/.test(name) &&
+        shorthand.test(text)),
+  );
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+function getDependencyType(
+  manifest: ValidatedPackageJson,
+  packageName: string,
+  types: DependencyType[] = [...RUNTIME_DEPENDENCY_TYPES, "devDependencies"],
+): DependencyType | undefined {
+  return types.find((type) => manifest[type]?.[packageName] !== undefined);
+}
+
+function findManifestLine(
+  manifestText: string,
+  section: DependencyType,
+  packageName: string,
+): number {
+  const sectionIndex = manifestText.indexOf(`"${section}"`);
+  const index = manifestText.indexOf(
+    `"${packageName}"`,
+    Math.max(sectionIndex, 0),
+  );
+  return index === -1 ? 1 : manifestText.slice(0, index).split("\n").length;
+}
+
+function groupByPackage(
+  imports: PackageImport[],
+): Map<string, PackageImport[]> {
+  const groups = new Map<string, PackageImport[]>();
+  for (const packageImport of imports) {
+    const group = groups.get(packageImport.packageName);
+    if (group) {
+      group.push(packageImport);
+    } else {
+      groups.set(packageImport.packageName, [packageImport]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Analyze the package containing a directory, or every workspace package
+ * below it, for unused, undeclared and misplaced dependencies
+ */
+export async function analyzeDependencies(
+  targetDirectory: string,
+  baseDirectory: string,
+  options: DependencyAnalysisOptions = {},
+): Promise<DependencyIssue[]> {
+  const { default: ts } = await import("typescript");
+  const target = path.resolve(targetDirectory);
+  const rootDirectory = findWorkspaceRoot(findPackageDirectory(target));
+  const rootManifestPath = path.join(rootDirectory, "package.json");
+  if (!fs.existsSync(rootManifestPath)) {
+    throw new Error(`No package.json found for ${target}`);
+  }
+
+  const loadPackage = (directory: string): WorkspacePackage => {
+    const manifestPath = path.join(directory, "package.json");
+    return {
+      directory,
+      manifestPath,
+      ...readPackageManifest(manifestPath),
+      compilerOptions: loadTypeScriptProject(ts, directory).compilerOptions,
+      imports: [],
+      importsBuiltins: false,
+    };
+  };
+  const root = loadPackage(rootDirectory);
+  const packages = [
+    root,
+    ...findWorkspaceDirectories(
+      rootDirectory,
+      readWorkspacePatterns(rootDirectory, root.manifest),
+    ).map((directory) => loadPackage(directory)),
+  ];
+  // Deepest package first, so each file belongs to its nearest manifest
+  const owners = [...packages].sort(
+    (a, b) => b.directory.length - a.directory.length,
+  );
+
+  const developmentFiles = [...DEFAULT_DEV_FILES, ...(options.devFiles ?? [])];
+  const isIgnored = (packageName: string): boolean =>
+    matchesGlob(packageName, options.ignore ?? []);
+  const toRelative = (fileName: string): string =>
+    path.relative(baseDirectory, fileName);
+
+  for (const fileName of collectSourceFiles(rootDirectory)) {
+    const owner = owners.find((candidate) =>
+      isInsideDirectory(candidate.directory, fileName),
+    );
+    if (!owner) {
+      continue;
+    }
+    const sourceFile = ts.createSourceFile(
+      fileName,
+      fs.readFileSync(fileName, "utf8"),
+      ts.ScriptTarget.Latest,
+      true,
+      getScriptKind(ts, fileName),
+    );
+    const development = matchesGlob(
+      path.relative(owner.directory, fileName),
+      developmentFiles,
+    );
+
+    for (const found of collectSpecifiers(ts, sourceFile)) {
+      if (isBuiltin(found.specifier)) {
+        owner.importsBuiltins = true;
+      }
+      const packageName = getPackageName(found.specifier);
+      if (!packageName || packageName === owner.manifest.name) {
+        continue;
+      }
+      // Undeclared names may be tsconfig `paths` aliases or baseUrl imports
+      if (
+        !getDependencyType(owner.manifest, packageName) &&
+        !getDependencyType(root.manifest, packageName)
+      ) {
+        const { resolvedModule } = ts.resolveModuleName(
+          found.specifier,
+          fileName,
+          owner.compilerOptions,
+          ts.sys,
+        );
+        if (resolvedModule && !resolvedModule.isExternalLibraryImport) {
+          continue;
+        }
+      }
+      owner.imports.push({
+        packageName,
+        fileName,
+        line: found.line,
+        typeOnly: found.typeOnly,
+        development,
+      });
+    }
+  }
+
+  // Report packages inside the target, else the one containing it
+  let reported = packages.filter((candidate) =>
+    isInsideDirectory(target, candidate.directory),
+  );
+  if (reported.length === 0) {
+    reported = owners
+      .filter((candidate) => isInsideDirectory(candidate.directory, target))
+      .slice(0, 1);
+  }
+
+  const issues: DependencyIssue[] = [];
+  for (const workspacePackage of reported) {
+    const manifest = toRelative(workspacePackage.manifestPath);
+    const isRoot = workspacePackage === root;
+    const importGroups = groupByPackage(workspacePackage.imports);
+
+    // Imports of packages the manifest does not declare for that use
+    for (const [packageName, imports] of importGroups) {
+      if (isIgnored(packageName)) {
+        continue;
+      }
+      const importers = [
+        ...new Set(imports.map((found) => toRelative(found.fileName))),
+      ];
+      const issueAt = (
+        kind: DependencyIssueKind,
+        found: PackageImport,
+        dependencyType?: DependencyType,
+      ) =>
+        issues.push({
+          kind,
+          packageName,
+          manifest,
+          file: toRelative(found.fileName),
+          line: found.line,
+          dependencyType,
+          importers,
+        });
+
+      const ownType = getDependencyType(workspacePackage.manifest, packageName);
+      const runtimeImport = imports.find(
+        (found) => !found.typeOnly && !found.development,
+      );
+      if (runtimeImport) {
+        if (ownType === "devDependencies") {
+          issueAt("dev-dependency-at-runtime", runtimeImport, ownType);
+        } else if (!ownType) {
+          issueAt(
+            "missing-dependency",
+            runtimeImport,
+            isRoot ? undefined : getDependencyType(root.manifest, packageName),
+          );
+        }
+        continue;
+      }
+
+      // Tests, configs and types may rely on the root's devDependencies
+      const typesPackage = getTypesPackage(packageName);
+      const isDeclared = [workspacePackage.manifest, root.manifest].some(
+        (candidate) =>
+          getDependencyType(candidate, packageName) !== undefined ||
+          getDependencyType(candidate, typesPackage) !== undefined,
+      );
+      if (!isDeclared && imports[0]) {
+        issueAt("missing-dependency", imports[0]);
+      }
+    }
+
+    // Declared packages nothing uses; the root also serves its workspaces
+    const scope = isRoot ? packages : [workspacePackage];
+    const usedNames = new Set(
+      scope.flatMap((candidate) =>
+        candidate.imports.map((found) => found.packageName),
+      ),
+    );
+    const scripts = scope.flatMap((candidate) =>
+      Object.values(candidate.manifest.scripts ?? {}),
+    );
+    const configTexts = scope.flatMap((candidate) =>
+      readConfigTexts(ts, candidate),
+    );
+    const configuredTypes = workspacePackage.compilerOptions.types;
+
+    for (const dependencyType of ["dependencies", "devDependencies"] as const) {
+      for (const packageName of Object.keys(
+        workspacePackage.manifest[dependencyType] ?? {},
+      )) {
+        if (isIgnored(packageName) || usedNames.has(packageName)) {
+          continue;
+        }
+        if (packageName.startsWith("@types/")) {
+          // Without `types`, TypeScript loads every @types package globally
+          const typesName = packageName.slice("@types/".length);
+          const typedPackage = typesName.includes("__")
+            ? `@${typesName.replace("__", "/")}`
+            : typesName;
+          if (
+            configuredTypes === undefined ||
+            configuredTypes.some(
+              (name) => getPackageName(name) === typesName,
+            ) ||
+            usedNames.has(typedPackage) ||
+            (typesName === "node" &&
+              scope.some((candidate) => candidate.importsBuiltins))
+          ) {
+            continue;
+          }
+        }
+        if (
+          isUsedInScripts(
+            getBinaryNames(packageName, [
+              workspacePackage.directory,
+              rootDirectory,
+            ]),
+            scripts,
+          ) ||
+          isLoadedByFlag(packageName, scripts) ||
+          isReferencedInConfig(packageName, configTexts)
+        ) {
+          continue;
+        }
+
+        issues.push({
+          kind: "unused-dependency",
+          packageName,
+          manifest,
+          file: manifest,
+          line: findManifestLine(
+            workspacePackage.manifestText,
+            dependencyType,
+            packageName,
+          ),
+          dependencyType,
+          importers: [],
+        });
+      }
+    }
+  }
+
+  return issues.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      a.line - b.line ||
+      a.packageName.localeCompare(b.packageName),
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Dependency Hygiene Engine
+ *
+ * Compares the packages the project imports with its package.json:
+ * declared dependencies nothing uses, imports of packages that are not
+ * declared, and devDependencies imported by code that ships.
+ */
+
+import path from "node:path";
+import { BaseAuditEngine } from "./base-engine.js";
+import {
+  analyzeDependencies,
+  type DependencyIssue,
+} from "./dependency-analyzer.js";
+import type {
+  Violation,
+  EngineConfig,
+  ViolationCategory,
+  DependencyViolation,
+} from "../utils/violation-types.js";
+import {
+  DependencyConfigSchema,
+  type ValidatedDependencyConfig,
+} from "../utils/validation-schemas.js";
+import {
+  loadProjectConfig,
+  PROJECT_CONFIG_FILENAME,
+} from "../utils/project-config.js";
+import { debugLog } from "../utils/debug-logger.js";
+
+export type DependencyConfig = ValidatedDependencyConfig;
+
+/**
+ * Configuration interface for DependencyEngine
+ */
+export interface DependencyEngineConfig extends EngineConfig {
+  options: {
+    /** Settings to use instead of the project config's `dependencies` section */
+    dependencies?: DependencyConfig;
+  };
+}
+
+/**
+ * Dependency Hygiene Engine for package.json dependencies
+ *
+ * Tests, tool configs and scripts may use devDependencies; everything else
+ * needs `dependencies`, `peerDependencies` or `optionalDependencies`. In a
+ * workspace each package is checked against its own manifest.
+ */
+export class DependencyEngine extends BaseAuditEngine {
+  private readonly baseDir: string;
+
+  constructor(config: Partial<DependencyEngineConfig> = {}) {
+    super("Dependency Hygiene", "dependencies", {
+      enabled: true,
+      priority: 11,
+      timeout: 60_000,
+      allowFailure: true,
+      options: {},
+      ...config,
+    });
+    this.baseDir = process.cwd();
+  }
+
+  /**
+   * Check the package (or workspace packages) under the target path
+   */
+  protected async analyze(
+    targetPath: string,
+    options: Record<string, unknown> = {},
+  ): Promise<Violation[]> {
+    const searchPath = path.resolve(this.baseDir, targetPath);
+
+    let settings: DependencyConfig;
+    try {
+      settings = this.resolveSettings(searchPath, options);
+    } catch (error) {
+      return [
+        this.createSetupViolation(
+          "DEPENDENCY-SETUP-001",
+          `Invalid dependency settings: ${error}`,
+          `Fix the "dependencies" section of ${PROJECT_CONFIG_FILENAME}. Error: ${error}`,
+        ),
+      ];
+    }
+
+    try {
+      const issues = await analyzeDependencies(searchPath, this.baseDir, {
+        ignore: settings.ignore,
+        devFiles: settings.devFiles,
+      });
+
+      debugLog("DependencyEngine", "Dependencies checked", {
+        issues: issues.length,
+      });
+
+      return issues.map((issue) => this.createDependencyViolation(issue));
+    } catch (error) {
+      console.warn("[Dependency Engine] Dependency analysis failed:", error);
+      return [
+        this.createSetupViolation(
+          "DEPENDENCY-SETUP-002",
+          `Dependency analysis failed: ${error}`,
+          `Could not read the package.json files or sources under ${targetPath}. Error: ${error}`,
+        ),
+      ];
+    }
+  }
+
+  /**
+   * Settings from the engine options, else from the nearest project config
+   */
+  private resolveSettings(
+    searchPath: string,
+    options: Record<string, unknown>,
+  ): DependencyConfig {
+    const inlineSettings =
+      options["dependencies"] ?? this.config.options["dependencies"];
+    if (inlineSettings !== undefined) {
+      return DependencyConfigSchema.parse(inlineSettings);
+    }
+    return loadProjectConfig(searchPath)?.config.dependencies ?? {};
+  }
+
+  private createDependencyViolation(
+    issue: DependencyIssue,
+  ): DependencyViolation {
+    const { packageName, manifest } = issue;
+    let severity: Violation["severity"];
+    let message: string;
+    switch (issue.kind) {
+      case "missing-dependency": {
+        severity = "error";
+        message = issue.dependencyType
+          ? `'${packageName}' is imported but ${manifest} does not declare it (only the workspace root's ${issue.dependencyType} do)`
+          : `'${packageName}' is imported but ${manifest} does not declare it`;
+        break;
+      }
+      case "dev-dependency-at-runtime": {
+        severity = "error";
+        message = `'${packageName}' is a devDependency in ${manifest} but is imported by code that runs in production`;
+        break;
+      }
+      case "unused-dependency": {
+        severity = packageName.startsWith("@types/") ? "info" : "warn";
+        message = `'${packageName}' is declared in ${issue.dependencyType} but nothing imports it`;
+        break;
+      }
+    }
+    if (issue.importers.length > 1) {
+      message += ` (${issue.importers.length} files import it)`;
+    }
+
+    return {
+      ...this.createViolation(
+        issue.file,
+        issue.line,
+        packageName,
+        "dependency-hygiene",
+        severity,
+        issue.kind,
+        message,
+      ),
+      category: "dependency-hygiene",
+      source: "dependencies",
+      packageName,
+      manifest,
+      importers: issue.importers,
+    };
+  }
+
+  private createSetupViolation(
+    rule: string,
+    code: string,
+    message: string,
+  ): Violation {
+    return this.createViolation(
+      "dependency-setup",
+      1,
+      code,
+      "setup-issue",
+      "warn",
+      rule,
+      message,
+    );
+  }
+
+  /**
+   * Generate fix suggestions for dependency problems
+   */
+  protected override generateFixSuggestion(
+    category: ViolationCategory,
+    rule?: string,
+  ): string | undefined {
+    if (category !== "dependency-hygiene") {
+      return undefined;
+    }
+    switch (rule) {
+      case "missing-dependency": {
+        return "Add the package to this package.json, or remove the import";
+      }
+      case "dev-dependency-at-runtime": {
+        return "Move the package from devDependencies to dependencies, or only import it from tests and tooling";
+      }
+      default: {
+        return "Remove the package from package.json, or add it to the `dependencies.ignore` list if it is used in a way imports do not show";
+      }
+    }
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview In-process ESLint Runner
+ *
+ * Loads the project's own `eslint` package and lints through its Node API
+ * with ESLint's content-hash cache, so unchanged files are not re-linted and
+ * results keep ESLint's structured messages (end positions, fixes).
+ */
+
+import { createRequire } from "node:module";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+/**
+ * TypeScript file extensions linted in .eslintrc projects and in scoped runs
+ */
+export const LINT_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts"];
+
+/**
+ * A text replacement as reported by ESLint
+ */
+export interface LintFix {
+  range: [number, number];
+  text: string;
+}
+
+/**
+ * The parts of ESLint's LintMessage the engine uses
+ */
+export interface LintMessage {
+  ruleId: string | null;
+  severity: number;
+  message: string;
+  line?: number | undefined;
+  column?: number | undefined;
+  endLine?: number | undefined;
+  endColumn?: number | undefined;
+  fix?: LintFix | undefined;
+  suggestions?: Array<{ desc: string; fix: LintFix }> | undefined;
+}
+
+/**
+ * The parts of ESLint's LintResult the engine uses
+ */
+export interface LintResult {
+  filePath: string;
+  messages: LintMessage[];
+}
+
+interface ESLintInstance {
+  lintFiles(_patterns: string[]): Promise<LintResult[]>;
+}
+
+interface ESLintClass {
+  new (_options: Record<string, unknown>): ESLintInstance;
+  /** "flat" or "eslintrc" on ESLint 8.57+ */
+  readonly configType?: string;
+}
+
+interface ESLintModule {
+  ESLint: ESLintClass;
+  version?: string;
+  /** Picks flat or eslintrc config the way the CLI does (ESLint 8.57+) */
+  loadESLint?: (_options: { cwd: string }) => Promise<ESLintClass>;
+}
+
+/**
+ * Lints files in-process with the project's ESLint installation
+ *
+ * The module is loaded once; each run creates a fresh ESLint instance so
+ * config edits are picked up, while the on-disk cache (keyed by file
+ * content and resolved config) skips files that have not changed.
+ */
+export class ESLintApiRunner {
+  readonly version: string | undefined;
+  private readonly eslintClass: ESLintClass;
+  private readonly baseDirectory: string;
+  private readonly cacheLocation: string;
+
+  private constructor(
+    eslintClass: ESLintClass,
+    version: string | undefined,
+    baseDirectory: string,
+  ) {
+    this.eslintClass = eslintClass;
+    this.version = version;
+    this.baseDirectory = baseDirectory;
+    // Trailing separator makes ESLint treat the location as a directory
+    this.cacheLocation = `${path.join(baseDirectory, "node_modules", ".cache", "sidequest", "eslint")}${path.sep}`;
+  }
+
+  /**
+   * Resolve and load `eslint` from the project rather than from this package
+   */
+  static async create(baseDirectory: string): Promise<ESLintApiRunner> {
+    const requireFromProject = createRequire(
+      path.join(baseDirectory, "package.json"),
+    );
+    const eslintPath = requireFromProject.resolve("eslint");
+    const imported = (await import(pathToFileURL(eslintPath).href)) as {
+      default?: ESLintModule;
+    } & ESLintModule;
+    const eslintModule = imported.default ?? imported;
+
+    const eslintClass = eslintModule.loadESLint
+      ? await eslintModule.loadESLint({ cwd: baseDirectory })
+      : eslintModule.ESLint;
+
+    return new ESLintApiRunner(
+      eslintClass,
+      eslintModule.version,
+      baseDirectory,
+    );
+  }
+
+  get isFlatConfig(): boolean {
+    return this.eslintClass.configType === "flat";
+  }
+
+  /**
+   * Lint files or directories relative to the base directory
+   */
+  lint(targets: string[]): Promise<LintResult[]> {
+    const eslint = new this.eslintClass({
+      cwd: this.baseDirectory,
+      cache: true,
+      cacheLocation: this.cacheLocation,
+      cacheStrategy: "content",
+      errorOnUnmatchedPattern: false,
+      // Matches the CLI's `--ext`; flat config selects files itself
+      ...(!this.isFlatConfig && { extensions: LINT_EXTENSIONS }),
+    });
+
+    return eslint.lintFiles(targets);
+  }
+}
@@ -6,9 +6,19 @@
  */
 
 import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
 import path from "node:path";
 import { BaseAuditEngine } from "./base-engine.js";
+import {
+  ESLintApiRunner,
+  LINT_EXTENSIONS,
+  type LintMessage,
+  type LintResult,
+} from "./eslint-api-runner.js";
+import { categorizeESLintRule } from "./eslint-rule-categories.js";
 import type {
+  AnalysisScope,
+  LintDetails,
   Violation,
   ViolationCategory,
   ViolationSeverity,
@@ -18,9 +28,79 @@ import {
   ESLintOutputSchema,
   type ValidatedESLintOutput,
 } from "../utils/validation-schemas.js";
+import {
+  findESLintConfig,
+  getEnabledFlatConfigRules,
+  loadFlatConfig,
+} from "../utils/eslint-config-discovery.js";
 import { debugLog } from "../utils/debug-logger.js";
 import { getPreferencesManager } from "../services/index.js";
 
+/**
+ * Rules enabled in .eslintrc.cjs, used when the project config can't be read
+ */
+const FALLBACK_PROJECT_RULES = [
+  // Core ESLint rules from .eslintrc.cjs
+  "no-debugger",
+  "no-alert",
+  "no-eval",
+  "no-implied-eval",
+  "no-new-func",
+  "no-script-url",
+  "no-self-compare",
+  "no-sequences",
+  "no-throw-literal",
+  "no-unmodified-loop-condition",
+  "no-unused-expressions",
+  "no-useless-call",
+  "no-useless-concat",
+  "no-useless-return",
+  "no-void",
+  "prefer-promise-reject-errors",
+  "require-await",
+  "indent",
+  "quotes",
+  "semi",
+  "comma-dangle",
+  "object-curly-spacing",
+  "array-bracket-spacing",
+  "space-before-function-paren",
+  "keyword-spacing",
+  "space-infix-ops",
+  "eol-last",
+  "no-trailing-spaces",
+  "no-multiple-empty-lines",
+  "curly",
+  "eqeqeq",
+  "no-var",
+  "prefer-const",
+  "prefer-arrow-callback",
+  "arrow-spacing",
+  "no-duplicate-imports",
+  "object-shorthand",
+  "prefer-template",
+
+  // Unicorn rules that are enabled in .eslintrc.cjs
+  "unicorn/prefer-string-slice",
+  "unicorn/prefer-array-some",
+  "unicorn/prefer-includes",
+  "unicorn/prefer-object-from-entries",
+  "unicorn/no-useless-undefined",
+  "unicorn/prefer-ternary",
+
+  // Additional unicorn rules from plugin:unicorn/recommended
+  "unicorn/prevent-abbreviations",
+  "unicorn/no-null",
+  "unicorn/no-array-reduce",
+  "unicorn/prefer-node-protocol",
+  "unicorn/prefer-array-flat-map",
+  "unicorn/prefer-string-starts-ends-with",
+  "unicorn/prefer-number-properties",
+  "unicorn/no-array-instanceof",
+  "unicorn/prefer-spread",
+  "unicorn/explicit-length-check",
+];
+
 /**
  * Engine for ESLint-based code quality analysis
  *
@@ -28,16 +108,21 @@ import { getPreferencesManager } from "../services/index.js";
  * - Graceful handling of syntax errors
  * - Round-robin rule checking for performance
  * - Buffer overflow protection
- * - Configurable rule sets
+ * - Configurable rule sets (flat config and .eslintrc projects)
+ * - Optional in-process linting through the project's ESLint Node API
  */
 export class ESLintAuditEngine extends BaseAuditEngine {
   private readonly baseDir: string;
+  /** Where ESLint runs, so it picks up the target's flat config */
+  private lintDirectory: string;
   private currentRuleIndex = 0;
   private eslintRules: string[];
+  private shouldDiscoverRules: boolean;
   private violationCache = new Map<string, Violation[]>();
   private ruleZeroCount = new Map<string, number>();
   private ruleLastCheck = new Map<string, number>();
   private checksCount = 0;
+  private eslintRunners = new Map<string, ESLintApiRunner>();
 
   // Adaptive polling constants
   private readonly ZERO_THRESHOLD = 5;
@@ -50,6 +135,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
       maxWarnings?: number;
       timeout?: number;
       roundRobin?: boolean; // Use comprehensive analysis by default
+      inProcess?: boolean; // Lint through the ESLint Node API instead of npx
       enableCustomScripts?: boolean; // Run custom ESLint scripts if found
       customScriptPreset?: string; // Preset to use for custom scripts (default: safe)
     };
@@ -72,6 +158,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
         maxWarnings: 500,
         timeout: 30_000,
         roundRobin: false, // Use comprehensive analysis by default
+        inProcess: false, // Spawn the ESLint CLI unless a caller opts in
         enableCustomScripts: true, // Automatically detect and run custom ESLint scripts
         customScriptPreset: "safe", // Use safe preset to avoid overwhelming output
       },
@@ -82,10 +169,13 @@ export class ESLintAuditEngine extends BaseAuditEngine {
     const mergedConfig = { ...defaultConfig, ...config };
     super("ESLint Audit", "eslint", mergedConfig);
     this.baseDir = process.cwd();
+    this.lintDirectory = this.baseDir;
 
     // Extract rules with proper fallback
     // Following separation of concerns: ESLint for code quality, tsc for types
     const rulesFromConfig = mergedConfig.options?.rules;
+    // Without explicit rules, round-robin switches to the project's own rules
+    this.shouldDiscoverRules = !Array.isArray(rulesFromConfig);
     this.eslintRules = Array.isArray(rulesFromConfig)
       ? rulesFromConfig
       : [
@@ -160,9 +250,23 @@ export class ESLintAuditEngine extends BaseAuditEngine {
     }
 
     const searchPath = path.join(this.baseDir, targetPath);
+    this.lintDirectory = this.findLintDirectory(searchPath);
+
+    // With a file scope, lint only the in-scope files instead of the target path
+    const scope = options["scope"] as AnalysisScope | undefined;
+    const lintTargets = this.toLintTargets(
+      scope ? this.getScopedLintTargets(targetPath, scope) : [targetPath],
+    );
+    if (lintTargets.length === 0) {
+      debugLog("ESLintEngine", "No in-scope files to lint", {
+        scope: scope?.description,
+      });
+      return violations;
+    }
 
     // FIRST: Try running custom ESLint scripts if enabled and detected
-    if (enableCustomScripts && this.hasCustomESLintSystem()) {
+    // (skipped when scoped, since project scripts lint the whole project)
+    if (enableCustomScripts && !scope && this.hasCustomESLintSystem()) {
       debugLog(
         "ESLintEngine",
         "Custom ESLint system detected, attempting to run custom scripts",
@@ -178,23 +282,87 @@ export class ESLintAuditEngine extends BaseAuditEngine {
     const roundRobin =
       options["roundRobin"] ?? this.config.options["roundRobin"];
     const standardViolations = roundRobin
-      ? await this.analyzeWithRoundRobin(targetPath, options)
-      : await this.analyzeAllRules(targetPath, options);
+      ? await this.analyzeWithRoundRobin(lintTargets, options)
+      : await this.analyzeAllRules(lintTargets, options);
 
     violations.push(...standardViolations);
 
     return violations;
   }
 
+  /**
+   * Directory to run ESLint from
+   * A flat config applies only when found from ESLint's working directory,
+   * so a target with its own (e.g. a workspace package's) runs from there;
+   * .eslintrc files cascade per file and need no change of directory.
+   */
+  private findLintDirectory(searchPath: string): string {
+    const configFile = findESLintConfig(searchPath);
+    if (configFile?.type !== "flat") {
+      return this.baseDir;
+    }
+    const configDirectory = path.dirname(configFile.path);
+    const relative = path.relative(this.baseDir, configDirectory);
+    return !relative || relative.startsWith("..") || path.isAbsolute(relative)
+      ? this.baseDir
+      : configDirectory;
+  }
+
+  /**
+   * Rewrite working-directory-relative targets for the lint directory
+   */
+  private toLintTargets(targets: string[]): string[] {
+    if (this.lintDirectory === this.baseDir) {
+      return targets;
+    }
+    return targets.map(
+      (target) =>
+        path.relative(this.lintDirectory, path.resolve(this.baseDir, target)) ||
+        ".",
+    );
+  }
+
+  /**
+   * Select the scoped files ESLint should lint: TypeScript files under the target path
+   * Scope files are relative to the working directory the git scope was
+   * resolved from; the targets returned are relative to the base directory.
+   */
+  private getScopedLintTargets(
+    targetPath: string,
+    scope: AnalysisScope,
+  ): string[] {
+    const targetDirectory = path.resolve(this.baseDir, targetPath);
+
+    return scope.files
+      .filter((file) => LINT_EXTENSIONS.includes(path.extname(file)))
+      .map((file) => path.resolve(process.cwd(), file))
+      .filter((file) => {
+        const relativeToTarget = path.relative(targetDirectory, file);
+        return (
+          !relativeToTarget.startsWith("..") &&
+          !path.isAbsolute(relativeToTarget)
+        );
+      })
+      .map((file) => path.relative(this.baseDir, file));
+  }
+
   /**
    * Round-robin analysis for better performance and error isolation
    */
   private async analyzeWithRoundRobin(
-    targetPath: string,
-    _options: Record<string, unknown>,
+    targets: string[],
+    options: Record<string, unknown>,
   ): Promise<Violation[]> {
     this.checksCount++;
 
+    if (this.shouldDiscoverRules) {
+      this.shouldDiscoverRules = false;
+      const projectRules = await this.discoverProjectESLintRules();
+      if (projectRules && projectRules.length > 0) {
+        this.eslintRules = projectRules;
+      }
+    }
+
     // Determine which rule to check this cycle
     const ruleToCheck = this.selectNextRule();
 
@@ -206,7 +374,8 @@ export class ESLintAuditEngine extends BaseAuditEngine {
     // Run ESLint for the selected rule
     const ruleViolations = await this.runESLintForRules(
       [ruleToCheck],
-      targetPath,
+      targets,
+      this.isInProcess(options),
     );
 
     // Update cache
@@ -231,11 +400,17 @@ export class ESLintAuditEngine extends BaseAuditEngine {
    * Analyze with all rules at once (traditional approach)
    */
   private analyzeAllRules(
-    targetPath: string,
-    _options: Record<string, unknown>,
+    targets: string[],
+    options: Record<string, unknown>,
   ): Promise<Violation[]> {
     // Pass empty array to disable rule filtering and get ALL violations
-    return this.runESLintForRules([], targetPath);
+    return this.runESLintForRules([], targets, this.isInProcess(options));
+  }
+
+  private isInProcess(options: Record<string, unknown>): boolean {
+    return Boolean(
+      options["inProcess"] ?? this.config.options["inProcess"] ?? false,
+    );
   }
 
   /**
@@ -303,27 +478,70 @@ export class ESLintAuditEngine extends BaseAuditEngine {
    */
   private runESLintForRules(
     rules: string[],
-    targetPath: string,
+    targets: string[],
+    inProcess: boolean,
   ): Promise<Violation[]> {
+    // In-process linting returns structured results, so no buffer workarounds
+    if (inProcess) {
+      return this.runESLintInProcess(rules, targets);
+    }
+
     // For comprehensive analysis (empty rules array), use robust approach
     if (rules.length === 0) {
-      return this.runESLintRobustly(targetPath);
+      return this.runESLintRobustly(targets);
     }
 
     // For round-robin with specific rules, use the original approach
-    return Promise.resolve(this.runESLintWithBuffer(rules, targetPath));
+    return Promise.resolve(this.runESLintWithBuffer(rules, targets));
+  }
+
+  /**
+   * Lint in-process through the project's ESLint Node API
+   * ESLint's content-hash cache skips unchanged files between runs.
+   */
+  private async runESLintInProcess(
+    rules: string[],
+    targets: string[],
+  ): Promise<Violation[]> {
+    try {
+      let eslintRunner = this.eslintRunners.get(this.lintDirectory);
+      if (!eslintRunner) {
+        eslintRunner = await ESLintApiRunner.create(this.lintDirectory);
+        this.eslintRunners.set(this.lintDirectory, eslintRunner);
+      }
+      const results = await eslintRunner.lint(targets);
+      debugLog("ESLintEngine", "In-process lint completed", {
+        eslintVersion: eslintRunner.version,
+        flatConfig: eslintRunner.isFlatConfig,
+        files: results.length,
+      });
+      return this.convertESLintResults(results, rules);
+    } catch (error) {
+      console.warn("[ESLint Engine] In-process ESLint failed:", error);
+      return [
+        this.createViolation(
+          "eslint-setup",
+          1,
+          `In-process ESLint failed: ${error}`,
+          "setup-issue",
+          "error",
+          "ESLINT-SETUP-005",
+          `Could not lint with the ESLint Node API. This may indicate ESLint is not installed in the project or its configuration failed to load. Error: ${error}`,
+        ),
+      ];
+    }
   }
 
   /**
    * Robust ESLint execution with temp file + sequential fallback
    */
-  private async runESLintRobustly(targetPath: string): Promise<Violation[]> {
+  private async runESLintRobustly(targets: string[]): Promise<Violation[]> {
     try {
       // Try temp file approach first (fastest for complete analysis)
       console.log(
         "[ESLint Engine] Running comprehensive analysis with temp file...",
       );
-      return await this.runESLintWithTempFile(targetPath);
+      return await this.runESLintWithTempFile(targets);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -336,13 +554,13 @@ export class ESLintAuditEngine extends BaseAuditEngine {
         console.warn(
           "[ESLint Engine] Large output detected, falling back to sequential rule processing...",
         );
-        return this.runESLintSequentially(targetPath);
+        return await this.runESLintSequentially(targets);
       } else {
         console.warn(
           "[ESLint Engine] Temp file approach failed, falling back to sequential:",
           errorMessage,
         );
-        return this.runESLintSequentially(targetPath);
+        return await this.runESLintSequentially(targets);
       }
     }
   }
@@ -350,9 +568,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
   /**
    * Run ESLint with temp file output (fastest for large results)
    */
-  private async runESLintWithTempFile(
-    targetPath: string,
-  ): Promise<Violation[]> {
+  private async runESLintWithTempFile(targets: string[]): Promise<Violation[]> {
     const { mkdtemp, readFile, unlink } = await import("node:fs/promises");
     const { tmpdir } = await import("node:os");
 
@@ -371,9 +587,8 @@ export class ESLintAuditEngine extends BaseAuditEngine {
         temporaryFile,
         "--max-warnings",
         maxWarnings.toString(),
-        "--ext",
-        ".ts",
-        targetPath,
+        ...this.getExtensionArguments(),
+        ...targets,
       ];
 
       console.log(
@@ -382,7 +597,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
       );
       const result = spawnSync("npx", ["eslint", ...eslintArguments], {
         encoding: "utf8",
-        cwd: this.baseDir,
+        cwd: this.lintDirectory,
         timeout,
         signal: this.abortController?.signal,
       });
@@ -409,7 +624,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
             "setup-issue",
             "error",
             "ESLINT-SETUP-001",
-            `ESLint configuration error detected. Check your .eslintrc file and ensure ESLint is properly configured. Error: ${result.stderr}`,
+            `ESLint configuration error detected. Check your ESLint config (eslint.config.js or .eslintrc) and ensure ESLint is properly configured. Error: ${result.stderr}`,
           ),
         ];
       }
@@ -441,11 +656,11 @@ export class ESLintAuditEngine extends BaseAuditEngine {
   /**
    * Run ESLint sequentially by rule groups (reliable fallback)
    */
-  private runESLintSequentially(targetPath: string): Violation[] {
+  private async runESLintSequentially(targets: string[]): Promise<Violation[]> {
     const allViolations: Violation[] = [];
 
     // Get all rules from project's ESLint config
-    const projectRules = this.getProjectESLintRules();
+    const projectRules = await this.getProjectESLintRules();
 
     // Group rules to avoid too many individual calls
     const ruleGroups = this.chunkRules(projectRules, 10); // Process 10 rules at a time
@@ -466,7 +681,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
       try {
         const groupViolations = this.runESLintWithSpecificRules(
           ruleGroup,
-          targetPath,
+          targets,
         );
         allViolations.push(...groupViolations);
       } catch (error) {
@@ -485,14 +700,50 @@ export class ESLintAuditEngine extends BaseAuditEngine {
   }
 
   /**
-   * Get rules from project's ESLint config
+   * Get rules from project's ESLint config, falling back to a known rule set
+   */
+  private async getProjectESLintRules(): Promise<string[]> {
+    const projectRules = await this.discoverProjectESLintRules();
+    if (projectRules && projectRules.length > 0) {
+      return projectRules;
+    }
+
+    // Fallback to rules explicitly defined in .eslintrc.cjs
+    console.log("[ESLint Engine] Using fallback rules from .eslintrc.cjs");
+    return [...FALLBACK_PROJECT_RULES];
+  }
+
+  /**
+   * Enumerate the rules the project's ESLint config enables
+   * Flat configs are read directly so rules enabled only for some file
+   * globs are included; otherwise ESLint prints the config for a probe file.
    */
-  private getProjectESLintRules(): string[] {
+  private async discoverProjectESLintRules(): Promise<string[] | undefined> {
+    const configFile = findESLintConfig(this.lintDirectory);
+
+    if (configFile?.type === "flat") {
+      try {
+        const rules = getEnabledFlatConfigRules(
+          await loadFlatConfig(configFile.path),
+        );
+        console.log(
+          `[ESLint Engine] Found ${rules.length} rules from ${path.basename(configFile.path)}`,
+        );
+        return rules;
+      } catch (error) {
+        // e.g. TypeScript config files, which need ESLint's own loader
+        debugLog("ESLintEngine", "Could not load flat config directly", {
+          configPath: configFile.path,
+          error: String(error),
+        });
+      }
+    }
+
     try {
       // Try to get rules from the actual ESLint config using a test file
       const result = spawnSync("npx", ["eslint", "--print-config", "cli.ts"], {
         encoding: "utf8",
-        cwd: this.baseDir,
+        cwd: this.lintDirectory,
         timeout: 10_000,
       });
 
@@ -515,69 +766,18 @@ export class ESLintAuditEngine extends BaseAuditEngine {
       console.warn("[ESLint Engine] Could not parse project rules:", error);
     }
 
-    // Fallback to rules explicitly defined in .eslintrc.cjs
-    console.log("[ESLint Engine] Using fallback rules from .eslintrc.cjs");
-    return [
-      // Core ESLint rules from .eslintrc.cjs
-      "no-debugger",
-      "no-alert",
-      "no-eval",
-      "no-implied-eval",
-      "no-new-func",
-      "no-script-url",
-      "no-self-compare",
-      "no-sequences",
-      "no-throw-literal",
-      "no-unmodified-loop-condition",
-      "no-unused-expressions",
-      "no-useless-call",
-      "no-useless-concat",
-      "no-useless-return",
-      "no-void",
-      "prefer-promise-reject-errors",
-      "require-await",
-      "indent",
-      "quotes",
-      "semi",
-      "comma-dangle",
-      "object-curly-spacing",
-      "array-bracket-spacing",
-      "space-before-function-paren",
-      "keyword-spacing",
-      "space-infix-ops",
-      "eol-last",
-      "no-trailing-spaces",
-      "no-multiple-empty-lines",
-      "curly",
-      "eqeqeq",
-      "no-var",
-      "prefer-const",
-      "prefer-arrow-callback",
-      "arrow-spacing",
-      "no-duplicate-imports",
-      "object-shorthand",
-      "prefer-template",
-
-      // Unicorn rules that are enabled in .eslintrc.cjs
-      "unicorn/prefer-string-slice",
-      "unicorn/prefer-array-some",
-      "unicorn/prefer-includes",
-      "unicorn/prefer-object-from-entries",
-      "unicorn/no-useless-undefined",
-      "unicorn/prefer-ternary",
-
-      // Additional unicorn rules from plugin:unicorn/recommended
-      "unicorn/prevent-abbreviations",
-      "unicorn/no-null",
-      "unicorn/no-array-reduce",
-      "unicorn/prefer-node-protocol",
-      "unicorn/prefer-array-flat-map",
-      "unicorn/prefer-string-starts-ends-with",
-      "unicorn/prefer-number-properties",
-      "unicorn/no-array-instanceof",
-      "unicorn/prefer-spread",
-      "unicorn/explicit-length-check",
-    ];
+    return undefined;
+  }
+
+  /**
+   * File extension arguments for the ESLint CLI
+   * Flat config selects files through its `files` globs and older ESLint 9
+   * releases reject `--ext`, so it is only passed for .eslintrc projects.
+   */
+  private getExtensionArguments(): string[] {
+    return findESLintConfig(this.lintDirectory)?.type === "flat"
+      ? []
+      : ["--ext", LINT_EXTENSIONS.join(",")];
   }
 
   /**
@@ -596,7 +796,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
    */
   private runESLintWithSpecificRules(
     rules: string[],
-    targetPath: string,
+    targets: string[],
   ): Violation[] {
     const maxWarnings = (this.config.options["maxWarnings"] as number) || 500;
     const timeout = (this.config.options["timeout"] as number) || 30_000;
@@ -607,14 +807,13 @@ export class ESLintAuditEngine extends BaseAuditEngine {
       "json",
       "--max-warnings",
       maxWarnings.toString(),
-      "--ext",
-      ".ts",
-      targetPath,
+      ...this.getExtensionArguments(),
+      ...targets,
     ];
 
     const result = spawnSync("npx", ["eslint", ...eslintArguments], {
       encoding: "utf8",
-      cwd: this.baseDir,
+      cwd: this.lintDirectory,
       maxBuffer: 1024 * 1024 * 2, // Smaller buffer for rule groups
       timeout,
       signal: this.abortController?.signal,
@@ -643,10 +842,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
   /**
    * Original buffer-based approach for round-robin mode
    */
-  private runESLintWithBuffer(
-    rules: string[],
-    targetPath: string,
-  ): Violation[] {
+  private runESLintWithBuffer(rules: string[], targets: string[]): Violation[] {
     const maxWarnings = (this.config.options["maxWarnings"] as number) || 500;
     const timeout = (this.config.options["timeout"] as number) || 30_000;
 
@@ -655,15 +851,14 @@ export class ESLintAuditEngine extends BaseAuditEngine {
       "json",
       "--max-warnings",
       maxWarnings.toString(),
-      "--ext",
-      ".ts",
-      targetPath,
+      ...this.getExtensionArguments(),
+      ...targets,
     ];
 
     try {
       const result = spawnSync("npx", ["eslint", ...eslintArguments], {
         encoding: "utf8",
-        cwd: this.baseDir,
+        cwd: this.lintDirectory,
         maxBuffer: 1024 * 1024 * 10, // 10MB buffer
         timeout,
         signal: this.abortController?.signal,
@@ -710,7 +905,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
             "setup-issue",
             "error",
             "ESLINT-SETUP-003",
-            `ESLint configuration error in buffer mode. Check your .eslintrc file and ensure ESLint is properly configured. Error: ${result.stderr}`,
+            `ESLint configuration error in buffer mode. Check your ESLint config (eslint.config.js or .eslintrc) and ensure ESLint is properly configured. Error: ${result.stderr}`,
           ),
         ];
       }
@@ -790,6 +985,16 @@ export class ESLintAuditEngine extends BaseAuditEngine {
       }
     }
 
+    return this.convertESLintResults(eslintResults, filterRules);
+  }
+
+  /**
+   * Convert ESLint results (CLI JSON or Node API) into violations
+   */
+  private convertESLintResults(
+    eslintResults: LintResult[],
+    filterRules?: string[],
+  ): Violation[] {
     const violations: Violation[] = [];
 
     for (const fileResult of eslintResults) {
@@ -806,22 +1011,25 @@ export class ESLintAuditEngine extends BaseAuditEngine {
           continue;
         }
 
-        const { category, severity } = this.categorizeESLintRule(
+        const { category, severity } = categorizeESLintRule(
           message.ruleId || "unknown",
         );
 
-        violations.push(
-          this.createViolation(
-            relativePath,
-            message.line || 1,
-            message.message || "ESLint violation",
-            category,
-            severity,
-            message.ruleId || undefined,
-            message.message,
-            message.column,
-          ),
+        const violation = this.createViolation(
+          relativePath,
+          message.line || 1,
+          message.message || "ESLint violation",
+          category,
+          severity,
+          message.ruleId || undefined,
+          message.message,
+          message.column,
         );
+        const lintDetails = this.getLintDetails(message);
+        if (lintDetails) {
+          violation.lint = lintDetails;
+        }
+        violations.push(violation);
       }
     }
 
@@ -829,82 +1037,28 @@ export class ESLintAuditEngine extends BaseAuditEngine {
   }
 
   /**
-   * Dynamically categorize ESLint violations based on rule patterns
-   * Uses pattern matching instead of hard-coded lists for maintainability
+   * Keep the structured parts of a lint message: end position and fixes
    */
-  private categorizeESLintRule(rule: string): {
-    category: ViolationCategory;
-    severity: ViolationSeverity;
-  } {
-    // Pattern-based categorization for unused variables
-    if (rule.includes("unused-vars") || rule.includes("no-unused")) {
-      return { category: "unused-vars", severity: "warn" };
-    }
-
-    // Pattern-based categorization for modernization (prefer-* and no-legacy patterns)
-    if (
-      rule.startsWith("unicorn/prefer-") ||
-      rule.startsWith("unicorn/no-") ||
-      rule.includes("prefer-") ||
-      rule === "no-var"
-    ) {
-      return { category: "modernization", severity: "info" };
-    }
-
-    // Pattern-based categorization for style/formatting
-    if (
-      rule.includes("consistent") ||
-      rule.includes("abbreviations") ||
-      rule.includes("destructuring") ||
-      rule.includes("spacing") ||
-      rule.includes("indent") ||
-      rule.includes("quote") ||
-      rule.includes("semi") ||
-      rule.includes("comma") ||
-      rule.includes("import") ||
-      rule.includes("duplicate")
-    ) {
-      return { category: "style", severity: "info" };
-    }
+  private getLintDetails(message: LintMessage): LintDetails | undefined {
+    const details: LintDetails = {};
 
-    // Pattern-based categorization for code quality
-    if (
-      rule.includes("undef") ||
-      rule.includes("console") ||
-      rule.includes("debugger") ||
-      rule.includes("await") ||
-      rule.includes("async") ||
-      rule.includes("quality")
-    ) {
-      return { category: "code-quality", severity: "warn" };
+    if (message.endLine !== undefined) {
+      details.endLine = message.endLine;
     }
-
-    // Pattern-based categorization for TypeScript best practices
-    if (
-      rule.startsWith("@typescript-eslint/") &&
-      (rule.includes("explicit") ||
-        rule.includes("any") ||
-        rule.includes("boundary"))
-    ) {
-      return { category: "best-practices", severity: "warn" };
+    if (message.endColumn !== undefined) {
+      details.endColumn = message.endColumn;
     }
-
-    // Pattern-based categorization for syntax/parsing errors
-    if (
-      rule.includes("parse") ||
-      rule.includes("syntax") ||
-      rule.includes("error")
-    ) {
-      return { category: "syntax-error", severity: "error" };
+    if (message.fix) {
+      details.fix = { range: message.fix.range, text: message.fix.text };
     }
-
-    // Setup and configuration issues
-    if (rule.startsWith("ESLINT-SETUP-")) {
-      return { category: "setup-issue", severity: "error" };
+    if (message.suggestions?.length) {
+      details.suggestions = message.suggestions.map((suggestion) => ({
+        description: suggestion.desc,
+        fix: { range: suggestion.fix.range, text: suggestion.fix.text },
+      }));
     }
 
-    // Default fallback - let the session discovery handle unknown rules
-    return { category: "other-eslint", severity: "info" };
+    return Object.keys(details).length > 0 ? details : undefined;
   }
 
   /**
@@ -950,6 +1104,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
    */
   updateRules(newRules: string[]): void {
     this.eslintRules = newRules;
+    this.shouldDiscoverRules = false;
     this.resetRoundRobinState(); // Reset state when rules change
   }
 
@@ -970,14 +1125,7 @@ export class ESLintAuditEngine extends BaseAuditEngine {
       path.join(this.baseDir, "scripts/eslint"),
     ];
 
-    return eslintSystemPaths.some((eslintPath) => {
-      try {
-        const fs = require("node:fs");
-        return fs.existsSync(eslintPath);
-      } catch {
-        return false;
-      }
-    });
+    return eslintSystemPaths.some((eslintPath) => fs.existsSync(eslintPath));
   }
 
   /**
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview ESLint Rule Categories
+ *
+ * Maps ESLint rule ids onto violation categories and severities. Shared by
+ * the live ESLint engine and imported ESLint reports so both group the same
+ * rule the same way.
+ */
+
+import type {
+  ViolationCategory,
+  ViolationSeverity,
+} from "../utils/violation-types.js";
+
+/**
+ * Dynamically categorize ESLint violations based on rule patterns
+ * Uses pattern matching instead of hard-coded lists for maintainability
+ */
+export function categorizeESLintRule(rule: string): {
+  category: ViolationCategory;
+  severity: ViolationSeverity;
+} {
+  // Pattern-based categorization for unused variables
+  if (rule.includes("unused-vars") || rule.includes("no-unused")) {
+    return { category: "unused-vars", severity: "warn" };
+  }
+
+  // Pattern-based categorization for modernization (prefer-* and no-legacy patterns)
+  if (
+    rule.startsWith("unicorn/prefer-") ||
+    rule.startsWith("unicorn/no-") ||
+    rule.includes("prefer-") ||
+    rule === "no-var"
+  ) {
+    return { category: "modernization", severity: "info" };
+  }
+
+  // Pattern-based categorization for style/formatting
+  if (
+    rule.includes("consistent") ||
+    rule.includes("abbreviations") ||
+    rule.includes("destructuring") ||
+    rule.includes("spacing") ||
+    rule.includes("indent") ||
+    rule.includes("quote") ||
+    rule.includes("semi") ||
+    rule.includes("comma") ||
+    rule.includes("import") ||
+    rule.includes("duplicate")
+  ) {
+    return { category: "style", severity: "info" };
+  }
+
+  // Pattern-based categorization for code quality
+  if (
+    rule.includes("undef") ||
+    rule.includes("console") ||
+    rule.includes("debugger") ||
+    rule.includes("await") ||
+    rule.includes("async") ||
+    rule.includes("quality")
+  ) {
+    return { category: "code-quality", severity: "warn" };
+  }
+
+  // Pattern-based categorization for TypeScript best practices
+  if (
+    rule.startsWith("@typescript-eslint/") &&
+    (rule.includes("explicit") ||
+      rule.includes("any") ||
+      rule.includes("boundary"))
+  ) {
+    return { category: "best-practices", severity: "warn" };
+  }
+
+  // Pattern-based categorization for syntax/parsing errors
+  if (
+    rule.includes("parse") ||
+    rule.includes("syntax") ||
+    rule.includes("error")
+  ) {
+    return { category: "syntax-error", severity: "error" };
+  }
+
+  // Setup and configuration issues
+  if (rule.startsWith("ESLINT-SETUP-")) {
+    return { category: "setup-issue", severity: "error" };
+  }
+
+  // Default fallback - let the session discovery handle unknown rules
+  return { category: "other-eslint", severity: "info" };
+}
@@ -0,0 +1,288 @@
+/**
+ * @fileoverview Incremental TypeScript Checker
+ *
+ * Keeps a TypeScript watch program warm in-process so repeated checks only
+ * re-check files affected by changes since the previous check, and returns
+ * diagnostics as structured data instead of parsed `tsc` output.
+ */
+
+import path from "node:path";
+import type * as TypeScript from "typescript";
+import type {
+  DiagnosticDetails,
+  RelatedDiagnostic,
+  ViolationSeverity,
+} from "../utils/violation-types.js";
+
+type TypeScriptModule = typeof TypeScript;
+type WatchProgram =
+  TypeScript.WatchOfConfigFile<TypeScript.SemanticDiagnosticsBuilderProgram>;
+
+/**
+ * A compiler diagnostic located in the project
+ */
+export interface TypeScriptDiagnostic {
+  /** Path relative to the base directory; undefined for global diagnostics */
+  file: string | undefined;
+  /** 1-based line (1 when the diagnostic has no location) */
+  line: number;
+  /** 1-based column (1 when the diagnostic has no location) */
+  column: number;
+  severity: ViolationSeverity;
+  /** First line of the message, as `tsc` prints it */
+  summary: string;
+  details: DiagnosticDetails;
+}
+
+export interface IncrementalCheckResult {
+  diagnostics: TypeScriptDiagnostic[];
+  /** Files re-checked by this call (every file on the first check) */
+  checkedFileCount: number;
+  totalFileCount: number;
+}
+
+/**
+ * In-process type checker built on the compiler API's watch builder
+ *
+ * TypeScript's own file watchers record changes as they happen, but the
+ * rebuild they schedule is held until the next `check()`, so every check
+ * sees one settled program and nothing runs between analysis cycles.
+ * Call `close()` to release the file watchers.
+ */
+export class IncrementalTypeChecker {
+  readonly tsConfigPath: string;
+  private readonly ts: TypeScriptModule;
+  private readonly baseDirectory: string;
+  private readonly pendingUpdates = new Set<() => void>();
+  private reportedDiagnostics: TypeScript.Diagnostic[] = [];
+  private watchProgram: WatchProgram | undefined = undefined;
+
+  private constructor(
+    ts: TypeScriptModule,
+    tsConfigPath: string,
+    baseDirectory: string,
+  ) {
+    this.ts = ts;
+    this.tsConfigPath = tsConfigPath;
+    this.baseDirectory = baseDirectory;
+  }
+
+  /**
+   * Load the project's TypeScript and create a checker for a tsconfig
+   */
+  static async create(
+    tsConfigPath: string,
+    baseDirectory: string,
+  ): Promise<IncrementalTypeChecker> {
+    const { default: ts } = await import("typescript");
+    return new IncrementalTypeChecker(ts, tsConfigPath, baseDirectory);
+  }
+
+  /**
+   * Apply pending file changes and collect all current diagnostics
+   */
+  check(): IncrementalCheckResult {
+    const isFirstCheck = this.watchProgram === undefined;
+    if (this.watchProgram) {
+      this.flushPendingUpdates();
+    } else {
+      this.watchProgram = this.ts.createWatchProgram(this.createHost());
+    }
+
+    const builder = this.watchProgram.getProgram();
+    const totalFileCount = builder.getSourceFiles().length;
+
+    // Drain the affected-file queue; results are cached on the builder
+    let checkedFileCount = 0;
+    let next = builder.getSemanticDiagnosticsOfNextAffectedFile();
+    while (next) {
+      checkedFileCount +=
+        next.affected === builder.getProgram() ? totalFileCount : 1;
+      next = builder.getSemanticDiagnosticsOfNextAffectedFile();
+    }
+
+    // The host also reports config file errors the builder returns
+    const diagnostics = this.withoutDuplicates([
+      ...this.reportedDiagnostics,
+      ...builder.getConfigFileParsingDiagnostics(),
+      ...builder.getOptionsDiagnostics(),
+      ...builder.getGlobalDiagnostics(),
+      ...builder.getSyntacticDiagnostics(),
+      ...builder.getSemanticDiagnostics(),
+    ]);
+
+    return {
+      diagnostics: diagnostics.map((diagnostic) =>
+        toTypeScriptDiagnostic(this.ts, diagnostic, this.baseDirectory),
+      ),
+      checkedFileCount: isFirstCheck ? totalFileCount : checkedFileCount,
+      totalFileCount,
+    };
+  }
+
+  private withoutDuplicates(
+    diagnostics: TypeScript.Diagnostic[],
+  ): TypeScript.Diagnostic[] {
+    const seen = new Set<string>();
+    return diagnostics.filter((diagnostic) => {
+      const key = [
+        diagnostic.file?.fileName,
+        diagnostic.start,
+        diagnostic.code,
+        this.ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+      ].join(":");
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Stop TypeScript's file watchers and drop the program
+   */
+  close(): void {
+    this.watchProgram?.close();
+    this.watchProgram = undefined;
+    this.pendingUpdates.clear();
+  }
+
+  private createHost(): TypeScript.WatchCompilerHostOfConfigFile<TypeScript.SemanticDiagnosticsBuilderProgram> {
+    const ts = this.ts;
+    const host = ts.createWatchCompilerHost(
+      this.tsConfigPath,
+      { noEmit: true },
+      ts.sys,
+      ts.createSemanticDiagnosticsBuilderProgram,
+      (diagnostic) => this.reportedDiagnostics.push(diagnostic),
+      () => {
+        // Watch status messages are not analysis results
+      },
+    );
+
+    // Diagnostics are collected in check(), not after every rebuild
+    host.afterProgramCreate = () => {
+      // Skip the default emit-and-report step
+    };
+
+    // Hold scheduled rebuilds until the next check
+    host.setTimeout = (callback, _ms, ...arguments_) => {
+      const update = () => callback(...arguments_);
+      this.pendingUpdates.add(update);
+      return update;
+    };
+    host.clearTimeout = (update) => {
+      this.pendingUpdates.delete(update as () => void);
+    };
+
+    return host;
+  }
+
+  private flushPendingUpdates(): void {
+    if (this.pendingUpdates.size === 0) {
+      return;
+    }
+
+    this.reportedDiagnostics = [];
+    // An update may schedule another (e.g. a config reload), so drain fully
+    while (this.pendingUpdates.size > 0) {
+      const [update] = this.pendingUpdates;
+      this.pendingUpdates.delete(update!);
+      update!();
+    }
+  }
+}
+
+// ============================================================================
+// Diagnostic Conversion
+// ============================================================================
+
+function locate(
+  sourceFile: TypeScript.SourceFile | undefined,
+  start: number | undefined,
+  baseDirectory: string,
+): { file: string; line: number; column: number } | undefined {
+  if (!sourceFile || start === undefined) {
+    return undefined;
+  }
+
+  const position = sourceFile.getLineAndCharacterOfPosition(start);
+  return {
+    file: path.relative(baseDirectory, sourceFile.fileName),
+    line: position.line + 1,
+    column: position.character + 1,
+  };
+}
+
+function toRelatedDiagnostic(
+  ts: TypeScriptModule,
+  related: TypeScript.DiagnosticRelatedInformation,
+  baseDirectory: string,
+): RelatedDiagnostic {
+  const relatedDiagnostic: RelatedDiagnostic = {
+    ...locate(related.file, related.start, baseDirectory),
+    message: ts.flattenDiagnosticMessageText(related.messageText, "\n"),
+  };
+  if (related.start !== undefined) {
+    relatedDiagnostic.start = related.start;
+  }
+  if (related.length !== undefined) {
+    relatedDiagnostic.length = related.length;
+  }
+  return relatedDiagnostic;
+}
+
+function toSeverity(
+  ts: TypeScriptModule,
+  category: TypeScript.DiagnosticCategory,
+): ViolationSeverity {
+  switch (category) {
+    case ts.DiagnosticCategory.Error: {
+      return "error";
+    }
+    case ts.DiagnosticCategory.Warning: {
+      return "warn";
+    }
+    default: {
+      return "info";
+    }
+  }
+}
+
+/**
+ * Convert a compiler diagnostic, locating it relative to the base directory
+ */
+export function toTypeScriptDiagnostic(
+  ts: TypeScriptModule,
+  diagnostic: TypeScript.Diagnostic,
+  baseDirectory: string,
+): TypeScriptDiagnostic {
+  const messageText = ts.flattenDiagnosticMessageText(
+    diagnostic.messageText,
+    "\n",
+  );
+  const location = locate(diagnostic.file, diagnostic.start, baseDirectory);
+
+  const details: DiagnosticDetails = { code: diagnostic.code, messageText };
+  if (diagnostic.start !== undefined) {
+    details.start = diagnostic.start;
+  }
+  if (diagnostic.length !== undefined) {
+    details.length = diagnostic.length;
+  }
+  if (diagnostic.relatedInformation?.length) {
+    details.relatedInformation = diagnostic.relatedInformation.map((related) =>
+      toRelatedDiagnostic(ts, related, baseDirectory),
+    );
+  }
+
+  return {
+    file: location?.file,
+    line: location?.line ?? 1,
+    column: location?.column ?? 1,
+    severity: toSeverity(ts, diagnostic.category),
+    summary: messageText.split("\n")[0] ?? messageText,
+    details,
+  };
+}
@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Module Import Graph
+ *
+ * Builds the static import graph of a TypeScript project, resolving
+ * specifiers the way the compiler does (tsconfig `paths`/`baseUrl`, `.js`
+ * extensions mapped to `.ts` sources), and finds import cycles in it.
+ */
+
+import * as fs from "node:fs";
+import path from "node:path";
+import type * as TypeScript from "typescript";
+import {
+  loadTypeScriptProject,
+  type TypeScriptModule,
+} from "./typescript-project.js";
+
+/**
+ * A static import or re-export of one project module by another
+ */
+export interface ImportEdge {
+  /** Importing file, relative to the base directory */
+  from: string;
+  /** Imported file, relative to the base directory */
+  to: string;
+  /** The module specifier as written */
+  specifier: string;
+  line: number;
+  /** Erased at compile time (`import type`, or only `type` specifiers) */
+  typeOnly: boolean;
+}
+
+export interface ModuleGraph {
+  /** Every analyzed file, relative to the base directory */
+  files: string[];
+  edges: ImportEdge[];
+}
+
+export interface CycleSearchOptions {
+  /** Leave out imports that are erased at compile time */
+  ignoreTypeOnly?: boolean | undefined;
+  /** Longest cycle (in modules) to report */
+  maxLength?: number | undefined;
+}
+
+interface ModuleImport {
+  specifier: string;
+  line: number;
+  typeOnly: boolean;
+}
+
+// ============================================================================
+// Import Collection
+// ============================================================================
+
+function hasOnlyTypeElements(
+  elements: TypeScript.NodeArray<
+    TypeScript.ImportSpecifier | TypeScript.ExportSpecifier
+  >,
+): boolean {
+  return elements.length > 0 && elements.every((element) => element.isTypeOnly);
+}
+
+function isTypeOnlyImport(
+  ts: TypeScriptModule,
+  clause: TypeScript.ImportClause | undefined,
+): boolean {
+  if (!clause) {
+    return false; // Side-effect import
+  }
+  return (
+    clause.isTypeOnly ||
+    (clause.name === undefined &&
+      clause.namedBindings !== undefined &&
+      ts.isNamedImports(clause.namedBindings) &&
+      hasOnlyTypeElements(clause.namedBindings.elements))
+  );
+}
+
+/**
+ * Static imports and re-exports of a source file
+ * Dynamic `import()` is left out: it does not take part in module
+ * initialization order.
+ */
+export function collectModuleImports(
+  ts: TypeScriptModule,
+  sourceFile: TypeScript.SourceFile,
+): ModuleImport[] {
+  const imports: ModuleImport[] = [];
+  const add = (specifier: TypeScript.Expression, typeOnly: boolean): void => {
+    if (!ts.isStringLiteral(specifier)) {
+      return;
+    }
+    const { line } = sourceFile.getLineAndCharacterOfPosition(
+      specifier.getStart(sourceFile),
+    );
+    imports.push({ specifier: specifier.text, line: line + 1, typeOnly });
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      add(
+        statement.moduleSpecifier,
+        isTypeOnlyImport(ts, statement.importClause),
+      );
+    } else if (ts.isExportDeclaration(statement) && statement.moduleSpecifier) {
+      add(
+        statement.moduleSpecifier,
+        statement.isTypeOnly ||
+          (statement.exportClause !== undefined &&
+            ts.isNamedExports(statement.exportClause) &&
+            hasOnlyTypeElements(statement.exportClause.elements)),
+      );
+    } else if (
+      ts.isImportEqualsDeclaration(statement) &&
+      ts.isExternalModuleReference(statement.moduleReference)
+    ) {
+      add(statement.moduleReference.expression, statement.isTypeOnly);
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Build the import graph of every TS/TSX file under a directory
+ * Imports that resolve outside the analyzed files (packages, declaration
+ * files, sources outside the directory) are not part of the graph.
+ */
+export async function buildModuleGraph(
+  targetDirectory: string,
+  baseDirectory: string,
+): Promise<ModuleGraph> {
+  const { default: ts } = await import("typescript");
+  const { fileNames, compilerOptions } = loadTypeScriptProject(
+    ts,
+    targetDirectory,
+  );
+  const projectFiles = new Set(fileNames);
+  const resolutionCache = ts.createModuleResolutionCache(
+    baseDirectory,
+    (fileName) => fileName,
+    compilerOptions,
+  );
+  const toRelative = (fileName: string): string =>
+    path.relative(baseDirectory, fileName);
+
+  const edges: ImportEdge[] = [];
+  for (const fileName of fileNames) {
+    const sourceFile = ts.createSourceFile(
+      fileName,
+      fs.readFileSync(fileName, "utf8"),
+      ts.ScriptTarget.Latest,
+      true,
+    );
+
+    for (const moduleImport of collectModuleImports(ts, sourceFile)) {
+      const { resolvedModule } = ts.resolveModuleName(
+        moduleImport.specifier,
+        fileName,
+        compilerOptions,
+        ts.sys,
+        resolutionCache,
+      );
+      if (!resolvedModule || resolvedModule.isExternalLibraryImport) {
+        continue;
+      }
+      const resolved = path.resolve(resolvedModule.resolvedFileName);
+      if (!projectFiles.has(resolved)) {
+        continue;
+      }
+      edges.push({
+        from: toRelative(fileName),
+        to: toRelative(resolved),
+        ...moduleImport,
+      });
+    }
+  }
+
+  return { files: fileNames.map((fileName) => toRelative(fileName)), edges };
+}
+
+// ============================================================================
+// Cycle Detection
+// ============================================================================
+
+/**
+ * Strongly connected components (Tarjan), each sorted, in discovery order
+ */
+function findStronglyConnectedComponents(
+  files: string[],
+  adjacency: Map<string, ImportEdge[]>,
+): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const connect = (file: string): void => {
+    indices.set(file, indices.size);
+    lowLinks.set(file, indices.get(file)!);
+    stack.push(file);
+    onStack.add(file);
+
+    for (const { to } of adjacency.get(file) ?? []) {
+      if (!indices.has(to)) {
+        connect(to);
+        lowLinks.set(file, Math.min(lowLinks.get(file)!, lowLinks.get(to)!));
+      } else if (onStack.has(to)) {
+        lowLinks.set(file, Math.min(lowLinks.get(file)!, indices.get(to)!));
+      }
+    }
+
+    if (lowLinks.get(file) === indices.get(file)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== file);
+      components.push(component.sort());
+    }
+  };
+
+  for (const file of files) {
+    if (!indices.has(file)) {
+      connect(file);
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Shortest cycle from a file back to itself within one component
+ */
+function findShortestCycle(
+  start: string,
+  component: Set<string>,
+  adjacency: Map<string, ImportEdge[]>,
+  maxLength: number,
+): ImportEdge[] | undefined {
+  const reachedBy = new Map<string, ImportEdge>();
+  const depths = new Map<string, number>([[start, 0]]);
+  const queue = [start];
+
+  for (let index = 0; index < queue.length; index++) {
+    const current = queue[index]!;
+    const depth = depths.get(current)!;
+    if (depth >= maxLength) {
+      continue;
+    }
+
+    for (const edge of adjacency.get(current) ?? []) {
+      if (edge.to === start) {
+        const cycle = [edge];
+        for (let file = current; file !== start; ) {
+          const previous = reachedBy.get(file)!;
+          cycle.unshift(previous);
+          file = previous.from;
+        }
+        return cycle;
+      }
+      if (component.has(edge.to) && !depths.has(edge.to)) {
+        reachedBy.set(edge.to, edge);
+        depths.set(edge.to, depth + 1);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find import cycles, each as the chain of imports that closes it
+ *
+ * Every module that is part of a cycle is covered by the shortest cycle
+ * through it, so large tangles yield one cycle per module rather than every
+ * possible path. Cycles start at their alphabetically first module.
+ */
+export function findImportCycles(
+  graph: ModuleGraph,
+  options: CycleSearchOptions = {},
+): ImportEdge[][] {
+  const maxLength = options.maxLength ?? Number.POSITIVE_INFINITY;
+  const adjacency = new Map<string, ImportEdge[]>();
+
+  for (const edge of graph.edges) {
+    if (options.ignoreTypeOnly && edge.typeOnly) {
+      continue;
+    }
+    const outgoing = adjacency.get(edge.from) ?? [];
+    // Keep the first import of each target
+    if (!outgoing.some((existing) => existing.to === edge.to)) {
+      outgoing.push(edge);
+    }
+    adjacency.set(edge.from, outgoing);
+  }
+  for (const outgoing of adjacency.values()) {
+    outgoing.sort((a, b) => a.to.localeCompare(b.to));
+  }
+
+  const cycles = new Map<string, ImportEdge[]>();
+  const files = [...graph.files].sort();
+
+  for (const component of findStronglyConnectedComponents(files, adjacency)) {
+    const members = new Set(component);
+    for (const file of component) {
+      const cycle = findShortestCycle(file, members, adjacency, maxLength);
+      if (!cycle) {
+        continue;
+      }
+      const first = cycle.map((edge) => edge.from).sort()[0];
+      const offset = cycle.findIndex((edge) => edge.from === first);
+      const rotated = [...cycle.slice(offset), ...cycle.slice(0, offset)];
+      const key = rotated.map((edge) => edge.from).join("\n");
+      if (!cycles.has(key)) {
+        cycles.set(key, rotated);
+      }
+    }
+  }
+
+  return [...cycles.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, cycle]) => cycle);
+}
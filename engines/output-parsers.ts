@@ -0,0 +1,381 @@
+/**
+ * @fileoverview External Tool Output Parsers
+ *
+ * Turns the reports of third-party linters into tool-neutral findings:
+ * ESLint JSON (also written by many ESLint-compatible tools), SARIF 2.1,
+ * checkstyle XML, and free-form text matched by a regular expression.
+ */
+
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { ViolationSeverity } from "../utils/violation-types.js";
+
+/**
+ * One finding from an external tool, before it becomes a violation
+ */
+export interface ExternalFinding {
+  /** File as reported by the tool; may be absolute or relative */
+  file?: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  rule?: string;
+  severity?: ViolationSeverity;
+  message: string;
+  /** Category and source carried in SARIF result properties, as we write them */
+  category?: string;
+  source?: string;
+}
+
+export type OutputFormat = "eslint-json" | "sarif" | "checkstyle";
+
+export interface RegexOutputParser {
+  type: "regex";
+  pattern: string;
+  flags?: string | undefined;
+}
+
+export type OutputParser = OutputFormat | RegexOutputParser;
+
+/**
+ * Map the severity spellings used by common tools to ours
+ */
+export function normalizeSeverity(
+  value: unknown,
+): ViolationSeverity | undefined {
+  switch (String(value).toLowerCase()) {
+    case "2":
+    case "error":
+    case "fatal":
+    case "failure": {
+      return "error";
+    }
+    case "1":
+    case "warn":
+    case "warning": {
+      return "warn";
+    }
+    case "info":
+    case "note":
+    case "notice":
+    case "hint":
+    case "suggestion": {
+      return "info";
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
+
+function toPositiveInteger(value: unknown): number | undefined {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Drop undefined fields so findings satisfy exact optional property types
+ */
+function finding({
+  file,
+  line,
+  column,
+  endLine,
+  endColumn,
+  rule,
+  severity,
+  message,
+  category,
+  source,
+}: {
+  [K in keyof ExternalFinding]: ExternalFinding[K] | undefined;
+} & Pick<ExternalFinding, "message">): ExternalFinding {
+  return {
+    ...(file !== undefined && { file }),
+    ...(line !== undefined && { line }),
+    ...(column !== undefined && { column }),
+    ...(endLine !== undefined && { endLine }),
+    ...(endColumn !== undefined && { endColumn }),
+    ...(rule !== undefined && { rule }),
+    ...(severity !== undefined && { severity }),
+    message,
+    ...(category !== undefined && { category }),
+    ...(source !== undefined && { source }),
+  };
+}
+
+// ============================================================================
+// ESLint JSON
+// ============================================================================
+
+interface ESLintJsonResult {
+  filePath?: string;
+  messages?: Array<{
+    ruleId?: string | null;
+    severity?: number;
+    message?: string;
+    line?: number;
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
+  }>;
+}
+
+/**
+ * Parse `eslint --format json` output
+ */
+export function parseEslintJson(text: string): ExternalFinding[] {
+  const results = JSON.parse(text) as unknown;
+  if (!Array.isArray(results)) {
+    throw new TypeError("ESLint JSON output must be an array of file results");
+  }
+
+  return (results as ESLintJsonResult[]).flatMap((result) =>
+    (result.messages ?? []).map((message) =>
+      finding({
+        file: result.filePath,
+        line: toPositiveInteger(message.line),
+        column: toPositiveInteger(message.column),
+        endLine: toPositiveInteger(message.endLine),
+        endColumn: toPositiveInteger(message.endColumn),
+        rule: message.ruleId ?? undefined,
+        severity: normalizeSeverity(message.severity),
+        message: message.message ?? "",
+      }),
+    ),
+  );
+}
+
+// ============================================================================
+// SARIF
+// ============================================================================
+
+interface SarifRule {
+  id?: string;
+  defaultConfiguration?: { level?: string };
+}
+
+interface SarifResult {
+  ruleId?: string;
+  ruleIndex?: number;
+  rule?: { id?: string; index?: number };
+  level?: string;
+  message?: { text?: string; markdown?: string };
+  properties?: { category?: unknown; source?: unknown };
+  locations?: Array<{
+    physicalLocation?: {
+      artifactLocation?: { uri?: string; uriBaseId?: string };
+      region?: {
+        startLine?: number;
+        startColumn?: number;
+        endLine?: number;
+        endColumn?: number;
+      };
+    };
+  }>;
+}
+
+interface SarifLog {
+  runs?: Array<{
+    tool?: { driver?: { rules?: SarifRule[] } };
+    originalUriBaseIds?: Record<string, { uri?: string }>;
+    results?: SarifResult[];
+  }>;
+}
+
+/**
+ * Resolve an artifact URI, relative ones against their base id when the
+ * run declares it (e.g. %SRCROOT%)
+ */
+function sarifUriToPath(uri: string, baseUri: string | undefined): string {
+  if (/^[a-z][\d+.a-z-]*:/i.test(uri)) {
+    return uri.startsWith("file:") ? fileURLToPath(uri) : uri;
+  }
+  if (baseUri?.startsWith("file:")) {
+    const base = baseUri.endsWith("/") ? baseUri : `${baseUri}/`;
+    return fileURLToPath(new URL(uri, base));
+  }
+  return path.join(decodeURIComponent(baseUri ?? ""), decodeURIComponent(uri));
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Parse a SARIF 2.1 log; results without a level use their rule's default
+ */
+export function parseSarif(text: string): ExternalFinding[] {
+  const log = JSON.parse(text) as SarifLog;
+  if (!Array.isArray(log.runs)) {
+    throw new TypeError("SARIF log has no runs");
+  }
+
+  return log.runs.flatMap((run) => {
+    const rules = run.tool?.driver?.rules ?? [];
+    return (run.results ?? []).map((result) => {
+      const ruleIndex = result.ruleIndex ?? result.rule?.index;
+      const rule = ruleIndex === undefined ? undefined : rules[ruleIndex];
+      const physicalLocation = result.locations?.[0]?.physicalLocation;
+      const artifact = physicalLocation?.artifactLocation;
+      const region = physicalLocation?.region;
+      const baseId = artifact?.uriBaseId;
+      const baseUri =
+        baseId === undefined
+          ? undefined
+          : run.originalUriBaseIds?.[baseId]?.uri;
+
+      return finding({
+        file:
+          artifact?.uri === undefined
+            ? undefined
+            : sarifUriToPath(artifact.uri, baseUri),
+        line: toPositiveInteger(region?.startLine),
+        column: toPositiveInteger(region?.startColumn),
+        endLine: toPositiveInteger(region?.endLine),
+        endColumn: toPositiveInteger(region?.endColumn),
+        rule: result.ruleId ?? result.rule?.id ?? rule?.id,
+        // SARIF's default level is "warning"
+        severity:
+          normalizeSeverity(
+            result.level ?? rule?.defaultConfiguration?.level,
+          ) ?? (result.level === "none" ? "info" : "warn"),
+        message: result.message?.text ?? result.message?.markdown ?? "",
+        category: optionalString(result.properties?.category),
+        source: optionalString(result.properties?.source),
+      });
+    });
+  });
+}
+
+// ============================================================================
+// Checkstyle XML
+// ============================================================================
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(value: string): string {
+  return value.replaceAll(
+    /&(#x[\da-f]+|#\d+|\w+);/gi,
+    (entity, name: string) => {
+      if (name.startsWith("#x") || name.startsWith("#X")) {
+        return String.fromCodePoint(Number.parseInt(name.slice(2), 16));
+      }
+      if (name.startsWith("#")) {
+        return String.fromCodePoint(Number.parseInt(name.slice(1), 10));
+      }
+      return XML_ENTITIES[name] ?? entity;
+    },
+  );
+}
+
+function parseXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*(["'])(.*?)\2/gs)) {
+    attributes[match[1]!] = decodeXmlEntities(match[3]!);
+  }
+  return attributes;
+}
+
+/**
+ * Parse checkstyle XML, the report format of checkstyle, stylelint's
+ * checkstyle formatter, ktlint, phpcs and others
+ */
+export function parseCheckstyle(text: string): ExternalFinding[] {
+  if (!/<checkstyle[\s>]/.test(text)) {
+    throw new TypeError("Output is not a checkstyle report");
+  }
+
+  const findings: ExternalFinding[] = [];
+  const fileElements = /<file\s([^>]*?)(?:\/>|>([\S\s]*?)<\/file>)/g;
+  for (const fileMatch of text.matchAll(fileElements)) {
+    const file = parseXmlAttributes(fileMatch[1]!)["name"];
+    for (const errorMatch of (fileMatch[2] ?? "").matchAll(
+      /<error\s([^>]*?)\/?>/g,
+    )) {
+      const attributes = parseXmlAttributes(errorMatch[1]!);
+      findings.push(
+        finding({
+          file,
+          line: toPositiveInteger(attributes["line"]),
+          column: toPositiveInteger(attributes["column"]),
+          rule: attributes["source"],
+          severity: normalizeSeverity(attributes["severity"]),
+          message: attributes["message"] ?? "",
+        }),
+      );
+    }
+  }
+  return findings;
+}
+
+// ============================================================================
+// Regular expression
+// ============================================================================
+
+/**
+ * Parse free-form output; every match is one finding built from the named
+ * groups file, line, column, endLine, endColumn, severity, rule and message
+ */
+export function parseWithRegex(
+  text: string,
+  parser: RegexOutputParser,
+): ExternalFinding[] {
+  const flags = new Set([...(parser.flags ?? ""), "g", "m"]);
+  const pattern = new RegExp(parser.pattern, [...flags].join(""));
+
+  const findings: ExternalFinding[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const groups = match.groups ?? {};
+    if (match[0] === "" || groups["message"] === undefined) {
+      continue;
+    }
+    findings.push(
+      finding({
+        file: groups["file"],
+        line: toPositiveInteger(groups["line"]),
+        column: toPositiveInteger(groups["column"]),
+        endLine: toPositiveInteger(groups["endLine"]),
+        endColumn: toPositiveInteger(groups["endColumn"]),
+        rule: groups["rule"],
+        severity: normalizeSeverity(groups["severity"]),
+        message: groups["message"].trim(),
+      }),
+    );
+  }
+  return findings;
+}
+
+/**
+ * Parse tool output with the configured parser
+ * Malformed reports throw so callers can surface them as setup issues.
+ */
+export function parseToolOutput(
+  text: string,
+  parser: OutputParser,
+): ExternalFinding[] {
+  if (typeof parser === "object") {
+    return parseWithRegex(text, parser);
+  }
+  if (text.trim() === "") {
+    return [];
+  }
+  switch (parser) {
+    case "eslint-json": {
+      return parseEslintJson(text);
+    }
+    case "sarif": {
+      return parseSarif(text);
+    }
+    case "checkstyle": {
+      return parseCheckstyle(text);
+    }
+  }
+}
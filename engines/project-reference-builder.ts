@@ -0,0 +1,244 @@
+/**
+ * @fileoverview TypeScript Project Reference Builder
+ *
+ * Checks solution-style projects (a tsconfig with `references`) the way
+ * `tsc --build` does: every referenced project in dependency order, skipping
+ * projects whose .tsbuildinfo shows them up to date, with each diagnostic
+ * attributed to the project that reported it.
+ */
+
+import * as fs from "node:fs";
+import path from "node:path";
+import type * as TypeScript from "typescript";
+import {
+  toTypeScriptDiagnostic,
+  type TypeScriptDiagnostic,
+} from "./incremental-type-checker.js";
+
+type TypeScriptModule = typeof TypeScript;
+
+/**
+ * A compiler diagnostic with the project that reported it
+ */
+export interface ProjectDiagnostic extends TypeScriptDiagnostic {
+  /** Absolute path of the owning project's tsconfig */
+  configPath: string;
+}
+
+export interface ProjectBuildResult {
+  diagnostics: ProjectDiagnostic[];
+  /** Projects rebuilt by this call; the others were up to date */
+  builtProjects: string[];
+}
+
+/**
+ * Where build outputs go instead of the analyzed tree
+ */
+const BUILD_CACHE_DIRECTORY = path.join(
+  "node_modules",
+  ".cache",
+  "sidequest",
+  "tsbuild",
+);
+
+/**
+ * Resolved tsconfig paths of a project's direct references
+ * Unreadable configs have none here; the build reports their errors.
+ */
+function readProjectReferences(
+  ts: TypeScriptModule,
+  configPath: string,
+): string[] {
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error || !config) {
+    return [];
+  }
+  const parsed = ts.parseJsonConfigFileContent(
+    config,
+    ts.sys,
+    path.dirname(configPath),
+    undefined,
+    configPath,
+  );
+  return (parsed.projectReferences ?? []).map((reference) =>
+    path.resolve(ts.resolveProjectReferencePath(reference)),
+  );
+}
+
+/**
+ * Builder for a tsconfig and the projects it references
+ *
+ * Building emits each project's outputs and .tsbuildinfo, as `tsc --build`
+ * does (`--build` cannot be combined with `--noEmit`); that is what lets
+ * later builds skip projects nothing changed in. The host redirects every
+ * write to a mirror of the output path under the tool cache in
+ * node_modules, and reads outputs from there, so the analyzed tree is never
+ * written to.
+ */
+export class ProjectReferenceBuilder {
+  readonly tsConfigPath: string;
+  /** Absolute tsconfig paths, each after the projects it references */
+  readonly projects: string[];
+  private readonly ts: TypeScriptModule;
+  private readonly baseDirectory: string;
+  private readonly cacheDirectory: string;
+
+  private constructor(
+    ts: TypeScriptModule,
+    tsConfigPath: string,
+    baseDirectory: string,
+  ) {
+    this.ts = ts;
+    this.tsConfigPath = path.resolve(tsConfigPath);
+    this.baseDirectory = baseDirectory;
+    this.cacheDirectory = path.resolve(baseDirectory, BUILD_CACHE_DIRECTORY);
+    this.projects = this.walkReferences();
+  }
+
+  /**
+   * Load the project's TypeScript and read the reference graph of a tsconfig
+   */
+  static async create(
+    tsConfigPath: string,
+    baseDirectory: string,
+  ): Promise<ProjectReferenceBuilder> {
+    const { default: ts } = await import("typescript");
+    return new ProjectReferenceBuilder(ts, tsConfigPath, baseDirectory);
+  }
+
+  /**
+   * Whether the tsconfig references other projects
+   */
+  get hasReferences(): boolean {
+    return this.projects.length > 1;
+  }
+
+  /**
+   * Build out-of-date projects in dependency order
+   * The signal stops the build between files and projects.
+   */
+  build(signal?: AbortSignal): ProjectBuildResult {
+    const diagnostics: ProjectDiagnostic[] = [];
+    const builtProjects: string[] = [];
+    // Problems with the graph itself are reported before any project builds
+    let currentProject = this.tsConfigPath;
+
+    const host = this.ts.createSolutionBuilderHost(
+      this.ts.sys,
+      undefined,
+      (diagnostic) => {
+        diagnostics.push(this.toProjectDiagnostic(diagnostic, currentProject));
+      },
+    );
+    this.redirectOutputs(host);
+    const builder = this.ts.createSolutionBuilder(host, [this.tsConfigPath], {
+      incremental: true,
+    });
+    const cancellationToken: TypeScript.CancellationToken = {
+      isCancellationRequested: () => signal?.aborted ?? false,
+      throwIfCancellationRequested: () => signal?.throwIfAborted(),
+    };
+
+    let project = builder.getNextInvalidatedProject(cancellationToken);
+    while (project) {
+      currentProject = path.resolve(project.project);
+      if (project.kind === this.ts.InvalidatedProjectKind.Build) {
+        builtProjects.push(currentProject);
+      }
+      project.done(cancellationToken);
+      project = builder.getNextInvalidatedProject(cancellationToken);
+    }
+
+    return { diagnostics, builtProjects };
+  }
+
+  /**
+   * Location of a build output in the cache
+   */
+  private toCachePath(fileName: string): string {
+    const absolute = path.resolve(fileName);
+    return path.join(
+      this.cacheDirectory,
+      path.relative(path.parse(absolute).root, absolute),
+    );
+  }
+
+  private findCachedOutput(fileName: string): string | undefined {
+    const cachePath = this.toCachePath(fileName);
+    return fs.existsSync(cachePath) ? cachePath : undefined;
+  }
+
+  /**
+   * Write outputs to the cache, and read outputs from it before the tree
+   * Sources are never in the cache, so they are read where they are.
+   */
+  private redirectOutputs(
+    host: TypeScript.SolutionBuilderHost<TypeScript.EmitAndSemanticDiagnosticsBuilderProgram>,
+  ): void {
+    const { fileExists, readFile, getModifiedTime, directoryExists } = host;
+
+    host.writeFile = (fileName, data) => {
+      const cachePath = this.toCachePath(fileName);
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+      fs.writeFileSync(cachePath, data);
+    };
+    host.createDirectory = (directory) => {
+      fs.mkdirSync(this.toCachePath(directory), { recursive: true });
+    };
+    host.deleteFile = (fileName) => {
+      const cachePath = this.findCachedOutput(fileName);
+      if (cachePath) {
+        fs.rmSync(cachePath);
+      }
+    };
+    host.setModifiedTime = (fileName, date) => {
+      const cachePath = this.findCachedOutput(fileName);
+      if (cachePath) {
+        fs.utimesSync(cachePath, date, date);
+      }
+    };
+    host.fileExists = (fileName) =>
+      this.findCachedOutput(fileName) !== undefined || fileExists(fileName);
+    host.readFile = (fileName, encoding) =>
+      readFile(this.findCachedOutput(fileName) ?? fileName, encoding);
+    host.getModifiedTime = (fileName) =>
+      getModifiedTime?.(this.findCachedOutput(fileName) ?? fileName);
+    host.directoryExists = (directory) =>
+      this.findCachedOutput(directory) !== undefined ||
+      (directoryExists?.(directory) ?? false);
+  }
+
+  /**
+   * Depth-first walk of the references; cycles are broken where they
+   * close, and the build reports them
+   */
+  private walkReferences(): string[] {
+    const ordered: string[] = [];
+    const visited = new Set<string>();
+    const visit = (configPath: string): void => {
+      if (visited.has(configPath)) {
+        return;
+      }
+      visited.add(configPath);
+      for (const reference of readProjectReferences(this.ts, configPath)) {
+        visit(reference);
+      }
+      ordered.push(configPath);
+    };
+    visit(this.tsConfigPath);
+    return ordered;
+  }
+
+  private toProjectDiagnostic(
+    diagnostic: TypeScript.Diagnostic,
+    configPath: string,
+  ): ProjectDiagnostic {
+    const converted = toTypeScriptDiagnostic(
+      this.ts,
+      diagnostic,
+      this.baseDirectory,
+    );
+    converted.details.project = path.relative(this.baseDirectory, configPath);
+    return { ...converted, configPath };
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Report Import Engine
+ *
+ * Reads SARIF and ESLint JSON reports that other jobs left on disk and turns
+ * them into violations, so tracking, baselines and watch mode treat them
+ * like results of a live engine.
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { BaseAuditEngine } from "./base-engine.js";
+import { categorizeESLintRule } from "./eslint-rule-categories.js";
+import {
+  parseEslintJson,
+  parseSarif,
+  type ExternalFinding,
+} from "./output-parsers.js";
+import type {
+  Violation,
+  EngineConfig,
+  ViolationSource,
+} from "../utils/violation-types.js";
+import {
+  ReportImportSchema,
+  ViolationCategorySchema,
+  ViolationSourceSchema,
+  type ValidatedReportImport,
+} from "../utils/validation-schemas.js";
+import {
+  loadProjectConfig,
+  PROJECT_CONFIG_FILENAME,
+} from "../utils/project-config.js";
+import { expandGlob } from "../utils/glob.js";
+import { debugLog } from "../utils/debug-logger.js";
+
+export type ReportImport = ValidatedReportImport;
+
+type ReportFormat = "sarif" | "eslint-json";
+
+/**
+ * Configuration interface for ReportImportEngine
+ */
+export interface ReportImportEngineConfig extends EngineConfig {
+  options: {
+    /** Reports to read instead of the project config's `reports` section */
+    reports?: ReportImport[];
+  };
+}
+
+/**
+ * Report entries with the directory their globs are relative to
+ */
+interface ResolvedReports {
+  reports: ReportImport[];
+  rootDirectory: string;
+}
+
+interface CachedReport {
+  mtimeMs: number;
+  format: ReportFormat;
+  findings: ExternalFinding[];
+}
+
+/**
+ * Report Import Engine for SARIF and ESLint JSON files
+ *
+ * The format is taken from the entry or detected from the content. Files
+ * are only parsed again when they change, which keeps watch mode cheap.
+ */
+export class ReportImportEngine extends BaseAuditEngine {
+  private readonly baseDir: string;
+  private readonly reportCache = new Map<string, CachedReport>();
+
+  constructor(config: Partial<ReportImportEngineConfig> = {}) {
+    super("Report Import", "custom", {
+      enabled: true,
+      priority: 10,
+      timeout: 60_000,
+      allowFailure: true,
+      options: {},
+      ...config,
+    });
+    this.baseDir = process.cwd();
+  }
+
+  /**
+   * Read every configured report and convert its findings
+   */
+  protected async analyze(
+    targetPath: string,
+    options: Record<string, unknown> = {},
+  ): Promise<Violation[]> {
+    let resolved: ResolvedReports | undefined;
+    try {
+      resolved = this.resolveReports(
+        path.resolve(this.baseDir, targetPath),
+        options,
+      );
+    } catch (error) {
+      return [
+        this.createSetupViolation(
+          "REPORT-SETUP-002",
+          `Invalid report configuration: ${error}`,
+          `Fix the "reports" section of ${PROJECT_CONFIG_FILENAME}. Error: ${error}`,
+        ),
+      ];
+    }
+    if (!resolved || resolved.reports.length === 0) {
+      return [
+        this.createSetupViolation(
+          "REPORT-SETUP-001",
+          "No reports configured",
+          `Add a "reports" section to ${PROJECT_CONFIG_FILENAME} or pass --import-reports <glob>`,
+        ),
+      ];
+    }
+
+    const violations: Violation[] = [];
+    for (const report of resolved.reports) {
+      violations.push(
+        ...(await this.importReport(report, resolved.rootDirectory)),
+      );
+    }
+    return violations;
+  }
+
+  override dispose(): void {
+    this.reportCache.clear();
+  }
+
+  /**
+   * Reports from the engine options, else from the nearest project config
+   */
+  private resolveReports(
+    searchPath: string,
+    options: Record<string, unknown>,
+  ): ResolvedReports | undefined {
+    const inlineReports = options["reports"] ?? this.config.options["reports"];
+    if (inlineReports !== undefined) {
+      return {
+        reports: ReportImportSchema.array().parse(inlineReports),
+        rootDirectory: this.baseDir,
+      };
+    }
+
+    const projectConfig = loadProjectConfig(searchPath);
+    if (!projectConfig?.config.reports) {
+      return undefined;
+    }
+    return {
+      reports: projectConfig.config.reports,
+      rootDirectory: path.dirname(projectConfig.path),
+    };
+  }
+
+  private async importReport(
+    report: ReportImport,
+    rootDirectory: string,
+  ): Promise<Violation[]> {
+    const entry = typeof report === "string" ? { path: report } : report;
+    const files = expandGlob(entry.path, rootDirectory);
+    if (files.length === 0) {
+      return [
+        this.createSetupViolation(
+          "REPORT-SETUP-003",
+          entry.path,
+          `No report files match '${entry.path}'`,
+        ),
+      ];
+    }
+
+    const violations: Violation[] = [];
+    for (const file of files) {
+      try {
+        const { format, findings } = await this.readReport(file, entry.format);
+        violations.push(
+          ...findings.map((found) =>
+            this.toViolation(found, format, entry, rootDirectory),
+          ),
+        );
+      } catch (error) {
+        violations.push(
+          this.createSetupViolation(
+            "REPORT-SETUP-004",
+            path.relative(this.baseDir, file),
+            `Could not read report ${path.relative(this.baseDir, file)}: ${error instanceof Error ? error.message : error}`,
+          ),
+        );
+      }
+    }
+
+    debugLog("ReportImportEngine", "Report imported", {
+      pattern: entry.path,
+      files: files.length,
+      violations: violations.length,
+    });
+    return violations;
+  }
+
+  private async readReport(
+    file: string,
+    format: ReportFormat | undefined,
+  ): Promise<CachedReport> {
+    const { mtimeMs } = await stat(file);
+    const cached = this.reportCache.get(file);
+    if (cached?.mtimeMs === mtimeMs && (!format || cached.format === format)) {
+      return cached;
+    }
+
+    const text = await readFile(file, "utf8");
+    const detected = format ?? this.detectFormat(text);
+    const report: CachedReport = {
+      mtimeMs,
+      format: detected,
+      findings: detected === "sarif" ? parseSarif(text) : parseEslintJson(text),
+    };
+    this.reportCache.set(file, report);
+    return report;
+  }
+
+  /**
+   * SARIF logs are objects with runs; ESLint JSON is an array of file results
+   */
+  private detectFormat(text: string): ReportFormat {
+    const report = JSON.parse(text) as unknown;
+    if (Array.isArray(report)) {
+      return "eslint-json";
+    }
+    if (report && typeof report === "object" && "runs" in report) {
+      return "sarif";
+    }
+    throw new TypeError("Not a SARIF log or ESLint JSON report");
+  }
+
+  private toViolation(
+    found: ExternalFinding,
+    format: ReportFormat,
+    entry: Exclude<ReportImport, string>,
+    rootDirectory: string,
+  ): Violation {
+    const rule = found.rule ?? "unknown";
+    const categorized = categorizeESLintRule(rule);
+    // A source the violation database does not store is imported as custom
+    const reportedSource = ViolationSourceSchema.safeParse(found.source);
+    const source: ViolationSource =
+      entry.source ??
+      (reportedSource.success ? reportedSource.data : undefined) ??
+      (format === "eslint-json" ? "eslint" : "custom");
+    const reportedCategory = ViolationCategorySchema.safeParse(found.category);
+    const message = found.message || "Imported violation";
+
+    const violation: Violation = {
+      file: found.file
+        ? path.relative(this.baseDir, path.resolve(rootDirectory, found.file))
+        : "unknown",
+      line: found.line ?? 1,
+      code: message,
+      category:
+        entry.category ??
+        (reportedCategory.success ? reportedCategory.data : undefined) ??
+        categorized.category,
+      severity: found.severity ?? categorized.severity,
+      source,
+      rule,
+      message,
+    };
+    if (found.column !== undefined) {
+      violation.column = found.column;
+    }
+    if (found.endLine !== undefined || found.endColumn !== undefined) {
+      violation.lint = {
+        ...(found.endLine !== undefined && { endLine: found.endLine }),
+        ...(found.endColumn !== undefined && { endColumn: found.endColumn }),
+      };
+    }
+    return violation;
+  }
+
+  private createSetupViolation(
+    rule: string,
+    code: string,
+    message: string,
+  ): Violation {
+    return this.createViolation(
+      "report-setup",
+      1,
+      code,
+      "setup-issue",
+      "warn",
+      rule,
+      message,
+    );
+  }
+}
@@ -10,6 +10,11 @@ import { spawnSync } from "node:child_process";
 import path from "node:path";
 import * as fs from "node:fs";
 import { BaseAuditEngine } from "./base-engine.js";
+import {
+  IncrementalTypeChecker,
+  type TypeScriptDiagnostic,
+} from "./incremental-type-checker.js";
+import { ProjectReferenceBuilder } from "./project-reference-builder.js";
 import type {
   Violation,
   ViolationCategory,
@@ -28,10 +33,16 @@ import { getPreferencesManager } from "../services/index.js";
  *
  * Runs `tsc --noEmit` using the client's tsconfig.json without modification.
  * Reports TypeScript compiler errors without categorization or opinion.
+ * With `incremental`, checks in-process with a warm program instead, so
+ * repeated runs (watch mode) only re-check affected files.
+ * A tsconfig with `references` is built like `tsc --build` instead, each
+ * project in dependency order with its diagnostics attributed to it.
  * Optional: Includes pattern-based checks for unknown/any usage.
  */
 export class TypeScriptAuditEngine extends BaseAuditEngine {
   private readonly baseDir: string;
+  /** Warm programs by tsconfig path, one per workspace package */
+  private incrementalCheckers = new Map<string, IncrementalTypeChecker>();
 
   constructor(config?: {
     enabled?: boolean;
@@ -40,6 +51,7 @@ export class TypeScriptAuditEngine extends BaseAuditEngine {
       strict?: boolean; // For pattern checks only
       targetPath?: string;
       checkCompilation?: boolean; // Primary function: run tsc --noEmit
+      incremental?: boolean; // Check in-process with a warm compiler program
       enableCustomScripts?: boolean; // Run custom TSC scripts if found
       customScriptPreset?: string; // Preset to use for custom scripts (default: safe)
     };
@@ -54,6 +66,7 @@ export class TypeScriptAuditEngine extends BaseAuditEngine {
         strict: false, // For pattern checks only
         targetPath: "app",
         checkCompilation: true, // Primary function: run tsc --noEmit
+        incremental: false, // Spawn tsc unless a long-lived caller opts in
         enableCustomScripts: true, // Automatically detect and run custom TSC scripts
         customScriptPreset: "safe", // Use safe preset to avoid overwhelming output
       },
@@ -80,6 +93,8 @@ export class TypeScriptAuditEngine extends BaseAuditEngine {
       true;
     const includeAny =
       options["includeAny"] ?? this.config.options["includeAny"] ?? false;
+    const incremental =
+      options["incremental"] ?? this.config.options["incremental"] ?? false;
     // Get custom script configuration from user preferences
     let enableCustomScripts = true;
     let customScriptPreset = "safe";
@@ -116,9 +131,11 @@ export class TypeScriptAuditEngine extends BaseAuditEngine {
 
     // FIRST: Run TypeScript compiler to catch actual compilation errors
     if (checkCompilation) {
-      const compilationViolations = await Promise.resolve(
-        this.checkTypeScriptCompilation(searchPath),
-      );
+      const compilationViolations =
+        (await this.checkProjectReferences(searchPath)) ??
+        (incremental
+          ? await this.checkTypeScriptIncrementally(searchPath)
+          : this.checkTypeScriptCompilation(searchPath));
       violations.push(...compilationViolations);
     }
 
@@ -237,6 +254,159 @@ export class TypeScriptAuditEngine extends BaseAuditEngine {
     return violations;
   }
 
+  /**
+   * Check in-process with the compiler API, keeping the program warm
+   * between runs so only files affected by changes are re-checked
+   */
+  private async checkTypeScriptIncrementally(
+    searchPath: string,
+  ): Promise<Violation[]> {
+    const tsConfigPath = this.findTsConfig(searchPath);
+    if (!tsConfigPath) {
+      // Without a tsconfig there is no project to keep warm
+      return this.runTscOnDirectory(searchPath);
+    }
+
+    this.cacheTypeScriptConfig(tsConfigPath);
+
+    try {
+      let incrementalChecker = this.incrementalCheckers.get(tsConfigPath);
+      if (!incrementalChecker) {
+        incrementalChecker = await IncrementalTypeChecker.create(
+          tsConfigPath,
+          this.baseDir,
+        );
+        this.incrementalCheckers.set(tsConfigPath, incrementalChecker);
+      }
+
+      const result = incrementalChecker.check();
+      debugLog("TypeScriptEngine", "Incremental check completed", {
+        checkedFiles: result.checkedFileCount,
+        totalFiles: result.totalFileCount,
+        diagnostics: result.diagnostics.length,
+      });
+
+      return result.diagnostics.map((diagnostic) =>
+        this.createDiagnosticViolation(diagnostic, tsConfigPath),
+      );
+    } catch (error) {
+      console.warn(
+        "[TypeScript Engine] In-process TypeScript check failed:",
+        error,
+      );
+      this.dispose();
+      return [
+        this.createViolation(
+          "typescript-setup",
+          1,
+          `In-process TypeScript check failed: ${error}`,
+          "setup-issue",
+          "error",
+          "TS-SETUP-004",
+          `Could not type-check with the TypeScript compiler API. This may indicate TypeScript is not installed in the project. Error: ${error}`,
+        ),
+      ];
+    }
+  }
+
+  /**
+   * Build a solution-style tsconfig and the projects it references
+   * Undefined when the tsconfig has no references, for the single-project
+   * checks to handle.
+   */
+  private async checkProjectReferences(
+    searchPath: string,
+  ): Promise<Violation[] | undefined> {
+    const tsConfigPath = this.findTsConfig(searchPath);
+    if (!tsConfigPath) {
+      return undefined;
+    }
+
+    let builder: ProjectReferenceBuilder;
+    try {
+      builder = await ProjectReferenceBuilder.create(
+        tsConfigPath,
+        this.baseDir,
+      );
+    } catch (error) {
+      // The single-project checks report why TypeScript is unavailable
+      debugLog("TypeScriptEngine", "Could not read project references", {
+        error: String(error),
+      });
+      return undefined;
+    }
+    if (!builder.hasReferences) {
+      return undefined;
+    }
+
+    this.cacheTypeScriptConfig(tsConfigPath);
+
+    try {
+      const result = builder.build(this.abortController?.signal);
+      debugLog("TypeScriptEngine", "Project references built", {
+        projects: builder.projects.map((project) =>
+          path.relative(this.baseDir, project),
+        ),
+        builtProjects: result.builtProjects.length,
+        diagnostics: result.diagnostics.length,
+      });
+
+      return result.diagnostics.map((diagnostic) =>
+        this.createDiagnosticViolation(diagnostic, diagnostic.configPath),
+      );
+    } catch (error) {
+      console.warn(
+        "[TypeScript Engine] Project reference build failed:",
+        error,
+      );
+      return [
+        this.createViolation(
+          "typescript-setup",
+          1,
+          `TypeScript project reference build failed: ${error}`,
+          "setup-issue",
+          "error",
+          "TS-SETUP-005",
+          `Could not build the projects referenced by ${path.relative(this.baseDir, tsConfigPath)}. Check that every referenced project exists and sets "composite". Error: ${error}`,
+        ),
+      ];
+    }
+  }
+
+  /**
+   * Convert a structured compiler diagnostic into a violation
+   * The message is the first line, as `tsc` prints it, so fingerprints
+   * match between in-process and spawned checks.
+   */
+  private createDiagnosticViolation(
+    diagnostic: TypeScriptDiagnostic,
+    tsConfigPath: string,
+  ): Violation {
+    const ruleCode = `TS${diagnostic.details.code}`;
+    const violation = this.createViolation(
+      diagnostic.file ?? path.relative(this.baseDir, tsConfigPath),
+      diagnostic.line,
+      diagnostic.summary,
+      this.getCategoryForRule(ruleCode),
+      diagnostic.severity,
+      ruleCode,
+      diagnostic.summary,
+      diagnostic.column,
+    );
+    violation.diagnostic = diagnostic.details;
+    return violation;
+  }
+
+  /**
+   * Release the warm compiler programs and their file watchers
+   */
+  override dispose(): void {
+    for (const incrementalChecker of this.incrementalCheckers.values()) {
+      incrementalChecker.close();
+    }
+    this.incrementalCheckers.clear();
+  }
+
   /**
    * Find tsconfig.json starting from search path and moving up
    */
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview TypeScript Project Discovery
+ *
+ * Finds the TS/TSX source files and compiler options that apply to a target
+ * directory, for engines that parse sources without building a program.
+ */
+
+import path from "node:path";
+import type * as TypeScript from "typescript";
+
+export type TypeScriptModule = typeof TypeScript;
+
+export interface TypeScriptProject {
+  /** tsconfig.json that applies to the target, if any */
+  configPath: string | undefined;
+  /** Absolute paths of the TS/TSX sources under the target */
+  fileNames: string[];
+  compilerOptions: TypeScript.CompilerOptions;
+}
+
+function isAnalyzableFile(fileName: string): boolean {
+  return /\.(?:[cm]?ts|tsx)$/.test(fileName) && !/\.d\.[cm]?ts$/.test(fileName);
+}
+
+function isInsideDirectory(directory: string, fileName: string): boolean {
+  const relative = path.relative(directory, fileName);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Load the project for a directory: the nearest tsconfig's file list and
+ * options when one applies, otherwise every TypeScript file below it with
+ * bundler-style module resolution
+ */
+export function loadTypeScriptProject(
+  ts: TypeScriptModule,
+  targetDirectory: string,
+): TypeScriptProject {
+  const directory = path.resolve(targetDirectory);
+  const configPath = ts.findConfigFile(directory, ts.sys.fileExists);
+
+  if (configPath) {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (!error) {
+      const parsed = ts.parseJsonConfigFileContent(
+        config,
+        ts.sys,
+        path.dirname(configPath),
+      );
+      return {
+        configPath,
+        fileNames: parsed.fileNames
+          .map((fileName) => path.resolve(fileName))
+          .filter(
+            (fileName) =>
+              isAnalyzableFile(fileName) &&
+              isInsideDirectory(directory, fileName),
+          ),
+        compilerOptions: parsed.options,
+      };
+    }
+  }
+
+  return {
+    configPath: undefined,
+    fileNames: ts.sys
+      .readDirectory(
+        directory,
+        [".ts", ".tsx", ".mts", ".cts"],
+        ["**/node_modules"],
+      )
+      .map((fileName) => path.resolve(fileName))
+      .filter((fileName) => isAnalyzableFile(fileName)),
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+    },
+  };
+}
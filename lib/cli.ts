@@ -31,8 +31,11 @@
 
 import { resetAllServices } from "../services/index.js";
 import type {
+  AnalysisScope,
   Violation as OrchestratorViolation,
   OrchestratorResult,
+  Suppression,
+  SuppressionReport,
 } from "../utils/violation-types.js";
 // ViolationSummaryItem no longer needed - using live data only
 import {
@@ -67,10 +70,49 @@ import {
 } from "../utils/validation-schemas.js";
 
 // Static imports for better testability
+import { existsSync } from "node:fs";
 import { writeFile, readFile } from "node:fs/promises";
 import { fileURLToPath } from "node:url";
 import path from "node:path";
 import { checkEnvironmentCompatibility } from "../utils/node-compatibility.js";
+import { writeSarifReport } from "../utils/sarif-writer.js";
+import {
+  createJsonReport,
+  writeJsonReport,
+} from "../utils/json-report-writer.js";
+import {
+  DEFAULT_BASELINE_PATH,
+  compareWithBaseline,
+  createBaseline,
+  loadBaseline,
+  saveBaseline,
+  type BaselineComparison,
+} from "../utils/baseline.js";
+import {
+  EXIT_CODES,
+  evaluateQualityGate,
+  getGateExitCode,
+  loadQualityGateConfig,
+  type QualityGateConfig,
+  type QualityGateResult,
+} from "../utils/quality-gate.js";
+import { resolveGitScope } from "../utils/git-scope.js";
+import {
+  formatQueryResults,
+  groupQueryRows,
+  parseQueryTerms,
+  toQueryRow,
+} from "../utils/violation-query.js";
+import { initializeDatabase, closeDatabase } from "../database/connection.js";
+import { StorageService } from "../services/storage-service.js";
+import {
+  DEFAULT_SUPPRESSIONS_PATH,
+  addSuppression,
+  describeSuppression,
+  isSuppressionExpired,
+  loadSuppressions,
+  readProjectVersion,
+} from "../utils/suppressions.js";
 
 /**
  * Process violations into summary format for session state
@@ -163,7 +205,16 @@ try {
     eslintOnly: false,
     archaeology: false,
     includeArchaeology: false,
+    complexity: false,
+    circular: false,
+    architecture: false,
+    commands: false,
+    importReports: undefined,
+    dependencies: false,
     targetPath: ".",
+    workspaces: false,
+    blame: false,
+    owners: false,
     verbose: false,
     strict: false,
     noCrossoverCheck: false,
@@ -176,8 +227,30 @@ try {
     debug: false,
     dataDir: "./data",
     generatePRD: false,
+    format: "console",
+    outputFile: undefined,
+    baselineFile: undefined,
+    updateBaseline: false,
+    gateFile: undefined,
+    suppressionsFile: undefined,
+    waive: false,
+    listWaivers: false,
+    waiverFingerprint: undefined,
+    waiverRule: undefined,
+    waiverPath: undefined,
+    waiverReason: undefined,
+    waiverOwner: undefined,
+    waiverUntil: undefined,
+    maxViolations: undefined,
+    maxErrors: undefined,
+    maxWarnings: undefined,
+    noNewErrors: false,
+    changedSince: undefined,
+    staged: false,
+    changedLines: false,
     installShortcuts: false,
     configAction: undefined,
+    queryTerms: undefined,
   };
 }
 
@@ -237,8 +310,8 @@ function showAIContext(): void {
   "archaeology_features": {
     "purpose": "Technical debt analysis and cleanup guidance through dead code detection and duplication analysis.",
     "capabilities": {
-      "dead_code_detection": "Uses ts-prune to find unused exports, unreachable code, and unused imports with confidence scoring.",
-      "code_duplication": "Uses jscpd to detect duplicate code blocks with similarity analysis and refactoring suggestions.",
+      "dead_code_detection": "Analyzes the TypeScript program to find unused exports, unused files and unreachable code with confidence scoring.",
+      "code_duplication": "Compares normalized syntax trees to find exact and renamed clones, with similarity scores and refactoring suggestions.",
       "false_positive_filtering": "Smart pattern detection distinguishes CLI functions, public APIs, and utility functions.",
       "jsdoc_annotations": "Developer-controlled exclusions with permanent and temporary options."
     },
@@ -413,7 +486,16 @@ ANALYSIS OPTIONS:
   --include-any            Include TypeScript 'any' pattern violations (optional)
   --archaeology            Run technical debt analysis (dead code + duplication)
   --include-archaeology    Add archaeology analysis to standard checks
+  --complexity             Report complex functions and hard-to-maintain files
+  --circular               Report import cycles between project modules
+  --architecture           Check imports against layer rules in sidequest.config.json
+  --commands               Run external tools declared in sidequest.config.json
+  --import-reports [glob]  Import SARIF/ESLint JSON reports (default: "reports" in sidequest.config.json)
+  --dependencies           Report unused, undeclared and misplaced package.json dependencies
   --path <dir>             Target directory (default: app)
+  --workspaces             Analyze each workspace package under --path with its own tsconfig and ESLint config
+  --blame                  Record the last author, commit and date of each violation's line
+  --owners                 Resolve violation owners from CODEOWNERS and group results by owner
   --color-scheme <mode>    Color mode: auto, light, dark
   --data-dir <dir>         Database directory (default: ./data)
   --resume                 Resume previous watch session with stats
@@ -423,6 +505,58 @@ OUTPUT OPTIONS:
   --verbose                Detailed JSON output format
   --burndown               Show burndown analysis
   --prd                    Generate PRD file for task master ingestion
+  --format <type>          Output format: console (default), sarif, json, html
+  --output <file>          Write the formatted report to a file
+                          (sarif/json default to stdout, html to sidequest-report.html;
+                          logs go to stderr while a report is printed)
+  --baseline <file>        Fail only on violations not recorded in the baseline file
+  --update-baseline        Write current violations to the baseline file
+                          (default: .sidequest-baseline.json)
+  --suppressions <file>    Waivers to leave out of the results
+                          (default: .sidequest-suppressions.json when present)
+
+QUERY COMMAND:
+  --query [terms]          Query stored violations; terms are key=value, lists comma-separated
+    rule, category, source, severity, owner   Match any of the values
+    status=<statuses|all>  Violation status (default: active)
+    path=<glob>            Stored file path glob, e.g. "src/api/**"
+    since, until           First seen on or after / on or before a date
+    sort=[-]<field>        file, rule, category, source, severity, status, first_seen,
+                          last_seen; with group: key, count, files, first_seen, last_seen
+    group=<field>          rule, category, source, severity, status, file, owner, author
+    limit=<n>              Most rows (or groups) to print
+    format=<type>          table (default), json or csv
+
+WAIVER COMMANDS:
+  --waive                  Add a waiver to the suppressions file; needs --reason and
+                          at least one of --fingerprint, --rule or --file
+    --reason <text>        Why the violation is accepted (required)
+    --fingerprint <hash>   Fingerprint of one violation (from --format json)
+    --rule <id>            Rule ID, e.g. no-explicit-any or TS2322
+    --file <glob>          Path glob relative to the suppressions file
+    --owner <name>         Who is accountable for the waiver
+    --until <date|version> Expire after YYYY-MM-DD or once package.json reaches a version
+  --waivers                List waivers and whether they have expired
+
+QUALITY GATE OPTIONS:
+  --gate <file>            JSON gate file: maxTotal, maxBySeverity, maxByCategory,
+                          maxBySource, noNewErrors, noNewViolations
+  --max-violations <n>     Fail when more than n violations are found
+  --max-errors <n>         Fail when more than n errors are found
+  --max-warnings <n>       Fail when more than n warnings are found
+  --no-new-errors          With --baseline, fail only on new errors
+
+CHANGED FILES OPTIONS:
+  --changed-since <ref>    Report only on files changed since the merge base with ref
+                          (includes uncommitted and untracked files)
+  --staged                 Report only on files staged for commit
+  --changed-lines          With either mode, keep only violations on changed lines
+
+EXIT CODES:
+  0  Analysis completed and the quality gate passed
+  1  Quality gate failed (thresholds are listed in the gate section)
+  2  Tool crash or invalid configuration
+  3  Setup issues detected (analysis tools misconfigured or failing)
 
 CONFIGURATION:
   --config [action]        Manage user preferences
@@ -453,6 +587,33 @@ EXAMPLES:
   # Generate PRD file for task master
   sidequest --prd
 
+  # SARIF report for code-scanning dashboards
+  sidequest --include-eslint --format sarif --output sidequest.sarif
+
+  # Self-contained HTML report
+  sidequest --format html --output reports/quality.html
+
+  # CI ratchet: record existing violations, then fail only on new ones
+  sidequest --no-persistence --update-baseline --baseline .sidequest-baseline.json
+  sidequest --no-persistence --baseline .sidequest-baseline.json
+
+  # Ad-hoc questions about stored violations
+  sidequest --query severity=error group=owner
+  sidequest --query rule=no-explicit-any path="src/**" since=2026-01-01 sort=-first_seen format=csv
+
+  # Waive a violation for a quarter, then list waivers
+  sidequest --waive --rule no-explicit-any --file "src/legacy/**" --reason "Replaced by v2 API" --owner @dana --until 2026-12-31
+  sidequest --waivers
+
+  # Block commits on any TypeScript or ESLint error
+  sidequest --no-persistence --include-eslint --max-errors 0
+
+  # Pull request check: only files and lines changed on this branch
+  sidequest --no-persistence --include-eslint --changed-since origin/main --changed-lines
+
+  # Pre-commit hook: only staged files
+  sidequest --no-persistence --include-eslint --staged --max-errors 0
+
   # Custom data directory (project-scoped)
   sidequest --data-dir ./project-data
 
@@ -756,6 +917,28 @@ function displayConsoleResults(result: OrchestratorResult): void {
     }
   }
 
+  if (summary.byPackage) {
+    console.log(`\n${colors.warning}By Package:${colors.reset}`);
+    for (const [packageName, count] of Object.entries(summary.byPackage).sort(
+      ([, a], [, b]) => b - a,
+    )) {
+      console.log(
+        `  📦 ${colors.info}${packageName}:${colors.reset} ${colors.primary}${count}${colors.reset}`,
+      );
+    }
+  }
+
+  if (summary.byOwner) {
+    console.log(`\n${colors.warning}By Owner:${colors.reset}`);
+    for (const [owner, count] of Object.entries(summary.byOwner).sort(
+      ([, a], [, b]) => b - a,
+    )) {
+      console.log(
+        `  👥 ${colors.info}${owner}:${colors.reset} ${colors.primary}${count}${colors.reset}`,
+      );
+    }
+  }
+
   // Enhanced Zod Analysis Section
   if (summary.bySource["zod-detection"] > 0) {
     displayZodAnalysisSection(violations, colors);
@@ -868,6 +1051,44 @@ function displayZodAnalysisSection(
   );
 }
 
+/**
+ * PRD section grouping violations by CODEOWNERS owner, or by the last
+ * author of their lines when only blame is available
+ */
+function formatOwnershipSection(violations: OrchestratorViolation[]): string {
+  const useOwners = violations.some((v) => v.owners);
+  const groups = new Map<string, OrchestratorViolation[]>();
+  for (const violation of violations) {
+    const keys = useOwners
+      ? (violation.owners ?? [])
+      : violation.blame
+        ? [violation.blame.author]
+        : [];
+    for (const key of keys) {
+      const group = groups.get(key) ?? [];
+      group.push(violation);
+      groups.set(key, group);
+    }
+  }
+  if (groups.size === 0) {
+    return "";
+  }
+
+  const lines = [...groups.entries()]
+    .sort(([, a], [, b]) => b.length - a.length)
+    .slice(0, 10)
+    .map(([key, owned]) => {
+      const files = new Set(owned.map((v) => v.file)).size;
+      const errors = owned.filter((v) => v.severity === "error").length;
+      return `- **${key}**: ${owned.length} violations in ${files} files (${errors} errors)`;
+    });
+  return `
+
+### Priority 4: Ownership
+${useOwners ? "Violations by CODEOWNERS owner:" : "Violations by last author of the line:"}
+${lines.join("\n")}`;
+}
+
 /**
  * Generate PRD file for Claude Task Master ingestion
  * @archaeology-exclude permanent "CLI entry point used by --prd flag"
@@ -962,7 +1183,7 @@ ${[...new Set(violations.map((v) => v.file))]
   .sort((a, b) => b.count - a.count)
   .slice(0, 10)
   .map((f) => `- ${f.file}: ${f.count} violations`)
-  .join("\n")}
+  .join("\n")}${formatOwnershipSection(violations)}
 
 ## Technical Approach
 
@@ -1044,6 +1265,322 @@ ${[...new Set(violations.map((v) => v.file))]
   }
 }
 
+/**
+ * Log to stderr when stdout carries machine-readable output
+ */
+function logStatus(message: string): void {
+  if (flags.verbose || flags.format !== "console") {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
+
+/**
+ * Whether a SARIF or JSON document is printed to stdout
+ */
+function reportsToStdout(): boolean {
+  return (
+    (flags.format === "sarif" || flags.format === "json") &&
+    !flags.outputFile &&
+    !flags.watch
+  );
+}
+
+/**
+ * Send console.log output to stderr so engine and service logging cannot
+ * corrupt a document printed to stdout
+ */
+function routeLogsToStderr(): void {
+  console.log = (...data: unknown[]) => console.error(...data);
+  console.info = console.log;
+}
+
+/**
+ * Handle --baseline / --update-baseline ratchet mode
+ * The comparison feeds the quality gate, which decides the exit code
+ */
+async function handleBaseline(
+  result: OrchestratorResult,
+): Promise<BaselineComparison | undefined> {
+  const colors = getColorScheme();
+
+  if (flags.updateBaseline) {
+    const baselineFile = flags.baselineFile || DEFAULT_BASELINE_PATH;
+    const baseline = createBaseline(result.violations);
+    await saveBaseline(baselineFile, baseline);
+    logStatus(
+      `${colors.success}📌 Baseline updated: ${baseline.entries.length} entries written to ${baselineFile}${colors.reset}`,
+    );
+    return undefined;
+  }
+
+  if (!flags.baselineFile) {
+    return undefined;
+  }
+
+  let baseline;
+  try {
+    baseline = await loadBaseline(flags.baselineFile);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Could not load baseline ${flags.baselineFile} (${reason}). Create it with --update-baseline.`,
+    );
+  }
+
+  return compareWithBaseline(result.violations, baseline);
+}
+
+/**
+ * Summarize a baseline comparison for JSON output
+ */
+function summarizeBaselineComparison(comparison: BaselineComparison) {
+  return {
+    file: flags.baselineFile,
+    passed: comparison.newViolations.length === 0,
+    baselinedCount: comparison.baselinedCount,
+    newCount: comparison.newViolations.length,
+    fixedCount: comparison.fixedEntries.reduce(
+      (sum, entry) => sum + entry.fixedCount,
+      0,
+    ),
+    newViolations: comparison.newViolations,
+    fixedEntries: comparison.fixedEntries,
+  };
+}
+
+/**
+ * Display baseline comparison results
+ */
+function displayBaselineResults(comparison: BaselineComparison): void {
+  const colors = getColorScheme();
+  const { newViolations, fixedEntries, baselinedCount } = comparison;
+
+  logStatus(
+    `\n${colors.bold}${colors.header}📌 Baseline (${flags.baselineFile})${colors.reset}`,
+  );
+  logStatus(
+    `${colors.secondary}Baselined: ${colors.primary}${baselinedCount}${colors.reset}  ${colors.secondary}New: ${colors.primary}${newViolations.length}${colors.reset}  ${colors.secondary}Fixed entries: ${colors.primary}${fixedEntries.length}${colors.reset}`,
+  );
+
+  for (const violation of newViolations.slice(0, 20)) {
+    logStatus(
+      `  ${colors.error}+ ${violation.file}:${violation.line}${colors.reset} ${colors.secondary}${violation.rule || violation.category}: ${violation.message || violation.code}${colors.reset}`,
+    );
+  }
+  if (newViolations.length > 20) {
+    logStatus(
+      `  ${colors.muted}... and ${newViolations.length - 20} more${colors.reset}`,
+    );
+  }
+
+  for (const entry of fixedEntries.slice(0, 20)) {
+    logStatus(
+      `  ${colors.success}- ${entry.file}${colors.reset} ${colors.secondary}${entry.rule} (${entry.fixedCount} fixed)${colors.reset}`,
+    );
+  }
+  if (fixedEntries.length > 0) {
+    logStatus(
+      `${colors.info}Run with --update-baseline to shrink the baseline file.${colors.reset}`,
+    );
+  }
+
+  logStatus(
+    newViolations.length > 0
+      ? `${colors.error}❌ ${newViolations.length} violation(s) not covered by the baseline${colors.reset}`
+      : `${colors.success}✅ No new violations beyond the baseline${colors.reset}`,
+  );
+}
+
+/**
+ * Display waivers that applied, expired or matched nothing
+ */
+function displaySuppressionResults(suppressions: SuppressionReport): void {
+  const colors = getColorScheme();
+  const { suppressed, expired, unused } = suppressions;
+
+  logStatus(
+    `\n${colors.bold}${colors.header}📝 Waivers (${suppressions.file})${colors.reset}`,
+  );
+  logStatus(
+    `${colors.secondary}Suppressed: ${colors.primary}${suppressed.length}${colors.reset}  ${colors.secondary}Expired: ${colors.primary}${expired.length}${colors.reset}  ${colors.secondary}Unused: ${colors.primary}${unused.length}${colors.reset}`,
+  );
+
+  for (const suppression of expired) {
+    logStatus(
+      `  ${colors.warning}⌛ ${describeSuppression(suppression)}${colors.reset} ${colors.secondary}${formatSuppressionDetails(suppression)}${colors.reset}`,
+    );
+  }
+  for (const suppression of unused) {
+    logStatus(
+      `  ${colors.muted}∅ ${describeSuppression(suppression)}${colors.reset} ${colors.secondary}${formatSuppressionDetails(suppression)}${colors.reset}`,
+    );
+  }
+  if (expired.length > 0 || unused.length > 0) {
+    logStatus(
+      `${colors.info}Remove stale waivers from ${suppressions.file}, or renew them with --waive --until.${colors.reset}`,
+    );
+  }
+}
+
+/**
+ * Build the quality gate configuration from --gate and the threshold flags
+ * Flags override values from the gate file
+ */
+async function loadGateConfig(): Promise<QualityGateConfig> {
+  let config: QualityGateConfig = {};
+
+  if (flags.gateFile) {
+    try {
+      config = await loadQualityGateConfig(flags.gateFile);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not load gate file ${flags.gateFile} (${reason})`);
+    }
+  }
+
+  const maxBySeverity = {
+    ...config.maxBySeverity,
+    ...(flags.maxErrors !== undefined && { error: flags.maxErrors }),
+    ...(flags.maxWarnings !== undefined && { warn: flags.maxWarnings }),
+  };
+
+  config = {
+    ...config,
+    ...(flags.maxViolations !== undefined && { maxTotal: flags.maxViolations }),
+    ...(Object.keys(maxBySeverity).length > 0 && { maxBySeverity }),
+    ...(flags.noNewErrors && { noNewErrors: true }),
+  };
+
+  if ((config.noNewErrors || config.noNewViolations) && !flags.baselineFile) {
+    throw new Error(
+      "The noNewErrors/noNewViolations gates require --baseline <file>",
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Resolve the --changed-since / --staged file scope from local git
+ */
+function resolveAnalysisScope(): AnalysisScope | undefined {
+  if (flags.changedSince && flags.staged) {
+    throw new Error("Use either --changed-since <ref> or --staged, not both");
+  }
+  if (!flags.changedSince && !flags.staged) {
+    if (flags.changedLines) {
+      throw new Error(
+        "--changed-lines requires --changed-since <ref> or --staged",
+      );
+    }
+    return undefined;
+  }
+
+  let scope: AnalysisScope;
+  try {
+    scope = resolveGitScope({
+      changedSince: flags.changedSince,
+      staged: flags.staged,
+      changedLines: flags.changedLines,
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not determine changed files (${reason})`);
+  }
+
+  const colors = getColorScheme();
+  logStatus(
+    `${colors.info}🎯 Limiting analysis to ${scope.files.length} file(s) from ${scope.description}${flags.changedLines ? " (changed lines only)" : ""}${colors.reset}`,
+  );
+  return scope;
+}
+
+/**
+ * Evaluate the quality gate and set the process exit code from it
+ */
+function applyQualityGate(
+  result: OrchestratorResult,
+  gateConfig: QualityGateConfig,
+  baselineComparison: BaselineComparison | undefined,
+): QualityGateResult {
+  const gate = evaluateQualityGate(result, gateConfig, baselineComparison);
+  process.exitCode = getGateExitCode(gate);
+  return gate;
+}
+
+/**
+ * Display quality gate results when a gate is configured or setup issues were found
+ */
+function displayQualityGateResults(gate: QualityGateResult): void {
+  const colors = getColorScheme();
+
+  if (gate.setupIssueCount > 0) {
+    logStatus(
+      `\n${colors.error}🚨 ${gate.setupIssueCount} setup issue(s) detected - exiting with code ${EXIT_CODES.SETUP_ISSUE}${colors.reset}`,
+    );
+  }
+
+  if (Object.keys(gate.config).length === 0) {
+    return;
+  }
+
+  logStatus(`\n${colors.bold}${colors.header}🚦 Quality Gate${colors.reset}`);
+  for (const breach of gate.breaches) {
+    logStatus(
+      `  ${colors.error}✗ ${breach.threshold}${colors.reset} ${colors.secondary}${breach.message}${colors.reset}`,
+    );
+  }
+  logStatus(
+    gate.passed
+      ? `${colors.success}✅ Quality gate passed${colors.reset}`
+      : `${colors.error}❌ Quality gate failed (${gate.breaches.length} threshold(s) breached)${colors.reset}`,
+  );
+}
+
+/**
+ * Emit machine-readable output for --format sarif|json|html
+ * HTML files are written by the orchestrator from its output config; JSON
+ * is written once, here, so the report includes the gate section.
+ */
+async function emitFormattedReport(
+  result: OrchestratorResult,
+  gate: QualityGateResult,
+): Promise<void> {
+  const toolVersion = await getPackageVersion();
+
+  if (flags.format === "sarif") {
+    const sarif = await writeSarifReport(result, flags.outputFile, {
+      toolVersion,
+    });
+
+    if (flags.outputFile) {
+      const colors = getColorScheme();
+      console.log(
+        `${colors.success}📄 SARIF report written to ${flags.outputFile}${colors.reset}`,
+      );
+    } else {
+      process.stdout.write(`${sarif}\n`);
+    }
+    return;
+  }
+
+  if (flags.format === "json") {
+    const options = { targetPath: flags.targetPath, toolVersion, gate };
+    if (flags.outputFile) {
+      await writeJsonReport(result, flags.outputFile, options);
+      const colors = getColorScheme();
+      console.log(
+        `${colors.success}📄 JSON report written to ${flags.outputFile}${colors.reset}`,
+      );
+    } else {
+      const report = createJsonReport(result, options);
+      process.stdout.write(`${JSON.stringify(report, undefined, 2)}\n`);
+    }
+  }
+}
+
 /**
  * Check for first-time setup and run if needed
  */
@@ -1196,6 +1733,154 @@ async function handleConfigCommand(action: string): Promise<void> {
   }
 }
 
+/**
+ * Database the persistence system uses, honoring --data-dir
+ */
+function resolveDatabasePath(defaultPath: string): string {
+  return flags.dataDir === "./data"
+    ? defaultPath
+    : `${flags.dataDir}/code-quality.db`;
+}
+
+/**
+ * Handle --query: filter, sort and group stored violations
+ * Prints only the results, so CSV and JSON output can be piped.
+ */
+async function handleQueryCommand(terms: string[]): Promise<void> {
+  const colors = getColorScheme();
+
+  let parsed;
+  try {
+    parsed = parseQueryTerms(terms, flags.format === "json" ? "json" : "table");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`${colors.error}❌ ${reason}${colors.reset}`);
+    console.error(
+      `${colors.secondary}Usage: --query [rule=<ids>] [category=<names>] [source=<engines>] [severity=<levels>] [status=<statuses>|all] [path=<glob>] [owner=<owners>] [since=<date>] [until=<date>] [sort=[-]<field>] [group=<field>] [limit=<n>] [format=table|json|csv]${colors.reset}`,
+    );
+    process.exit(EXIT_CODES.TOOL_CRASH);
+  }
+
+  const databasePath = resolveDatabasePath(
+    createUnifiedConfigFromFlags(flags as BridgeCLIFlags).database.path,
+  );
+  if (!existsSync(databasePath)) {
+    console.error(
+      `${colors.error}❌ No violation database at ${databasePath}. Run an analysis first.${colors.reset}`,
+    );
+    process.exit(EXIT_CODES.TOOL_CRASH);
+  }
+
+  // Connection messages would end up in piped CSV or JSON
+  const log = console.log;
+  console.log = () => {};
+  let rows;
+  try {
+    await initializeDatabase({ path: databasePath });
+    const violations = await new StorageService().queryViolations(parsed.query);
+    rows = violations.map((violation) => toQueryRow(violation));
+  } finally {
+    await closeDatabase();
+    console.log = log;
+  }
+
+  const results = parsed.groupBy
+    ? groupQueryRows(rows, parsed.groupBy, parsed.groupSort, parsed.groupLimit)
+    : rows;
+  process.stdout.write(
+    formatQueryResults(results, parsed.format, parsed.groupBy),
+  );
+}
+
+/**
+ * Details of a waiver for console listings
+ */
+function formatSuppressionDetails(suppression: Suppression): string {
+  const details = [
+    suppression.owner && `owner ${suppression.owner}`,
+    suppression.until && `until ${suppression.until}`,
+  ].filter(Boolean);
+  return `"${suppression.reason}"${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
+
+/**
+ * Handle --waive: add a waiver to the suppressions file
+ */
+async function handleWaiveCommand(): Promise<void> {
+  const colors = getColorScheme();
+  const suppressionsFile = flags.suppressionsFile || DEFAULT_SUPPRESSIONS_PATH;
+
+  try {
+    const suppression = await addSuppression(suppressionsFile, {
+      ...(flags.waiverFingerprint && { fingerprint: flags.waiverFingerprint }),
+      ...(flags.waiverRule && { rule: flags.waiverRule }),
+      ...(flags.waiverPath && { path: flags.waiverPath }),
+      reason: flags.waiverReason ?? "",
+      ...(flags.waiverOwner && { owner: flags.waiverOwner }),
+      ...(flags.waiverUntil && { until: flags.waiverUntil }),
+    });
+    console.log(
+      `${colors.success}✅ Waiver added to ${suppressionsFile}: ${describeSuppression(suppression)}${colors.reset}`,
+    );
+    console.log(
+      `${colors.secondary}   ${formatSuppressionDetails(suppression)}${colors.reset}`,
+    );
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(
+      `${colors.error}❌ Could not add waiver: ${reason}${colors.reset}`,
+    );
+    console.error(
+      `${colors.secondary}Usage: --waive --reason <text> [--fingerprint <hash>] [--rule <id>] [--file <glob>] [--owner <name>] [--until <YYYY-MM-DD|version>]${colors.reset}`,
+    );
+    process.exit(EXIT_CODES.TOOL_CRASH);
+  }
+}
+
+/**
+ * Handle --waivers: list the waivers in the suppressions file
+ */
+async function handleListWaivers(): Promise<void> {
+  const colors = getColorScheme();
+  const suppressionsFile = flags.suppressionsFile || DEFAULT_SUPPRESSIONS_PATH;
+
+  let suppressions: Suppression[];
+  try {
+    ({ suppressions } = await loadSuppressions(suppressionsFile));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(
+      `${colors.error}❌ Could not load suppressions ${suppressionsFile} (${reason}). Add a waiver with --waive.${colors.reset}`,
+    );
+    process.exit(EXIT_CODES.TOOL_CRASH);
+  }
+
+  console.log(
+    `${colors.bold}${colors.header}📝 Waivers (${suppressionsFile})${colors.reset}\n`,
+  );
+  if (suppressions.length === 0) {
+    console.log(`${colors.secondary}No waivers${colors.reset}`);
+    return;
+  }
+
+  const projectVersion = readProjectVersion(
+    path.dirname(path.resolve(suppressionsFile)),
+  );
+  for (const suppression of suppressions) {
+    const expired = isSuppressionExpired(
+      suppression,
+      new Date(),
+      projectVersion,
+    );
+    console.log(
+      `  ${expired ? `${colors.warning}⌛ expired` : `${colors.success}✓ active`}${colors.reset}  ${colors.primary}${describeSuppression(suppression)}${colors.reset}`,
+    );
+    console.log(
+      `             ${colors.secondary}${formatSuppressionDetails(suppression)}${colors.reset}`,
+    );
+  }
+}
+
 /**
  * Intercept and provide helpful suggestions for common user errors
  */
@@ -1363,6 +2048,23 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
+  // Handle database queries
+  if (flags.queryTerms) {
+    await handleQueryCommand(flags.queryTerms);
+    process.exit(0);
+  }
+
+  // Handle waiver commands
+  if (flags.waive) {
+    await handleWaiveCommand();
+    process.exit(0);
+  }
+
+  if (flags.listWaivers) {
+    await handleListWaivers();
+    process.exit(0);
+  }
+
   // Handle shortcuts installation for pnpm compatibility
   if (flags.installShortcuts) {
     await handleInstallShortcuts();
@@ -1371,8 +2073,8 @@ async function main(): Promise<void> {
 
   // Check for first-run setup (smart detection)
   // Check for first-run setup (smart detection)
-  // Always run setup check unless in automation mode (verbose flag indicates LLM/automation)
-  if (flags.verbose) {
+  // Always run setup check unless in automation mode (verbose flag or machine-readable format indicates LLM/automation)
+  if (flags.verbose || flags.format !== "console") {
     debugLog(
       "CLI",
       "Skipping setup check due to verbose mode (automation detected)",
@@ -1426,6 +2128,14 @@ async function main(): Promise<void> {
   });
   const usePersistence = flags.usePersistence;
 
+  if (reportsToStdout()) {
+    routeLogsToStderr();
+  }
+
+  // Resolve gate thresholds and file scope before analysis so configuration errors fail fast
+  const gateConfig = flags.watch ? {} : await loadGateConfig();
+  const scope = flags.watch ? undefined : resolveAnalysisScope();
+
   if (usePersistence) {
     console.log(
       `${colors.info}🚀 Using enhanced SQLite persistence system...${colors.reset}`,
@@ -1447,9 +2157,7 @@ async function main(): Promise<void> {
 
       // Create unified orchestrator with custom data directory if specified
       const baseConfig = createUnifiedConfigFromFlags(flags as BridgeCLIFlags);
-      if (flags.dataDir !== "./data") {
-        baseConfig.database.path = `${flags.dataDir}/code-quality.db`;
-      }
+      baseConfig.database.path = resolveDatabasePath(baseConfig.database.path);
 
       const orchestrator = new UnifiedOrchestrator(baseConfig);
       await orchestrator.initialize();
@@ -1510,7 +2218,7 @@ async function main(): Promise<void> {
         const unifiedOrchestrator = new UnifiedOrchestrator(unifiedConfig);
         await unifiedOrchestrator.initialize();
 
-        const result = await unifiedOrchestrator.analyze();
+        const result = await unifiedOrchestrator.analyze(undefined, { scope });
 
         // Note: Persistence is now handled automatically by the unified orchestrator
 
@@ -1519,7 +2227,15 @@ async function main(): Promise<void> {
           await generatePRD(result.violations, flags.targetPath);
         }
 
-        if (flags.verbose) {
+        const baselineComparison = await handleBaseline(result);
+        const baselineSummary = baselineComparison
+          ? summarizeBaselineComparison(baselineComparison)
+          : undefined;
+        const gate = applyQualityGate(result, gateConfig, baselineComparison);
+
+        if (flags.format !== "console") {
+          await emitFormattedReport(result, gate);
+        } else if (flags.verbose) {
           try {
             // Check for setup issues and add warning for LLMs/automation
             const setupIssues = result.violations.filter(
@@ -1541,6 +2257,8 @@ async function main(): Promise<void> {
             const enhancedResult = {
               ...result,
               ...(setupWarning && { setupWarning }),
+              ...(baselineSummary && { baseline: baselineSummary }),
+              gate,
               database: {
                 summary: await orchestrator
                   .getStorageService()
@@ -1572,6 +2290,8 @@ async function main(): Promise<void> {
             const fallbackResult = {
               ...result,
               ...(setupWarning && { setupWarning }),
+              ...(baselineSummary && { baseline: baselineSummary }),
+              gate,
             };
             console.log(JSON.stringify(fallbackResult, undefined, 2));
             if (flags.verbose) {
@@ -1598,11 +2318,21 @@ async function main(): Promise<void> {
           }
         }
 
+        if (!flags.verbose) {
+          if (baselineComparison) {
+            displayBaselineResults(baselineComparison);
+          }
+          if (result.suppressions) {
+            displaySuppressionResults(result.suppressions);
+          }
+          displayQualityGateResults(gate);
+        }
+
         await orchestrator.shutdown();
       }
     } catch (error) {
       console.error("[Enhanced Orchestrator] Error:", error);
-      process.exit(1);
+      process.exit(EXIT_CODES.TOOL_CRASH);
     }
   } else {
     // Unified orchestrator mode (replaces legacy mode)
@@ -1615,18 +2345,40 @@ async function main(): Promise<void> {
     const unifiedOrchestrator = new UnifiedOrchestrator(unifiedConfig);
     await unifiedOrchestrator.initialize();
 
-    const result = await unifiedOrchestrator.analyze();
+    const result = await unifiedOrchestrator.analyze(undefined, { scope });
 
     // Generate PRD if requested
     if (flags.generatePRD) {
       await generatePRD(result.violations, flags.targetPath);
     }
 
-    if (flags.verbose) {
-      console.log(JSON.stringify(result, undefined, 2));
+    const baselineComparison = await handleBaseline(result);
+    const gate = applyQualityGate(result, gateConfig, baselineComparison);
+
+    if (flags.format !== "console") {
+      await emitFormattedReport(result, gate);
+    } else if (flags.verbose) {
+      const output = {
+        ...result,
+        ...(baselineComparison && {
+          baseline: summarizeBaselineComparison(baselineComparison),
+        }),
+        gate,
+      };
+      console.log(JSON.stringify(output, undefined, 2));
     } else {
       displayConsoleResults(result);
     }
+
+    if (!flags.verbose) {
+      if (baselineComparison) {
+        displayBaselineResults(baselineComparison);
+      }
+      if (result.suppressions) {
+        displaySuppressionResults(result.suppressions);
+      }
+      displayQualityGateResults(gate);
+    }
   }
 }
 
@@ -1635,6 +2387,6 @@ async function main(): Promise<void> {
 if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch((error) => {
     console.error("[CLI] Unexpected error:", error);
-    process.exit(1);
+    process.exit(EXIT_CODES.TOOL_CRASH);
   });
 }
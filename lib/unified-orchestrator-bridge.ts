@@ -6,13 +6,19 @@
  * migration from dual orchestrator architecture.
  */
 
+import { existsSync } from "node:fs";
 import type { UnifiedOrchestratorConfig } from "../services/unified-orchestrator.js";
+import { DEFAULT_SUPPRESSIONS_PATH } from "../utils/suppressions.js";
 
 /**
  * CLI flags interface (extracted from existing CLI implementation)
  */
 export interface CLIFlags {
   targetPath: string;
+  workspaces?: boolean;
+  blame?: boolean;
+  owners?: boolean;
+  suppressionsFile?: string | undefined;
   eslintOnly?: boolean;
   includeAny?: boolean;
   strict?: boolean;
@@ -23,6 +29,54 @@ export interface CLIFlags {
   watch?: boolean;
   archaeology?: boolean;
   includeArchaeology?: boolean;
+  complexity?: boolean;
+  circular?: boolean;
+  architecture?: boolean;
+  commands?: boolean;
+  importReports?: string | undefined;
+  dependencies?: boolean;
+  format?: "console" | "sarif" | "json" | "html";
+  outputFile?: string | undefined;
+}
+
+/**
+ * Default file for HTML reports when --output is not given
+ */
+export const DEFAULT_HTML_REPORT_PATH = "sidequest-report.html";
+
+/**
+ * Map --format/--output onto the orchestrator's json/html report targets
+ * (SARIF and single-run JSON are written by the CLI itself, which adds the
+ * quality gate section; watch mode rewrites the JSON file after each cycle)
+ */
+function createReportOutputs(
+  flags: CLIFlags,
+): Pick<NonNullable<UnifiedOrchestratorConfig["output"]>, "json" | "html"> {
+  switch (flags.format) {
+    case "json": {
+      return flags.watch && flags.outputFile ? { json: flags.outputFile } : {};
+    }
+    case "html": {
+      return { html: flags.outputFile || DEFAULT_HTML_REPORT_PATH };
+    }
+    default: {
+      return {};
+    }
+  }
+}
+
+/**
+ * Use --suppressions, or the default suppressions file when one is committed
+ */
+function resolveSuppressionsFile(
+  flags: CLIFlags,
+): Pick<UnifiedOrchestratorConfig, "suppressionsFile"> {
+  if (flags.suppressionsFile) {
+    return { suppressionsFile: flags.suppressionsFile };
+  }
+  return existsSync(DEFAULT_SUPPRESSIONS_PATH)
+    ? { suppressionsFile: DEFAULT_SUPPRESSIONS_PATH }
+    : {};
 }
 
 // convertLegacyToUnifiedConfig function removed - no longer needed
@@ -82,12 +136,54 @@ export function createUnifiedConfigFromFlags(
         options: {
           targetPath: flags.targetPath,
           deadCode: { enabled: true, threshold: 0.8 },
-          duplication: { enabled: true, minTokens: 50, threshold: 0.95 },
+          duplication: { enabled: true, minTokens: 50, threshold: 0.8 },
         },
         priority: 5,
         timeout: 60_000, // Longer timeout for archaeology analysis
         allowFailure: true,
       },
+      complexity: {
+        enabled: flags.complexity || false,
+        options: {},
+        priority: 6,
+        timeout: 60_000,
+        allowFailure: true,
+      },
+      circularDependencies: {
+        enabled: flags.circular || false,
+        options: { ignoreTypeOnly: true },
+        priority: 7,
+        timeout: 60_000,
+        allowFailure: true,
+      },
+      architecture: {
+        enabled: flags.architecture || false,
+        options: {},
+        priority: 8,
+        timeout: 60_000,
+        allowFailure: true,
+      },
+      commands: {
+        enabled: flags.commands || false,
+        options: {},
+        priority: 9,
+        timeout: 120_000,
+        allowFailure: true,
+      },
+      reportImport: {
+        enabled: flags.importReports !== undefined,
+        options: flags.importReports ? { reports: [flags.importReports] } : {},
+        priority: 10,
+        timeout: 60_000,
+        allowFailure: true,
+      },
+      dependencies: {
+        enabled: flags.dependencies || false,
+        options: {},
+        priority: 11,
+        timeout: 60_000,
+        allowFailure: true,
+      },
     },
     deduplication: {
       enabled: true,
@@ -99,9 +195,16 @@ export function createUnifiedConfigFromFlags(
       warnOnDuplicateViolations: true,
       failOnCrossover: flags.failOnCrossover || false,
     },
+    workspaces: flags.workspaces || false,
+    ownership: {
+      blame: flags.blame || false,
+      codeowners: flags.owners || false,
+    },
+    ...resolveSuppressionsFile(flags),
     output: {
       console: !flags.verbose, // Console output disabled in verbose mode (JSON only)
       ...(flags.verbose ? { json: "stdout" } : {}),
+      ...createReportOutputs(flags),
     },
 
     // Service Configuration
@@ -140,10 +243,23 @@ export function createWatchModeConfig(
     ...baseConfig,
     engines: {
       ...baseConfig.engines,
-      // In watch mode, always enable ESLint for comprehensive analysis
+      // In watch mode, keep the compiler program warm between cycles
+      typescript: {
+        ...baseConfig.engines.typescript!,
+        options: {
+          ...baseConfig.engines.typescript!.options,
+          incremental: true,
+        },
+      },
+      // In watch mode, always enable ESLint for comprehensive analysis,
+      // linting in-process so its cache carries across cycles
       eslint: {
         ...baseConfig.engines.eslint!,
         enabled: true,
+        options: {
+          ...baseConfig.engines.eslint!.options,
+          inProcess: true,
+        },
       },
       // In watch mode, enable archaeology if requested (not by default due to performance)
       archaeology: {
@@ -217,12 +333,54 @@ export function createPRDConfig(flags: CLIFlags): UnifiedOrchestratorConfig {
         options: {
           targetPath: flags.targetPath,
           deadCode: { enabled: true, threshold: 0.8 },
-          duplication: { enabled: true, minTokens: 50, threshold: 0.95 },
+          duplication: { enabled: true, minTokens: 50, threshold: 0.8 },
         },
         priority: 5,
         timeout: 120_000, // Extra long timeout for comprehensive PRD analysis
         allowFailure: true,
       },
+      complexity: {
+        enabled: flags.complexity || false,
+        options: {},
+        priority: 6,
+        timeout: 120_000,
+        allowFailure: true,
+      },
+      circularDependencies: {
+        enabled: flags.circular || false,
+        options: { ignoreTypeOnly: true },
+        priority: 7,
+        timeout: 120_000,
+        allowFailure: true,
+      },
+      architecture: {
+        enabled: flags.architecture || false,
+        options: {},
+        priority: 8,
+        timeout: 120_000,
+        allowFailure: true,
+      },
+      commands: {
+        enabled: flags.commands || false,
+        options: {},
+        priority: 9,
+        timeout: 240_000,
+        allowFailure: true,
+      },
+      reportImport: {
+        enabled: flags.importReports !== undefined,
+        options: flags.importReports ? { reports: [flags.importReports] } : {},
+        priority: 10,
+        timeout: 120_000,
+        allowFailure: true,
+      },
+      dependencies: {
+        enabled: flags.dependencies || false,
+        options: {},
+        priority: 11,
+        timeout: 120_000,
+        allowFailure: true,
+      },
     },
     crossover: {
       enabled: true, // Always enable crossover detection for PRD
@@ -232,6 +390,7 @@ export function createPRDConfig(flags: CLIFlags): UnifiedOrchestratorConfig {
     },
     output: {
       console: false, // Disable console output for PRD generation
+      ...createReportOutputs(flags),
     },
   };
 }
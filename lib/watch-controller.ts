@@ -5,6 +5,7 @@
  */
 
 import { EventEmitter } from "node:events";
+import path from "node:path";
 import type { CLIFlags } from "../utils/types.js";
 import type { ColorScheme } from "../shared/types.js";
 import type {
@@ -16,6 +17,7 @@ import type { SessionManager } from "../services/session-manager.js";
 import type { DeveloperWatchDisplay } from "./watch-display-v2.js";
 import type { UnifiedOrchestrator } from "../services/unified-orchestrator.js";
 import { WatchStateManager } from "../services/watch-state-manager.js";
+import { FileWatcher } from "../services/file-watcher.js";
 import { processViolationSummary } from "./cli.js";
 import { debugLog } from "../utils/debug-logger.js";
 
@@ -39,8 +41,9 @@ export interface WatchControllerConfig {
 export class WatchController extends EventEmitter {
   private config: WatchControllerConfig;
   private stateManager: WatchStateManager;
-  private watchInterval: ReturnType<typeof setInterval> | undefined = undefined;
+  private fileWatcher: FileWatcher | undefined = undefined;
   private watchTimeout: ReturnType<typeof setTimeout> | undefined = undefined;
+  private rerunRequested = false;
 
   constructor(config: WatchControllerConfig) {
     super();
@@ -121,23 +124,19 @@ export class WatchController extends EventEmitter {
         });
       }
 
-      // Start orchestrator watch mode
+      // Start orchestrator watch mode; re-analysis is driven by file events
+      const watchModeOptions = {
+        debounceMs: orchestrator.getUnifiedConfig().watch.debounceMs,
+        autoCleanup: true,
+        maxConcurrentChecks: 3,
+        analysisTrigger: "external" as const,
+      };
       debugLog(
         "WatchController",
         "Starting orchestrator watch mode with config",
-        {
-          intervalMs: 3000,
-          debounceMs: 500,
-          autoCleanup: true,
-          maxConcurrentChecks: 3,
-        },
+        watchModeOptions,
       );
-      await orchestrator.startWatchMode({
-        intervalMs: 3000,
-        debounceMs: 500,
-        autoCleanup: true,
-        maxConcurrentChecks: 3,
-      });
+      await orchestrator.startWatchMode(watchModeOptions);
 
       // Enable silent mode for services during watch
       debugLog("WatchController", "Enabling silent mode for orchestrator");
@@ -211,15 +210,22 @@ export class WatchController extends EventEmitter {
         );
       }
 
-      // Start watch cycle
-      this.watchInterval = setInterval(() => {
-        if (this.stateManager.canStartAnalysis()) {
-          this.stateManager.startAnalysis();
-          this.runAnalysisCycle()
-            .then(() => this.stateManager.completeAnalysis())
-            .catch((error) => this.handleError(error));
-        }
-      }, 3000);
+      // Re-analyze when files of the analysis target change
+      const { default: ts } = await import("typescript");
+      const targetDirectory = path.resolve(flags.targetPath);
+      this.fileWatcher = new FileWatcher({
+        rootDirectory: targetDirectory,
+        debounceMs: watchModeOptions.debounceMs,
+        tsconfigPath: ts.findConfigFile(targetDirectory, ts.sys.fileExists),
+      });
+      this.fileWatcher.on("change", (files: string[]) =>
+        this.handleFileChanges(files),
+      );
+      await this.fileWatcher.start();
+      debugLog("WatchController", "File watcher started", {
+        rootDirectory: targetDirectory,
+        directories: this.fileWatcher.watchedDirectoryCount,
+      });
 
       // Initial inactivity timeout (10 minutes) - will be reset on activity
       this.resetTimeout();
@@ -249,6 +255,46 @@ export class WatchController extends EventEmitter {
     debugLog("WatchController", "Inactivity timeout reset (10 minutes)");
   }
 
+  /**
+   * Handle a debounced batch of relevant file changes
+   */
+  private handleFileChanges(files: string[]): void {
+    debugLog("WatchController", "Relevant files changed", { files });
+    this.config.orchestrator.notifyFileChanges(files);
+    this.triggerAnalysis();
+  }
+
+  /**
+   * Start an analysis cycle, or queue one if an analysis is already running
+   * so changes saved mid-analysis are not missed
+   */
+  private triggerAnalysis(): void {
+    if (!this.stateManager.canStartAnalysis()) {
+      this.rerunRequested = true;
+      return;
+    }
+
+    this.rerunRequested = false;
+    this.stateManager.startAnalysis();
+    this.runAnalysisCycle()
+      .then(async () => {
+        this.stateManager.completeAnalysis();
+        await this.config.orchestrator.runWatchCycle();
+      })
+      .catch((error) => this.handleError(error))
+      .finally(() => this.runQueuedAnalysis());
+  }
+
+  /**
+   * Run the analysis queued while the last one was running
+   * After a failed analysis it is queued again until the state recovers.
+   */
+  private runQueuedAnalysis(): void {
+    if (this.rerunRequested) {
+      this.triggerAnalysis();
+    }
+  }
+
   /**
    * Run a single analysis cycle
    */
@@ -416,7 +462,9 @@ export class WatchController extends EventEmitter {
 
     // Try to recover to running state
     setTimeout(() => {
-      this.stateManager.recover();
+      if (this.stateManager.recover()) {
+        this.runQueuedAnalysis();
+      }
     }, 5000);
   }
 
@@ -477,9 +525,9 @@ export class WatchController extends EventEmitter {
     // Update state manager
     this.stateManager.shutdown(reason);
 
-    if (this.watchInterval) {
-      clearInterval(this.watchInterval);
-      this.watchInterval = undefined;
+    if (this.fileWatcher) {
+      this.fileWatcher.stop();
+      this.fileWatcher = undefined;
     }
 
     if (this.watchTimeout) {
@@ -283,7 +283,9 @@ export class DeveloperWatchDisplay {
               ? "📝"
               : violation.source === "eslint"
                 ? "🔍"
-                : "🗂️";
+                : violation.source === "custom"
+                  ? "🧩"
+                  : "🗂️";
           const severityColor =
             violation.severity === "error"
               ? this.colors.error
@@ -768,6 +770,8 @@ export class DeveloperWatchDisplay {
     const byCategory: Record<string, number> = {};
     const bySeverity: Record<string, Record<string, number>> = {};
     const byCategoryBySource: Record<string, Record<string, number>> = {};
+    const byPackage: Record<string, number> = {};
+    const byOwner: Record<string, number> = {};
 
     for (const violation of violations) {
       bySource[violation.source] = (bySource[violation.source] || 0) + 1;
@@ -787,6 +791,16 @@ export class DeveloperWatchDisplay {
       }
       byCategoryBySource[violation.source]![violation.category] =
         (byCategoryBySource[violation.source]![violation.category] || 0) + 1;
+
+      // Track workspace packages (workspaces mode only)
+      if (violation.package) {
+        byPackage[violation.package] = (byPackage[violation.package] || 0) + 1;
+      }
+
+      // Track CODEOWNERS owners (--owners only)
+      for (const owner of violation.owners ?? []) {
+        byOwner[owner] = (byOwner[owner] || 0) + 1;
+      }
     }
 
     return {
@@ -795,6 +809,8 @@ export class DeveloperWatchDisplay {
       byCategory,
       bySeverity,
       byCategoryBySource,
+      ...(Object.keys(byPackage).length > 0 && { byPackage }),
+      ...(Object.keys(byOwner).length > 0 && { byOwner }),
     };
   }
 
@@ -911,7 +927,9 @@ export class DeveloperWatchDisplay {
             ? "📝"
             : source === "unused-exports"
               ? "🗂️"
-              : "🔍";
+              : source === "custom"
+                ? "🧩"
+                : "🔍";
 
         process.stdout.write(
           `  ${icon} ${colors.info}${source}:${colors.reset} ${colors.primary}${count}${deltaColor}${deltaString}${colors.reset}\n`,
@@ -957,6 +975,42 @@ export class DeveloperWatchDisplay {
       process.stdout.write("\n");
     }
 
+    // By Package (workspaces mode)
+    if (current.byPackage) {
+      process.stdout.write(`${colors.warning}By Package:${colors.reset}\n`);
+      for (const [packageName, count] of Object.entries(current.byPackage).sort(
+        ([, a], [, b]) => b - a,
+      )) {
+        const delta = count - (baseline_.byPackage?.[packageName] || 0);
+        const deltaString =
+          delta === 0 ? "" : ` (${delta > 0 ? "+" : ""}${delta})`;
+        const deltaColor =
+          delta > 0 ? colors.error : delta < 0 ? colors.success : colors.reset;
+        process.stdout.write(
+          `  📦 ${colors.info}${packageName}:${colors.reset} ${colors.primary}${count}${deltaColor}${deltaString}${colors.reset}\n`,
+        );
+      }
+      process.stdout.write("\n");
+    }
+
+    // By Owner (--owners)
+    if (current.byOwner) {
+      process.stdout.write(`${colors.warning}By Owner:${colors.reset}\n`);
+      for (const [owner, count] of Object.entries(current.byOwner).sort(
+        ([, a], [, b]) => b - a,
+      )) {
+        const delta = count - (baseline_.byOwner?.[owner] || 0);
+        const deltaString =
+          delta === 0 ? "" : ` (${delta > 0 ? "+" : ""}${delta})`;
+        const deltaColor =
+          delta > 0 ? colors.error : delta < 0 ? colors.success : colors.reset;
+        process.stdout.write(
+          `  👥 ${colors.info}${owner}:${colors.reset} ${colors.primary}${count}${deltaColor}${deltaString}${colors.reset}\n`,
+        );
+      }
+      process.stdout.write("\n");
+    }
+
     // Enhanced Zod Analysis Section (if Zod violations exist) - show even in actionable mode since it's contextual
     const allViolations = this.state.currentViolations; // Use all violations for Zod context
     const zodViolations = allViolations.filter(
@@ -8,6 +8,7 @@ import type {
   IStorageService,
   TimeRange,
   ViolationTrend,
+  CommitTrend,
   RulePerformanceAnalysis,
   FileQualityTrend,
   ViolationStats,
@@ -18,6 +19,8 @@ import type {
   QualityReport,
   RuleEfficiencyReport,
 } from "./interfaces.js";
+import type { AnalysisSnapshot, Violation } from "../database/types.js";
+import { parseOwners } from "../database/utils.js";
 import { arrayAt } from "../utils/node-compatibility.js";
 
 // import type {
@@ -139,17 +142,36 @@ export class AnalysisService implements IAnalysisService {
     // Group by file path
     const fileMap = new Map<
       string,
-      { count: number; categories: Set<string> }
+      {
+        count: number;
+        categories: Set<string>;
+        owners: Set<string>;
+        authors: Map<string, number>;
+      }
     >();
 
     for (const violation of violations) {
       if (!fileMap.has(violation.file_path)) {
-        fileMap.set(violation.file_path, { count: 0, categories: new Set() });
+        fileMap.set(violation.file_path, {
+          count: 0,
+          categories: new Set(),
+          owners: new Set(),
+          authors: new Map(),
+        });
       }
 
       const fileData = fileMap.get(violation.file_path)!;
       fileData.count++;
       fileData.categories.add(violation.category);
+      for (const owner of parseOwners(violation.owners)) {
+        fileData.owners.add(owner);
+      }
+      if (violation.blame_author) {
+        fileData.authors.set(
+          violation.blame_author,
+          (fileData.authors.get(violation.blame_author) ?? 0) + 1,
+        );
+      }
     }
 
     return [...fileMap.entries()].map(([path, data]) => ({
@@ -157,9 +179,54 @@ export class AnalysisService implements IAnalysisService {
       violationCount: data.count,
       trend: this.calculateFileTrend(data.count), // Simplified trend calculation
       categories: [...data.categories],
+      owners: [...data.owners],
+      authors: [...data.authors.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .map(([author]) => author),
     }));
   }
 
+  /**
+   * Violation counts per analysis run with the commit it analyzed, oldest
+   * first, so a jump in `added` points at the commit that caused it
+   */
+  async getCommitTrends(limit: number = 50): Promise<CommitTrend[]> {
+    const deltas = await this.storageService.getSnapshotDeltas(limit);
+
+    return deltas
+      .map((delta) => ({
+        commitSha: delta.commit_sha ?? undefined,
+        branch: delta.branch ?? undefined,
+        dirty: Boolean(delta.dirty),
+        recordedAt: delta.created_at,
+        total: delta.total,
+        added: delta.added,
+        removed: delta.removed,
+      }))
+      .reverse();
+  }
+
+  async getViolationsIntroducedBetween(
+    fromCommit: string,
+    toCommit: string,
+  ): Promise<Violation[]> {
+    return await this.storageService.getViolationsIntroducedBetween(
+      fromCommit,
+      toCommit,
+    );
+  }
+
+  /**
+   * Snapshot of the first analyzed commit a violation was present in
+   */
+  async findIntroducingCommit(
+    violationHash: string,
+  ): Promise<AnalysisSnapshot | undefined> {
+    return await this.storageService.findFirstSnapshotWithViolation(
+      violationHash,
+    );
+  }
+
   // ========================================================================
   // Statistical Analysis
   // ========================================================================
@@ -214,6 +281,8 @@ export class AnalysisService implements IAnalysisService {
         severityScore: this.calculateSeverityScore(file.violationCount),
         categories: file.categories,
         lastModified: new Date().toISOString(), // Simplified - would need file system access
+        owners: file.owners,
+        authors: file.authors,
       }))
       .sort((a, b) => b.severityScore - a.severityScore);
   }
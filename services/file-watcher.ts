@@ -0,0 +1,312 @@
+/**
+ * File Watcher for watch mode
+ * Watches the project tree with file-system events and reports debounced
+ * batches of relevant changes: source files selected by the tsconfig plus
+ * tool configuration files, minus anything .gitignore'd.
+ */
+
+import { EventEmitter } from "node:events";
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import path from "node:path";
+import type { TypeScriptModule } from "../engines/typescript-project.js";
+import { debugLog } from "../utils/debug-logger.js";
+
+// ============================================================================
+// Types and Constants
+// ============================================================================
+
+export interface FileWatcherOptions {
+  /** Directory to watch; reported paths are relative to it */
+  rootDirectory: string;
+  /** Quiet period before a batch of changes is reported */
+  debounceMs: number;
+  /** tsconfig.json used to select source files (defaults to <root>/tsconfig.json) */
+  tsconfigPath?: string | undefined;
+}
+
+/**
+ * Directories never worth watching, even outside a git repository
+ */
+const ALWAYS_IGNORED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+/**
+ * Configuration files that change analysis results without being sources
+ */
+const CONFIG_FILE_PATTERN =
+  /(?:^|\/)(?:tsconfig[\w.-]*\.json|package\.json|\.eslintrc(?:\.\w+)?|eslint\.config\.[cm]?[jt]s|\.gitignore)$/;
+
+const TSCONFIG_FILE_PATTERN = /(?:^|\/)tsconfig[\w.-]*\.json$/;
+const SOURCE_FILE_PATTERN = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+
+// ============================================================================
+// tsconfig File Selection
+// ============================================================================
+
+/**
+ * Absolute paths of the files a tsconfig selects, resolved by TypeScript so
+ * comments, `extends`, `files`, `include` and `exclude` behave as in tsc.
+ * TypeScript's defaults apply when the file is missing or cannot be read.
+ */
+export function loadTsConfigFiles(
+  ts: TypeScriptModule,
+  tsconfigPath: string,
+): Set<string> {
+  const { config, error } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  if (error) {
+    debugLog("FileWatcher", "Using default tsconfig file selection", {
+      tsconfigPath,
+      error: ts.flattenDiagnosticMessageText(error.messageText, "\n"),
+    });
+  }
+  const parsed = ts.parseJsonConfigFileContent(
+    error ? {} : config,
+    ts.sys,
+    path.dirname(tsconfigPath),
+  );
+  return new Set(parsed.fileNames.map((fileName) => path.resolve(fileName)));
+}
+
+// ============================================================================
+// File Watcher Implementation
+// ============================================================================
+
+/**
+ * Recursive, debounced file watcher
+ *
+ * Uses one non-recursive `fs.watch` per directory so ignored trees such as
+ * node_modules are never subscribed to. Emits "change" with the relevant
+ * relative paths once no events have arrived for `debounceMs`.
+ */
+// eslint-disable-next-line unicorn/prefer-event-target
+export class FileWatcher extends EventEmitter {
+  private readonly rootDirectory: string;
+  private readonly debounceMs: number;
+  private readonly tsconfigPath: string;
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+  private readonly pendingPaths = new Set<string>();
+  private debounceTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+  private ts: TypeScriptModule | undefined = undefined;
+  private sourceFiles = new Set<string>();
+
+  constructor(options: FileWatcherOptions) {
+    super();
+    this.rootDirectory = path.resolve(options.rootDirectory);
+    this.debounceMs = options.debounceMs;
+    this.tsconfigPath =
+      options.tsconfigPath ?? path.join(this.rootDirectory, "tsconfig.json");
+  }
+
+  /**
+   * Resolve the tsconfig's source files and start watching the directory tree
+   */
+  async start(): Promise<void> {
+    const { default: ts } = await import("typescript");
+    this.ts = ts;
+    this.sourceFiles = loadTsConfigFiles(ts, this.tsconfigPath);
+    this.watchTree("");
+    debugLog("FileWatcher", "Watching directories", {
+      count: this.watchers.size,
+    });
+  }
+
+  /**
+   * Stop all watchers and drop pending changes
+   */
+  stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.pendingPaths.clear();
+  }
+
+  get watchedDirectoryCount(): number {
+    return this.watchers.size;
+  }
+
+  /**
+   * Whether a changed path should trigger re-analysis
+   */
+  isRelevant(relativePath: string): boolean {
+    return (
+      CONFIG_FILE_PATTERN.test(relativePath) ||
+      this.sourceFiles.has(path.join(this.rootDirectory, relativePath))
+    );
+  }
+
+  /**
+   * Watch a directory and its non-ignored subdirectories, level by level
+   * so each level needs a single git check-ignore call
+   */
+  private watchTree(relativeDirectory: string): void {
+    let level = [relativeDirectory];
+
+    while (level.length > 0) {
+      const nextLevel: string[] = [];
+
+      for (const directory of level) {
+        this.watchDirectory(directory);
+        nextLevel.push(...this.listSubdirectories(directory));
+      }
+
+      const ignored = this.getIgnoredPaths(
+        nextLevel.map((directory) => `${directory}/`),
+      );
+      level = nextLevel.filter((directory) => !ignored.has(`${directory}/`));
+    }
+  }
+
+  private listSubdirectories(relativeDirectory: string): string[] {
+    try {
+      return fs
+        .readdirSync(path.join(this.rootDirectory, relativeDirectory), {
+          withFileTypes: true,
+        })
+        .filter(
+          (entry) =>
+            entry.isDirectory() && !ALWAYS_IGNORED_DIRECTORIES.has(entry.name),
+        )
+        .map((entry) =>
+          relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name,
+        );
+    } catch {
+      return []; // Directory removed while walking
+    }
+  }
+
+  private watchDirectory(relativeDirectory: string): void {
+    if (this.watchers.has(relativeDirectory)) {
+      return;
+    }
+
+    try {
+      const watcher = fs.watch(
+        path.join(this.rootDirectory, relativeDirectory),
+        (_eventType, filename) => {
+          if (filename) {
+            this.queueChange(
+              relativeDirectory ? `${relativeDirectory}/${filename}` : filename,
+            );
+          }
+        },
+      );
+      watcher.on("error", () => this.unwatchDirectory(relativeDirectory));
+      this.watchers.set(relativeDirectory, watcher);
+    } catch (error) {
+      debugLog("FileWatcher", "Could not watch directory", {
+        directory: relativeDirectory,
+        error: String(error),
+      });
+    }
+  }
+
+  private unwatchDirectory(relativeDirectory: string): void {
+    for (const [directory, watcher] of this.watchers) {
+      if (
+        directory === relativeDirectory ||
+        directory.startsWith(`${relativeDirectory}/`)
+      ) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+  }
+
+  private queueChange(relativePath: string): void {
+    this.pendingPaths.add(relativePath);
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  /**
+   * Resolve a debounced batch: pick up new directories, drop ignored and
+   * irrelevant paths, and emit what is left
+   */
+  private flush(): void {
+    this.debounceTimer = undefined;
+    const paths = [...this.pendingPaths];
+    this.pendingPaths.clear();
+
+    const ignored = this.getIgnoredPaths(paths);
+    const candidates = paths.filter(
+      (relativePath) =>
+        !ignored.has(relativePath) &&
+        !relativePath
+          .split("/")
+          .some((segment) => ALWAYS_IGNORED_DIRECTORIES.has(segment)),
+    );
+
+    const files: string[] = [];
+    for (const relativePath of candidates) {
+      const absolutePath = path.join(this.rootDirectory, relativePath);
+      const stats = fs.statSync(absolutePath, { throwIfNoEntry: false });
+
+      if (stats?.isDirectory()) {
+        this.watchTree(relativePath);
+      } else if (!stats && this.watchers.has(relativePath)) {
+        this.unwatchDirectory(relativePath);
+      } else {
+        files.push(relativePath);
+      }
+    }
+
+    // New sources and tsconfig edits can change which files are selected
+    if (this.ts && files.some((file) => this.changesFileSelection(file))) {
+      this.sourceFiles = loadTsConfigFiles(this.ts, this.tsconfigPath);
+    }
+    const changedFiles = files.filter((file) => this.isRelevant(file));
+
+    if (changedFiles.length > 0) {
+      debugLog("FileWatcher", "Relevant files changed", { changedFiles });
+      this.emit("change", changedFiles.sort());
+    }
+  }
+
+  private changesFileSelection(relativePath: string): boolean {
+    if (TSCONFIG_FILE_PATTERN.test(relativePath)) {
+      return true;
+    }
+    const absolutePath = path.join(this.rootDirectory, relativePath);
+    return (
+      SOURCE_FILE_PATTERN.test(relativePath) &&
+      !this.sourceFiles.has(absolutePath) &&
+      fs.existsSync(absolutePath)
+    );
+  }
+
+  /**
+   * Ask git which of the paths are ignored (.gitignore, info/exclude and
+   * global excludes); outside a git repository nothing is ignored
+   */
+  private getIgnoredPaths(relativePaths: string[]): Set<string> {
+    if (relativePaths.length === 0) {
+      return new Set();
+    }
+
+    const result = spawnSync("git", ["check-ignore", "--stdin"], {
+      cwd: this.rootDirectory,
+      input: relativePaths.join("\n"),
+      encoding: "utf8",
+    });
+
+    // Exit status 1 means nothing matched; 128 means not a git repository
+    if (result.error || result.status !== 0) {
+      return new Set();
+    }
+
+    return new Set(
+      result.stdout
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean),
+    );
+  }
+}
@@ -4,8 +4,10 @@
  */
 
 import type { Violation as OrchestratorViolation } from "../utils/violation-types.js";
+import type { GitSnapshot } from "../utils/git-snapshot.js";
 
 import type {
+  AnalysisSnapshot,
   Violation,
   // NewViolation,
   // RuleCheck,
@@ -13,8 +15,11 @@ import type {
   RuleSchedule,
   NewRuleSchedule,
   DashboardData,
+  OwnerSummaryItem,
   ViolationQueryParameters,
+  ViolationQuery,
   HistoryQueryParameters,
+  SnapshotDeltaItem,
 } from "../database/types.js";
 
 // ============================================================================
@@ -51,13 +56,21 @@ export interface IStorageService {
   }>;
 
   getViolations(_parameters?: ViolationQueryParameters): Promise<Violation[]>;
+  queryViolations(_query?: ViolationQuery): Promise<Violation[]>;
   getViolationSummary(): Promise<any[]>;
+  getOwnerSummary(): Promise<OwnerSummaryItem[]>;
   resolveViolations(_hashes: string[]): Promise<number>;
+  ignoreViolations(_hashes: string[]): Promise<number>;
+  reassociateViolations(
+    _violations: OrchestratorViolation[],
+    _renames?: Map<string, string>,
+  ): Promise<number>;
 
   // Rule Check Management
   startRuleCheck(
     _rule: string,
-    _engine: "typescript" | "eslint",
+    _engine: "typescript" | "eslint" | "orchestrator",
+    _snapshotId?: number,
   ): Promise<number>;
   completeRuleCheck(
     _checkId: number,
@@ -72,6 +85,7 @@ export interface IStorageService {
   recordViolationDeltas(
     _checkId: number,
     _currentViolationHashes: string[],
+    _snapshotId?: number,
   ): Promise<{
     added: number;
     removed: number;
@@ -81,6 +95,19 @@ export interface IStorageService {
     _parameters?: HistoryQueryParameters,
   ): Promise<ViolationHistory[]>;
 
+  // Analysis Snapshots
+  recordAnalysisSnapshot(_snapshot: GitSnapshot | undefined): Promise<number>;
+  getSnapshotDeltas(_limit?: number): Promise<SnapshotDeltaItem[]>;
+  getLatestSnapshot(): Promise<AnalysisSnapshot | undefined>;
+  findSnapshotByCommit(_commit: string): Promise<AnalysisSnapshot | undefined>;
+  getViolationsIntroducedBetween(
+    _fromCommit: string,
+    _toCommit: string,
+  ): Promise<Violation[]>;
+  findFirstSnapshotWithViolation(
+    _violationHash: string,
+  ): Promise<AnalysisSnapshot | undefined>;
+
   // Rule Scheduling
   upsertRuleSchedule(_schedule: NewRuleSchedule): Promise<number>;
   getNextRulesToCheck(_limit?: number): Promise<RuleSchedule[]>;
@@ -173,6 +200,14 @@ export interface IAnalysisService {
   getViolationTrends(_timeRange: TimeRange): Promise<ViolationTrend[]>;
   getRulePerformanceAnalysis(_ruleId?: string): RulePerformanceAnalysis[];
   getFileQualityTrends(_filePath?: string): Promise<FileQualityTrend[]>;
+  getCommitTrends(_limit?: number): Promise<CommitTrend[]>;
+  getViolationsIntroducedBetween(
+    _fromCommit: string,
+    _toCommit: string,
+  ): Promise<Violation[]>;
+  findIntroducingCommit(
+    _violationHash: string,
+  ): Promise<AnalysisSnapshot | undefined>;
 
   // Statistical Analysis
   calculateViolationStats(_timeRange: TimeRange): Promise<ViolationStats>;
@@ -292,6 +327,21 @@ export interface ViolationTrend {
   category: string;
 }
 
+/**
+ * Violation counts of one analysis run and the commit it analyzed
+ */
+export interface CommitTrend {
+  /** undefined when the run was outside git or before the first commit */
+  commitSha: string | undefined;
+  branch: string | undefined;
+  /** The working tree had uncommitted changes, so not all of it is in the commit */
+  dirty: boolean;
+  recordedAt: string;
+  total: number;
+  added: number;
+  removed: number;
+}
+
 export interface RulePerformanceAnalysis {
   rule: string;
   engine: string;
@@ -307,6 +357,10 @@ export interface FileQualityTrend {
   violationCount: number;
   trend: "improving" | "stable" | "degrading";
   categories: string[];
+  /** CODEOWNERS owners recorded for the file */
+  owners: string[];
+  /** Last authors of the violation lines, most violations first */
+  authors: string[];
 }
 
 export interface ViolationStats {
@@ -324,6 +378,10 @@ export interface ProblemFile {
   severityScore: number;
   categories: string[];
   lastModified: string;
+  /** Who to talk to: CODEOWNERS owners, empty without --owners */
+  owners: string[];
+  /** Last authors of the violation lines, empty without --blame */
+  authors: string[];
 }
 
 export interface FlakyRule {
@@ -386,6 +444,8 @@ export interface WatchModeOptions {
   debounceMs?: number;
   autoCleanup?: boolean;
   maxConcurrentChecks?: number;
+  /** "external" leaves re-analysis to the caller (e.g. file-system events) */
+  analysisTrigger?: "interval" | "external";
 }
 
 export interface OrchestratorConfig {
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Engine Plugin Loader
+ *
+ * Loads third-party audit engines listed under "plugins" in
+ * sidequest.config.json. A plugin module's default export (or a named
+ * `createEngine` export) is either a `BaseAuditEngine` subclass, constructed
+ * with a `PluginContext`, or a factory function that receives the context
+ * and returns (or resolves to) an engine:
+ *
+ * ```ts
+ * import { BaseAuditEngine } from "@invisiblecities/sidequest-cqo/dist/engines/base-engine.js";
+ *
+ * export default function createEngine(context: PluginContext) {
+ *   return new TodoCommentEngine(context.options);
+ * }
+ * ```
+ *
+ * Plugin engines run alongside the built-in ones, so their violations are
+ * deduplicated, persisted and shown in watch mode the same way. Engines
+ * should report with the "custom" source.
+ */
+
+import { createRequire } from "node:module";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { BaseAuditEngine } from "../engines/base-engine.js";
+import type { Violation } from "../utils/violation-types.js";
+import type { ProjectConfig } from "../utils/project-config.js";
+import type { UserPreferences } from "./preferences-manager.js";
+import { debugLog } from "../utils/debug-logger.js";
+
+// ============================================================================
+// Plugin API
+// ============================================================================
+
+/**
+ * Logger handed to plugins; messages are prefixed with the plugin module
+ */
+export interface PluginLogger {
+  /** Only written when --debug is enabled */
+  debug(_message: string, _data?: unknown): void;
+  info(_message: string): void;
+  warn(_message: string): void;
+  error(_message: string): void;
+}
+
+/**
+ * Everything a plugin gets when its engine is created
+ */
+export interface PluginContext {
+  /** Path being analyzed, as given to the orchestrator */
+  readonly targetPath: string;
+  /** Directory containing sidequest.config.json */
+  readonly projectRoot: string;
+  /** The plugin entry's "options" from the project config */
+  readonly options: Readonly<Record<string, unknown>>;
+  readonly preferences: Readonly<UserPreferences["preferences"]>;
+  readonly logger: PluginLogger;
+}
+
+export type EngineFactory = (
+  _context: PluginContext,
+) => BaseAuditEngine | Promise<BaseAuditEngine>;
+
+export type EngineConstructor = new (
+  _context: PluginContext,
+) => BaseAuditEngine;
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+export type PluginEntry = NonNullable<ProjectConfig["plugins"]>[number];
+
+export interface LoadedPlugin {
+  /** Engine name in the orchestrator, "plugin:<module>" */
+  name: string;
+  module: string;
+  engine: BaseAuditEngine;
+}
+
+export interface PluginLoadFailure {
+  module: string;
+  error: string;
+}
+
+export interface PluginLoadResult {
+  plugins: LoadedPlugin[];
+  failures: PluginLoadFailure[];
+}
+
+export interface PluginEnvironment {
+  targetPath: string;
+  projectRoot: string;
+  preferences: UserPreferences["preferences"];
+}
+
+function createPluginLogger(module: string): PluginLogger {
+  const prefix = `[Plugin ${module}]`;
+  return {
+    debug: (message, data) => debugLog(`Plugin:${module}`, message, data),
+    info: (message) => console.log(`${prefix} ${message}`),
+    warn: (message) => console.warn(`${prefix} ${message}`),
+    error: (message) => console.error(`${prefix} ${message}`),
+  };
+}
+
+/**
+ * Structural check, so engines built against another copy of this package
+ * are accepted too; `dispose` is required because the orchestrator calls it
+ * on reconfigure and shutdown
+ */
+function isAuditEngine(value: unknown): value is BaseAuditEngine {
+  const candidate = value as Partial<Record<keyof BaseAuditEngine, unknown>>;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof candidate.execute === "function" &&
+    typeof candidate.getConfig === "function" &&
+    typeof candidate.getMetadata === "function" &&
+    typeof candidate.dispose === "function"
+  );
+}
+
+function isEngineConstructor(value: unknown): value is EngineConstructor {
+  return (
+    typeof value === "function" &&
+    typeof (value.prototype as Record<string, unknown> | undefined)?.[
+      "execute"
+    ] === "function"
+  );
+}
+
+/**
+ * Import a plugin module: relative specifiers from the project root,
+ * package names through the project's node_modules
+ */
+async function importPluginModule(
+  specifier: string,
+  projectRoot: string,
+): Promise<Record<string, unknown>> {
+  const modulePath =
+    specifier.startsWith(".") || path.isAbsolute(specifier)
+      ? path.resolve(projectRoot, specifier)
+      : createRequire(path.join(projectRoot, "package.json")).resolve(
+          specifier,
+        );
+  return (await import(pathToFileURL(modulePath).href)) as Record<
+    string,
+    unknown
+  >;
+}
+
+async function createPluginEngine(
+  specifier: string,
+  context: PluginContext,
+): Promise<BaseAuditEngine> {
+  const pluginModule = await importPluginModule(specifier, context.projectRoot);
+  const exported = pluginModule["default"] ?? pluginModule["createEngine"];
+
+  if (typeof exported !== "function") {
+    throw new TypeError(
+      "Plugin must export a BaseAuditEngine subclass or engine factory as default or `createEngine`",
+    );
+  }
+
+  const engine: unknown = isEngineConstructor(exported)
+    ? new exported(context)
+    : await (exported as EngineFactory)(context);
+
+  if (!isAuditEngine(engine)) {
+    throw new TypeError("Plugin factory did not return a BaseAuditEngine");
+  }
+  return engine;
+}
+
+/**
+ * Load every enabled plugin entry
+ * A plugin that fails to load is reported and skipped; the others still run.
+ */
+export async function loadPlugins(
+  entries: PluginEntry[],
+  environment: PluginEnvironment,
+): Promise<PluginLoadResult> {
+  const result: PluginLoadResult = { plugins: [], failures: [] };
+
+  for (const entry of entries) {
+    const { module, enabled, options } =
+      typeof entry === "string"
+        ? { module: entry, enabled: true, options: {} }
+        : entry;
+    if (enabled === false) {
+      continue;
+    }
+
+    try {
+      const engine = await createPluginEngine(module, {
+        targetPath: environment.targetPath,
+        projectRoot: environment.projectRoot,
+        options: { ...options },
+        preferences: environment.preferences,
+        logger: createPluginLogger(module),
+      });
+      result.plugins.push({ name: `plugin:${module}`, module, engine });
+    } catch (error) {
+      result.failures.push({
+        module,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Setup issue reported in place of a plugin that could not be loaded
+ */
+export function createPluginFailureViolation(
+  failure: PluginLoadFailure,
+): Violation {
+  return {
+    file: "plugin-setup",
+    line: 1,
+    code: failure.module,
+    category: "setup-issue",
+    severity: "warn",
+    source: "custom",
+    rule: "PLUGIN-SETUP-001",
+    message: `Could not load engine plugin '${failure.module}': ${failure.error}`,
+  };
+}
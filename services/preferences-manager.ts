@@ -66,7 +66,7 @@ import * as os from "node:os";
  * This interface defines all configurable aspects of the tool behavior.
  * Each section has a specific purpose in the configuration-agnostic design.
  */
-interface UserPreferences {
+export interface UserPreferences {
   schemaVersion: string;
   preferences: {
     analysis: {
@@ -4,7 +4,7 @@
  */
 
 import { getDatabase } from "../database/connection.js";
-import { sql } from "kysely";
+import { sql, type RawBuilder } from "kysely";
 import {
   violationsToDatabaseFormat,
   computeViolationDeltas,
@@ -16,6 +16,7 @@ import {
   sanitizeViolation,
 } from "../database/utils.js";
 import type {
+  AnalysisSnapshot,
   NewViolation,
   Violation,
   ViolationHistory,
@@ -24,13 +25,46 @@ import type {
   ViolationSummaryItem,
   RulePerformanceItem,
   ViolationQueryParameters,
+  ViolationQuery,
+  ViolationSortField,
   HistoryQueryParameters,
   DashboardData,
+  OwnerSummaryItem,
+  SnapshotDeltaItem,
   StorageServiceConfig,
 } from "../database/types.js";
 import type { Violation as OrchestratorViolation } from "../utils/violation-types.js";
+import type { GitSnapshot } from "../utils/git-snapshot.js";
+import { matchFingerprints } from "../utils/fingerprint.js";
+import { matchesGlob } from "../utils/glob.js";
 import { debugLog } from "../utils/debug-logger.js";
 
+/**
+ * Sort expressions for `queryViolations`; severity sorts most severe first
+ */
+const VIOLATION_SORT_COLUMNS: Record<
+  ViolationSortField,
+  RawBuilder<unknown>
+> = {
+  file: sql`file_path`,
+  rule: sql`rule_id`,
+  category: sql`category`,
+  source: sql`source`,
+  severity: sql`CASE severity WHEN 'error' THEN 0 WHEN 'warn' THEN 1 ELSE 2 END`,
+  status: sql`status`,
+  first_seen: sql`datetime(first_seen_at)`,
+  last_seen: sql`datetime(last_seen_at)`,
+};
+
+/**
+ * Upsert value that keeps a stored column when the incoming row has none
+ */
+function keepStored(column: string) {
+  return sql<
+    string | null
+  >`COALESCE(${sql.ref(`excluded.${column}`)}, ${sql.ref(`violations.${column}`)})`;
+}
+
 // ============================================================================
 // Storage Service Class
 // ============================================================================
@@ -109,6 +143,18 @@ export class StorageService {
                   oc.column("hash").doUpdateSet({
                     last_seen_at: formatDateTimeForDatabase(),
                     status: "active", // Reactivate if previously resolved
+                    // The fingerprint follows moved lines and reworded messages
+                    line_number: sql.ref("excluded.line_number"),
+                    column_number: sql.ref("excluded.column_number"),
+                    message: sql.ref("excluded.message"),
+                    code_snippet: sql.ref("excluded.code_snippet"),
+                    context_hash: keepStored("context_hash"),
+                    // Runs without blame or owners keep what earlier runs found
+                    blame_author: keepStored("blame_author"),
+                    blame_email: keepStored("blame_email"),
+                    blame_commit: keepStored("blame_commit"),
+                    blame_date: keepStored("blame_date"),
+                    owners: keepStored("owners"),
                   }),
                 )
                 .returning(["id"])
@@ -214,6 +260,66 @@ export class StorageService {
     return results;
   }
 
+  /**
+   * Ad-hoc violation query for the --query command
+   *
+   * Timestamps are compared through SQLite's datetime(), since rows hold
+   * both ISO and CURRENT_TIMESTAMP formats. The path glob is applied after
+   * the SQL filters, before the limit.
+   */
+  async queryViolations(query: ViolationQuery = {}): Promise<Violation[]> {
+    const database = getDatabase();
+    let select = database.selectFrom("violations").selectAll();
+
+    const lists = [
+      ["rule_id", query.rule_ids],
+      ["category", query.categories],
+      ["source", query.sources],
+      ["severity", query.severities],
+      ["status", query.statuses],
+    ] as const;
+    for (const [column, values] of lists) {
+      if (values && values.length > 0) {
+        select = select.where(column, "in", values);
+      }
+    }
+
+    if (query.owners && query.owners.length > 0) {
+      select = select.where(
+        sql<boolean>`EXISTS (SELECT 1 FROM json_each(violations.owners) WHERE value IN (${sql.join(query.owners)}))`,
+      );
+    }
+    if (query.first_seen_from) {
+      select = select.where(
+        sql<boolean>`datetime(first_seen_at) >= datetime(${query.first_seen_from})`,
+      );
+    }
+    if (query.first_seen_to) {
+      // A date includes the whole day
+      select = select.where(
+        /^\d{4}-\d{2}-\d{2}$/.test(query.first_seen_to)
+          ? sql<boolean>`date(first_seen_at) <= ${query.first_seen_to}`
+          : sql<boolean>`datetime(first_seen_at) <= datetime(${query.first_seen_to})`,
+      );
+    }
+
+    const direction = query.descending ? "desc" : "asc";
+    select = query.sort
+      ? select.orderBy(VIOLATION_SORT_COLUMNS[query.sort], direction)
+      : select;
+    select = select
+      .orderBy("file_path", direction)
+      .orderBy("line_number", direction)
+      .orderBy("rule_id");
+
+    let results = await select.execute();
+    if (query.path) {
+      const patterns = [query.path];
+      results = results.filter((row) => matchesGlob(row.file_path, patterns));
+    }
+    return query.limit ? results.slice(0, query.limit) : results;
+  }
+
   /**
    * Get violation summary for dashboard
    */
@@ -238,6 +344,25 @@ export class StorageService {
       .execute()) as ViolationSummaryItem[];
   }
 
+  /**
+   * Active violations per CODEOWNERS owner, largest first
+   * A violation in a file with several owners counts for each of them.
+   */
+  async getOwnerSummary(): Promise<OwnerSummaryItem[]> {
+    const database = getDatabase();
+
+    const result = await sql<OwnerSummaryItem>`
+      SELECT owner.value AS owner,
+             COUNT(*) AS count,
+             COUNT(DISTINCT violations.file_path) AS affected_files
+      FROM violations, json_each(violations.owners) AS owner
+      WHERE violations.status = 'active' AND violations.owners IS NOT NULL
+      GROUP BY owner.value
+      ORDER BY count DESC, owner.value
+    `.execute(database);
+    return result.rows;
+  }
+
   /**
    * Mark violations as resolved
    */
@@ -261,6 +386,78 @@ export class StorageService {
     return sum;
   }
 
+  /**
+   * Move active stored violations onto the fingerprints they now have, after
+   * edits or renames changed them, so first_seen_at and history carry over
+   *
+   * @param renames Old path to new path, as reported by git
+   * @returns Number of stored violations re-associated
+   */
+  async reassociateViolations(
+    violations: OrchestratorViolation[],
+    renames: Map<string, string> = new Map(),
+  ): Promise<number> {
+    const database = getDatabase();
+
+    const current = violationsToDatabaseFormat(violations);
+    const stored = await database
+      .selectFrom("violations")
+      .select([
+        "hash",
+        "file_path",
+        "rule_id",
+        "context_hash",
+        "line_number",
+        "message",
+      ])
+      // Resolved and ignored rows must not be revived by look-alikes
+      .where("status", "=", "active")
+      .execute();
+    const toCandidate = (row: (typeof stored)[number] | NewViolation) => ({
+      hash: row.hash,
+      file: row.file_path,
+      rule: row.rule_id,
+      contextHash: row.context_hash,
+      line: row.line_number ?? 0,
+      message: row.message,
+    });
+
+    const matches = matchFingerprints(
+      stored.map((row) => toCandidate(row)),
+      current.map((row) => toCandidate(row)),
+      renames,
+    );
+    if (matches.size === 0) {
+      return 0;
+    }
+
+    const currentByHash = new Map(current.map((row) => [row.hash, row]));
+    await database.transaction().execute(async (trx) => {
+      for (const [previousHash, currentHash] of matches) {
+        const row = currentByHash.get(currentHash)!;
+        await trx
+          .updateTable("violations")
+          .set({
+            hash: currentHash,
+            file_path: row.file_path,
+            context_hash: row.context_hash ?? null, // eslint-disable-line unicorn/no-null
+          })
+          .where("hash", "=", previousHash)
+          .execute();
+        await trx
+          .updateTable("violation_history")
+          .set({ violation_hash: currentHash })
+          .where("violation_hash", "=", previousHash)
+          .execute();
+      }
+    });
+
+    debugLog("StorageService", "Re-associated violations", {
+      count: matches.size,
+    });
+    return matches.size;
+  }
+
   // ========================================================================
   // Rule Check Management
   // ========================================================================
@@ -270,7 +467,8 @@ export class StorageService {
    */
   async startRuleCheck(
     rule: string,
-    engine: "typescript" | "eslint",
+    engine: "typescript" | "eslint" | "orchestrator",
+    snapshotId?: number,
   ): Promise<number> {
     const database = getDatabase();
 
@@ -281,6 +479,7 @@ export class StorageService {
         engine,
         status: "running",
         started_at: formatDateTimeForDatabase(),
+        snapshot_id: snapshotId ?? null, // eslint-disable-line unicorn/no-null
       })
       .returning("id")
       .executeTakeFirst();
@@ -335,12 +534,36 @@ export class StorageService {
   // Historical Analysis
   // ========================================================================
 
+  /**
+   * Mark active or resolved violations as ignored, e.g. when waived
+   * Storing an ignored violation again reactivates it.
+   */
+  async ignoreViolations(hashes: string[]): Promise<number> {
+    const database = getDatabase();
+    let sum = 0;
+
+    for (const batch of chunk(hashes, this.batchSize)) {
+      const result = await database
+        .updateTable("violations")
+        .set({ status: "ignored" })
+        .where("hash", "in", batch)
+        .where("status", "!=", "ignored")
+        .executeTakeFirst();
+      sum += Number(result.numUpdatedRows);
+    }
+
+    return sum;
+  }
+
   /**
    * Record violation deltas for historical tracking
+   * Removed violations are marked resolved, so the next check's deltas are
+   * relative to this one.
    */
   async recordViolationDeltas(
     checkId: number,
     currentViolationHashes: string[],
+    snapshotId?: number,
   ): Promise<{
     added: number;
     removed: number;
@@ -364,7 +587,7 @@ export class StorageService {
     );
 
     // Prepare for insertion
-    const deltaRecords = prepareDeltasForInsertion(checkId, deltas);
+    const deltaRecords = prepareDeltasForInsertion(checkId, deltas, snapshotId);
 
     // Insert in batches
     if (deltaRecords.length > 0) {
@@ -375,6 +598,13 @@ export class StorageService {
       }
     }
 
+    const removedHashes = deltas
+      .filter((delta) => delta.action === "removed")
+      .map((delta) => delta.violation_hash);
+    for (const batch of chunk(removedHashes, this.batchSize)) {
+      await this.resolveViolations(batch);
+    }
+
     // Count by action type
     const counts = {
       added: deltas.filter((d) => d.action === "added").length,
@@ -432,6 +662,161 @@ export class StorageService {
     return await query.execute();
   }
 
+  // ========================================================================
+  // Analysis Snapshots
+  // ========================================================================
+
+  /**
+   * Record the git state of an analysis run
+   * Pass undefined when the analysis did not run in a git work tree.
+   */
+  async recordAnalysisSnapshot(
+    snapshot: GitSnapshot | undefined,
+  ): Promise<number> {
+    const database = getDatabase();
+
+    const result = await database
+      .insertInto("analysis_snapshots")
+      .values({
+        commit_sha: snapshot?.commitSha ?? null, // eslint-disable-line unicorn/no-null
+        branch: snapshot?.branch ?? null, // eslint-disable-line unicorn/no-null
+        dirty: snapshot?.dirty ? 1 : 0,
+        created_at: formatDateTimeForDatabase(),
+      })
+      .returning("id")
+      .executeTakeFirst();
+
+    return result?.id || 0;
+  }
+
+  /**
+   * Added, removed and total violations per snapshot, newest first
+   */
+  async getSnapshotDeltas(limit: number = 50): Promise<SnapshotDeltaItem[]> {
+    const database = getDatabase();
+
+    return (await database
+      .selectFrom("analysis_snapshots")
+      .leftJoin(
+        "violation_history",
+        "violation_history.snapshot_id",
+        "analysis_snapshots.id",
+      )
+      .select([
+        "analysis_snapshots.id as snapshot_id",
+        "analysis_snapshots.commit_sha",
+        "analysis_snapshots.branch",
+        "analysis_snapshots.dirty",
+        "analysis_snapshots.created_at",
+        sql<number>`COUNT(CASE WHEN violation_history.action = 'added' THEN 1 END)`.as(
+          "added",
+        ),
+        sql<number>`COUNT(CASE WHEN violation_history.action = 'removed' THEN 1 END)`.as(
+          "removed",
+        ),
+        sql<number>`COUNT(CASE WHEN violation_history.action IN ('added', 'unchanged') THEN 1 END)`.as(
+          "total",
+        ),
+      ])
+      .groupBy("analysis_snapshots.id")
+      .orderBy("analysis_snapshots.id", "desc")
+      .limit(Math.min(limit, 1000))
+      .execute()) as SnapshotDeltaItem[];
+  }
+
+  /**
+   * Most recently recorded snapshot
+   */
+  async getLatestSnapshot(): Promise<AnalysisSnapshot | undefined> {
+    const database = getDatabase();
+
+    return await database
+      .selectFrom("analysis_snapshots")
+      .selectAll()
+      .orderBy("id", "desc")
+      .limit(1)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Latest snapshot of a commit, matched by full or abbreviated sha
+   */
+  async findSnapshotByCommit(
+    commit: string,
+  ): Promise<AnalysisSnapshot | undefined> {
+    const database = getDatabase();
+
+    return await database
+      .selectFrom("analysis_snapshots")
+      .selectAll()
+      .where("commit_sha", "like", `${commit}%`)
+      .orderBy("id", "desc")
+      .limit(1)
+      .executeTakeFirst();
+  }
+
+  /**
+   * Violations present in the latest analysis of one commit but not in the
+   * latest analysis of another
+   */
+  async getViolationsIntroducedBetween(
+    fromCommit: string,
+    toCommit: string,
+  ): Promise<Violation[]> {
+    const database = getDatabase();
+    const [from, to] = await Promise.all([
+      this.findSnapshotByCommit(fromCommit),
+      this.findSnapshotByCommit(toCommit),
+    ]);
+    if (!from || !to) {
+      throw new Error(
+        `No analysis snapshot for commit ${from ? toCommit : fromCommit}`,
+      );
+    }
+
+    const presentAt = (snapshotId: number) =>
+      database
+        .selectFrom("violation_history")
+        .select("violation_hash")
+        .where("snapshot_id", "=", snapshotId)
+        .where("action", "in", ["added", "unchanged"]);
+
+    return await database
+      .selectFrom("violations")
+      .selectAll()
+      .where("hash", "in", presentAt(to.id))
+      .where("hash", "not in", presentAt(from.id))
+      .orderBy("file_path", "asc")
+      .orderBy("line_number", "asc")
+      .execute();
+  }
+
+  /**
+   * Earliest snapshot with a commit in which a violation was present,
+   * matched by full or abbreviated violation hash
+   */
+  async findFirstSnapshotWithViolation(
+    violationHash: string,
+  ): Promise<AnalysisSnapshot | undefined> {
+    const database = getDatabase();
+
+    return await database
+      .selectFrom("violation_history")
+      .innerJoin(
+        "analysis_snapshots",
+        "analysis_snapshots.id",
+        "violation_history.snapshot_id",
+      )
+      .selectAll("analysis_snapshots")
+      .where("violation_history.violation_hash", "like", `${violationHash}%`)
+      .where("violation_history.action", "in", ["added", "unchanged"])
+      // eslint-disable-next-line unicorn/no-null
+      .where("analysis_snapshots.commit_sha", "is not", null)
+      .orderBy("analysis_snapshots.id", "asc")
+      .limit(1)
+      .executeTakeFirst();
+  }
+
   // ========================================================================
   // Rule Scheduling
   // ========================================================================
@@ -530,6 +915,7 @@ export class StorageService {
 
     const [
       summary,
+      byOwner,
       rulePerformance,
       recentHistory,
       activeViolationsResult,
@@ -538,6 +924,7 @@ export class StorageService {
       nextCheckResult,
     ] = await Promise.all([
       this.getViolationSummary(),
+      this.getOwnerSummary(),
       this.getRulePerformance(),
       this.getViolationHistory({ limit: 20 }),
       database
@@ -570,6 +957,7 @@ export class StorageService {
 
     return {
       summary,
+      by_owner: byOwner,
       rule_performance: rulePerformance,
       recent_history: recentHistory,
       active_violations: Number(activeViolationsResult?.count || 0),
@@ -7,6 +7,7 @@
  */
 
 import { EventEmitter } from "node:events";
+import path from "node:path";
 import type {
   IOrchestratorService,
   IStorageService,
@@ -23,6 +24,12 @@ import { ConfigManager } from "./config-manager.js";
 import { getPollingService } from "./polling-service.js";
 import { getAnalysisService } from "./analysis-service.js";
 import { getViolationTracker } from "./violation-tracker.js";
+import { PreferencesManager } from "./preferences-manager.js";
+import {
+  loadPlugins,
+  createPluginFailureViolation,
+  type PluginLoadFailure,
+} from "./plugin-loader.js";
 
 // Import legacy orchestrator types and utilities
 import { BaseAuditEngine } from "../engines/base-engine.js";
@@ -31,7 +38,15 @@ import { ESLintAuditEngine } from "../engines/eslint-engine.js";
 import { UnusedExportsEngine } from "../engines/unused-exports-engine.js";
 import { ZodDetectionEngine } from "../engines/zod-detection-engine.js";
 import { CodeArchaeologyEngine } from "../engines/code-archaeology-engine.js";
+import { ComplexityEngine } from "../engines/complexity-engine.js";
+import { CircularDependencyEngine } from "../engines/circular-dependency-engine.js";
+import { ArchitectureEngine } from "../engines/architecture-engine.js";
+import { CommandEngine } from "../engines/command-engine.js";
+import { ReportImportEngine } from "../engines/report-import-engine.js";
+import { DependencyEngine } from "../engines/dependency-engine.js";
 import type {
+  AnalysisOptions,
+  AnalysisScope,
   Violation,
   EngineResult,
   OrchestratorResult,
@@ -40,8 +55,32 @@ import type {
   WatchEvent,
   WatchEventData,
   CrossoverConfig,
+  SuppressionReport,
 } from "../utils/violation-types.js";
 import { createCrossoverDetector } from "../utils/crossover-detector.js";
+import {
+  getToolVersion,
+  writeJsonReport,
+} from "../utils/json-report-writer.js";
+import { writeHtmlReport } from "../utils/html-report-writer.js";
+import { loadProjectConfig } from "../utils/project-config.js";
+import {
+  discoverWorkspacePackages,
+  findOwningPackage,
+  type WorkspacePackage,
+} from "../utils/workspaces.js";
+import { readGitSnapshot } from "../utils/git-snapshot.js";
+import {
+  OwnershipResolver,
+  type OwnershipOptions,
+} from "../utils/ownership.js";
+import { assignFingerprints, detectRenames } from "../utils/fingerprint.js";
+import {
+  applySuppressions,
+  loadSuppressions,
+  readProjectVersion,
+} from "../utils/suppressions.js";
+import { violationsToDatabaseFormat } from "../database/utils.js";
 
 /**
  * Unified orchestrator configuration combining both systems
@@ -55,12 +94,24 @@ export interface UnifiedOrchestratorConfig {
     unusedExports?: EngineConfig;
     zodDetection?: EngineConfig;
     archaeology?: EngineConfig;
+    complexity?: EngineConfig;
+    circularDependencies?: EngineConfig;
+    architecture?: EngineConfig;
+    commands?: EngineConfig;
+    reportImport?: EngineConfig;
+    dependencies?: EngineConfig;
   };
   deduplication?: {
     enabled: boolean;
     strategy: "exact" | "similar" | "location";
   };
   crossover?: CrossoverConfig;
+  /** Run the engines once per workspace package under the target path */
+  workspaces?: boolean;
+  /** Attribute violations to their last author and CODEOWNERS owners */
+  ownership?: OwnershipOptions;
+  /** Committed waivers to leave out of the results */
+  suppressionsFile?: string;
   output?: {
     console: boolean;
     json?: string;
@@ -94,10 +145,14 @@ export interface UnifiedOrchestratorConfig {
  */
 export interface IUnifiedOrchestrator extends IOrchestratorService {
   // Core Analysis Capabilities (from legacy orchestrator)
-  analyze(_targetPath?: string): Promise<OrchestratorResult>;
+  analyze(
+    _targetPath?: string,
+    _options?: AnalysisOptions,
+  ): Promise<OrchestratorResult>;
 
   // Engine Management
   addEngine(_name: string, _engine: BaseAuditEngine): void;
+  loadPlugins(): Promise<void>;
   removeEngine(_name: string): void;
   getEngine(_name: string): BaseAuditEngine | undefined;
   getEngineMetadata(): Record<string, unknown>;
@@ -114,6 +169,8 @@ export interface IUnifiedOrchestrator extends IOrchestratorService {
     _callback: (_data: WatchEventData) => void,
   ): void;
   emit(_event: WatchEvent, _data: any): void;
+  notifyFileChanges(_files: string[]): void;
+  runWatchCycle(): Promise<void>;
 }
 
 /**
@@ -139,12 +196,16 @@ export class UnifiedOrchestrator
   // Engine Management (from legacy orchestrator)
   private engines: Map<string, BaseAuditEngine> = new Map();
   private unifiedConfig: UnifiedOrchestratorConfig;
+  private pluginsLoaded = false;
+  private pluginFailures: PluginLoadFailure[] = [];
+  private ownershipResolver: OwnershipResolver | undefined = undefined;
 
   // State Management
   private initialized = false;
   private watchModeActive = false;
   private watchModeInterval: ReturnType<typeof setTimeout> | undefined =
     undefined;
+  private watchOptions: WatchModeOptions | undefined = undefined;
   private silent = false;
 
   // Event System (from legacy orchestrator)
@@ -200,6 +261,8 @@ export class UnifiedOrchestrator
         this.emit("cycleCompleted", results);
       });
 
+      await this.loadPlugins();
+
       this.initialized = true;
       console.log(
         "[UnifiedOrchestrator] Initialization completed successfully",
@@ -231,6 +294,11 @@ export class UnifiedOrchestrator
         await this.pollingService.stop();
       }
 
+      // Release resources engines keep between analyses
+      for (const engine of this.engines.values()) {
+        engine.dispose();
+      }
+
       // Shutdown config manager (closes database connections)
       await this.configManager.shutdown();
 
@@ -251,11 +319,21 @@ export class UnifiedOrchestrator
   /**
    * Execute all enabled engines and return unified results
    * This is the core analysis method from the legacy orchestrator
+   *
+   * A scope in the options is passed to every engine, which reports only
+   * violations in the scoped files.
    */
-  async analyze(targetPath?: string): Promise<OrchestratorResult> {
+  async analyze(
+    targetPath?: string,
+    options: AnalysisOptions = {},
+  ): Promise<OrchestratorResult> {
     const analysisPath = targetPath || this.unifiedConfig.targetPath;
     const startTime = Date.now();
     const engineResults: EngineResult[] = [];
+    const { scope } = options;
+    const engineOptions = scope ? { scope } : {};
+
+    await this.loadPlugins();
 
     this.emitEvent("analysis-started", { engines: [...this.engines.keys()] });
 
@@ -264,34 +342,53 @@ export class UnifiedOrchestrator
       ([, a], [, b]) => a.getConfig().priority - b.getConfig().priority,
     );
 
-    // Execute engines in parallel (or series based on dependencies)
-    const enginePromises = sortedEngines.map(async ([name, engine]) => {
-      try {
-        console.log(`[UnifiedOrchestrator] Starting ${name} engine...`);
-        const result = await engine.execute(analysisPath);
+    const workspacePackages = this.unifiedConfig.workspaces
+      ? this.discoverPackages(analysisPath)
+      : [];
+    if (workspacePackages.length > 0) {
+      // One package at a time, each with its own tsconfig and ESLint config
+      for (const workspacePackage of workspacePackages) {
+        const packagePath =
+          path.relative(process.cwd(), workspacePackage.directory) || ".";
         console.log(
-          `[UnifiedOrchestrator] ${name} engine completed: ${result.violations.length} violations found`,
+          `[UnifiedOrchestrator] Analyzing package ${workspacePackage.name} (${packagePath})...`,
+        );
+        const packageResults = await this.runEngines(
+          sortedEngines,
+          packagePath,
+          engineOptions,
+        );
+        engineResults.push(
+          ...packageResults.map((result) => ({
+            ...result,
+            package: workspacePackage.name,
+            violations: result.violations.map((violation) => ({
+              ...violation,
+              package:
+                findOwningPackage(workspacePackages, violation.file)?.name ??
+                workspacePackage.name,
+            })),
+          })),
         );
-        return result;
-      } catch (error) {
-        console.error(`[UnifiedOrchestrator] ${name} engine failed:`, error);
-        // Return failed result instead of throwing
-        return {
-          engineName: name,
-          violations: [],
-          executionTime: 0,
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-        };
       }
-    });
-
-    const results = await Promise.all(enginePromises);
-    engineResults.push(...results);
+    } else {
+      engineResults.push(
+        ...(await this.runEngines(sortedEngines, analysisPath, engineOptions)),
+      );
+    }
 
     // Merge and deduplicate violations
-    const allViolations = this.mergeViolations(results);
-    const deduplicatedViolations = this.deduplicateViolations(allViolations);
+    const allViolations = [
+      ...this.mergeViolations(engineResults),
+      ...this.pluginFailures.map((failure) =>
+        createPluginFailureViolation(failure),
+      ),
+    ];
+    const fingerprintedViolations = assignFingerprints(
+      this.attributeOwnership(this.deduplicateViolations(allViolations)),
+    );
+    const { violations: deduplicatedViolations, suppressions } =
+      await this.applySuppressionsFile(fingerprintedViolations, scope);
 
     // Generate summary
     const summary = this.generateSummary(deduplicatedViolations);
@@ -304,6 +401,8 @@ export class UnifiedOrchestrator
       totalExecutionTime,
       summary,
       timestamp: new Date().toISOString(),
+      ...(scope && { scope }),
+      ...(suppressions && { suppressions }),
     };
 
     // Crossover detection and warnings
@@ -320,7 +419,7 @@ export class UnifiedOrchestrator
         }
 
         // Add to orchestrator result for programmatic access
-        (orchestratorResult as any).crossoverWarnings = crossoverWarnings;
+        orchestratorResult.crossoverWarnings = crossoverWarnings;
 
         // Optionally fail on crossover issues
         if (
@@ -337,12 +436,15 @@ export class UnifiedOrchestrator
     // Persist results if services are initialized
     if (this.initialized && this.storageService) {
       try {
-        await this.persistAnalysisResults(orchestratorResult);
+        await this.persistAnalysisResults(orchestratorResult, analysisPath);
       } catch (error) {
         console.warn("[UnifiedOrchestrator] Failed to persist results:", error);
       }
     }
 
+    // Write file reports declared in output config
+    await this.writeReports(orchestratorResult, analysisPath);
+
     this.emitEvent("analysis-completed", {
       violationCount: deduplicatedViolations.length,
       executionTime: totalExecutionTime,
@@ -351,6 +453,60 @@ export class UnifiedOrchestrator
     return orchestratorResult;
   }
 
+  /**
+   * Execute engines in parallel on one target path
+   */
+  private runEngines(
+    engines: Array<[string, BaseAuditEngine]>,
+    targetPath: string,
+    engineOptions: Record<string, unknown>,
+  ): Promise<EngineResult[]> {
+    const enginePromises = engines.map(async ([name, engine]) => {
+      try {
+        console.log(`[UnifiedOrchestrator] Starting ${name} engine...`);
+        const result = await engine.execute(targetPath, engineOptions);
+        console.log(
+          `[UnifiedOrchestrator] ${name} engine completed: ${result.violations.length} violations found`,
+        );
+        return result;
+      } catch (error) {
+        console.error(`[UnifiedOrchestrator] ${name} engine failed:`, error);
+        // Return failed result instead of throwing
+        return {
+          engineName: name,
+          violations: [],
+          executionTime: 0,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+
+    return Promise.all(enginePromises);
+  }
+
+  /**
+   * Workspace packages under the analysis path; none when it is not part
+   * of a workspace, which analyzes the path as a single project
+   */
+  private discoverPackages(analysisPath: string): WorkspacePackage[] {
+    try {
+      const packages = discoverWorkspacePackages(analysisPath);
+      if (packages.length === 0) {
+        console.warn(
+          `[UnifiedOrchestrator] No workspace packages found for ${analysisPath}, analyzing it as a single project`,
+        );
+      }
+      return packages;
+    } catch (error) {
+      console.warn(
+        "[UnifiedOrchestrator] Workspace discovery failed, analyzing the target as a single project:",
+        error,
+      );
+      return [];
+    }
+  }
+
   // ========================================================================
   // Engine Management (from legacy orchestrator)
   // ========================================================================
@@ -396,12 +552,105 @@ export class UnifiedOrchestrator
       );
       this.engines.set("archaeology", archaeologyEngine);
     }
+
+    // Initialize Complexity engine
+    if (this.unifiedConfig.engines.complexity?.enabled !== false) {
+      const complexityEngine = new ComplexityEngine(
+        this.unifiedConfig.engines.complexity as any,
+      );
+      this.engines.set("complexity", complexityEngine);
+    }
+
+    // Initialize Circular Dependency engine
+    if (this.unifiedConfig.engines.circularDependencies?.enabled !== false) {
+      const circularDependencyEngine = new CircularDependencyEngine(
+        this.unifiedConfig.engines.circularDependencies as any,
+      );
+      this.engines.set("circular-dependency", circularDependencyEngine);
+    }
+
+    // Initialize Architecture engine
+    if (this.unifiedConfig.engines.architecture?.enabled !== false) {
+      const architectureEngine = new ArchitectureEngine(
+        this.unifiedConfig.engines.architecture as any,
+      );
+      this.engines.set("architecture", architectureEngine);
+    }
+
+    // Initialize external command engine
+    if (this.unifiedConfig.engines.commands?.enabled !== false) {
+      const commandEngine = new CommandEngine(
+        this.unifiedConfig.engines.commands as any,
+      );
+      this.engines.set("commands", commandEngine);
+    }
+
+    // Initialize report import engine
+    if (this.unifiedConfig.engines.reportImport?.enabled !== false) {
+      const reportImportEngine = new ReportImportEngine(
+        this.unifiedConfig.engines.reportImport as any,
+      );
+      this.engines.set("report-import", reportImportEngine);
+    }
+
+    // Initialize dependency hygiene engine
+    if (this.unifiedConfig.engines.dependencies?.enabled !== false) {
+      const dependencyEngine = new DependencyEngine(
+        this.unifiedConfig.engines.dependencies as any,
+      );
+      this.engines.set("dependencies", dependencyEngine);
+    }
   }
 
   addEngine(name: string, engine: BaseAuditEngine): void {
     this.engines.set(name, engine);
   }
 
+  /**
+   * Register the engine plugins listed in the project config
+   * Runs once per engine set; plugins that fail to load are reported as
+   * setup issues in every analysis instead of aborting it.
+   */
+  async loadPlugins(): Promise<void> {
+    if (this.pluginsLoaded) {
+      return;
+    }
+    this.pluginsLoaded = true;
+
+    let projectConfig;
+    try {
+      projectConfig = loadProjectConfig(this.unifiedConfig.targetPath);
+    } catch (error) {
+      // Invalid project config is reported by the engines that read it
+      console.warn(
+        "[UnifiedOrchestrator] Could not read project config:",
+        error,
+      );
+      return;
+    }
+    const entries = projectConfig?.config.plugins ?? [];
+    if (!projectConfig || entries.length === 0) {
+      return;
+    }
+
+    const { plugins, failures } = await loadPlugins(entries, {
+      targetPath: this.unifiedConfig.targetPath,
+      projectRoot: path.dirname(projectConfig.path),
+      preferences:
+        PreferencesManager.getInstance().getAllPreferences().preferences,
+    });
+
+    for (const plugin of plugins) {
+      this.addEngine(plugin.name, plugin.engine);
+    }
+    for (const failure of failures) {
+      console.warn(
+        `[UnifiedOrchestrator] Plugin ${failure.module} failed to load: ${failure.error}`,
+      );
+    }
+    this.pluginFailures = failures;
+  }
+
   removeEngine(name: string): void {
     this.engines.delete(name);
   }
@@ -440,6 +689,7 @@ export class UnifiedOrchestrator
       maxConcurrentChecks:
         options.maxConcurrentChecks ||
         this.unifiedConfig.polling.maxConcurrentChecks,
+      analysisTrigger: options.analysisTrigger ?? "interval",
     };
 
     console.log(
@@ -450,22 +700,25 @@ export class UnifiedOrchestrator
     // Start polling service
     await this.pollingService!.start();
 
-    // Initial analysis
-    await this.analyze();
+    // With an external trigger the caller runs analysis when files change
+    if (watchOptions.analysisTrigger === "interval") {
+      // Initial analysis
+      await this.analyze();
 
-    // Set up watch mode interval combining both legacy and enhanced approaches
-    this.watchModeInterval = setInterval(async () => {
-      try {
-        // Execute analysis (legacy approach)
-        await this.analyze();
+      // Set up watch mode interval combining both legacy and enhanced approaches
+      this.watchModeInterval = setInterval(async () => {
+        try {
+          // Execute analysis (legacy approach)
+          await this.analyze();
 
-        // Execute service-based watch cycle (enhanced approach)
-        await this.executeWatchCycle(watchOptions);
-      } catch (error) {
-        console.error("[UnifiedOrchestrator] Watch cycle error:", error);
-        this.emit("watchError", error);
-      }
-    }, watchOptions.intervalMs);
+          // Execute service-based watch cycle (enhanced approach)
+          await this.executeWatchCycle(watchOptions);
+        } catch (error) {
+          console.error("[UnifiedOrchestrator] Watch cycle error:", error);
+          this.emit("watchError", error);
+        }
+      }, watchOptions.intervalMs);
+    }
 
     // Handle graceful shutdown (from legacy orchestrator)
     process.on("SIGINT", () => {
@@ -476,6 +729,7 @@ export class UnifiedOrchestrator
     });
 
     this.watchModeActive = true;
+    this.watchOptions = watchOptions;
     console.log("[UnifiedOrchestrator] Watch mode started");
     this.emit("watchModeStarted", watchOptions);
   }
@@ -500,6 +754,7 @@ export class UnifiedOrchestrator
     }
 
     this.watchModeActive = false;
+    this.watchOptions = undefined;
     console.log("[UnifiedOrchestrator] Watch mode stopped");
     this.emit("watchModeStopped");
     this.emitEvent("watch-stopped", {});
@@ -509,6 +764,25 @@ export class UnifiedOrchestrator
     return this.watchModeActive;
   }
 
+  /**
+   * Run the watch cycle (rule polling, auto-cleanup and metrics) that the
+   * interval trigger runs after each analysis
+   * With an external trigger the caller calls this after its analyses.
+   */
+  async runWatchCycle(): Promise<void> {
+    if (!this.watchModeActive || !this.watchOptions) {
+      return;
+    }
+    await this.executeWatchCycle(this.watchOptions);
+  }
+
+  /**
+   * Report changed files to "file-changed" watch event listeners
+   */
+  notifyFileChanges(files: string[]): void {
+    this.emitEvent("file-changed", { files });
+  }
+
   // ========================================================================
   // Service Access (from enhanced orchestrator)
   // ========================================================================
@@ -613,8 +887,14 @@ export class UnifiedOrchestrator
 
     // Reinitialize engines if engine config changed
     if (config.engines) {
+      // Release warm checkers and timers of the engines being replaced
+      for (const engine of this.engines.values()) {
+        engine.dispose();
+      }
       this.engines.clear();
       this.initializeEngines();
+      this.pluginsLoaded = false;
+      this.pluginFailures = [];
     }
 
     // Update service configuration if needed
@@ -863,6 +1143,52 @@ export class UnifiedOrchestrator
     });
   }
 
+  /**
+   * Add blame and CODEOWNERS owners when ownership is enabled
+   */
+  private attributeOwnership(violations: Violation[]): Violation[] {
+    const { ownership } = this.unifiedConfig;
+    if (!ownership?.blame && !ownership?.codeowners) {
+      return violations;
+    }
+    // Kept across watch cycles so unchanged files are not blamed again
+    this.ownershipResolver ??= new OwnershipResolver(ownership);
+    return this.ownershipResolver.annotate(violations);
+  }
+
+  /**
+   * Leave waived violations out of the results when a suppressions file is
+   * configured. The file is re-read on every analysis so watch mode picks
+   * up new waivers; a file that fails validation fails the analysis.
+   */
+  private async applySuppressionsFile(
+    violations: Violation[],
+    scope: AnalysisScope | undefined,
+  ): Promise<{ violations: Violation[]; suppressions?: SuppressionReport }> {
+    const file = this.unifiedConfig.suppressionsFile;
+    if (!file) {
+      return { violations };
+    }
+
+    const { suppressions } = await loadSuppressions(file);
+    const baseDirectory = path.dirname(path.resolve(file));
+    const outcome = applySuppressions(violations, suppressions, {
+      baseDirectory,
+      projectVersion: readProjectVersion(baseDirectory),
+      // A scoped run cannot tell whether a waiver matches elsewhere
+      reportUnused: !scope,
+    });
+    return {
+      violations: outcome.violations,
+      suppressions: {
+        file,
+        suppressed: outcome.suppressed,
+        expired: outcome.expired,
+        unused: outcome.unused,
+      },
+    };
+  }
+
   /**
    * Deduplicate violations based on configuration (from legacy orchestrator)
    */
@@ -919,6 +1245,9 @@ export class UnifiedOrchestrator
         "zod-detection": 0,
         parser: 0,
         complexity: 0,
+        "circular-dependency": 0,
+        architecture: 0,
+        dependencies: 0,
         security: 0,
         performance: 0,
         archaeology: 0,
@@ -941,6 +1270,19 @@ export class UnifiedOrchestrator
       summary.byCategory[violation.category] =
         (summary.byCategory[violation.category] || 0) + 1;
 
+      // Count by workspace package
+      if (violation.package) {
+        summary.byPackage ??= {};
+        summary.byPackage[violation.package] =
+          (summary.byPackage[violation.package] || 0) + 1;
+      }
+
+      // Count by CODEOWNERS owner
+      for (const owner of violation.owners ?? []) {
+        summary.byOwner ??= {};
+        summary.byOwner[owner] = (summary.byOwner[owner] || 0) + 1;
+      }
+
       // Count by file
       fileViolationCount.set(
         violation.file,
@@ -957,20 +1299,118 @@ export class UnifiedOrchestrator
     return summary;
   }
 
+  /**
+   * Write JSON and HTML reports to the paths declared in output config
+   * ("stdout" is reserved for the CLI, which prints the result itself)
+   */
+  private async writeReports(
+    result: OrchestratorResult,
+    analysisPath: string,
+  ): Promise<void> {
+    const { json, html } = this.unifiedConfig.output ?? {};
+    const jsonFile = json && json !== "stdout" ? json : undefined;
+    if (!jsonFile && !html) {
+      return;
+    }
+
+    const reportOptions = {
+      targetPath: analysisPath,
+      toolVersion: await getToolVersion(),
+    };
+
+    if (jsonFile) {
+      try {
+        await writeJsonReport(result, jsonFile, reportOptions);
+        console.log(`[UnifiedOrchestrator] JSON report written to ${jsonFile}`);
+      } catch (error) {
+        console.warn(
+          "[UnifiedOrchestrator] Failed to write JSON report:",
+          error,
+        );
+      }
+    }
+
+    if (html) {
+      try {
+        await writeHtmlReport(result, html, reportOptions);
+        console.log(`[UnifiedOrchestrator] HTML report written to ${html}`);
+      } catch (error) {
+        console.warn(
+          "[UnifiedOrchestrator] Failed to write HTML report:",
+          error,
+        );
+      }
+    }
+  }
+
   /**
    * Persist analysis results to storage service
+   * Each run is recorded as a check linked to a snapshot of the git state,
+   * with its violation deltas, so history can be queried by commit.
    */
   private async persistAnalysisResults(
     result: OrchestratorResult,
+    analysisPath: string,
   ): Promise<void> {
     if (!this.storageService || !this.violationTracker) {
       return;
     }
 
     try {
+      const previousSnapshot = await this.storageService.getLatestSnapshot();
+      const snapshotId = await this.storageService.recordAnalysisSnapshot(
+        readGitSnapshot(path.resolve(analysisPath)),
+      );
+      const checkId = await this.storageService.startRuleCheck(
+        "analysis",
+        "orchestrator",
+        snapshotId,
+      );
+
+      // Carry history over to violations whose fingerprint changed with an
+      // edit or a rename since the last analysis
+      const suppressed = (result.suppressions?.suppressed ?? []).map(
+        (entry) => entry.violation,
+      );
+      await this.storageService.reassociateViolations(
+        [...result.violations, ...suppressed],
+        detectRenames(previousSnapshot?.commit_sha ?? undefined),
+      );
+
+      // Waived violations are ignored rather than counted as removed
+      if (suppressed.length > 0) {
+        await this.violationTracker.markAsIgnored(
+          violationsToDatabaseFormat(suppressed).map(
+            (violation) => violation.hash,
+          ),
+        );
+      }
+
+      // Deltas compare with the stored violations, so record them first.
+      // A scoped run sees only part of the project; everything else would
+      // count as removed.
+      if (!result.scope) {
+        const hashes = violationsToDatabaseFormat(result.violations).map(
+          (violation) => violation.hash,
+        );
+        await this.storageService.recordViolationDeltas(
+          checkId,
+          [...new Set(hashes)],
+          snapshotId,
+        );
+      }
+
       // Track violations through the violation tracker
       await this.violationTracker.processViolations(result.violations);
 
+      await this.storageService.completeRuleCheck(
+        checkId,
+        result.violations.length,
+        result.totalExecutionTime,
+        0,
+        new Set(result.violations.map((violation) => violation.file)).size,
+      );
+
       // Record performance metrics
       await this.storageService.recordPerformanceMetric(
         "analysis_execution",
@@ -1052,6 +1492,12 @@ export function createDefaultUnifiedConfig(
       unusedExports: { enabled: true, priority: 3, options: {} },
       zodDetection: { enabled: true, priority: 4, options: {} },
       archaeology: { enabled: false, priority: 5, options: {} }, // Disabled by default
+      complexity: { enabled: false, priority: 6, options: {} }, // Disabled by default
+      circularDependencies: { enabled: false, priority: 7, options: {} }, // Disabled by default
+      architecture: { enabled: false, priority: 8, options: {} }, // Disabled by default
+      commands: { enabled: false, priority: 9, options: {} }, // Disabled by default
+      reportImport: { enabled: false, priority: 10, options: {} }, // Disabled by default
+      dependencies: { enabled: false, priority: 11, options: {} }, // Disabled by default
     },
     deduplication: {
       enabled: true,
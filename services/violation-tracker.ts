@@ -169,18 +169,14 @@ export class ViolationTracker implements IViolationTracker {
     return await this.storageService.resolveViolations(violationHashes);
   }
 
-  markAsIgnored(violationHashes: string[]): Promise<number> {
-    console.log(
-      `[ViolationTracker] Marking ${violationHashes.length} violations as ignored`,
-    );
+  async markAsIgnored(violationHashes: string[]): Promise<number> {
+    if (!this.silent) {
+      console.log(
+        `[ViolationTracker] Marking ${violationHashes.length} violations as ignored`,
+      );
+    }
 
-    // Note: StorageService doesn't have markAsIgnored method yet,
-    // this would need to be implemented similarly to resolveViolations
-    // For now, we'll log the operation
-    console.log(
-      "markAsIgnored operation logged - implementation needed in StorageService",
-    );
-    return Promise.resolve(violationHashes.length);
+    return await this.storageService.ignoreViolations(violationHashes);
   }
 
   reactivateViolations(violationHashes: string[]): Promise<number> {
@@ -201,6 +197,10 @@ export class ViolationTracker implements IViolationTracker {
   // ========================================================================
 
   generateViolationHash(violation: OrchestratorViolation): string {
+    if (violation.fingerprint) {
+      return violation.fingerprint.hash;
+    }
+
     // Create cache key for this violation
     const cacheKey = `${violation.file}:${violation.line}:${violation.rule}:${violation.message}`;
 
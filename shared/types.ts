@@ -46,6 +46,8 @@ export interface ViolationSummary {
   readonly byCategoryBySource?: Readonly<
     Record<string, Record<string, number>>
   >;
+  readonly byPackage?: Readonly<Record<string, number>>;
+  readonly byOwner?: Readonly<Record<string, number>>;
 }
 
 export interface TodayProgressData {
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Violation Baseline (CI ratchet mode)
+ *
+ * A baseline is a committed JSON file listing the violations a project has
+ * already accepted, keyed by the file, rule and message hashes from
+ * `violationContentHash`, so counts of identical violations stay comparable.
+ * CI runs compare against it and fail only on violations that are not
+ * covered, while reporting baseline entries that have since been fixed so
+ * the file can shrink over time. No database is involved, so this works
+ * with `--no-persistence`.
+ */
+
+import path from "node:path";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import type { Violation } from "./violation-types.js";
+import {
+  violationContentHash,
+  violationToDatabaseFormat,
+} from "../database/utils.js";
+import {
+  BaselineFileSchema,
+  safeJsonParse,
+  type ValidatedBaselineFile,
+} from "./validation-schemas.js";
+import { compareViolations } from "./json-report-writer.js";
+
+// ============================================================================
+// Baseline Types
+// ============================================================================
+
+export const DEFAULT_BASELINE_PATH = ".sidequest-baseline.json";
+
+export type Baseline = ValidatedBaselineFile;
+export type BaselineEntry = Baseline["entries"][number];
+
+export interface FixedBaselineEntry extends BaselineEntry {
+  /** How many of the baselined occurrences no longer appear */
+  fixedCount: number;
+}
+
+export interface BaselineComparison {
+  /** Violations not covered by the baseline (these fail the run) */
+  newViolations: Violation[];
+  /** Baseline entries with fewer occurrences than recorded */
+  fixedEntries: FixedBaselineEntry[];
+  /** Current violations covered by the baseline */
+  baselinedCount: number;
+}
+
+// ============================================================================
+// Baseline Creation and Comparison
+// ============================================================================
+
+/**
+ * Setup issues describe broken tooling rather than code, so they are never
+ * baselined; they must be fixed rather than accepted
+ */
+function isBaselineCandidate(violation: Violation): boolean {
+  return violation.category !== "setup-issue";
+}
+
+/**
+ * Group violations by their stable hash, preserving a deterministic order
+ */
+function groupByHash(violations: Violation[]): Map<string, Violation[]> {
+  const groups = new Map<string, Violation[]>();
+
+  for (const violation of [...violations].sort(compareViolations)) {
+    if (!isBaselineCandidate(violation)) {
+      continue;
+    }
+    const hash = violationContentHash(violation);
+    const group = groups.get(hash);
+    if (group) {
+      group.push(violation);
+    } else {
+      groups.set(hash, [violation]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Build a baseline from the current violations
+ */
+export function createBaseline(violations: Violation[]): Baseline {
+  const entries: BaselineEntry[] = [];
+
+  for (const [hash, group] of groupByHash(violations)) {
+    const databaseViolation = violationToDatabaseFormat(group[0]!);
+    entries.push({
+      hash,
+      file: databaseViolation.file_path,
+      rule: databaseViolation.rule_id,
+      message: databaseViolation.message,
+      count: group.length,
+    });
+  }
+
+  entries.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      a.rule.localeCompare(b.rule) ||
+      a.hash.localeCompare(b.hash),
+  );
+
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    entries,
+  };
+}
+
+/**
+ * Compare current violations against a baseline
+ *
+ * Hashes exclude line numbers, so several occurrences can share one entry;
+ * only occurrences beyond the recorded count are treated as new.
+ */
+export function compareWithBaseline(
+  violations: Violation[],
+  baseline: Baseline,
+): BaselineComparison {
+  const allowed = new Map(
+    baseline.entries.map((entry) => [entry.hash, entry.count]),
+  );
+  const current = groupByHash(violations);
+
+  const newViolations: Violation[] = [];
+  let baselinedCount = 0;
+
+  for (const [hash, group] of current) {
+    const allowedCount = allowed.get(hash) ?? 0;
+    baselinedCount += Math.min(allowedCount, group.length);
+    newViolations.push(...group.slice(allowedCount));
+  }
+
+  const fixedEntries: FixedBaselineEntry[] = [];
+  for (const entry of baseline.entries) {
+    const currentCount = current.get(entry.hash)?.length ?? 0;
+    if (currentCount < entry.count) {
+      fixedEntries.push({ ...entry, fixedCount: entry.count - currentCount });
+    }
+  }
+
+  return { newViolations, fixedEntries, baselinedCount };
+}
+
+// ============================================================================
+// File I/O
+// ============================================================================
+
+/**
+ * Load and validate a baseline file
+ */
+export async function loadBaseline(baselineFile: string): Promise<Baseline> {
+  const content = await readFile(baselineFile, "utf8");
+  return safeJsonParse(content, BaselineFileSchema, "baseline file");
+}
+
+/**
+ * Write a baseline file with stable formatting for clean diffs
+ */
+export async function saveBaseline(
+  baselineFile: string,
+  baseline: Baseline,
+): Promise<void> {
+  await mkdir(path.dirname(path.resolve(baselineFile)), { recursive: true });
+  await writeFile(
+    baselineFile,
+    `${JSON.stringify(baseline, undefined, 2)}\n`,
+    "utf8",
+  );
+}
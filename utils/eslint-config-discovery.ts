@@ -0,0 +1,222 @@
+/**
+ * @fileoverview ESLint Config Discovery
+ *
+ * Detects whether a project uses flat config (eslint.config.*) or legacy
+ * .eslintrc config, and enumerates the rules a flat config enables,
+ * including rules that are only enabled for some file globs.
+ */
+
+import * as fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+export type ESLintConfigType = "flat" | "eslintrc";
+
+export interface ESLintConfigFile {
+  type: ESLintConfigType;
+  /** Absolute path to the config file */
+  path: string;
+}
+
+/**
+ * Flat config file names in ESLint's lookup order
+ */
+export const FLAT_CONFIG_FILENAMES = [
+  "eslint.config.js",
+  "eslint.config.mjs",
+  "eslint.config.cjs",
+  "eslint.config.ts",
+  "eslint.config.mts",
+  "eslint.config.cts",
+];
+
+/**
+ * Legacy config file names in ESLint's priority order
+ */
+export const ESLINTRC_FILENAMES = [
+  ".eslintrc.js",
+  ".eslintrc.cjs",
+  ".eslintrc.yaml",
+  ".eslintrc.yml",
+  ".eslintrc.json",
+  ".eslintrc",
+];
+
+/**
+ * A rule setting from one flat config object
+ */
+export interface FlatConfigRuleEntry {
+  rule: string;
+  enabled: boolean;
+  /** The object's `files` globs; undefined means the setting applies to all files */
+  files: string[] | undefined;
+}
+
+// ============================================================================
+// Config File Detection
+// ============================================================================
+
+function findInDirectory(
+  directory: string,
+  filenames: string[],
+): string | undefined {
+  return filenames
+    .map((filename) => path.join(directory, filename))
+    .find((candidate) => fs.existsSync(candidate));
+}
+
+function hasPackageJsonESLintConfig(directory: string): boolean {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(directory, "package.json"), "utf8"),
+    ) as Record<string, unknown>;
+    return packageJson["eslintConfig"] !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+function findUpwards(
+  startDirectory: string,
+  find: (_directory: string) => string | undefined,
+): string | undefined {
+  let directory = path.resolve(startDirectory);
+
+  while (directory !== path.dirname(directory)) {
+    const found = find(directory);
+    if (found) {
+      return found;
+    }
+    directory = path.dirname(directory);
+  }
+
+  return find(directory);
+}
+
+/**
+ * Find the ESLint config that applies to a directory
+ *
+ * Mirrors ESLint's own choice: ESLINT_USE_FLAT_CONFIG wins when set,
+ * otherwise a flat config found from the directory upwards is used before
+ * any .eslintrc file (or package.json "eslintConfig").
+ */
+export function findESLintConfig(
+  startDirectory: string,
+): ESLintConfigFile | undefined {
+  const useFlatConfig = process.env["ESLINT_USE_FLAT_CONFIG"];
+
+  if (useFlatConfig !== "false") {
+    const flatConfigPath = findUpwards(startDirectory, (directory) =>
+      findInDirectory(directory, FLAT_CONFIG_FILENAMES),
+    );
+    if (flatConfigPath) {
+      return { type: "flat", path: flatConfigPath };
+    }
+  }
+
+  if (useFlatConfig === "true") {
+    return undefined;
+  }
+
+  const eslintrcPath = findUpwards(
+    startDirectory,
+    (directory) =>
+      findInDirectory(directory, ESLINTRC_FILENAMES) ??
+      (hasPackageJsonESLintConfig(directory)
+        ? path.join(directory, "package.json")
+        : undefined),
+  );
+  return eslintrcPath ? { type: "eslintrc", path: eslintrcPath } : undefined;
+}
+
+// ============================================================================
+// Flat Config Rule Enumeration
+// ============================================================================
+
+function isRuleEnabled(setting: unknown): boolean {
+  const severity = Array.isArray(setting) ? setting[0] : setting;
+  return severity !== 0 && severity !== "off" && severity !== undefined;
+}
+
+/**
+ * Load a flat config module and flatten it into its config objects
+ * The mtime query makes edited configs reload instead of hitting the
+ * module cache.
+ */
+export async function loadFlatConfig(configPath: string): Promise<unknown[]> {
+  const { mtimeMs } = fs.statSync(configPath);
+  const imported = (await import(
+    `${pathToFileURL(configPath).href}?mtime=${mtimeMs}`
+  )) as { default?: unknown };
+  const config: unknown = await (imported.default ?? imported);
+
+  return Array.isArray(config) ? config.flat(Infinity) : [config];
+}
+
+/**
+ * List every rule setting in a flat config, in config order
+ */
+export function getFlatConfigRuleEntries(
+  configs: unknown[],
+): FlatConfigRuleEntry[] {
+  const entries: FlatConfigRuleEntry[] = [];
+
+  for (const config of configs.flat(Infinity)) {
+    if (!config || typeof config !== "object") {
+      continue;
+    }
+    const { files, rules } = config as {
+      files?: unknown;
+      rules?: Record<string, unknown>;
+    };
+    if (!rules) {
+      continue;
+    }
+
+    const fileGlobs = Array.isArray(files)
+      ? files.flat().map(String)
+      : undefined;
+    for (const [rule, setting] of Object.entries(rules)) {
+      entries.push({ rule, enabled: isRuleEnabled(setting), files: fileGlobs });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Rules enabled for at least some files
+ *
+ * A setting without `files` overrides every earlier setting of the rule; a
+ * setting with `files` only affects those globs, so a rule turned on for
+ * test files stays enabled even when it is off everywhere else.
+ */
+export function getEnabledFlatConfigRules(configs: unknown[]): string[] {
+  const states = new Map<string, { global: boolean; scoped: Set<string> }>();
+
+  for (const entry of getFlatConfigRuleEntries(configs)) {
+    const state = states.get(entry.rule) ?? {
+      global: false,
+      scoped: new Set<string>(),
+    };
+    states.set(entry.rule, state);
+
+    if (entry.files === undefined) {
+      state.global = entry.enabled;
+      state.scoped.clear();
+      continue;
+    }
+
+    const globsKey = JSON.stringify(entry.files);
+    if (entry.enabled) {
+      state.scoped.add(globsKey);
+    } else {
+      state.scoped.delete(globsKey);
+    }
+  }
+
+  return [...states.entries()]
+    .filter(([, state]) => state.global || state.scoped.size > 0)
+    .map(([rule]) => rule)
+    .sort();
+}
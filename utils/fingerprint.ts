@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Violation Fingerprints
+ *
+ * Identifies a violation by its rule, file, the normalized code around it
+ * and its occurrence index among identical neighbours, instead of by line
+ * number or message. Fingerprints survive lines moving and messages being
+ * reworded, and keep repeated identical violations in one file apart.
+ * `matchFingerprints` re-associates stored violations with current ones
+ * after edits and git renames, so their history carries over.
+ */
+
+import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import type { Violation } from "./violation-types.js";
+
+/**
+ * Stored or current violation, as far as matching needs it
+ */
+export interface FingerprintCandidate {
+  hash: string;
+  file: string;
+  rule: string;
+  /** Absent for violations stored before fingerprints had context */
+  contextHash: string | null | undefined;
+  line: number;
+  message: string;
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Code without whitespace, so reformatting does not change the context
+ */
+function normalizeCode(text: string): string {
+  return text.replaceAll(/\s+/g, "");
+}
+
+/**
+ * Message with numbers masked, so counts and positions do not tell
+ * otherwise identical messages apart
+ */
+export function normalizeMessage(message: string): string {
+  return message.trim().replaceAll(/\s+/g, " ").replaceAll(/\d+/g, "#");
+}
+
+/**
+ * A violation's line with the nearest non-blank line above and below it,
+ * normalized; undefined when the line is outside the file
+ */
+export function normalizeContext(
+  lines: string[],
+  line: number,
+): string | undefined {
+  const index = line - 1;
+  if (index < 0 || index >= lines.length) {
+    return undefined;
+  }
+
+  const nearest = (start: number, step: number): string => {
+    for (let scan = start; scan >= 0 && scan < lines.length; scan += step) {
+      const normalized = normalizeCode(lines[scan]!);
+      if (normalized) {
+        return normalized;
+      }
+    }
+    return "";
+  };
+  return [
+    nearest(index - 1, -1),
+    normalizeCode(lines[index]!),
+    nearest(index + 1, 1),
+  ].join("\n");
+}
+
+/**
+ * Copies of the violations with fingerprints
+ *
+ * Each file is read once. Violations without readable code (setup issues,
+ * deleted files, file-level findings on line 0) use their normalized
+ * message as context instead.
+ */
+export function assignFingerprints(
+  violations: Violation[],
+  readFile: (_file: string) => string = (file) => fs.readFileSync(file, "utf8"),
+): Violation[] {
+  const sources = new Map<string, string[] | undefined>();
+  const linesOf = (file: string): string[] | undefined => {
+    if (!sources.has(file)) {
+      try {
+        sources.set(file, readFile(file).split(/\r?\n/));
+      } catch {
+        sources.set(file, undefined);
+      }
+    }
+    return sources.get(file);
+  };
+
+  const entries = violations.map((violation) => {
+    const lines =
+      violation.category === "setup-issue"
+        ? undefined
+        : linesOf(violation.file);
+    const context =
+      (lines && normalizeContext(lines, violation.line)) ??
+      normalizeMessage(violation.message || violation.code);
+    return {
+      violation,
+      rule: violation.rule || violation.code || "unknown",
+      contextHash: sha256(context),
+      occurrence: 0,
+    };
+  });
+
+  // Identical violations are numbered in file order
+  const seen = new Map<string, number>();
+  const inFileOrder = [...entries].sort(
+    (a, b) =>
+      a.violation.line - b.violation.line ||
+      (a.violation.column ?? 0) - (b.violation.column ?? 0),
+  );
+  for (const entry of inFileOrder) {
+    const key = [entry.rule, entry.violation.file, entry.contextHash].join("|");
+    entry.occurrence = seen.get(key) ?? 0;
+    seen.set(key, entry.occurrence + 1);
+  }
+
+  return entries.map(({ violation, rule, contextHash, occurrence }) => ({
+    ...violation,
+    fingerprint: {
+      hash: sha256([rule, violation.file, contextHash, occurrence].join("|")),
+      contextHash,
+      occurrence,
+    },
+  }));
+}
+
+function byLine(a: FingerprintCandidate, b: FingerprintCandidate): number {
+  return a.line - b.line;
+}
+
+/**
+ * Pair stored violations with current ones whose fingerprint changed
+ *
+ * After exact fingerprint matches, the rest are paired in line order by
+ * file (following renames), rule and code context, which covers lines that
+ * moved or gained a new identical neighbour; then by file, rule and
+ * message, which covers code edited around an unchanged finding.
+ *
+ * @returns Current fingerprint for each re-associated stored fingerprint
+ */
+export function matchFingerprints(
+  previous: FingerprintCandidate[],
+  current: FingerprintCandidate[],
+  renames: Map<string, string> = new Map(),
+): Map<string, string> {
+  const currentHashes = new Set(current.map((candidate) => candidate.hash));
+  const previousHashes = new Set(previous.map((candidate) => candidate.hash));
+  let unmatchedPrevious = previous.filter(
+    (candidate) => !currentHashes.has(candidate.hash),
+  );
+  let unmatchedCurrent = current.filter(
+    (candidate) => !previousHashes.has(candidate.hash),
+  );
+  const matches = new Map<string, string>();
+
+  const pairBy = (
+    key: (
+      _candidate: FingerprintCandidate,
+      _file: string,
+    ) => string | undefined,
+  ): void => {
+    const groups = new Map<
+      string,
+      { previous: FingerprintCandidate[]; current: FingerprintCandidate[] }
+    >();
+    const add = (
+      candidate: FingerprintCandidate,
+      file: string,
+      side: "previous" | "current",
+    ): void => {
+      const groupKey = key(candidate, file);
+      if (groupKey === undefined) {
+        return;
+      }
+      const group = groups.get(groupKey) ?? { previous: [], current: [] };
+      group[side].push(candidate);
+      groups.set(groupKey, group);
+    };
+    for (const candidate of unmatchedPrevious) {
+      add(candidate, renames.get(candidate.file) ?? candidate.file, "previous");
+    }
+    for (const candidate of unmatchedCurrent) {
+      add(candidate, candidate.file, "current");
+    }
+
+    const paired = new Set<FingerprintCandidate>();
+    for (const group of groups.values()) {
+      group.previous.sort(byLine);
+      group.current.sort(byLine);
+      const count = Math.min(group.previous.length, group.current.length);
+      for (let index = 0; index < count; index++) {
+        const stored = group.previous[index]!;
+        const found = group.current[index]!;
+        matches.set(stored.hash, found.hash);
+        paired.add(stored).add(found);
+      }
+    }
+    unmatchedPrevious = unmatchedPrevious.filter((c) => !paired.has(c));
+    unmatchedCurrent = unmatchedCurrent.filter((c) => !paired.has(c));
+  };
+
+  pairBy((candidate, file) =>
+    candidate.contextHash
+      ? [file, candidate.rule, candidate.contextHash].join("|")
+      : undefined,
+  );
+  pairBy((candidate, file) =>
+    [file, candidate.rule, normalizeMessage(candidate.message)].join("|"),
+  );
+
+  return matches;
+}
+
+/**
+ * Files git detects as renamed since a commit, including uncommitted
+ * renames of tracked files, as old path to new path relative to `cwd`
+ * Empty outside a git work tree.
+ */
+export function detectRenames(
+  sinceCommit: string | undefined,
+  cwd: string = process.cwd(),
+): Map<string, string> {
+  const result = spawnSync(
+    "git",
+    [
+      "diff",
+      "--name-status",
+      "--find-renames",
+      "--relative",
+      "-z",
+      sinceCommit ?? "HEAD",
+    ],
+    { encoding: "utf8", cwd, maxBuffer: 1024 * 1024 * 50 },
+  );
+  const renames = new Map<string, string>();
+  if (result.error || result.status !== 0) {
+    return renames;
+  }
+
+  // NUL-separated: status, path, and a second path for renames and copies
+  const fields = result.stdout.split("\0");
+  for (let index = 0; index < fields.length - 1; ) {
+    const status = fields[index]!;
+    if (/^[CR]/.test(status)) {
+      if (status.startsWith("R")) {
+        renames.set(fields[index + 1]!, fields[index + 2]!);
+      }
+      index += 3;
+    } else {
+      index += 2;
+    }
+  }
+  return renames;
+}
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Git Change Scope
+ *
+ * Computes the set of changed files (and optionally changed lines) from
+ * local git for `--changed-since <ref>` and `--staged`, and filters
+ * violations down to that scope. Paths are relative to the working
+ * directory, matching the paths engines report.
+ */
+
+import { spawnSync } from "node:child_process";
+import path from "node:path";
+import type { AnalysisScope, Violation } from "./violation-types.js";
+
+export interface GitScopeOptions {
+  /** Compare against the merge base of this ref and HEAD */
+  changedSince?: string | undefined;
+  /** Use the files staged in the index */
+  staged?: boolean;
+  /** Also record changed line ranges for line-level filtering */
+  changedLines?: boolean;
+  cwd?: string;
+}
+
+/**
+ * Untracked files have no diff hunks, so every line is in scope
+ */
+const WHOLE_FILE: [number, number] = [1, Number.MAX_SAFE_INTEGER];
+
+// ============================================================================
+// Git Helpers
+// ============================================================================
+
+function runGit(arguments_: string[], cwd: string): string {
+  const result = spawnSync("git", arguments_, {
+    encoding: "utf8",
+    cwd,
+    maxBuffer: 1024 * 1024 * 50,
+  });
+
+  if (result.error) {
+    throw new Error(`Failed to run git: ${result.error.message}`);
+  }
+  if (result.status !== 0) {
+    throw new Error(
+      `git ${arguments_.join(" ")} failed: ${result.stderr.trim()}`,
+    );
+  }
+  return result.stdout;
+}
+
+function splitLines(output: string): string[] {
+  return output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse unified diff output (`--unified=0 --no-prefix`) into added line ranges
+ * Pure deletions produce no ranges since there is no new line to report on.
+ */
+export function parseChangedLines(
+  diff: string,
+): Record<string, Array<[number, number]>> {
+  const changedLines: Record<string, Array<[number, number]>> = {};
+  let currentFile: string | undefined;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++ ")) {
+      const file = line.slice(4).trim();
+      currentFile = file === "/dev/null" ? undefined : file;
+      continue;
+    }
+
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (!hunk || !currentFile) {
+      continue;
+    }
+
+    const start = Number(hunk[1]);
+    const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+    if (count > 0) {
+      (changedLines[currentFile] ??= []).push([start, start + count - 1]);
+    }
+  }
+
+  return changedLines;
+}
+
+// ============================================================================
+// Scope Resolution
+// ============================================================================
+
+/**
+ * Compute the analysis scope from local git
+ *
+ * `--changed-since` diffs the working tree against the merge base with the
+ * ref (so commits that landed on the ref afterwards are ignored) and
+ * includes untracked files; `--staged` uses the index only.
+ */
+export function resolveGitScope(options: GitScopeOptions): AnalysisScope {
+  const cwd = options.cwd ?? process.cwd();
+
+  if (!options.staged && !options.changedSince) {
+    throw new Error("Either a ref or staged mode is required");
+  }
+
+  const diffTarget = options.staged
+    ? ["--cached"]
+    : [runGit(["merge-base", options.changedSince!, "HEAD"], cwd).trim()];
+  const diffArguments = [
+    "diff",
+    "--relative",
+    "--no-color",
+    "--no-ext-diff",
+    "--diff-filter=ACMR",
+    ...diffTarget,
+  ];
+
+  const changedFiles = splitLines(
+    runGit([...diffArguments, "--name-only"], cwd),
+  );
+  const untrackedFiles = options.staged
+    ? []
+    : splitLines(runGit(["ls-files", "--others", "--exclude-standard"], cwd));
+
+  const scope: AnalysisScope = {
+    description: options.staged
+      ? "staged changes"
+      : `changes since ${options.changedSince}`,
+    files: [...new Set([...changedFiles, ...untrackedFiles])].sort(),
+  };
+
+  if (options.changedLines) {
+    const changedLines = parseChangedLines(
+      runGit([...diffArguments, "--unified=0", "--no-prefix"], cwd),
+    );
+    for (const file of untrackedFiles) {
+      changedLines[file] = [WHOLE_FILE];
+    }
+    scope.changedLines = changedLines;
+  }
+
+  return scope;
+}
+
+// ============================================================================
+// Violation Filtering
+// ============================================================================
+
+function toScopePath(file: string): string {
+  return path
+    .relative(process.cwd(), path.resolve(file))
+    .split(path.sep)
+    .join("/");
+}
+
+/**
+ * Keep only violations inside the scope
+ * Setup issues describe the tooling rather than a file, so they are always kept.
+ */
+export function filterViolationsToScope(
+  violations: Violation[],
+  scope: AnalysisScope,
+): Violation[] {
+  const files = new Set(scope.files.map((file) => toScopePath(file)));
+  const changedLines = scope.changedLines
+    ? new Map(
+        Object.entries(scope.changedLines).map(([file, ranges]) => [
+          toScopePath(file),
+          ranges,
+        ]),
+      )
+    : undefined;
+
+  return violations.filter((violation) => {
+    if (violation.category === "setup-issue") {
+      return true;
+    }
+
+    const file = toScopePath(violation.file);
+    if (!files.has(file)) {
+      return false;
+    }
+    if (!changedLines) {
+      return true;
+    }
+
+    return (changedLines.get(file) ?? []).some(
+      ([start, end]) => violation.line >= start && violation.line <= end,
+    );
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Git Snapshot
+ *
+ * Reads the HEAD commit, branch and dirty state of the repository an
+ * analysis ran in, so stored history can be related to commits.
+ */
+
+import { spawnSync } from "node:child_process";
+
+export interface GitSnapshot {
+  /** HEAD commit; undefined before the first commit */
+  commitSha: string | undefined;
+  /** Checked-out branch; undefined on a detached HEAD */
+  branch: string | undefined;
+  /** Tracked files have uncommitted (staged or unstaged) changes */
+  dirty: boolean;
+}
+
+/**
+ * Output of a git command, or undefined when it fails
+ */
+function tryGit(arguments_: string[], cwd: string): string | undefined {
+  const result = spawnSync("git", arguments_, { encoding: "utf8", cwd });
+  if (result.error || result.status !== 0) {
+    return undefined;
+  }
+  return result.stdout.trim();
+}
+
+/**
+ * Git state of the working tree containing a directory
+ * Undefined outside a git work tree or when git is not installed.
+ */
+export function readGitSnapshot(
+  cwd: string = process.cwd(),
+): GitSnapshot | undefined {
+  if (tryGit(["rev-parse", "--is-inside-work-tree"], cwd) !== "true") {
+    return undefined;
+  }
+
+  const status = tryGit(["status", "--porcelain", "--untracked-files=no"], cwd);
+  return {
+    commitSha:
+      tryGit(["rev-parse", "--verify", "--quiet", "HEAD"], cwd) || undefined,
+    branch:
+      tryGit(["symbolic-ref", "--short", "--quiet", "HEAD"], cwd) || undefined,
+    dirty: Boolean(status),
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Glob Matching
+ *
+ * Minimal glob support for project-relative file patterns in config files:
+ * `**` matches across directories, `*` and `?` within one path segment, and
+ * a pattern naming a directory also matches everything below it.
+ */
+
+import * as fs from "node:fs";
+import path from "node:path";
+
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Regular expression source of a glob, without anchors or the implied match
+ * of everything below a directory
+ */
+export function globToRegExpSource(pattern: string): string {
+  const normalized = pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+  let source = "";
+  for (let index = 0; index < normalized.length; index++) {
+    const character = normalized[index]!;
+    if (character === "*" && normalized[index + 1] === "*") {
+      // "**/" also matches zero directories
+      if (normalized[index + 2] === "/") {
+        source += "(?:.*/)?";
+        index += 2;
+      } else {
+        source += ".*";
+        index += 1;
+      }
+    } else if (character === "*") {
+      source += "[^/]*";
+    } else if (character === "?") {
+      source += "[^/]";
+    } else {
+      source += character.replaceAll(/[$()+.[\\\]^{|}]/g, String.raw`\$&`);
+    }
+  }
+  return source;
+}
+
+/**
+ * Convert a glob to an anchored regular expression over "/"-separated paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const regExp = new RegExp(`^${globToRegExpSource(pattern)}(?:/.*)?$`);
+  compiledPatterns.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Whether a relative file path matches any of the patterns
+ */
+export function matchesGlob(file: string, patterns: string[]): boolean {
+  const normalized = file.split(path.sep).join("/");
+  return patterns.some((pattern) => globToRegExp(pattern).test(normalized));
+}
+
+// Never worth descending into when expanding a pattern
+const SKIPPED_DIRECTORIES = new Set(["node_modules", ".git"]);
+
+/**
+ * Files under a directory matching a pattern, as absolute paths
+ * Only the pattern's static prefix is walked, so "reports/*.sarif" does not
+ * scan the whole project.
+ */
+export function expandGlob(pattern: string, cwd: string): string[] {
+  const normalized = pattern.split(path.sep).join("/");
+  const segments = normalized.split("/");
+  const firstWildcard = segments.findIndex((segment) => /[*?]/.test(segment));
+  const prefix =
+    firstWildcard === -1
+      ? normalized
+      : segments.slice(0, firstWildcard).join("/");
+  const root = path.resolve(cwd, prefix);
+  const matcher = globToRegExp(
+    path.relative(cwd, path.resolve(cwd, normalized)).split(path.sep).join("/"),
+  );
+
+  const files: string[] = [];
+  const visit = (directory: string): void => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+          visit(entryPath);
+        }
+      } else if (
+        entry.isFile() &&
+        matcher.test(path.relative(cwd, entryPath).split(path.sep).join("/"))
+      ) {
+        files.push(entryPath);
+      }
+    }
+  };
+
+  if (fs.existsSync(root) && fs.statSync(root).isFile()) {
+    return [root];
+  }
+  visit(root);
+  return files.sort();
+}
@@ -0,0 +1,254 @@
+/**
+ * @fileoverview HTML Report Writer
+ *
+ * Renders a self-contained static HTML report (inline CSS and JS, no
+ * external assets) from the stable JSON report: summary cards, category
+ * and source breakdowns, top files and a sortable, filterable violation table.
+ */
+
+import path from "node:path";
+import { mkdir, writeFile } from "node:fs/promises";
+import {
+  getCategoryLabel,
+  type OrchestratorResult,
+  type ViolationCategory,
+} from "./violation-types.js";
+import {
+  createJsonReport,
+  type JsonReport,
+  type JsonReportOptions,
+} from "./json-report-writer.js";
+
+// ============================================================================
+// Rendering Helpers
+// ============================================================================
+
+/**
+ * Escape text for safe inclusion in HTML content and attributes
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function renderCard(label: string, value: number | string, tone = ""): string {
+  return `<div class="card ${tone}"><div class="value">${escapeHtml(String(value))}</div><div class="label">${escapeHtml(label)}</div></div>`;
+}
+
+function renderBreakdown(
+  title: string,
+  counts: Record<string, number>,
+  total: number,
+  labelFor: (_key: string) => string = (key) => key,
+): string {
+  const entries = Object.entries(counts).sort(
+    ([aKey, a], [bKey, b]) => b - a || aKey.localeCompare(bKey),
+  );
+  const rows =
+    entries.length === 0
+      ? `<tr><td colspan="3" class="empty">None</td></tr>`
+      : entries
+          .map(([key, count]) => {
+            const percent = total > 0 ? Math.round((count / total) * 100) : 0;
+            return `<tr><td>${escapeHtml(labelFor(key))}</td><td class="num">${count}</td><td><div class="bar"><span style="width:${percent}%"></span></div></td></tr>`;
+          })
+          .join("");
+
+  return `<section class="panel"><h2>${escapeHtml(title)}</h2><table class="breakdown"><tbody>${rows}</tbody></table></section>`;
+}
+
+function renderTopFiles(report: JsonReport): string {
+  const rows =
+    report.summary.topFiles.length === 0
+      ? `<tr><td colspan="2" class="empty">None</td></tr>`
+      : report.summary.topFiles
+          .map(
+            ({ file, count }) =>
+              `<tr><td class="file">${escapeHtml(file)}</td><td class="num">${count}</td></tr>`,
+          )
+          .join("");
+
+  return `<section class="panel"><h2>Top Files</h2><table class="breakdown"><tbody>${rows}</tbody></table></section>`;
+}
+
+function renderOptions(values: string[]): string {
+  return values
+    .map(
+      (value) =>
+        `<option value="${escapeHtml(value)}">${escapeHtml(value)}</option>`,
+    )
+    .join("");
+}
+
+function renderViolationTable(report: JsonReport): string {
+  const rows = report.violations
+    .map((violation) => {
+      const location = `${violation.line}${violation.column === undefined ? "" : `:${violation.column}`}`;
+      const message = violation.message || violation.code;
+      return `<tr data-severity="${escapeHtml(violation.severity)}" data-source="${escapeHtml(violation.source)}"><td class="sev sev-${escapeHtml(violation.severity)}">${escapeHtml(violation.severity)}</td><td class="file">${escapeHtml(violation.file)}</td><td class="num" data-sort="${violation.line}">${location}</td><td>${escapeHtml(violation.source)}</td><td>${escapeHtml(violation.category)}</td><td>${escapeHtml(violation.rule ?? "")}</td><td>${escapeHtml(message)}</td></tr>`;
+    })
+    .join("\n");
+
+  const severities = Object.keys(report.summary.bySeverity);
+  const sources = Object.keys(report.summary.bySource);
+
+  return `<section class="panel wide">
+<h2>Violations</h2>
+<div class="filters">
+<input id="filter-text" type="search" placeholder="Filter by file, rule or message">
+<select id="filter-severity"><option value="">All severities</option>${renderOptions(severities)}</select>
+<select id="filter-source"><option value="">All sources</option>${renderOptions(sources)}</select>
+<span id="filter-count">${report.violations.length} shown</span>
+</div>
+<table id="violations" class="violations">
+<thead><tr><th data-type="text">Severity</th><th data-type="text">File</th><th data-type="number">Line</th><th data-type="text">Source</th><th data-type="text">Category</th><th data-type="text">Rule</th><th data-type="text">Message</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</section>`;
+}
+
+// ============================================================================
+// Inline Assets
+// ============================================================================
+
+const REPORT_STYLES = `
+body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;margin:0;padding:24px;background:#f6f7f9;color:#1f2328}
+h1{margin:0 0 4px;font-size:22px}h2{margin:0 0 12px;font-size:16px}
+.meta{color:#59636e;font-size:13px;margin-bottom:20px}
+.cards{display:flex;flex-wrap:wrap;gap:12px;margin-bottom:20px}
+.card{background:#fff;border:1px solid #d1d9e0;border-radius:8px;padding:14px 18px;min-width:120px}
+.card .value{font-size:26px;font-weight:600}.card .label{color:#59636e;font-size:12px;text-transform:uppercase}
+.card.error .value{color:#cf222e}.card.warn .value{color:#9a6700}.card.info .value{color:#0969da}
+.grid{display:grid;grid-template-columns:repeat(auto-fit,minmax(300px,1fr));gap:16px}
+.panel{background:#fff;border:1px solid #d1d9e0;border-radius:8px;padding:16px;overflow:auto}
+.panel.wide{grid-column:1/-1}
+table{border-collapse:collapse;width:100%;font-size:13px}
+td,th{padding:6px 8px;border-bottom:1px solid #eaeef2;text-align:left;vertical-align:top}
+th{cursor:pointer;user-select:none;background:#f6f8fa;position:sticky;top:0}
+th.asc::after{content:" \\25B2"}th.desc::after{content:" \\25BC"}
+.num{text-align:right;font-variant-numeric:tabular-nums}
+.file{font-family:ui-monospace,SFMono-Regular,Menlo,monospace;word-break:break-all}
+.bar{background:#eaeef2;border-radius:4px;height:8px;min-width:80px}.bar span{display:block;height:8px;border-radius:4px;background:#0969da}
+.sev{font-weight:600}.sev-error{color:#cf222e}.sev-warn{color:#9a6700}.sev-info{color:#0969da}
+.filters{display:flex;flex-wrap:wrap;gap:8px;align-items:center;margin-bottom:12px}
+.filters input{flex:1;min-width:220px;padding:6px 8px}.filters select{padding:6px}
+#filter-count{color:#59636e;font-size:12px}.empty{color:#59636e;font-style:italic}
+`;
+
+const REPORT_SCRIPT = `
+(function () {
+  var table = document.getElementById("violations");
+  var body = table.tBodies[0];
+  var rows = Array.prototype.slice.call(body.rows);
+  var text = document.getElementById("filter-text");
+  var severity = document.getElementById("filter-severity");
+  var source = document.getElementById("filter-source");
+  var count = document.getElementById("filter-count");
+
+  function applyFilters() {
+    var query = text.value.toLowerCase();
+    var shown = 0;
+    rows.forEach(function (row) {
+      var visible =
+        (!severity.value || row.dataset.severity === severity.value) &&
+        (!source.value || row.dataset.source === source.value) &&
+        (!query || row.textContent.toLowerCase().indexOf(query) !== -1);
+      row.style.display = visible ? "" : "none";
+      if (visible) shown++;
+    });
+    count.textContent = shown + " shown";
+  }
+
+  function cellValue(row, index, numeric) {
+    var cell = row.cells[index];
+    var raw = cell.dataset.sort || cell.textContent;
+    return numeric ? Number(raw) : raw.toLowerCase();
+  }
+
+  Array.prototype.forEach.call(table.tHead.rows[0].cells, function (header, index) {
+    header.addEventListener("click", function () {
+      var numeric = header.dataset.type === "number";
+      var ascending = !header.classList.contains("asc");
+      Array.prototype.forEach.call(table.tHead.rows[0].cells, function (cell) {
+        cell.classList.remove("asc", "desc");
+      });
+      header.classList.add(ascending ? "asc" : "desc");
+      rows.sort(function (a, b) {
+        var left = cellValue(a, index, numeric);
+        var right = cellValue(b, index, numeric);
+        var order = left < right ? -1 : left > right ? 1 : 0;
+        return ascending ? order : -order;
+      });
+      rows.forEach(function (row) { body.appendChild(row); });
+    });
+  });
+
+  text.addEventListener("input", applyFilters);
+  severity.addEventListener("change", applyFilters);
+  source.addEventListener("change", applyFilters);
+})();
+`;
+
+// ============================================================================
+// Report Generation
+// ============================================================================
+
+/**
+ * Render the full HTML document for an analysis result
+ */
+export function createHtmlReport(
+  result: OrchestratorResult,
+  options: JsonReportOptions = {},
+): string {
+  const report = createJsonReport(result, options);
+  const { summary } = report;
+  const failedEngines = report.engines.filter((engine) => !engine.success);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>SideQuest Code Quality Report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>SideQuest Code Quality Report</h1>
+<div class="meta">Target: ${escapeHtml(report.targetPath)} · Generated ${escapeHtml(report.generatedAt)} · ${escapeHtml(report.tool.name)} v${escapeHtml(report.tool.version)}</div>
+<div class="cards">
+${renderCard("Total", summary.total)}
+${renderCard("Errors", summary.bySeverity["error"] ?? 0, "error")}
+${renderCard("Warnings", summary.bySeverity["warn"] ?? 0, "warn")}
+${renderCard("Info", summary.bySeverity["info"] ?? 0, "info")}
+${renderCard("Files affected", summary.filesAffected)}
+${renderCard("Engines failed", failedEngines.length, failedEngines.length > 0 ? "error" : "")}
+</div>
+<div class="grid">
+${renderBreakdown("By Category", summary.byCategory, summary.total, (key) => `${getCategoryLabel(key as ViolationCategory)} (${key})`)}
+${renderBreakdown("By Source", summary.bySource, summary.total)}
+${renderTopFiles(report)}
+${renderViolationTable(report)}
+</div>
+<script>${REPORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write the HTML report to disk, creating parent directories as needed
+ */
+export async function writeHtmlReport(
+  result: OrchestratorResult,
+  outputFile: string,
+  options: JsonReportOptions = {},
+): Promise<void> {
+  await mkdir(path.dirname(path.resolve(outputFile)), { recursive: true });
+  await writeFile(outputFile, createHtmlReport(result, options), "utf8");
+}
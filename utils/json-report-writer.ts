@@ -0,0 +1,244 @@
+/**
+ * @fileoverview JSON Report Writer
+ *
+ * Produces a stable, versioned JSON report from an OrchestratorResult.
+ * Unlike the `--verbose` dump, the report has a fixed shape, sorted keys
+ * and a deterministic violation order so it can be diffed between runs
+ * and consumed by other tools.
+ */
+
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import type {
+  CrossoverWarning,
+  DiagnosticDetails,
+  LintDetails,
+  OrchestratorResult,
+  Suppression,
+  Violation,
+  ViolationBlame,
+  ViolationSeverity,
+} from "./violation-types.js";
+import type { QualityGateResult } from "./quality-gate.js";
+import { violationToDatabaseFormat } from "../database/utils.js";
+
+// ============================================================================
+// Report Types
+// ============================================================================
+
+export const JSON_REPORT_SCHEMA_VERSION = "1.0.0";
+
+export interface JsonReportViolation {
+  fingerprint: string;
+  file: string;
+  line: number;
+  column?: number;
+  severity: ViolationSeverity;
+  source: string;
+  category: string;
+  rule?: string;
+  message?: string;
+  code: string;
+  fixSuggestion?: string;
+  diagnostic?: DiagnosticDetails;
+  lint?: LintDetails;
+  package?: string;
+  blame?: ViolationBlame;
+  owners?: string[];
+}
+
+export interface JsonReportEngine {
+  name: string;
+  /** Workspace package the engine ran on, in workspaces mode */
+  package?: string;
+  success: boolean;
+  executionTimeMs: number;
+  violationCount: number;
+  error?: string;
+}
+
+export interface JsonReport {
+  schemaVersion: string;
+  tool: { name: string; version: string };
+  generatedAt: string;
+  targetPath: string;
+  summary: {
+    total: number;
+    filesAffected: number;
+    bySeverity: Record<string, number>;
+    bySource: Record<string, number>;
+    byCategory: Record<string, number>;
+    topFiles: Array<{ file: string; count: number }>;
+    /** Violations per workspace package, in workspaces mode */
+    byPackage?: Record<string, number>;
+    /** Violations per CODEOWNERS owner or team, with --owners */
+    byOwner?: Record<string, number>;
+  };
+  engines: JsonReportEngine[];
+  crossoverWarnings: CrossoverWarning[];
+  violations: JsonReportViolation[];
+  /** Waived violations and stale waivers, when a suppressions file applied */
+  suppressions?: {
+    file: string;
+    suppressedCount: number;
+    suppressed: Array<JsonReportViolation & { suppression: Suppression }>;
+    expired: Suppression[];
+    unused: Suppression[];
+  };
+  gate?: QualityGateResult;
+}
+
+export interface JsonReportOptions {
+  targetPath?: string;
+  toolVersion?: string;
+  /** Quality gate outcome, present when the CLI evaluated one */
+  gate?: QualityGateResult;
+}
+
+// ============================================================================
+// Report Generation
+// ============================================================================
+
+/**
+ * Read the package version for report metadata
+ */
+export async function getToolVersion(): Promise<string> {
+  try {
+    const currentDirectory = path.dirname(fileURLToPath(import.meta.url));
+    const packageJsonPath = path.join(currentDirectory, "..", "package.json");
+    const packageJson = JSON.parse(await readFile(packageJsonPath, "utf8"));
+    return packageJson.version;
+  } catch {
+    return "0.0.0";
+  }
+}
+
+/**
+ * Copy a count record with keys in sorted order, dropping zero entries
+ */
+function sortCounts(counts: Record<string, number>): Record<string, number> {
+  const sorted: Record<string, number> = {};
+  for (const key of Object.keys(counts).sort()) {
+    const value = counts[key];
+    if (value) {
+      sorted[key] = value;
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Deterministic ordering: file, line, column, source, rule, message
+ */
+export function compareViolations(a: Violation, b: Violation): number {
+  return (
+    a.file.localeCompare(b.file) ||
+    a.line - b.line ||
+    (a.column ?? 0) - (b.column ?? 0) ||
+    a.source.localeCompare(b.source) ||
+    (a.rule ?? "").localeCompare(b.rule ?? "") ||
+    (a.message ?? "").localeCompare(b.message ?? "")
+  );
+}
+
+function toReportViolation(violation: Violation): JsonReportViolation {
+  return {
+    fingerprint: violationToDatabaseFormat(violation).hash,
+    file: violation.file,
+    line: violation.line,
+    ...(violation.column !== undefined && { column: violation.column }),
+    severity: violation.severity,
+    source: violation.source,
+    category: violation.category,
+    ...(violation.rule && { rule: violation.rule }),
+    ...(violation.message && { message: violation.message }),
+    code: violation.code,
+    ...(violation.fixSuggestion && {
+      fixSuggestion: violation.fixSuggestion,
+    }),
+    ...(violation.diagnostic && { diagnostic: violation.diagnostic }),
+    ...(violation.lint && { lint: violation.lint }),
+    ...(violation.package && { package: violation.package }),
+    ...(violation.blame && { blame: violation.blame }),
+    ...(violation.owners && { owners: violation.owners }),
+  };
+}
+
+/**
+ * Build the stable JSON report structure
+ */
+export function createJsonReport(
+  result: OrchestratorResult,
+  options: JsonReportOptions = {},
+): JsonReport {
+  const violations = [...result.violations].sort(compareViolations);
+
+  return {
+    schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+    tool: {
+      name: "sidequest-cqo",
+      version: options.toolVersion || "0.0.0",
+    },
+    generatedAt: result.timestamp,
+    targetPath: options.targetPath || ".",
+    summary: {
+      total: result.summary.total,
+      filesAffected: new Set(violations.map((violation) => violation.file))
+        .size,
+      bySeverity: sortCounts(result.summary.bySeverity),
+      bySource: sortCounts(result.summary.bySource),
+      byCategory: sortCounts(result.summary.byCategory),
+      topFiles: [...result.summary.topFiles].sort(
+        (a, b) => b.count - a.count || a.file.localeCompare(b.file),
+      ),
+      ...(result.summary.byPackage && {
+        byPackage: sortCounts(result.summary.byPackage),
+      }),
+      ...(result.summary.byOwner && {
+        byOwner: sortCounts(result.summary.byOwner),
+      }),
+    },
+    engines: result.engineResults.map((engineResult) => ({
+      name: engineResult.engineName,
+      ...(engineResult.package && { package: engineResult.package }),
+      success: engineResult.success,
+      executionTimeMs: Math.round(engineResult.executionTime),
+      violationCount: engineResult.violations.length,
+      ...(engineResult.error && { error: engineResult.error }),
+    })),
+    crossoverWarnings: result.crossoverWarnings ?? [],
+    violations: violations.map((violation) => toReportViolation(violation)),
+    ...(result.suppressions && {
+      suppressions: {
+        file: result.suppressions.file,
+        suppressedCount: result.suppressions.suppressed.length,
+        suppressed: [...result.suppressions.suppressed]
+          .sort((a, b) => compareViolations(a.violation, b.violation))
+          .map(({ violation, suppression }) => ({
+            ...toReportViolation(violation),
+            suppression,
+          })),
+        expired: result.suppressions.expired,
+        unused: result.suppressions.unused,
+      },
+    }),
+    ...(options.gate && { gate: options.gate }),
+  };
+}
+
+/**
+ * Write the JSON report to disk, creating parent directories as needed
+ */
+export async function writeJsonReport(
+  result: OrchestratorResult,
+  outputFile: string,
+  options: JsonReportOptions = {},
+): Promise<void> {
+  await mkdir(path.dirname(path.resolve(outputFile)), { recursive: true });
+  await writeFile(
+    outputFile,
+    `${JSON.stringify(createJsonReport(result, options), undefined, 2)}\n`,
+    "utf8",
+  );
+}
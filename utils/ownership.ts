@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Code Ownership
+ *
+ * Attributes violations to people for triage: the last commit that touched
+ * each violation's line (git blame) and the owners a CODEOWNERS file assigns
+ * to its file. CODEOWNERS patterns follow GitHub's rules, where the last
+ * matching line wins.
+ */
+
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import path from "node:path";
+import { globToRegExpSource } from "./glob.js";
+import type { Violation, ViolationBlame } from "./violation-types.js";
+
+export interface OwnershipOptions {
+  /** Record the last author, commit and date of each violation's line */
+  blame?: boolean;
+  /** Resolve owners from the repository's CODEOWNERS file */
+  codeowners?: boolean;
+}
+
+export interface CodeownersRule {
+  /** Pattern as written in the CODEOWNERS file */
+  pattern: string;
+  /** Users, teams or emails; empty when the pattern is explicitly unowned */
+  owners: string[];
+}
+
+/**
+ * Where GitHub looks for CODEOWNERS, in the order it checks them
+ */
+const CODEOWNERS_LOCATIONS = [
+  ".github/CODEOWNERS",
+  "CODEOWNERS",
+  "docs/CODEOWNERS",
+];
+
+/**
+ * Commit git blame reports for lines that are not committed yet
+ */
+const UNCOMMITTED = /^0+$/;
+
+const compiledPatterns = new Map<string, RegExp>();
+
+// ============================================================================
+// CODEOWNERS
+// ============================================================================
+
+/**
+ * Parse CODEOWNERS content into rules, in file order
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // "\#" escapes a pattern that starts with "#"
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    if (!line) {
+      continue;
+    }
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern: pattern!.replace(/^\\#/, "#"), owners });
+  }
+  return rules;
+}
+
+/**
+ * Anchored regular expression for a CODEOWNERS pattern
+ * A pattern without a leading or inner "/" matches at any depth. Only a
+ * trailing "/" or a last segment without wildcards, which may name a
+ * directory, also matches everything below it: "docs/*" owns
+ * "docs/guide.md" but not "docs/build/guide.md".
+ */
+function toRegExp(pattern: string): RegExp {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const trimmed = pattern.replace(/\/+$/, "");
+  let glob = trimmed;
+  if (pattern.startsWith("/")) {
+    glob = trimmed.slice(1);
+  } else if (!trimmed.includes("/")) {
+    glob = `**/${trimmed}`;
+  }
+  const lastSegment = trimmed.split("/").pop() ?? "";
+  const matchesSubtree = pattern.endsWith("/") || !/[*?]/.test(lastSegment);
+  const regExp = new RegExp(
+    `^${globToRegExpSource(glob)}${matchesSubtree ? "(?:/.*)?" : ""}$`,
+  );
+  compiledPatterns.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Owners of a repository-relative file; the last matching rule wins
+ */
+export function resolveOwners(rules: CodeownersRule[], file: string): string[] {
+  const normalized = file.split(path.sep).join("/");
+  for (let index = rules.length - 1; index >= 0; index--) {
+    const rule = rules[index]!;
+    if (toRegExp(rule.pattern).test(normalized)) {
+      return rule.owners;
+    }
+  }
+  return [];
+}
+
+/**
+ * Rules of the first CODEOWNERS file found under a repository root
+ */
+export function loadCodeowners(root: string): CodeownersRule[] | undefined {
+  for (const location of CODEOWNERS_LOCATIONS) {
+    const candidate = path.join(root, location);
+    if (fs.existsSync(candidate)) {
+      return parseCodeowners(fs.readFileSync(candidate, "utf8"));
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Git Blame
+// ============================================================================
+
+/**
+ * Parse `git blame --line-porcelain` output into blame per final line number
+ * Lines that are not committed yet have no entry.
+ */
+export function parseBlame(output: string): Map<number, ViolationBlame> {
+  const lines = new Map<number, ViolationBlame>();
+  let commit = "";
+  let line = 0;
+  let author = "";
+  let email: string | undefined;
+  let time = 0;
+
+  for (const entry of output.split("\n")) {
+    const header = /^([\da-f]{40}) \d+ (\d+)/.exec(entry);
+    if (header) {
+      commit = header[1]!;
+      line = Number(header[2]);
+      email = undefined;
+    } else if (entry.startsWith("author ")) {
+      author = entry.slice("author ".length);
+    } else if (entry.startsWith("author-mail ")) {
+      email = entry.slice("author-mail ".length).replaceAll(/^<|>$/g, "");
+    } else if (entry.startsWith("author-time ")) {
+      time = Number(entry.slice("author-time ".length));
+    } else if (entry.startsWith("\t") && !UNCOMMITTED.test(commit)) {
+      lines.set(line, {
+        author,
+        ...(email && { email }),
+        commit,
+        date: new Date(time * 1000).toISOString(),
+      });
+    }
+  }
+  return lines;
+}
+
+/**
+ * Attaches blame and CODEOWNERS owners to violations
+ *
+ * Blame is read once per file and reused until the file changes, so watch
+ * mode only re-blames files that were edited.
+ */
+export class OwnershipResolver {
+  private readonly cwd: string;
+  /** Path of the working directory inside the repository, "" at its root */
+  private readonly prefix: string | undefined;
+  private readonly options: OwnershipOptions;
+  private readonly rules: CodeownersRule[] | undefined;
+  private readonly blameCache = new Map<
+    string,
+    { mtimeMs: number; lines: Map<number, ViolationBlame> }
+  >();
+
+  constructor(options: OwnershipOptions, cwd: string = process.cwd()) {
+    const result = spawnSync(
+      "git",
+      ["rev-parse", "--show-toplevel", "--show-prefix"],
+      { encoding: "utf8", cwd },
+    );
+    const [root, prefix = ""] =
+      result.error || result.status !== 0 ? [] : result.stdout.split("\n");
+
+    this.cwd = cwd;
+    this.prefix = root === undefined ? undefined : prefix;
+    this.options = options;
+    this.rules = options.codeowners ? loadCodeowners(root ?? cwd) : undefined;
+  }
+
+  /**
+   * Copies of the violations with `blame` and `owners` filled in where known
+   * Setup issues describe tooling rather than code and are left as they are.
+   */
+  annotate(violations: Violation[]): Violation[] {
+    return violations.map((violation) => {
+      if (violation.category === "setup-issue") {
+        return violation;
+      }
+
+      const file = path.relative(
+        this.cwd,
+        path.resolve(this.cwd, violation.file),
+      );
+      const blame = this.options.blame
+        ? this.blameFile(file)?.get(violation.line)
+        : undefined;
+      const owners = this.rules
+        ? resolveOwners(this.rules, path.join(this.prefix ?? "", file))
+        : [];
+
+      return {
+        ...violation,
+        ...(blame && { blame }),
+        ...(owners.length > 0 && { owners }),
+      };
+    });
+  }
+
+  private blameFile(file: string): Map<number, ViolationBlame> | undefined {
+    if (this.prefix === undefined) {
+      return undefined;
+    }
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(path.join(this.cwd, file)).mtimeMs;
+    } catch {
+      return undefined;
+    }
+    const cached = this.blameCache.get(file);
+    if (cached?.mtimeMs === mtimeMs) {
+      return cached.lines;
+    }
+
+    const result = spawnSync("git", ["blame", "--line-porcelain", "--", file], {
+      encoding: "utf8",
+      cwd: this.cwd,
+      maxBuffer: 1024 * 1024 * 50,
+    });
+    // Untracked and ignored files have no history to blame
+    const lines =
+      result.error || result.status !== 0
+        ? new Map<number, ViolationBlame>()
+        : parseBlame(result.stdout);
+    this.blameCache.set(file, { mtimeMs, lines });
+    return lines;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Project Config (sidequest.config.json)
+ *
+ * Optional per-project settings that live in the analyzed repository rather
+ * than in CLI flags, such as architecture rules. The file is looked up from
+ * the target directory upwards, so a monorepo package can have its own.
+ */
+
+import * as fs from "node:fs";
+import path from "node:path";
+import {
+  ProjectConfigSchema,
+  safeJsonParse,
+  type ValidatedProjectConfig,
+} from "./validation-schemas.js";
+
+export const PROJECT_CONFIG_FILENAME = "sidequest.config.json";
+
+export type ProjectConfig = ValidatedProjectConfig;
+
+export interface LoadedProjectConfig {
+  /** Absolute path of the config file; globs in it are relative to its directory */
+  path: string;
+  config: ProjectConfig;
+}
+
+/**
+ * Find the nearest project config file from a directory upwards
+ */
+export function findProjectConfig(startDirectory: string): string | undefined {
+  let directory = path.resolve(startDirectory);
+
+  while (directory !== path.dirname(directory)) {
+    const candidate = path.join(directory, PROJECT_CONFIG_FILENAME);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+    directory = path.dirname(directory);
+  }
+
+  const candidate = path.join(directory, PROJECT_CONFIG_FILENAME);
+  return fs.existsSync(candidate) ? candidate : undefined;
+}
+
+/**
+ * Load and validate the project config that applies to a directory
+ * Returns undefined when there is none; invalid files throw.
+ */
+export function loadProjectConfig(
+  startDirectory: string,
+): LoadedProjectConfig | undefined {
+  const configPath = findProjectConfig(startDirectory);
+  if (!configPath) {
+    return undefined;
+  }
+
+  const content = fs.readFileSync(configPath, "utf8");
+  return {
+    path: configPath,
+    config: safeJsonParse(
+      content,
+      ProjectConfigSchema,
+      PROJECT_CONFIG_FILENAME,
+    ),
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Quality Gate Evaluation
+ *
+ * Evaluates an analysis result against configured thresholds (total,
+ * per severity, per category, per source and "no new violations vs.
+ * baseline") and maps the outcome to a process exit code so CI and
+ * pre-commit hooks can block on it.
+ */
+
+import { readFile } from "node:fs/promises";
+import type { OrchestratorResult, Violation } from "./violation-types.js";
+import type { BaselineComparison } from "./baseline.js";
+import {
+  QualityGateConfigSchema,
+  safeJsonParse,
+  type ValidatedQualityGateConfig,
+} from "./validation-schemas.js";
+
+// ============================================================================
+// Gate Types
+// ============================================================================
+
+/**
+ * Process exit codes for single-run analysis
+ * Setup issues take precedence over gate failures because violation
+ * counts from misconfigured tools cannot be trusted.
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  GATE_FAILED: 1,
+  TOOL_CRASH: 2,
+  SETUP_ISSUE: 3,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+export type QualityGateConfig = ValidatedQualityGateConfig;
+
+export interface QualityGateBreach {
+  /** Threshold identifier, e.g. "maxTotal" or "maxByCategory.code-quality" */
+  threshold: string;
+  limit: number;
+  actual: number;
+  message: string;
+}
+
+export interface QualityGateResult {
+  passed: boolean;
+  /** Effective thresholds after applying defaults */
+  config: QualityGateConfig;
+  breaches: QualityGateBreach[];
+  setupIssueCount: number;
+}
+
+// ============================================================================
+// Gate Evaluation
+// ============================================================================
+
+/**
+ * Setup issues get their own exit code and never count toward thresholds
+ */
+function isSetupIssue(violation: Violation): boolean {
+  return violation.category === "setup-issue";
+}
+
+function countBy(
+  violations: Violation[],
+  key: (_violation: Violation) => string,
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const violation of violations) {
+    const value = key(violation);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function checkLimits(
+  prefix: string,
+  label: string,
+  limits: Record<string, number | undefined> | undefined,
+  counts: Map<string, number>,
+  breaches: QualityGateBreach[],
+): void {
+  for (const [key, limit] of Object.entries(limits ?? {})) {
+    const actual = counts.get(key) ?? 0;
+    if (limit !== undefined && actual > limit) {
+      breaches.push({
+        threshold: `${prefix}.${key}`,
+        limit,
+        actual,
+        message: `${actual} ${key} ${label} (max ${limit})`,
+      });
+    }
+  }
+}
+
+/**
+ * Evaluate a result against the gate configuration
+ *
+ * When a baseline comparison is supplied and neither `noNewErrors` nor
+ * `noNewViolations` is configured, any new violation fails the gate,
+ * matching plain `--baseline` ratchet behaviour.
+ */
+export function evaluateQualityGate(
+  result: OrchestratorResult,
+  gateConfig: QualityGateConfig,
+  baselineComparison?: BaselineComparison,
+): QualityGateResult {
+  const config: QualityGateConfig =
+    baselineComparison &&
+    gateConfig.noNewErrors === undefined &&
+    gateConfig.noNewViolations === undefined
+      ? { ...gateConfig, noNewViolations: true }
+      : gateConfig;
+
+  const violations = result.violations.filter(
+    (violation) => !isSetupIssue(violation),
+  );
+  const breaches: QualityGateBreach[] = [];
+
+  if (config.maxTotal !== undefined && violations.length > config.maxTotal) {
+    breaches.push({
+      threshold: "maxTotal",
+      limit: config.maxTotal,
+      actual: violations.length,
+      message: `${violations.length} violations (max ${config.maxTotal})`,
+    });
+  }
+
+  checkLimits(
+    "maxBySeverity",
+    "severity violations",
+    config.maxBySeverity,
+    countBy(violations, (violation) => violation.severity),
+    breaches,
+  );
+  checkLimits(
+    "maxByCategory",
+    "category violations",
+    config.maxByCategory,
+    countBy(violations, (violation) => violation.category),
+    breaches,
+  );
+  checkLimits(
+    "maxBySource",
+    "source violations",
+    config.maxBySource,
+    countBy(violations, (violation) => violation.source),
+    breaches,
+  );
+
+  if (baselineComparison) {
+    const newViolations = baselineComparison.newViolations;
+    const newErrors = newViolations.filter(
+      (violation) => violation.severity === "error",
+    );
+
+    if (config.noNewViolations && newViolations.length > 0) {
+      breaches.push({
+        threshold: "noNewViolations",
+        limit: 0,
+        actual: newViolations.length,
+        message: `${newViolations.length} violations not covered by the baseline`,
+      });
+    } else if (config.noNewErrors && newErrors.length > 0) {
+      breaches.push({
+        threshold: "noNewErrors",
+        limit: 0,
+        actual: newErrors.length,
+        message: `${newErrors.length} errors not covered by the baseline`,
+      });
+    }
+  }
+
+  return {
+    passed: breaches.length === 0,
+    config,
+    breaches,
+    setupIssueCount: result.violations.filter((violation) =>
+      isSetupIssue(violation),
+    ).length,
+  };
+}
+
+/**
+ * Map a gate result to the process exit code
+ */
+export function getGateExitCode(gate: QualityGateResult): ExitCode {
+  if (gate.setupIssueCount > 0) {
+    return EXIT_CODES.SETUP_ISSUE;
+  }
+  return gate.passed ? EXIT_CODES.SUCCESS : EXIT_CODES.GATE_FAILED;
+}
+
+// ============================================================================
+// File I/O
+// ============================================================================
+
+/**
+ * Load and validate a gate configuration file
+ */
+export async function loadQualityGateConfig(
+  gateFile: string,
+): Promise<QualityGateConfig> {
+  const content = await readFile(gateFile, "utf8");
+  return safeJsonParse(content, QualityGateConfigSchema, "gate file");
+}
@@ -0,0 +1,298 @@
+/**
+ * @fileoverview SARIF 2.1.0 Writer
+ *
+ * Converts an OrchestratorResult into a SARIF log so results can be uploaded
+ * to code-scanning dashboards. Each engine becomes its own SARIF run, with
+ * rule descriptors derived from the violation rules and category labels.
+ */
+
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { writeFile } from "node:fs/promises";
+import {
+  getCategoryLabel,
+  type EngineResult,
+  type OrchestratorResult,
+  type Violation,
+  type ViolationSeverity,
+} from "./violation-types.js";
+import { violationContentHash } from "../database/utils.js";
+
+// ============================================================================
+// SARIF Types (subset of the 2.1.0 schema that we emit)
+// ============================================================================
+
+export const SARIF_SCHEMA_URI = "https://json.schemastore.org/sarif-2.1.0.json";
+export const SARIF_VERSION = "2.1.0";
+
+const SOURCE_ROOT_ID = "%SRCROOT%";
+const TOOL_INFORMATION_URI =
+  "https://github.com/Invisible-Cities-Agency/SidequestCode";
+
+export type SarifLevel = "error" | "warning" | "note";
+
+export interface SarifMessage {
+  text: string;
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    category: string;
+    source: string;
+    tags: string[];
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region: { startLine: number; startColumn?: number };
+    };
+  }>;
+  partialFingerprints: Record<string, string>;
+  properties: {
+    category: string;
+    source: string;
+    fixSuggestion?: string;
+  };
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      informationUri: string;
+      rules: SarifReportingDescriptor[];
+    };
+  };
+  originalUriBaseIds: Record<string, { uri: string }>;
+  invocations: Array<{
+    executionSuccessful: boolean;
+    toolExecutionNotifications?: Array<{
+      level: SarifLevel;
+      message: SarifMessage;
+    }>;
+  }>;
+  results: SarifResult[];
+  properties: {
+    executionTimeMs: number;
+  };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: SarifRun[];
+}
+
+export interface SarifWriterOptions {
+  /** Root that artifact URIs are made relative to (defaults to cwd) */
+  baseDirectory?: string;
+  /** Tool version reported in each run driver */
+  toolVersion?: string;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Map SideQuest severities onto SARIF result levels
+ */
+export function toSarifLevel(severity: ViolationSeverity): SarifLevel {
+  switch (severity) {
+    case "error": {
+      return "error";
+    }
+    case "warn": {
+      return "warning";
+    }
+    default: {
+      return "note";
+    }
+  }
+}
+
+/**
+ * Rule id used for a violation; falls back to source/category when the
+ * engine did not report a specific rule
+ */
+function getRuleId(violation: Violation): string {
+  return violation.rule || `${violation.source}/${violation.category}`;
+}
+
+/**
+ * Convert a file path into a forward-slash URI relative to the base directory
+ */
+function toArtifactUri(file: string, baseDirectory: string): string {
+  const relative = path.isAbsolute(file)
+    ? path.relative(baseDirectory, file)
+    : path.normalize(file);
+  return relative.split(path.sep).join("/");
+}
+
+function reportKey(violation: Violation): string {
+  return `${violation.source}:${violationContentHash(violation)}`;
+}
+
+function createRun(
+  engineResult: EngineResult,
+  violations: Violation[],
+  baseDirectory: string,
+  toolVersion: string,
+): SarifRun {
+  const rules: SarifReportingDescriptor[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  for (const violation of violations) {
+    const ruleId = getRuleId(violation);
+
+    let ruleIndex = ruleIndexes.get(ruleId);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.length;
+      ruleIndexes.set(ruleId, ruleIndex);
+      rules.push({
+        id: ruleId,
+        name: ruleId,
+        shortDescription: { text: getCategoryLabel(violation.category) },
+        defaultConfiguration: { level: toSarifLevel(violation.severity) },
+        properties: {
+          category: violation.category,
+          source: violation.source,
+          tags: [violation.category, violation.source],
+        },
+      });
+    }
+
+    const region: { startLine: number; startColumn?: number } = {
+      startLine: Math.max(1, violation.line || 1),
+    };
+    if (violation.column !== undefined && violation.column >= 1) {
+      region.startColumn = violation.column;
+    }
+
+    results.push({
+      ruleId,
+      ruleIndex,
+      level: toSarifLevel(violation.severity),
+      message: { text: violation.message || violation.code || ruleId },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: toArtifactUri(violation.file, baseDirectory),
+              uriBaseId: SOURCE_ROOT_ID,
+            },
+            region,
+          },
+        },
+      ],
+      partialFingerprints: {
+        "sidequestViolationHash/v1": violationContentHash(violation),
+        ...(violation.fingerprint && {
+          "sidequestFingerprint/v2": violation.fingerprint.hash,
+        }),
+      },
+      properties: {
+        category: violation.category,
+        source: violation.source,
+        ...(violation.fixSuggestion && {
+          fixSuggestion: violation.fixSuggestion,
+        }),
+      },
+    });
+  }
+
+  const invocation: SarifRun["invocations"][number] = {
+    executionSuccessful: engineResult.success,
+  };
+  if (engineResult.error) {
+    invocation.toolExecutionNotifications = [
+      { level: "error", message: { text: engineResult.error } },
+    ];
+  }
+
+  return {
+    tool: {
+      driver: {
+        name: `SideQuest ${engineResult.engineName}`,
+        version: toolVersion,
+        informationUri: TOOL_INFORMATION_URI,
+        rules,
+      },
+    },
+    originalUriBaseIds: {
+      [SOURCE_ROOT_ID]: { uri: `${pathToFileURL(baseDirectory).href}/` },
+    },
+    invocations: [invocation],
+    results,
+    properties: {
+      executionTimeMs: Math.round(engineResult.executionTime),
+    },
+  };
+}
+
+/**
+ * Build a SARIF log with one run per engine
+ *
+ * The orchestrator result holds the deduplicated violation list, so each run
+ * only reports violations that survived deduplication and came from that engine.
+ * The orchestrator reports copies carrying fingerprints and owners, so engine
+ * violations are matched to them by source and content hash, not identity.
+ */
+export function createSarifLog(
+  result: OrchestratorResult,
+  options: SarifWriterOptions = {},
+): SarifLog {
+  const baseDirectory = path.resolve(options.baseDirectory || process.cwd());
+  const toolVersion = options.toolVersion || "0.0.0";
+  const reported = new Map<string, Violation[]>();
+  for (const violation of result.violations) {
+    const key = reportKey(violation);
+    reported.set(key, [...(reported.get(key) ?? []), violation]);
+  }
+
+  // Each reported violation is claimed by the first engine that found it
+  const runs = result.engineResults.map((engineResult) =>
+    createRun(
+      engineResult,
+      engineResult.violations.flatMap(
+        (violation) => reported.get(reportKey(violation))?.shift() ?? [],
+      ),
+      baseDirectory,
+      toolVersion,
+    ),
+  );
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: SARIF_VERSION,
+    runs,
+  };
+}
+
+/**
+ * Serialize the SARIF log to a file, or return the JSON when no path is given
+ */
+export async function writeSarifReport(
+  result: OrchestratorResult,
+  outputFile: string | undefined,
+  options: SarifWriterOptions = {},
+): Promise<string> {
+  const json = JSON.stringify(createSarifLog(result, options), undefined, 2);
+  if (outputFile) {
+    await writeFile(outputFile, json, "utf8");
+  }
+  return json;
+}
@@ -0,0 +1,318 @@
+/**
+ * @fileoverview Violation Suppressions (waivers)
+ *
+ * A suppressions file is a committed JSON list of accepted violations, each
+ * with a reason and optionally an owner and an `until` date or version,
+ * like `@archaeology-exclude temporary` annotations do for dead code.
+ * Waivers match by fingerprint, rule and path glob; every field given must
+ * match. Matching violations are left out of the results until the waiver
+ * expires, and waivers that expired or no longer match anything are
+ * reported so the file does not rot.
+ */
+
+import * as fs from "node:fs";
+import path from "node:path";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { globToRegExp } from "./glob.js";
+import type {
+  Suppression,
+  SuppressionReport,
+  Violation,
+} from "./violation-types.js";
+import {
+  SuppressionsFileSchema,
+  safeJsonParse,
+  type ValidatedSuppressionsFile,
+} from "./validation-schemas.js";
+
+// ============================================================================
+// Suppression Types
+// ============================================================================
+
+export const DEFAULT_SUPPRESSIONS_PATH = ".sidequest-suppressions.json";
+
+export interface SuppressionsFile {
+  version: 1;
+  suppressions: Suppression[];
+}
+
+export interface SuppressionContext {
+  /** Directory path globs are relative to; the suppressions file's */
+  baseDirectory: string;
+  /** Directory violation paths are relative to */
+  cwd?: string;
+  /** Current time, for date expiry */
+  now?: Date;
+  /** Current project version, for version expiry */
+  projectVersion?: string | undefined;
+  /** Report waivers that matched nothing; off for scoped runs */
+  reportUnused?: boolean;
+}
+
+export interface SuppressionOutcome extends Omit<SuppressionReport, "file"> {
+  /** Violations not covered by a current waiver */
+  violations: Violation[];
+}
+
+// ============================================================================
+// Matching and Expiry
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function versionParts(version: string): number[] {
+  return version
+    .replace(/^v/, "")
+    .split(".")
+    .map((part) => Number.parseInt(part, 10) || 0);
+}
+
+/**
+ * Compare dotted versions numerically; a leading "v" and pre-release
+ * suffixes are ignored
+ */
+export function compareVersions(version1: string, version2: string): number {
+  const v1Parts = versionParts(version1);
+  const v2Parts = versionParts(version2);
+
+  for (
+    let index = 0;
+    index < Math.max(v1Parts.length, v2Parts.length);
+    index++
+  ) {
+    const difference = (v1Parts[index] ?? 0) - (v2Parts[index] ?? 0);
+    if (difference !== 0) {
+      return Math.sign(difference);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Whether a waiver has lapsed: after its `until` day (UTC), or once the
+ * project reaches its `until` version
+ * Version waivers never lapse when the project version is unknown.
+ */
+export function isSuppressionExpired(
+  suppression: Suppression,
+  now: Date = new Date(),
+  projectVersion?: string,
+): boolean {
+  const { until } = suppression;
+  if (!until) {
+    return false;
+  }
+  if (DATE_PATTERN.test(until)) {
+    return now.toISOString().slice(0, 10) > until;
+  }
+  return projectVersion === undefined
+    ? false
+    : compareVersions(projectVersion, until) >= 0;
+}
+
+function matchesSuppression(
+  suppression: Suppression,
+  violation: Violation,
+  relativePath: string,
+): boolean {
+  if (
+    suppression.fingerprint &&
+    suppression.fingerprint !== violation.fingerprint?.hash
+  ) {
+    return false;
+  }
+  if (
+    suppression.rule &&
+    suppression.rule !== (violation.rule || violation.code)
+  ) {
+    return false;
+  }
+  return !suppression.path || globToRegExp(suppression.path).test(relativePath);
+}
+
+/**
+ * Split violations into reported and waived ones
+ *
+ * The first current waiver matching a violation covers it. Setup issues
+ * describe broken tooling rather than code and are never waived.
+ */
+export function applySuppressions(
+  violations: Violation[],
+  suppressions: Suppression[],
+  context: SuppressionContext,
+): SuppressionOutcome {
+  const cwd = context.cwd ?? process.cwd();
+  const expired = suppressions.filter((suppression) =>
+    isSuppressionExpired(suppression, context.now, context.projectVersion),
+  );
+  const current = suppressions.filter(
+    (suppression) => !expired.includes(suppression),
+  );
+
+  const kept: Violation[] = [];
+  const suppressed: SuppressionOutcome["suppressed"] = [];
+  const used = new Set<Suppression>();
+
+  for (const violation of violations) {
+    const relativePath = path
+      .relative(context.baseDirectory, path.resolve(cwd, violation.file))
+      .split(path.sep)
+      .join("/");
+    const suppression =
+      violation.category === "setup-issue"
+        ? undefined
+        : current.find((candidate) =>
+            matchesSuppression(candidate, violation, relativePath),
+          );
+
+    if (suppression) {
+      suppressed.push({ violation, suppression });
+      used.add(suppression);
+    } else {
+      kept.push(violation);
+    }
+  }
+
+  return {
+    violations: kept,
+    suppressed,
+    expired,
+    unused:
+      context.reportUnused === false
+        ? []
+        : current.filter((suppression) => !used.has(suppression)),
+  };
+}
+
+/**
+ * One-line description of what a waiver matches
+ */
+export function describeSuppression(suppression: Suppression): string {
+  const parts = [
+    suppression.rule ?? "any rule",
+    `in ${suppression.path ?? "any file"}`,
+  ];
+  if (suppression.fingerprint) {
+    parts.push(`(fingerprint ${suppression.fingerprint.slice(0, 12)})`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Version in the package.json of a directory, if any
+ */
+export function readProjectVersion(directory: string): string | undefined {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(directory, "package.json"), "utf8"),
+    ) as { version?: unknown };
+    return typeof packageJson.version === "string"
+      ? packageJson.version
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================================================
+// File I/O
+// ============================================================================
+
+/**
+ * Drop keys zod leaves as undefined, so entries round-trip cleanly
+ */
+function toSuppression({
+  fingerprint,
+  rule,
+  path: pathGlob,
+  reason,
+  owner,
+  until,
+  createdAt,
+}: ValidatedSuppressionsFile["suppressions"][number]): Suppression {
+  return {
+    ...(fingerprint !== undefined && { fingerprint }),
+    ...(rule !== undefined && { rule }),
+    ...(pathGlob !== undefined && { path: pathGlob }),
+    reason,
+    ...(owner !== undefined && { owner }),
+    ...(until !== undefined && { until }),
+    ...(createdAt !== undefined && { createdAt }),
+  };
+}
+
+/**
+ * Load and validate a suppressions file
+ */
+export async function loadSuppressions(
+  suppressionsFile: string,
+): Promise<SuppressionsFile> {
+  const content = await readFile(suppressionsFile, "utf8");
+  const parsed = safeJsonParse(
+    content,
+    SuppressionsFileSchema,
+    "suppressions file",
+  );
+  return {
+    version: 1,
+    suppressions: parsed.suppressions.map((entry) => toSuppression(entry)),
+  };
+}
+
+/**
+ * Write a suppressions file with stable formatting for clean diffs
+ */
+export async function saveSuppressions(
+  suppressionsFile: string,
+  file: SuppressionsFile,
+): Promise<void> {
+  await mkdir(path.dirname(path.resolve(suppressionsFile)), {
+    recursive: true,
+  });
+  await writeFile(
+    suppressionsFile,
+    `${JSON.stringify(file, undefined, 2)}\n`,
+    "utf8",
+  );
+}
+
+/**
+ * Add a waiver to a suppressions file, creating the file if needed
+ * A waiver for the same fingerprint, rule and path is replaced, so the
+ * command also renews or re-justifies an existing waiver.
+ *
+ * @returns The stored waiver
+ */
+export async function addSuppression(
+  suppressionsFile: string,
+  entry: Omit<Suppression, "createdAt">,
+): Promise<Suppression> {
+  const file = fs.existsSync(suppressionsFile)
+    ? await loadSuppressions(suppressionsFile)
+    : { version: 1 as const, suppressions: [] };
+
+  // Validate the new entry the same way a loaded file is validated
+  const validated = SuppressionsFileSchema.safeParse({
+    version: 1,
+    suppressions: [{ ...entry, createdAt: new Date().toISOString() }],
+  });
+  if (!validated.success) {
+    throw new Error(
+      validated.error.issues.map((issue) => issue.message).join("; "),
+    );
+  }
+  const suppression = toSuppression(validated.data.suppressions[0]!);
+
+  const sameTarget = (existing: Suppression): boolean =>
+    existing.fingerprint === suppression.fingerprint &&
+    existing.rule === suppression.rule &&
+    existing.path === suppression.path;
+  await saveSuppressions(suppressionsFile, {
+    version: 1,
+    suppressions: [
+      ...file.suppressions.filter((existing) => !sameTarget(existing)),
+      suppression,
+    ],
+  });
+  return suppression;
+}
@@ -24,7 +24,16 @@ export interface CLIFlags extends Record<string, unknown> {
   readonly eslintOnly: boolean;
   readonly archaeology: boolean;
   readonly includeArchaeology: boolean;
+  readonly complexity: boolean;
+  readonly circular: boolean;
+  readonly architecture: boolean;
+  readonly commands: boolean;
+  readonly importReports: string | undefined;
+  readonly dependencies: boolean;
   readonly targetPath: string;
+  readonly workspaces: boolean;
+  readonly blame: boolean;
+  readonly owners: boolean;
   readonly verbose: boolean;
   readonly strict: boolean;
   readonly noCrossoverCheck: boolean;
@@ -37,8 +46,30 @@ export interface CLIFlags extends Record<string, unknown> {
   readonly debug: boolean;
   readonly dataDir: string;
   readonly generatePRD: boolean;
+  readonly format: "console" | "sarif" | "json" | "html";
+  readonly outputFile: string | undefined;
+  readonly baselineFile: string | undefined;
+  readonly updateBaseline: boolean;
+  readonly gateFile: string | undefined;
+  readonly suppressionsFile: string | undefined;
+  readonly waive: boolean;
+  readonly listWaivers: boolean;
+  readonly waiverFingerprint: string | undefined;
+  readonly waiverRule: string | undefined;
+  readonly waiverPath: string | undefined;
+  readonly waiverReason: string | undefined;
+  readonly waiverOwner: string | undefined;
+  readonly waiverUntil: string | undefined;
+  readonly maxViolations: number | undefined;
+  readonly maxErrors: number | undefined;
+  readonly maxWarnings: number | undefined;
+  readonly noNewErrors: boolean;
+  readonly changedSince: string | undefined;
+  readonly staged: boolean;
+  readonly changedLines: boolean;
   readonly installShortcuts: boolean;
   readonly configAction: string | undefined;
+  readonly queryTerms: string[] | undefined;
 }
 
 /**
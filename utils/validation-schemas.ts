@@ -28,12 +28,25 @@ export const CLIFlagsSchema = z
     eslintOnly: z.boolean().default(false),
     archaeology: z.boolean().default(false),
     includeArchaeology: z.boolean().default(false),
+    complexity: z.boolean().default(false),
+    circular: z.boolean().default(false),
+    architecture: z.boolean().default(false),
+    commands: z.boolean().default(false),
+    importReports: z
+      .string()
+      .regex(/^[\w*./?-]*$/, "Invalid report glob characters")
+      .max(256, "Report glob too long")
+      .optional(),
+    dependencies: z.boolean().default(false),
     externalProject: z.boolean().default(false),
     targetPath: z
       .string()
       .regex(/^[\w./-]+$/, "Invalid target path characters")
       .max(256, "Target path too long")
       .default("."),
+    workspaces: z.boolean().default(false),
+    blame: z.boolean().default(false),
+    owners: z.boolean().default(false),
     verbose: z.boolean().default(false),
     strict: z.boolean().default(false),
     noCrossoverCheck: z.boolean().default(false),
@@ -50,11 +63,55 @@ export const CLIFlagsSchema = z
       .max(256, "Data directory path too long")
       .default("./data"),
     generatePRD: z.boolean().default(false),
+    format: z.enum(["console", "sarif", "json", "html"]).default("console"),
+    outputFile: z
+      .string()
+      .regex(/^[\w./-]+$/, "Invalid output file path")
+      .max(256, "Output file path too long")
+      .optional(),
+    baselineFile: z
+      .string()
+      .regex(/^[\w./-]+$/, "Invalid baseline file path")
+      .max(256, "Baseline file path too long")
+      .optional(),
+    updateBaseline: z.boolean().default(false),
+    gateFile: z
+      .string()
+      .regex(/^[\w./-]+$/, "Invalid gate file path")
+      .max(256, "Gate file path too long")
+      .optional(),
+    suppressionsFile: z
+      .string()
+      .regex(/^[\w./-]+$/, "Invalid suppressions file path")
+      .max(256, "Suppressions file path too long")
+      .optional(),
+    waive: z.boolean().default(false),
+    listWaivers: z.boolean().default(false),
+    // Waiver fields are validated with the suppressions file schema
+    waiverFingerprint: z.string().optional(),
+    waiverRule: z.string().optional(),
+    waiverPath: z.string().optional(),
+    waiverReason: z.string().optional(),
+    waiverOwner: z.string().optional(),
+    waiverUntil: z.string().optional(),
+    maxViolations: z.number().int().nonnegative().optional(),
+    maxErrors: z.number().int().nonnegative().optional(),
+    maxWarnings: z.number().int().nonnegative().optional(),
+    noNewErrors: z.boolean().default(false),
+    changedSince: z
+      .string()
+      .regex(/^[\w./@^{}~-]+$/, "Invalid git ref characters")
+      .max(256, "Git ref too long")
+      .optional(),
+    staged: z.boolean().default(false),
+    changedLines: z.boolean().default(false),
     installShortcuts: z.boolean().default(false),
     configAction: z
       .string()
       .regex(/^(show|edit|reset)$/, "Invalid config action")
       .optional(),
+    // Terms are validated with ViolationQueryTermsSchema
+    queryTerms: z.array(z.string().max(512, "Query term too long")).optional(),
   })
   .strict();
 
@@ -211,12 +268,416 @@ export const PackageJsonSchema = z
     dependencies: z.record(z.string()).optional(),
     devDependencies: z.record(z.string()).optional(),
     peerDependencies: z.record(z.string()).optional(),
+    optionalDependencies: z.record(z.string()).optional(),
     scripts: z.record(z.string()).optional(),
+    /** npm/yarn workspaces: globs of package directories */
+    workspaces: z
+      .union([
+        z.array(z.string()),
+        z.object({ packages: z.array(z.string()).optional() }).passthrough(),
+      ])
+      .optional(),
   })
   .passthrough(); // Allow additional package.json fields
 
 export type ValidatedPackageJson = z.infer<typeof PackageJsonSchema>;
 
+// =============================================================================
+// BASELINE FILE VALIDATION
+// =============================================================================
+
+/**
+ * Baseline file validation schema
+ * Validates committed baseline files used for CI ratchet mode
+ */
+export const BaselineFileSchema = z
+  .object({
+    version: z.literal(1),
+    generatedAt: z.string(),
+    entries: z.array(
+      z.object({
+        hash: z.string().regex(/^[\da-f]{64}$/, "Invalid baseline hash"),
+        file: z.string().max(512, "File path too long"),
+        rule: z.string(),
+        message: z.string(),
+        count: z.number().int().positive(),
+      }),
+    ),
+  })
+  .strict();
+
+export type ValidatedBaselineFile = z.infer<typeof BaselineFileSchema>;
+
+/**
+ * Suppressions file validation schema
+ * Validates committed waivers; each needs a reason and something to match
+ */
+export const SuppressionsFileSchema = z
+  .object({
+    version: z.literal(1),
+    suppressions: z.array(
+      z
+        .object({
+          fingerprint: z
+            .string()
+            .regex(/^[\da-f]{64}$/, "Invalid fingerprint")
+            .optional(),
+          rule: z.string().min(1).max(256, "Rule ID too long").optional(),
+          path: z.string().min(1).max(512, "Path glob too long").optional(),
+          reason: z.string().trim().min(1, "A reason is required"),
+          owner: z.string().min(1).max(256, "Owner too long").optional(),
+          until: z
+            .string()
+            .regex(
+              /^(\d{4}-\d{2}-\d{2}|v?\d+(\.\d+)*)$/,
+              "Expected a YYYY-MM-DD date or a version",
+            )
+            .optional(),
+          createdAt: z.string().optional(),
+        })
+        .strict()
+        .refine(
+          (entry) => entry.fingerprint ?? entry.rule ?? entry.path,
+          "A suppression needs a fingerprint, rule or path",
+        ),
+    ),
+  })
+  .strict();
+
+export type ValidatedSuppressionsFile = z.infer<typeof SuppressionsFileSchema>;
+
+const QueryValuesSchema = z.array(z.string().min(1).max(256, "Value too long"));
+const QueryDateSchema = z
+  .string()
+  .regex(
+    /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?Z?)?$/,
+    "Expected a YYYY-MM-DD date or an ISO datetime",
+  );
+
+/**
+ * --query terms validation schema
+ * Terms are key=value pairs; list values are comma-separated
+ */
+export const ViolationQueryTermsSchema = z
+  .object({
+    rule: QueryValuesSchema.optional(),
+    category: QueryValuesSchema.optional(),
+    source: QueryValuesSchema.optional(),
+    severity: z.array(z.enum(["error", "warn", "info"])).optional(),
+    status: z
+      .array(z.enum(["active", "resolved", "ignored", "all"]))
+      .optional(),
+    path: z.string().min(1).max(512, "Path glob too long").optional(),
+    owner: QueryValuesSchema.optional(),
+    since: QueryDateSchema.optional(),
+    until: QueryDateSchema.optional(),
+    sort: z
+      .string()
+      .regex(/^-?[_a-z]+$/, "Expected a field, or -field for descending")
+      .optional(),
+    group: z
+      .enum([
+        "rule",
+        "category",
+        "source",
+        "severity",
+        "status",
+        "file",
+        "owner",
+        "author",
+      ])
+      .optional(),
+    limit: z.coerce.number().int().positive().optional(),
+    format: z.enum(["table", "json", "csv"]).optional(),
+  })
+  .strict();
+
+export type ValidatedViolationQueryTerms = z.infer<
+  typeof ViolationQueryTermsSchema
+>;
+
+// =============================================================================
+// QUALITY GATE VALIDATION
+// =============================================================================
+
+const GateLimitSchema = z.number().int().nonnegative();
+
+/**
+ * Quality gate configuration schema
+ * Validates the --gate file; every threshold is optional
+ */
+export const QualityGateConfigSchema = z
+  .object({
+    maxTotal: GateLimitSchema.optional(),
+    maxBySeverity: z
+      .object({
+        error: GateLimitSchema.optional(),
+        warn: GateLimitSchema.optional(),
+        info: GateLimitSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    maxByCategory: z.record(GateLimitSchema).optional(),
+    maxBySource: z.record(GateLimitSchema).optional(),
+    noNewErrors: z.boolean().optional(),
+    noNewViolations: z.boolean().optional(),
+  })
+  .strict();
+
+export type ValidatedQualityGateConfig = z.infer<
+  typeof QualityGateConfigSchema
+>;
+
+// =============================================================================
+// PROJECT CONFIG VALIDATION
+// =============================================================================
+
+/**
+ * Layer order, outermost first: either a list of layer names or an arrow
+ * chain such as "ui -> services -> database"
+ */
+const LayerOrderSchema = z.union([
+  z.array(z.string()),
+  z.string().transform((order) =>
+    order
+      .split("->")
+      .map((layer) => layer.trim())
+      .filter((layer) => layer.length > 0),
+  ),
+]);
+
+/**
+ * Architecture rules schema
+ * Layers map names to file globs; order, shared and forbidden rules may only
+ * name declared layers (forbidden rules may also use globs)
+ */
+export const ArchitectureConfigSchema = z
+  .object({
+    layers: z.record(z.array(z.string()).min(1, "Layer has no file globs")),
+    order: LayerOrderSchema.optional(),
+    shared: z.array(z.string()).optional(),
+    forbidden: z
+      .array(
+        z
+          .object({
+            from: z.string(),
+            to: z.string(),
+            reason: z.string().optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+    ignoreTypeOnly: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((config, context) => {
+    const layers = new Set(Object.keys(config.layers));
+    for (const key of ["order", "shared"] as const) {
+      for (const layer of config[key] ?? []) {
+        if (!layers.has(layer)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: `Unknown layer '${layer}'`,
+          });
+        }
+      }
+    }
+  });
+
+export type ValidatedArchitectureConfig = z.infer<
+  typeof ArchitectureConfigSchema
+>;
+
+/**
+ * Engine plugin entry: a module specifier, or one with options
+ */
+const PluginEntrySchema = z.union([
+  z.string().min(1),
+  z
+    .object({
+      module: z.string().min(1),
+      enabled: z.boolean().optional(),
+      options: z.record(z.unknown()).optional(),
+    })
+    .strict(),
+]);
+
+/**
+ * Output parser for an external command: a known format, or a regular
+ * expression whose named groups (file, line, column, severity, rule,
+ * message) describe one finding per match
+ */
+const CommandParserSchema = z.union([
+  z.enum(["eslint-json", "sarif", "checkstyle"]),
+  z
+    .object({
+      type: z.literal("regex"),
+      pattern: z.string().min(1),
+      flags: z
+        .string()
+        .regex(/^[imsu]*$/, "Only i, m, s and u flags are allowed")
+        .optional(),
+    })
+    .strict()
+    .superRefine((parser, context) => {
+      try {
+        // The empty alternative matches, exposing every named group
+        const { groups } = new RegExp(`(?:${parser.pattern})|`).exec("")!;
+        if (!groups || !("message" in groups)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["pattern"],
+            message: "Pattern needs a named group 'message'",
+          });
+        }
+      } catch (error) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["pattern"],
+          message: `Invalid regular expression: ${error}`,
+        });
+      }
+    }),
+]);
+
+/**
+ * Violation sources a configured tool or report may report under
+ * Limited to the sources the violation database stores, so their findings
+ * are tracked like those of the built-in engines.
+ */
+export const ViolationSourceSchema = z.enum([
+  "typescript",
+  "eslint",
+  "unused-exports",
+  "complexity",
+  "circular-dependency",
+  "architecture",
+  "dependencies",
+  "zod-detection",
+  "custom",
+]);
+
+/**
+ * Categories a configured tool or report may assign its findings
+ */
+export const ViolationCategorySchema = z.enum([
+  "type-alias",
+  "annotation",
+  "cast",
+  "record-type",
+  "generic-unknown",
+  "unknown-reference",
+  "branded-type",
+  "generic-constraint",
+  "module-resolution",
+  "unused-code",
+  "null-safety",
+  "inheritance",
+  "index-access",
+  "strict-config",
+  "setup-issue",
+  "code-quality",
+  "style",
+  "architecture",
+  "modernization",
+  "unused-vars",
+  "best-practices",
+  "legacy-type-rule",
+  "return-type",
+  "no-explicit-any",
+  "other-eslint",
+  "type-quality",
+  "async-issues",
+  "custom-script-summary",
+  "syntax-error",
+  "parse-error",
+  "import-error",
+  "complexity",
+  "maintainability",
+  "security",
+  "performance",
+  "dead-code",
+  "code-duplication",
+  "circular-dependency",
+  "architecture-violation",
+  "dependency-hygiene",
+  "other",
+]);
+
+/**
+ * External command engine entry
+ */
+export const CommandToolSchema = z
+  .object({
+    name: z.string().min(1),
+    command: z.string().min(1),
+    parser: CommandParserSchema,
+    /** Working directory, relative to the project config */
+    cwd: z.string().optional(),
+    /** Read the report from this file instead of stdout */
+    outputFile: z.string().optional(),
+    timeout: z.number().int().positive().optional(),
+    enabled: z.boolean().optional(),
+    source: ViolationSourceSchema.optional(),
+    /** Category for findings without a more specific mapping */
+    category: ViolationCategorySchema.optional(),
+    /** Rule glob to category, e.g. { "color-*": "style" } */
+    categories: z.record(ViolationCategorySchema).optional(),
+    /** Severity for findings that report none */
+    severity: z.enum(["error", "warn", "info"]).optional(),
+  })
+  .strict();
+
+export type ValidatedCommandTool = z.infer<typeof CommandToolSchema>;
+
+/**
+ * Report import entry: a file glob, or one with an explicit format, source
+ * and category
+ */
+export const ReportImportSchema = z.union([
+  z.string().min(1),
+  z
+    .object({
+      path: z.string().min(1),
+      format: z.enum(["sarif", "eslint-json"]).optional(),
+      source: ViolationSourceSchema.optional(),
+      category: ViolationCategorySchema.optional(),
+    })
+    .strict(),
+]);
+
+export type ValidatedReportImport = z.infer<typeof ReportImportSchema>;
+
+/**
+ * Dependency hygiene settings
+ */
+export const DependencyConfigSchema = z
+  .object({
+    /** Package name globs that are never reported */
+    ignore: z.array(z.string()).optional(),
+    /** More globs of development-only files, relative to each package */
+    devFiles: z.array(z.string()).optional(),
+  })
+  .strict();
+
+export type ValidatedDependencyConfig = z.infer<typeof DependencyConfigSchema>;
+
+/**
+ * Project config file schema (sidequest.config.json)
+ */
+export const ProjectConfigSchema = z
+  .object({
+    architecture: ArchitectureConfigSchema.optional(),
+    plugins: z.array(PluginEntrySchema).optional(),
+    commands: z.array(CommandToolSchema).optional(),
+    reports: z.array(ReportImportSchema).optional(),
+    dependencies: DependencyConfigSchema.optional(),
+  })
+  .strict();
+
+export type ValidatedProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
 // User preferences use manual JSON parsing for now
 // Ripgrep validation not implemented yet
 
@@ -230,7 +691,7 @@ export type ValidatedPackageJson = z.infer<typeof PackageJsonSchema>;
  */
 export function safeJsonParse<T>(
   json: string,
-  schema: z.ZodSchema<T>,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
   context: string = "unknown",
 ): T {
   try {
@@ -282,6 +743,35 @@ export function safeEnvironmentAccess(): ValidatedEnvironment {
   return result.data;
 }
 
+/**
+ * Read the numeric value following a flag
+ * Non-numeric values become NaN and are rejected by the schema
+ */
+function parseNumericFlag(
+  arguments_: string[],
+  flag: string,
+): number | undefined {
+  const flagIndex = arguments_.indexOf(flag);
+  if (flagIndex === -1) {
+    return; // Flag not provided
+  }
+  return Number(arguments_[flagIndex + 1] ?? Number.NaN);
+}
+
+/**
+ * Read the value following a flag
+ */
+function parseValueFlag(
+  arguments_: string[],
+  flag: string,
+): string | undefined {
+  const flagIndex = arguments_.indexOf(flag);
+  if (flagIndex === -1) {
+    return; // Flag not provided
+  }
+  return arguments_[flagIndex + 1];
+}
+
 /**
  * Safe CLI arguments parsing with validation
  * Validates command-line arguments to prevent injection
@@ -299,6 +789,19 @@ export function safeCLIArgumentsParse(arguments_: string[]): ValidatedCLIFlags {
     eslintOnly: arguments_.includes("--eslint-only"),
     archaeology: arguments_.includes("--archaeology"),
     includeArchaeology: arguments_.includes("--include-archaeology"),
+    complexity: arguments_.includes("--complexity"),
+    circular: arguments_.includes("--circular"),
+    architecture: arguments_.includes("--architecture"),
+    commands: arguments_.includes("--commands"),
+    importReports: (() => {
+      if (!arguments_.includes("--import-reports")) {
+        return; // No --import-reports flag provided
+      }
+      const glob = parseValueFlag(arguments_, "--import-reports");
+      // Without a glob the project config's "reports" are used
+      return glob && !glob.startsWith("--") ? glob : "";
+    })(),
+    dependencies: arguments_.includes("--dependencies"),
     externalProject: arguments_.includes("--external-project"),
     targetPath: (() => {
       const pathIndex = arguments_.indexOf("--path");
@@ -307,6 +810,9 @@ export function safeCLIArgumentsParse(arguments_: string[]): ValidatedCLIFlags {
       }
       return ".";
     })(),
+    workspaces: arguments_.includes("--workspaces"),
+    blame: arguments_.includes("--blame"),
+    owners: arguments_.includes("--owners"),
     verbose: arguments_.includes("--verbose"),
     strict: arguments_.includes("--strict"),
     noCrossoverCheck: arguments_.includes("--no-crossover-check"),
@@ -328,6 +834,33 @@ export function safeCLIArgumentsParse(arguments_: string[]): ValidatedCLIFlags {
       return "./data";
     })(),
     generatePRD: arguments_.includes("--prd"),
+    format: (() => {
+      const formatIndex = arguments_.indexOf("--format");
+      if (formatIndex !== -1 && formatIndex + 1 < arguments_.length) {
+        return arguments_[formatIndex + 1];
+      }
+      return "console";
+    })(),
+    outputFile: parseValueFlag(arguments_, "--output"),
+    baselineFile: parseValueFlag(arguments_, "--baseline"),
+    updateBaseline: arguments_.includes("--update-baseline"),
+    gateFile: parseValueFlag(arguments_, "--gate"),
+    suppressionsFile: parseValueFlag(arguments_, "--suppressions"),
+    waive: arguments_.includes("--waive"),
+    listWaivers: arguments_.includes("--waivers"),
+    waiverFingerprint: parseValueFlag(arguments_, "--fingerprint"),
+    waiverRule: parseValueFlag(arguments_, "--rule"),
+    waiverPath: parseValueFlag(arguments_, "--file"),
+    waiverReason: parseValueFlag(arguments_, "--reason"),
+    waiverOwner: parseValueFlag(arguments_, "--owner"),
+    waiverUntil: parseValueFlag(arguments_, "--until"),
+    maxViolations: parseNumericFlag(arguments_, "--max-violations"),
+    maxErrors: parseNumericFlag(arguments_, "--max-errors"),
+    maxWarnings: parseNumericFlag(arguments_, "--max-warnings"),
+    noNewErrors: arguments_.includes("--no-new-errors"),
+    changedSince: parseValueFlag(arguments_, "--changed-since"),
+    staged: arguments_.includes("--staged"),
+    changedLines: arguments_.includes("--changed-lines"),
     installShortcuts: arguments_.includes("--install-shortcuts"),
     configAction: (() => {
       const configIndex = arguments_.indexOf("--config");
@@ -340,6 +873,21 @@ export function safeCLIArgumentsParse(arguments_: string[]): ValidatedCLIFlags {
       }
       return "show"; // Default to show if just --config
     })(),
+    queryTerms: (() => {
+      const queryIndex = arguments_.indexOf("--query");
+      if (queryIndex === -1) {
+        return; // No --query flag provided
+      }
+      // Every key=value term up to the next flag
+      const terms: string[] = [];
+      for (const argument of arguments_.slice(queryIndex + 1)) {
+        if (argument.startsWith("--")) {
+          break;
+        }
+        terms.push(argument);
+      }
+      return terms;
+    })(),
   };
 
   const result = CLIFlagsSchema.safeParse(flags);
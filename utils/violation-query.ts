@@ -0,0 +1,400 @@
+/**
+ * @fileoverview Violation Query
+ *
+ * Parses `--query` terms such as `rule=no-explicit-any severity=error
+ * path=src/** group=owner format=csv` into a storage query, groups the
+ * stored rows it returns and renders them as a table, JSON or CSV, so
+ * ad-hoc questions about the violation database need no SQLite client.
+ */
+
+import type {
+  Violation as DatabaseViolation,
+  ViolationQuery,
+  ViolationSortField,
+} from "../database/types.js";
+import { parseOwners } from "../database/utils.js";
+import {
+  ViolationQueryTermsSchema,
+  type ValidatedViolationQueryTerms,
+} from "./validation-schemas.js";
+
+// ============================================================================
+// Query Types
+// ============================================================================
+
+export type QueryFormat = "table" | "json" | "csv";
+export type QueryGroupField = NonNullable<
+  ValidatedViolationQueryTerms["group"]
+>;
+type GroupSortField = "key" | "count" | "files" | "first_seen" | "last_seen";
+
+export interface ParsedViolationQuery {
+  query: ViolationQuery;
+  groupBy?: QueryGroupField;
+  /** Group order; count, largest first, when absent */
+  groupSort?: { field: GroupSortField; descending: boolean };
+  /** Most groups to return */
+  groupLimit?: number;
+  format: QueryFormat;
+}
+
+/**
+ * Stored violation as the query command reports it
+ */
+export interface QueryRow {
+  file: string;
+  line: number | null;
+  column: number | null;
+  rule: string;
+  category: string;
+  source: string;
+  severity: string;
+  status: string;
+  message: string;
+  owners: string[];
+  author: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  fingerprint: string;
+}
+
+export interface QueryGroup {
+  key: string;
+  count: number;
+  affected_files: number;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+const ROW_SORT_FIELDS = new Set<string>([
+  "file",
+  "rule",
+  "category",
+  "source",
+  "severity",
+  "status",
+  "first_seen",
+  "last_seen",
+]);
+const GROUP_SORT_FIELDS = new Set<string>([
+  "key",
+  "count",
+  "files",
+  "first_seen",
+  "last_seen",
+]);
+const LIST_TERMS = new Set([
+  "rule",
+  "category",
+  "source",
+  "severity",
+  "status",
+  "owner",
+]);
+
+/** Largest groups first */
+const DEFAULT_GROUP_SORT = { field: "count", descending: true } as const;
+
+/** Group key for rows without owners or blame */
+const UNOWNED = "(unowned)";
+const UNKNOWN_AUTHOR = "(unknown)";
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Turn `key=value` terms into a query
+ * Without a status term only active violations are returned; `status=all`
+ * returns every status. `sort=-field` sorts descending.
+ */
+export function parseQueryTerms(
+  terms: string[],
+  defaultFormat: QueryFormat = "table",
+): ParsedViolationQuery {
+  const raw: Record<string, string | string[]> = {};
+  for (const term of terms) {
+    const separator = term.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`Invalid query term "${term}" (expected key=value)`);
+    }
+    const key = term.slice(0, separator);
+    const value = term.slice(separator + 1);
+    raw[key] = LIST_TERMS.has(key)
+      ? value.split(",").map((item) => item.trim())
+      : value;
+  }
+
+  const result = ViolationQueryTermsSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(
+      `Invalid query: ${result.error.issues
+        .map((issue) => `${issue.path.join(".") || "terms"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  const validated = result.data;
+
+  const descending = validated.sort?.startsWith("-") ?? false;
+  const sortField = validated.sort?.replace(/^-/, "");
+  const sortFields = validated.group ? GROUP_SORT_FIELDS : ROW_SORT_FIELDS;
+  if (sortField && !sortFields.has(sortField)) {
+    throw new Error(
+      `Invalid query: cannot sort ${validated.group ? "groups" : "violations"} by "${sortField}" (use ${[...sortFields].join(", ")})`,
+    );
+  }
+
+  const statuses = validated.status ?? ["active"];
+  const query: ViolationQuery = {
+    ...(validated.rule && { rule_ids: validated.rule }),
+    ...(validated.category && { categories: validated.category }),
+    ...(validated.source && { sources: validated.source }),
+    ...(validated.severity && { severities: validated.severity }),
+    ...(!statuses.includes("all") && {
+      statuses: statuses.filter((status) => status !== "all"),
+    }),
+    ...(validated.path && { path: validated.path }),
+    ...(validated.owner && { owners: validated.owner }),
+    ...(validated.since && { first_seen_from: validated.since }),
+    ...(validated.until && { first_seen_to: validated.until }),
+    ...(!validated.group &&
+      sortField && {
+        sort: sortField as ViolationSortField,
+        descending,
+      }),
+    // Groups are limited after grouping
+    ...(!validated.group && validated.limit && { limit: validated.limit }),
+  };
+
+  return {
+    query,
+    ...(validated.group && { groupBy: validated.group }),
+    ...(validated.group &&
+      sortField && {
+        groupSort: { field: sortField as GroupSortField, descending },
+      }),
+    ...(validated.group && validated.limit && { groupLimit: validated.limit }),
+    format: validated.format ?? defaultFormat,
+  };
+}
+
+// ============================================================================
+// Rows and Groups
+// ============================================================================
+
+/**
+ * Stored timestamps as ISO strings; CURRENT_TIMESTAMP values are UTC
+ */
+function toIsoTimestamp(value: string): string {
+  const normalized = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)
+    ? `${value.replace(" ", "T")}Z`
+    : value;
+  const date = new Date(normalized);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+export function toQueryRow(violation: DatabaseViolation): QueryRow {
+  return {
+    file: violation.file_path,
+    line: violation.line_number,
+    column: violation.column_number,
+    rule: violation.rule_id,
+    category: violation.category,
+    source: violation.source,
+    severity: violation.severity,
+    status: violation.status,
+    message: violation.message,
+    owners: parseOwners(violation.owners),
+    author: violation.blame_author,
+    first_seen_at: toIsoTimestamp(violation.first_seen_at),
+    last_seen_at: toIsoTimestamp(violation.last_seen_at),
+    fingerprint: violation.hash,
+  };
+}
+
+function groupKeys(row: QueryRow, field: QueryGroupField): string[] {
+  switch (field) {
+    case "owner": {
+      return row.owners.length > 0 ? row.owners : [UNOWNED];
+    }
+    case "author": {
+      return [row.author ?? UNKNOWN_AUTHOR];
+    }
+    default: {
+      return [row[field]];
+    }
+  }
+}
+
+function compareGroups(
+  a: QueryGroup,
+  b: QueryGroup,
+  field: GroupSortField,
+): number {
+  switch (field) {
+    case "key": {
+      return a.key.localeCompare(b.key);
+    }
+    case "count": {
+      return a.count - b.count;
+    }
+    case "files": {
+      return a.affected_files - b.affected_files;
+    }
+    case "first_seen": {
+      return a.first_seen_at.localeCompare(b.first_seen_at);
+    }
+    case "last_seen": {
+      return a.last_seen_at.localeCompare(b.last_seen_at);
+    }
+  }
+}
+
+/**
+ * Count rows per group value
+ * A row with several owners counts for each of them.
+ */
+export function groupQueryRows(
+  rows: QueryRow[],
+  field: QueryGroupField,
+  sort: ParsedViolationQuery["groupSort"] = DEFAULT_GROUP_SORT,
+  limit?: number,
+): QueryGroup[] {
+  const groups = new Map<string, QueryGroup & { files: Set<string> }>();
+  for (const row of rows) {
+    for (const key of groupKeys(row, field)) {
+      const group = groups.get(key) ?? {
+        key,
+        count: 0,
+        affected_files: 0,
+        first_seen_at: row.first_seen_at,
+        last_seen_at: row.last_seen_at,
+        files: new Set<string>(),
+      };
+      group.count++;
+      group.files.add(row.file);
+      if (row.first_seen_at < group.first_seen_at) {
+        group.first_seen_at = row.first_seen_at;
+      }
+      if (row.last_seen_at > group.last_seen_at) {
+        group.last_seen_at = row.last_seen_at;
+      }
+      groups.set(key, group);
+    }
+  }
+
+  const sorted = [...groups.values()]
+    .map(({ files, ...group }) => ({ ...group, affected_files: files.size }))
+    .sort(
+      (a, b) =>
+        (sort.descending ? -1 : 1) * compareGroups(a, b, sort.field) ||
+        a.key.localeCompare(b.key),
+    );
+  return limit ? sorted.slice(0, limit) : sorted;
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+function csvCell(value: unknown): string {
+  const text = Array.isArray(value)
+    ? value.join(";")
+    : value === null || value === undefined
+      ? ""
+      : String(value);
+  return /[\n\r",]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function toCsv(records: Array<QueryRow | QueryGroup>): string {
+  if (records.length === 0) {
+    return "";
+  }
+  const columns = Object.keys(records[0]!);
+  const lines = [
+    columns.join(","),
+    ...records.map((record) =>
+      columns
+        .map((column) => csvCell(record[column as keyof typeof record]))
+        .join(","),
+    ),
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+function toTable(header: string[], cells: string[][]): string {
+  const widths = header.map((title, index) =>
+    Math.max(title.length, ...cells.map((row) => row[index]!.length)),
+  );
+  const render = (row: string[]): string =>
+    row
+      .map((cell, index) => cell.padEnd(widths[index]!))
+      .join("  ")
+      .trimEnd();
+  return [
+    render(header),
+    render(widths.map((width) => "-".repeat(width))),
+    ...cells.map((row) => render(row)),
+  ].join("\n");
+}
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replaceAll(/\s+/g, " ");
+  return singleLine.length > length
+    ? `${singleLine.slice(0, length - 1)}…`
+    : singleLine;
+}
+
+/**
+ * Render query results in the requested format
+ */
+export function formatQueryResults(
+  results: QueryRow[] | QueryGroup[],
+  format: QueryFormat,
+  groupBy?: QueryGroupField,
+): string {
+  if (format === "json") {
+    return `${JSON.stringify(results, undefined, 2)}\n`;
+  }
+  if (format === "csv") {
+    return toCsv(results);
+  }
+
+  if (groupBy) {
+    const groups = results as QueryGroup[];
+    const table = toTable(
+      [groupBy, "count", "files", "first seen", "last seen"],
+      groups.map((group) => [
+        group.key,
+        String(group.count),
+        String(group.affected_files),
+        group.first_seen_at.slice(0, 10),
+        group.last_seen_at.slice(0, 10),
+      ]),
+    );
+    return `${table}\n\n${groups.length} group(s)\n`;
+  }
+
+  const rows = results as QueryRow[];
+  const table = toTable(
+    [
+      "severity",
+      "rule",
+      "location",
+      "status",
+      "first seen",
+      "owners",
+      "message",
+    ],
+    rows.map((row) => [
+      row.severity,
+      row.rule,
+      row.line ? `${row.file}:${row.line}` : row.file,
+      row.status,
+      row.first_seen_at.slice(0, 10),
+      row.owners.join(","),
+      truncate(row.message, 60),
+    ]),
+  );
+  return `${table}\n\n${rows.length} violation(s)\n`;
+}
@@ -29,6 +29,92 @@ export interface Violation {
   message?: string;
   /** Suggested fix or action to resolve */
   fixSuggestion?: string;
+  /** Structured compiler diagnostic, when the engine has one */
+  diagnostic?: DiagnosticDetails;
+  /** Structured lint message data, when the engine has it */
+  lint?: LintDetails;
+  /** Workspace package the file belongs to, in workspaces mode */
+  package?: string;
+  /** Last commit that touched the line, with blame enrichment */
+  blame?: ViolationBlame;
+  /** CODEOWNERS owners (users, teams or emails) of the file */
+  owners?: string[];
+  /** Identity across runs, assigned by the orchestrator */
+  fingerprint?: ViolationFingerprint;
+}
+
+/**
+ * Line-independent identity of a violation
+ */
+export interface ViolationFingerprint {
+  /** SHA-256 of rule, file, code context and occurrence */
+  hash: string;
+  /** SHA-256 of the normalized code around the violation */
+  contextHash: string;
+  /** Index among identical violations in the same file, in file order */
+  occurrence: number;
+}
+
+/**
+ * Author and commit that last changed a violation's line
+ */
+export interface ViolationBlame {
+  author: string;
+  email?: string;
+  commit: string;
+  /** Author date as an ISO string */
+  date: string;
+}
+
+/**
+ * Location and message of a diagnostic's related information entry
+ */
+export interface RelatedDiagnostic {
+  /** Relative file path, absent for global diagnostics */
+  file?: string;
+  line?: number;
+  column?: number;
+  /** Character offset into the file */
+  start?: number;
+  length?: number;
+  message: string;
+}
+
+/**
+ * A replacement of the character range [start, end) with new text
+ */
+export interface TextEdit {
+  range: [number, number];
+  text: string;
+}
+
+/**
+ * Lint message data as reported by the ESLint API
+ */
+export interface LintDetails {
+  /** 1-based end of the reported range */
+  endLine?: number;
+  endColumn?: number;
+  /** Autofix ESLint would apply with --fix */
+  fix?: TextEdit;
+  /** Editor suggestions that are not applied automatically */
+  suggestions?: Array<{ description: string; fix: TextEdit }>;
+}
+
+/**
+ * Compiler diagnostic data as reported by the TypeScript API
+ */
+export interface DiagnosticDetails {
+  /** Numeric diagnostic code (2322 for TS2322) */
+  code: number;
+  /** Character offset into the file */
+  start?: number;
+  length?: number;
+  /** Full message including the elaboration chain */
+  messageText: string;
+  relatedInformation?: RelatedDiagnostic[];
+  /** tsconfig of the referenced project that reported it, for `tsc --build` checks */
+  project?: string;
 }
 
 /**
@@ -80,8 +166,9 @@ export type ViolationCategory =
   // Code archaeology categories
   | "dead-code" // Unused exports, unreachable code
   | "code-duplication" // Duplicate code blocks
-  | "circular-dependency" // Circular import chains (future)
-  | "architecture-violation" // Cross-layer imports, rule violations (future)
+  | "circular-dependency" // Circular import chains
+  | "architecture-violation" // Cross-layer imports, rule violations
+  | "dependency-hygiene" // Unused, undeclared or misplaced package dependencies
   // Generic fallback
   | "other";
 
@@ -126,6 +213,9 @@ export type ViolationSource =
   | "unused-exports"
   | "parser"
   | "complexity"
+  | "circular-dependency"
+  | "architecture"
+  | "dependencies"
   | "zod-detection"
   | "security"
   | "performance"
@@ -164,6 +254,29 @@ export interface EngineResult {
   error?: string;
   /** Additional metadata from the engine */
   metadata?: Record<string, unknown>;
+  /** Workspace package the engine ran on, in workspaces mode */
+  package?: string;
+}
+
+/**
+ * Restricts reported violations to a set of files (and optionally lines),
+ * typically the files changed on a branch or staged for commit
+ */
+export interface AnalysisScope {
+  /** How the scope was computed, e.g. "changes since main" */
+  description: string;
+  /** In-scope files, relative to the working directory */
+  files: string[];
+  /** When present, only violations on these 1-based [start, end] line ranges are kept */
+  changedLines?: Record<string, Array<[number, number]>>;
+}
+
+/**
+ * Per-run options for orchestrator analysis
+ */
+export interface AnalysisOptions {
+  /** Limit reporting (and ESLint linting) to these files */
+  scope?: AnalysisScope | undefined;
 }
 
 /**
@@ -180,6 +293,47 @@ export interface OrchestratorResult {
   summary: ViolationSummary;
   /** Analysis timestamp */
   timestamp: string;
+  /** ESLint/TypeScript crossover warnings, when crossover detection ran */
+  crossoverWarnings?: CrossoverWarning[];
+  /** File scope the analysis was limited to, if any */
+  scope?: AnalysisScope;
+  /** Waived violations and stale waivers, when a suppressions file was applied */
+  suppressions?: SuppressionReport;
+}
+
+/**
+ * Committed waiver for violations, matched by fingerprint, rule and path
+ * glob; every field given must match
+ */
+export interface Suppression {
+  /** Fingerprint hash of a single violation */
+  fingerprint?: string;
+  /** Rule ID, e.g. "no-explicit-any" or "TS2322" */
+  rule?: string;
+  /** Glob relative to the suppressions file, e.g. "src/legacy/**" */
+  path?: string;
+  /** Why the violation is accepted */
+  reason: string;
+  /** Who is accountable for the waiver */
+  owner?: string;
+  /** Last valid day (YYYY-MM-DD), or the project version it lapses at */
+  until?: string;
+  /** When `--waive` added the waiver, as an ISO string */
+  createdAt?: string;
+}
+
+/**
+ * Outcome of applying a suppressions file to an analysis
+ */
+export interface SuppressionReport {
+  /** Suppressions file, as configured */
+  file: string;
+  /** Violations left out of the results, with the waiver covering each */
+  suppressed: Array<{ violation: Violation; suppression: Suppression }>;
+  /** Waivers past their `until`; their violations are reported again */
+  expired: Suppression[];
+  /** Current waivers that matched nothing (not computed for scoped runs) */
+  unused: Suppression[];
 }
 
 /**
@@ -196,6 +350,10 @@ export interface ViolationSummary {
   byCategory: Record<ViolationCategory, number>;
   /** Top violated files */
   topFiles: Array<{ file: string; count: number }>;
+  /** Breakdown by workspace package, in workspaces mode */
+  byPackage?: Record<string, number>;
+  /** Breakdown by CODEOWNERS owner or team; shared files count for each */
+  byOwner?: Record<string, number>;
 }
 
 /**
@@ -310,13 +468,17 @@ export function getCategoryLabel(category: ViolationCategory): string {
 // =============================================================================
 
 /**
- * Dead code violation details for unused exports and unreachable code
+ * Dead code violation details for unused exports, files and unreachable code
  */
 export interface DeadCodeViolation extends Violation {
   category: "dead-code";
   source: "archaeology";
   /** Type of dead code detected */
-  deadCodeType: "unused-export" | "unreachable-code" | "unused-import";
+  deadCodeType:
+    | "unused-export"
+    | "unused-file"
+    | "unreachable-code"
+    | "unused-import";
   /** Confidence level of detection (0-1) */
   confidence: number;
   /** Additional metadata for dead code analysis */
@@ -358,9 +520,42 @@ export interface CodeDuplicationViolation extends Violation {
       | "pattern-matching";
     /** Estimated effort to fix (low/medium/high) */
     fixEffort: "low" | "medium" | "high";
+    /** Clone class this block belongs to, with every member's location */
+    cloneClass?: {
+      id: string;
+      members: Array<{ file: string; startLine: number; endLine: number }>;
+    };
   };
 }
 
+// =============================================================================
+// DEPENDENCY GRAPH VIOLATION TYPES
+// =============================================================================
+
+/**
+ * Import cycle violation, reported at the cycle's first module
+ */
+export interface CircularDependencyViolation extends Violation {
+  category: "circular-dependency";
+  source: "circular-dependency";
+  /** Modules in import order; the last one imports the first */
+  cycle: string[];
+}
+
+/**
+ * Package dependency problem, reported at the first import or, for unused
+ * dependencies, at the package.json entry
+ */
+export interface DependencyViolation extends Violation {
+  category: "dependency-hygiene";
+  source: "dependencies";
+  packageName: string;
+  /** package.json the problem belongs to */
+  manifest: string;
+  /** Files importing the package */
+  importers: string[];
+}
+
 /**
  * Comprehensive archaeology report for code quality analysis
  */
@@ -382,6 +577,8 @@ export interface ArchaeologyReport {
   deadCode: {
     /** List of unused exports */
     unusedExports: DeadCodeViolation[];
+    /** Files not reachable from any entry point */
+    unusedFiles: DeadCodeViolation[];
     /** Unreachable code blocks */
     unreachableCode: DeadCodeViolation[];
     /** Unused imports */
@@ -420,6 +617,8 @@ export interface ArchaeologyReport {
     complexityScore: number;
     /** Maintainability index (0-100) */
     maintainabilityIndex: number;
+    /** Per-file maintainability index (0-100), keyed by relative path */
+    fileMaintainability?: Record<string, number>;
   };
 }
 
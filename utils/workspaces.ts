@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Workspace Discovery
+ *
+ * Finds the packages of an npm/yarn (`workspaces` in package.json) or pnpm
+ * (pnpm-workspace.yaml) workspace, and which package a file belongs to.
+ */
+
+import * as fs from "node:fs";
+import path from "node:path";
+import { matchesGlob } from "./glob.js";
+import {
+  PackageJsonSchema,
+  type ValidatedPackageJson,
+} from "./validation-schemas.js";
+
+/**
+ * A package listed by a workspace root
+ */
+export interface WorkspacePackage {
+  /** package.json name, or the directory relative to the root when unnamed */
+  name: string;
+  /** Absolute package directory */
+  directory: string;
+}
+
+// Never searched for workspace packages
+const SKIPPED_DIRECTORIES = new Set([
+  "node_modules",
+  ".git",
+  "dist",
+  "build",
+  "coverage",
+]);
+
+export function isInsideDirectory(
+  directory: string,
+  fileName: string,
+): boolean {
+  const relative = path.relative(directory, fileName);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Nearest directory at or above a start directory with a package.json
+ * Falls back to the start directory when there is none.
+ */
+export function findPackageDirectory(startDirectory: string): string {
+  let directory = path.resolve(startDirectory);
+  while (!fs.existsSync(path.join(directory, "package.json"))) {
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return path.resolve(startDirectory);
+    }
+    directory = parent;
+  }
+  return directory;
+}
+
+/**
+ * Read and validate a package.json, keeping its text for line lookups
+ */
+export function readPackageManifest(manifestPath: string): {
+  manifest: ValidatedPackageJson;
+  manifestText: string;
+} {
+  const manifestText = fs.readFileSync(manifestPath, "utf8");
+  const parsed = PackageJsonSchema.safeParse(JSON.parse(manifestText));
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid ${manifestPath}: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`,
+    );
+  }
+  return { manifest: parsed.data, manifestText };
+}
+
+/**
+ * Workspace globs from package.json and pnpm-workspace.yaml
+ */
+export function readWorkspacePatterns(
+  directory: string,
+  manifest: ValidatedPackageJson,
+): string[] {
+  const { workspaces } = manifest;
+  const patterns = Array.isArray(workspaces)
+    ? [...workspaces]
+    : [...(workspaces?.packages ?? [])];
+
+  const pnpmWorkspacePath = path.join(directory, "pnpm-workspace.yaml");
+  if (fs.existsSync(pnpmWorkspacePath)) {
+    let inPackages = false;
+    for (const line of fs.readFileSync(pnpmWorkspacePath, "utf8").split("\n")) {
+      if (line.startsWith("packages:")) {
+        inPackages = true;
+      } else if (/^\S/.test(line)) {
+        inPackages = false;
+      } else if (inPackages) {
+        const item = /^\s+-\s*["']?([^"#']+?)["']?\s*(?:#.*)?$/.exec(line);
+        if (item?.[1]) {
+          patterns.push(item[1]);
+        }
+      }
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Whether a directory is one a workspace glob names
+ * "packages/*" names packages/a, not packages/a/src, which the plain glob
+ * match would also accept.
+ */
+function matchesWorkspacePattern(directory: string, pattern: string): boolean {
+  if (!matchesGlob(directory, [pattern])) {
+    return false;
+  }
+  const parent = path.posix.dirname(directory);
+  return (
+    pattern.includes("**") || parent === "." || !matchesGlob(parent, [pattern])
+  );
+}
+
+/**
+ * Directories of the packages a workspace root lists
+ */
+export function findWorkspaceDirectories(
+  rootDirectory: string,
+  patterns: string[],
+): string[] {
+  const included = patterns.filter((pattern) => !pattern.startsWith("!"));
+  const excluded = patterns
+    .filter((pattern) => pattern.startsWith("!"))
+    .map((pattern) => pattern.slice(1));
+  const maxDepth = included.some((pattern) => pattern.includes("**"))
+    ? Number.POSITIVE_INFINITY
+    : Math.max(0, ...included.map((pattern) => pattern.split("/").length));
+
+  const directories: string[] = [];
+  const visit = (directory: string, depth: number): void => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory() || SKIPPED_DIRECTORIES.has(entry.name)) {
+        continue;
+      }
+      const entryPath = path.join(directory, entry.name);
+      const relative = path
+        .relative(rootDirectory, entryPath)
+        .split(path.sep)
+        .join("/");
+      if (
+        included.some((pattern) =>
+          matchesWorkspacePattern(relative, pattern),
+        ) &&
+        !matchesGlob(relative, excluded) &&
+        fs.existsSync(path.join(entryPath, "package.json"))
+      ) {
+        directories.push(entryPath);
+      }
+      if (depth + 1 < maxDepth) {
+        visit(entryPath, depth + 1);
+      }
+    }
+  };
+  visit(rootDirectory, 0);
+  return directories.sort();
+}
+
+/**
+ * The workspace root listing a package, or the package itself
+ */
+export function findWorkspaceRoot(packageDirectory: string): string {
+  let directory = path.dirname(packageDirectory);
+  while (directory !== path.dirname(directory)) {
+    const manifestPath = path.join(directory, "package.json");
+    if (fs.existsSync(manifestPath)) {
+      try {
+        const { manifest } = readPackageManifest(manifestPath);
+        if (
+          findWorkspaceDirectories(
+            directory,
+            readWorkspacePatterns(directory, manifest),
+          ).includes(packageDirectory)
+        ) {
+          return directory;
+        }
+      } catch {
+        // Not a workspace root we can read
+      }
+    }
+    directory = path.dirname(directory);
+  }
+  return packageDirectory;
+}
+
+/**
+ * Workspace packages under a directory
+ *
+ * The directory may be the workspace root, a folder of packages or a single
+ * package. Empty when the directory is not part of a workspace.
+ */
+export function discoverWorkspacePackages(
+  directory: string,
+): WorkspacePackage[] {
+  const target = path.resolve(directory);
+  const rootDirectory = findWorkspaceRoot(findPackageDirectory(target));
+  const rootManifestPath = path.join(rootDirectory, "package.json");
+  if (!fs.existsSync(rootManifestPath)) {
+    return [];
+  }
+
+  const { manifest } = readPackageManifest(rootManifestPath);
+  return findWorkspaceDirectories(
+    rootDirectory,
+    readWorkspacePatterns(rootDirectory, manifest),
+  )
+    .filter(
+      (packageDirectory) =>
+        isInsideDirectory(target, packageDirectory) ||
+        isInsideDirectory(packageDirectory, target),
+    )
+    .map((packageDirectory) => {
+      let name: string | undefined;
+      try {
+        name = readPackageManifest(path.join(packageDirectory, "package.json"))
+          .manifest.name;
+      } catch {
+        // Fall back to the directory name below
+      }
+      return {
+        name:
+          name ??
+          path
+            .relative(rootDirectory, packageDirectory)
+            .split(path.sep)
+            .join("/"),
+        directory: packageDirectory,
+      };
+    });
+}
+
+/**
+ * The innermost package containing a file (absolute, or relative to the
+ * working directory)
+ */
+export function findOwningPackage(
+  packages: WorkspacePackage[],
+  fileName: string,
+): WorkspacePackage | undefined {
+  const absolute = path.resolve(fileName);
+  let owner: WorkspacePackage | undefined;
+  for (const candidate of packages) {
+    if (
+      isInsideDirectory(candidate.directory, absolute) &&
+      (!owner || candidate.directory.length > owner.directory.length)
+    ) {
+      owner = candidate;
+    }
+  }
+  return owner;
+}